@@ -0,0 +1,24 @@
+// Copies the OCR engine and English model used by the verify-receipt edge function out of
+// node_modules. Run `npm run ocr:assets` before `supabase functions deploy verify-receipt`;
+// the files are served to the function through static_files in supabase/config.toml.
+import { copyFileSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { gunzipSync } from "node:zlib";
+
+const require = createRequire(import.meta.url);
+const targetDir = join(dirname(fileURLToPath(import.meta.url)), "..", "supabase", "functions", "verify-receipt", "ocr");
+
+// tesseract-wasm only exports its JS entry point, which sits next to the wasm builds
+const wasmDir = dirname(require.resolve("tesseract-wasm"));
+const modelDir = dirname(require.resolve("@tesseract.js-data/eng"));
+
+mkdirSync(targetDir, { recursive: true });
+copyFileSync(join(wasmDir, "tesseract-core.wasm"), join(targetDir, "tesseract-core.wasm"));
+writeFileSync(
+  join(targetDir, "eng.traineddata"),
+  gunzipSync(readFileSync(join(modelDir, "4.0.0_best_int", "eng.traineddata.gz")))
+);
+
+console.log(`OCR assets copied to ${targetDir}`);
@@ -24,6 +24,8 @@ import ProtectedRoute from "./components/ProtectedRoute";
 import ListAndGetPOS from "./pages/ListAndGetPOS";
 import UserDashboard from "./pages/UserDashboard";
 import ManageBookings from "./pages/ManageBookings";
+import BookingInbox from "./pages/BookingInbox";
+import CheckIn from "./pages/CheckIn";
 import FindJobs from "./pages/FindJobs";
 import PostAJob from "./pages/PostAJob";
 import ServiceAvailability from "./pages/ServiceAvailability";
@@ -81,6 +83,16 @@ const App = () => (
                 <ManageBookings />
               </ProtectedRoute>
             } />
+            <Route path="/booking-inbox" element={
+              <ProtectedRoute>
+                <BookingInbox />
+              </ProtectedRoute>
+            } />
+            <Route path="/check-in" element={
+              <ProtectedRoute>
+                <CheckIn />
+              </ProtectedRoute>
+            } />
             <Route path="/saved" element={
               <ProtectedRoute>
                 <SavedListings />
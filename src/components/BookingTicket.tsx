@@ -0,0 +1,102 @@
+import { useEffect, useState } from "react";
+import QRCode from "qrcode";
+import { CheckCircle2, Loader2, QrCode, WifiOff } from "lucide-react";
+import { fetchBookingTicket } from "@/lib/bookingActions";
+import { getCachedTicket } from "@/lib/bookingTicket";
+
+interface BookingTicketProps {
+  bookingId: string;
+  checkedIn?: boolean;
+  className?: string;
+}
+
+// QR ticket the renter shows at the venue. The last fetched ticket is kept on the device,
+// so it still opens without a connection.
+export function BookingTicket({ bookingId, checkedIn = false, className }: BookingTicketProps) {
+  const [ticket, setTicket] = useState<string | null>(() => getCachedTicket(bookingId));
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(!ticket);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    fetchBookingTicket(bookingId).then((result) => {
+      if (!isMounted) return;
+      if (result.success === false) {
+        // Offline failures already fall back to the cached ticket; anything else means
+        // the booking no longer has a valid one (e.g. it was cancelled)
+        setTicket(null);
+        setError(result.error);
+      } else {
+        setTicket(result.ticket);
+        setError(null);
+      }
+      setLoading(false);
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [bookingId]);
+
+  useEffect(() => {
+    if (!ticket) return;
+    let isMounted = true;
+
+    QRCode.toDataURL(ticket, { errorCorrectionLevel: "M", margin: 1, width: 240 })
+      .then((dataUrl) => {
+        if (isMounted) setQrDataUrl(dataUrl);
+      })
+      .catch((qrError) => console.error("Failed to render ticket QR code", qrError));
+
+    return () => {
+      isMounted = false;
+    };
+  }, [ticket]);
+
+  if (loading && !ticket) {
+    return (
+      <div className={`flex items-center justify-center rounded-xl border bg-muted/30 py-10 ${className ?? ""}`}>
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!ticket) {
+    return (
+      <div
+        className={`flex flex-col items-center justify-center gap-2 rounded-xl border bg-muted/30 py-8 text-sm text-muted-foreground ${className ?? ""}`}
+      >
+        <WifiOff className="h-6 w-6" />
+        {error ?? "Unable to load the ticket."}
+      </div>
+    );
+  }
+
+  return (
+    <div className={`flex flex-col items-center gap-3 rounded-xl border bg-muted/30 p-4 text-center ${className ?? ""}`}>
+      <div className="flex items-center gap-2 text-sm font-semibold text-foreground">
+        <QrCode className="h-4 w-4" />
+        Booking ticket
+      </div>
+      {qrDataUrl ? (
+        <img src={qrDataUrl} alt="Booking ticket QR code" className="h-48 w-48 rounded-md bg-white p-2" />
+      ) : (
+        <div className="flex h-48 w-48 items-center justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      )}
+      {checkedIn ? (
+        <p className="flex items-center gap-1 text-sm font-medium text-emerald-600">
+          <CheckCircle2 className="h-4 w-4" /> Checked in
+        </p>
+      ) : (
+        <p className="text-xs text-muted-foreground max-w-xs">
+          Show this code at the venue to check in. It stays available on this device without a connection.
+        </p>
+      )}
+      <p className="font-mono text-[10px] text-muted-foreground break-all">{ticket}</p>
+    </div>
+  );
+}
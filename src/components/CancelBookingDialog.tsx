@@ -0,0 +1,152 @@
+import { useEffect, useState } from "react";
+import { Loader2, XCircle } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "@/hooks/use-toast";
+import { cancelBooking } from "@/lib/bookingActions";
+import {
+  DEFAULT_CANCELLATION_POLICY,
+  describeCancellationPolicy,
+  estimateRefund,
+  type CancellationPolicy,
+} from "@/lib/cancellationPolicy";
+
+interface CancelBookingDialogProps {
+  bookingId: string;
+  resourceId: string;
+  amount: number;
+  paymentMethod: string | null;
+  firstSlotStart: string | null;
+  onCancelled?: () => void;
+  className?: string;
+}
+
+const currencyFormatter = new Intl.NumberFormat("en-US", {
+  style: "currency",
+  currency: "MMK",
+  maximumFractionDigits: 0,
+});
+
+export function CancelBookingDialog({
+  bookingId,
+  resourceId,
+  amount,
+  paymentMethod,
+  firstSlotStart,
+  onCancelled,
+  className,
+}: CancelBookingDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [policy, setPolicy] = useState<CancellationPolicy>(DEFAULT_CANCELLATION_POLICY);
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  // Load the service's policy when the dialog opens so the refund shown is current
+  useEffect(() => {
+    if (!open) return;
+    let isMounted = true;
+
+    (async () => {
+      const { data, error } = await supabase
+        .from("business_resources")
+        .select("services:service_id (free_cancellation_hours, late_cancellation_refund_percent)")
+        .eq("id", resourceId)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error fetching cancellation policy:", error);
+        return;
+      }
+      if (isMounted && data?.services) {
+        setPolicy(data.services);
+      }
+    })();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [open, resourceId]);
+
+  const refund = estimateRefund(policy, amount, firstSlotStart, paymentMethod);
+
+  const handleCancel = async () => {
+    setSubmitting(true);
+    const result = await cancelBooking(bookingId, reason.trim() || null);
+    setSubmitting(false);
+
+    if (result.success === false) {
+      toast({ title: "Cancellation failed", description: result.error, variant: "destructive" });
+      return;
+    }
+
+    toast({
+      title: "Booking cancelled",
+      description:
+        result.refundAmount > 0
+          ? `The provider will refund ${currencyFormatter.format(result.refundAmount)}.`
+          : "Your slots have been released.",
+    });
+    setOpen(false);
+    setReason("");
+    onCancelled?.();
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={setOpen}>
+      <AlertDialogTrigger asChild>
+        <Button size="sm" variant="outline" className={className}>
+          <XCircle className="h-4 w-4 mr-1" />
+          Cancel Booking
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Cancel this booking?</AlertDialogTitle>
+          <AlertDialogDescription>{describeCancellationPolicy(policy)}</AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-4">
+          <div className="rounded-lg border bg-muted/30 p-3 space-y-1 text-sm">
+            <div className="flex items-center justify-between text-muted-foreground">
+              <span>Amount paid</span>
+              <span>{currencyFormatter.format(amount)}</span>
+            </div>
+            <div className="flex items-center justify-between font-medium">
+              <span>Estimated refund</span>
+              <span>{currencyFormatter.format(refund)}</span>
+            </div>
+          </div>
+          <div>
+            <Label className="mb-2 block">Reason (optional)</Label>
+            <Textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Let the provider know why you are cancelling"
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={submitting}>Keep Booking</AlertDialogCancel>
+          <Button variant="destructive" onClick={handleCancel} disabled={submitting}>
+            {submitting && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Cancel Booking
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
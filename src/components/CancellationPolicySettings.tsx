@@ -0,0 +1,121 @@
+import { useEffect, useState } from "react";
+import { Undo2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "@/hooks/use-toast";
+import { setServicePolicy } from "@/lib/bookingActions";
+import { DEFAULT_CANCELLATION_POLICY, describeCancellationPolicy } from "@/lib/cancellationPolicy";
+
+interface CancellationPolicySettingsProps {
+  resourceId: string;
+}
+
+export function CancellationPolicySettings({ resourceId }: CancellationPolicySettingsProps) {
+  const [serviceId, setServiceId] = useState<number | null>(null);
+  const [freeHours, setFreeHours] = useState(String(DEFAULT_CANCELLATION_POLICY.free_cancellation_hours));
+  const [latePercent, setLatePercent] = useState(
+    String(DEFAULT_CANCELLATION_POLICY.late_cancellation_refund_percent)
+  );
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let isMounted = true;
+    setLoading(true);
+
+    (async () => {
+      const { data, error } = await supabase
+        .from("business_resources")
+        .select("service_id, services:service_id (free_cancellation_hours, late_cancellation_refund_percent)")
+        .eq("id", resourceId)
+        .maybeSingle();
+
+      if (!isMounted) return;
+
+      if (error) {
+        console.error("Error fetching cancellation policy:", error);
+      } else if (data) {
+        setServiceId(data.service_id);
+        if (data.services) {
+          setFreeHours(String(data.services.free_cancellation_hours));
+          setLatePercent(String(data.services.late_cancellation_refund_percent));
+        }
+      }
+      setLoading(false);
+    })();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [resourceId]);
+
+  const policy = {
+    free_cancellation_hours: parseInt(freeHours, 10) || 0,
+    late_cancellation_refund_percent: parseInt(latePercent, 10) || 0,
+  };
+
+  const handleSave = async () => {
+    if (serviceId === null) return;
+
+    setSaving(true);
+    const result = await setServicePolicy(serviceId, {
+      kind: "cancellation",
+      freeCancellationHours: policy.free_cancellation_hours,
+      lateCancellationRefundPercent: policy.late_cancellation_refund_percent,
+    });
+    setSaving(false);
+
+    if (result.success === false) {
+      toast({ title: "Error", description: result.error, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Cancellation policy saved", description: describeCancellationPolicy(policy) });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Undo2 className="h-5 w-5" />
+          Cancellation Policy
+        </CardTitle>
+        <CardDescription>Applies to every resource of this service</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label className="mb-2 block">Free cancellation until (hours before start)</Label>
+            <Input
+              type="number"
+              inputMode="numeric"
+              min={0}
+              max={720}
+              value={freeHours}
+              onChange={(e) => setFreeHours(e.target.value)}
+              disabled={loading}
+            />
+          </div>
+          <div>
+            <Label className="mb-2 block">Refund for later cancellations (%)</Label>
+            <Input
+              type="number"
+              inputMode="numeric"
+              min={0}
+              max={100}
+              value={latePercent}
+              onChange={(e) => setLatePercent(e.target.value)}
+              disabled={loading}
+            />
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">{describeCancellationPolicy(policy)}</p>
+        <Button onClick={handleSave} disabled={loading || saving || serviceId === null}>
+          {saving ? "Saving..." : "Save Policy"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
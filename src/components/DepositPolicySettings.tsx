@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import { Wallet } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import { setServicePolicy } from "@/lib/bookingActions";
+import { DEFAULT_DEPOSIT_POLICY, describeDepositPolicy, type DepositType } from "@/lib/depositPolicy";
+
+interface DepositPolicySettingsProps {
+  resourceId: string;
+}
+
+export function DepositPolicySettings({ resourceId }: DepositPolicySettingsProps) {
+  const [serviceId, setServiceId] = useState<number | null>(null);
+  const [depositType, setDepositType] = useState<DepositType>(DEFAULT_DEPOSIT_POLICY.deposit_type);
+  const [depositValue, setDepositValue] = useState(String(DEFAULT_DEPOSIT_POLICY.deposit_value));
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let isMounted = true;
+    setLoading(true);
+
+    (async () => {
+      const { data, error } = await supabase
+        .from("business_resources")
+        .select("service_id, services:service_id (deposit_type, deposit_value)")
+        .eq("id", resourceId)
+        .maybeSingle();
+
+      if (!isMounted) return;
+
+      if (error) {
+        console.error("Error fetching deposit policy:", error);
+      } else if (data) {
+        setServiceId(data.service_id);
+        if (data.services) {
+          setDepositType(data.services.deposit_type as DepositType);
+          setDepositValue(String(data.services.deposit_value));
+        }
+      }
+      setLoading(false);
+    })();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [resourceId]);
+
+  const policy = {
+    deposit_type: depositType,
+    deposit_value: depositType === "full" ? 0 : Number(depositValue) || 0,
+  };
+
+  const handleSave = async () => {
+    if (serviceId === null) return;
+
+    setSaving(true);
+    const result = await setServicePolicy(serviceId, {
+      kind: "deposit",
+      depositType: policy.deposit_type,
+      depositValue: policy.deposit_value,
+    });
+    setSaving(false);
+
+    if (result.success === false) {
+      toast({ title: "Error", description: result.error, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Deposit policy saved", description: describeDepositPolicy(policy) });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wallet className="h-5 w-5" />
+          Deposit
+        </CardTitle>
+        <CardDescription>
+          How much renters pay when booking; you settle the rest when they arrive. Applies to every resource of
+          this service
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label className="mb-2 block">Payment when booking</Label>
+            <Select
+              value={depositType}
+              onValueChange={(value) => setDepositType(value as DepositType)}
+              disabled={loading}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="full">Full price</SelectItem>
+                <SelectItem value="percent">Percentage deposit</SelectItem>
+                <SelectItem value="fixed">Fixed deposit per slot</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {depositType !== "full" && (
+            <div>
+              <Label className="mb-2 block">
+                {depositType === "percent" ? "Deposit (%)" : "Deposit per slot (MMK)"}
+              </Label>
+              <Input
+                type="number"
+                inputMode="numeric"
+                min={depositType === "percent" ? 1 : 0}
+                max={depositType === "percent" ? 100 : undefined}
+                value={depositValue}
+                onChange={(e) => setDepositValue(e.target.value)}
+                disabled={loading}
+              />
+            </div>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">{describeDepositPolicy(policy)}</p>
+        <Button onClick={handleSave} disabled={loading || saving || serviceId === null}>
+          {saving ? "Saving..." : "Save Deposit"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
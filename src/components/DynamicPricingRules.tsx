@@ -1,10 +1,13 @@
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
+import { startOfWeek, format } from "date-fns";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { buildPricePreview, findRuleOverlaps, type PricingRuleInput } from "@/lib/pricing";
 
 type RuleDraft = {
   id: string;
@@ -13,22 +16,82 @@ type RuleDraft = {
   day_of_week: number[]; // 1=Mon..7=Sun
   start_time: string; // HH:mm
   end_time: string;   // HH:mm
+  priority: string;
+  valid_from: string; // YYYY-MM-DD or ""
+  valid_until: string;
 };
 
+type SavedRule = Pick<
+  Tables<"resource_pricing_rules">,
+  "id" | "rule_name" | "day_of_week" | "start_time" | "end_time" | "price_override" | "priority" | "valid_from" | "valid_until" | "created_at"
+>;
+
 const days = ["Mon","Tue","Wed","Thu","Fri","Sat","Sun"];
 
 function uid() { return Math.random().toString(36).slice(2); }
 
+function emptyDraft(): RuleDraft {
+  return { id: uid(), rule_name: "", price_override: "", day_of_week: [], start_time: "", end_time: "", priority: "0", valid_from: "", valid_until: "" };
+}
+
+const toDbTime = (t: string) => (t.length === 5 ? `${t}:00` : t);
+
+function isComplete(r: RuleDraft) {
+  return Boolean(r.rule_name && r.price_override && r.start_time && r.end_time);
+}
+
+function draftToRule(r: RuleDraft): PricingRuleInput {
+  return {
+    id: r.id,
+    rule_name: r.rule_name || "Untitled rule",
+    day_of_week: r.day_of_week.length ? r.day_of_week : null,
+    start_time: toDbTime(r.start_time),
+    end_time: toDbTime(r.end_time),
+    price_override: parseFloat(r.price_override),
+    priority: parseInt(r.priority, 10) || 0,
+    valid_from: r.valid_from || null,
+    valid_until: r.valid_until || null,
+  };
+}
+
+function describeDays(dayNums: number[] | null) {
+  if (!dayNums || dayNums.length === 0) return "Every day";
+  return dayNums.map((d) => days[(d === 0 ? 7 : d) - 1]).join(", ");
+}
+
 export function DynamicPricingRules({ resourceId, onSaved }: { resourceId: string; onSaved?: () => void }) {
-  const [rules, setRules] = useState<RuleDraft[]>([{
-    id: uid(), rule_name: "", price_override: "", day_of_week: [], start_time: "", end_time: ""
-  }]);
+  const [rules, setRules] = useState<RuleDraft[]>([emptyDraft()]);
+  const [savedRules, setSavedRules] = useState<SavedRule[]>([]);
+  const [basePrice, setBasePrice] = useState(0);
+  const [previewWeek, setPreviewWeek] = useState(() => format(startOfWeek(new Date(), { weekStartsOn: 1 }), "yyyy-MM-dd"));
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [info, setInfo] = useState<string | null>(null);
 
+  async function loadSaved() {
+    const [{ data: resource }, { data: existing, error: rulesError }] = await Promise.all([
+      supabase.from("business_resources").select("base_price").eq("id", resourceId).maybeSingle(),
+      supabase
+        .from("resource_pricing_rules")
+        .select("id, rule_name, day_of_week, start_time, end_time, price_override, priority, valid_from, valid_until, created_at")
+        .eq("resource_id", resourceId)
+        .order("priority", { ascending: false }),
+    ]);
+    if (rulesError) {
+      setError(rulesError.message);
+      return;
+    }
+    setBasePrice(resource?.base_price ?? 0);
+    setSavedRules(existing || []);
+  }
+
+  useEffect(() => {
+    loadSaved();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [resourceId]);
+
   function addRule() {
-    setRules((r) => [...r, { id: uid(), rule_name: "", price_override: "", day_of_week: [], start_time: "", end_time: "" }]);
+    setRules((r) => [...r, emptyDraft()]);
   }
   function removeRule(id: string) { setRules((r) => r.filter((x) => x.id !== id)); }
   function updateRule(id: string, patch: Partial<RuleDraft>) {
@@ -47,31 +110,61 @@ export function DynamicPricingRules({ resourceId, onSaved }: { resourceId: strin
     }));
   }
 
-  const canSave = useMemo(() => rules.some(r => r.rule_name && r.price_override && r.start_time && r.end_time), [rules]);
+  async function deleteSavedRule(id: string) {
+    setError(null); setInfo(null);
+    const { error } = await supabase.from("resource_pricing_rules").delete().eq("id", id);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    await loadSaved();
+    if (onSaved) onSaved();
+  }
+
+  // Saved rules plus complete drafts: what slot generation would see after saving
+  const draftRules = useMemo(() => rules.filter(isComplete).map(draftToRule), [rules]);
+  const effectiveRules = useMemo<PricingRuleInput[]>(() => [...savedRules, ...draftRules], [savedRules, draftRules]);
+
+  const overlaps = useMemo(() => {
+    const draftIds = new Set(draftRules.map((r) => r.id));
+    // Overlaps among already-saved rules were accepted earlier; only report ones involving a draft
+    return findRuleOverlaps(effectiveRules).filter((o) => draftIds.has(o.first.id) || draftIds.has(o.second.id));
+  }, [effectiveRules, draftRules]);
+  const blockingOverlaps = overlaps.filter((o) => o.samePriority);
+
+  const invalidRanges = draftRules.filter((r) => r.valid_from && r.valid_until && r.valid_from > r.valid_until);
+
+  const preview = useMemo(() => buildPricePreview(effectiveRules, basePrice, previewWeek), [effectiveRules, basePrice, previewWeek]);
+
+  const canSave = draftRules.length > 0 && blockingOverlaps.length === 0 && invalidRanges.length === 0;
 
   async function save() {
     setSaving(true); setError(null); setInfo(null);
     try {
-      const payload = rules
-        .filter(r => r.rule_name && r.price_override && r.start_time && r.end_time)
-        .map(r => ({
-          resource_id: resourceId,
-          rule_name: r.rule_name,
-          day_of_week: r.day_of_week.length ? r.day_of_week : null,
-          start_time: r.start_time.length === 5 ? `${r.start_time}:00` : r.start_time,
-          end_time: r.end_time.length === 5 ? `${r.end_time}:00` : r.end_time,
-          price_override: parseFloat(r.price_override)
-        }));
+      const payload = draftRules.map(r => ({
+        resource_id: resourceId,
+        rule_name: r.rule_name,
+        day_of_week: r.day_of_week as number[] | null,
+        start_time: r.start_time,
+        end_time: r.end_time,
+        price_override: r.price_override,
+        priority: r.priority ?? 0,
+        valid_from: r.valid_from,
+        valid_until: r.valid_until,
+      }));
       if (!payload.length) {
         setError("Please complete at least one rule before saving.");
         return;
       }
-      const { error } = await (supabase as any).from("resource_pricing_rules").insert(payload);
+      const { error } = await supabase.from("resource_pricing_rules").insert(payload);
       if (error) throw error;
-  setInfo("Pricing rules saved successfully.");
-  if (onSaved) onSaved();
+      setInfo("Pricing rules saved successfully.");
+      setRules([emptyDraft()]);
+      await loadSaved();
+      if (onSaved) onSaved();
     } catch (e) {
-      setError(e instanceof Error ? e.message : "Failed to save pricing rules");
+      const message = e && typeof e === "object" && "message" in e ? String((e as { message: unknown }).message) : null;
+      setError(message || "Failed to save pricing rules");
     } finally {
       setSaving(false);
     }
@@ -82,8 +175,27 @@ export function DynamicPricingRules({ resourceId, onSaved }: { resourceId: strin
       <CardHeader>
         <CardTitle>Dynamic Pricing Rules</CardTitle>
         <p className="text-sm text-muted-foreground">Note: Pricing rules only apply to days already marked as OPEN in your 'Operating Hours' schedule.</p>
+        <p className="text-sm text-muted-foreground">When rules overlap, the one with the higher priority sets the price.</p>
       </CardHeader>
       <CardContent className="space-y-4">
+        {savedRules.length > 0 && (
+          <div className="space-y-2">
+            <div className="font-medium">Current Rules</div>
+            {savedRules.map((r) => (
+              <div key={r.id} className="flex items-center justify-between border rounded-lg p-3 text-sm">
+                <div>
+                  <div className="font-medium">{r.rule_name} · {r.price_override}</div>
+                  <div className="text-muted-foreground">
+                    {describeDays(r.day_of_week)} · {r.start_time.slice(0,5)}–{r.end_time.slice(0,5)} · Priority {r.priority}
+                    {(r.valid_from || r.valid_until) && ` · ${r.valid_from ?? "…"} to ${r.valid_until ?? "…"}`}
+                  </div>
+                </div>
+                <Button type="button" variant="outline" size="sm" onClick={() => deleteSavedRule(r.id)}>Delete</Button>
+              </div>
+            ))}
+          </div>
+        )}
+
         {rules.map((r, idx) => (
           <div key={r.id} className="border rounded-lg p-4 space-y-3">
             <div className="flex items-center justify-between">
@@ -111,6 +223,21 @@ export function DynamicPricingRules({ resourceId, onSaved }: { resourceId: strin
               </div>
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label>Priority</Label>
+                <Input type="number" inputMode="numeric" value={r.priority} onChange={(e)=>updateRule(r.id,{ priority: e.target.value })} />
+              </div>
+              <div>
+                <Label>Valid From (optional)</Label>
+                <Input type="date" value={r.valid_from} onChange={(e)=>updateRule(r.id,{ valid_from: e.target.value })} />
+              </div>
+              <div>
+                <Label>Valid Until (optional)</Label>
+                <Input type="date" value={r.valid_until} onChange={(e)=>updateRule(r.id,{ valid_until: e.target.value })} />
+              </div>
+            </div>
+
             <div>
               <Label>Days Applicable</Label>
               <div className="grid grid-cols-2 sm:grid-cols-4 md:grid-cols-7 gap-2 mt-2">
@@ -129,12 +256,60 @@ export function DynamicPricingRules({ resourceId, onSaved }: { resourceId: strin
           </div>
         ))}
 
+        {invalidRanges.map((r) => (
+          <div key={r.id} className="text-sm text-destructive">"{r.rule_name}": the start date is after the end date.</div>
+        ))}
+        {overlaps.map((o) => (
+          <div key={`${o.first.id}-${o.second.id}`} className={`text-sm ${o.samePriority ? "text-destructive" : "text-amber-600"}`}>
+            {o.samePriority
+              ? `"${o.first.rule_name}" and "${o.second.rule_name}" overlap with the same priority. Change a priority, day, date range or time window.`
+              : `"${o.first.rule_name}" and "${o.second.rule_name}" overlap; "${(o.first.priority ?? 0) > (o.second.priority ?? 0) ? o.first.rule_name : o.second.rule_name}" takes precedence.`}
+          </div>
+        ))}
+
         <div className="flex items-center gap-3">
           <Button type="button" onClick={addRule}>+ Add Pricing Rule</Button>
           <Button type="button" variant="secondary" disabled={!canSave || saving} onClick={save}>{saving ? "Saving..." : "Save Rules"}</Button>
         </div>
         {error && <div className="text-sm text-destructive">{error}</div>}
         {info && <div className="text-sm text-green-600">{info}</div>}
+
+        <div className="space-y-2 pt-2">
+          <div className="flex flex-wrap items-end justify-between gap-3">
+            <div>
+              <div className="font-medium">Price Preview</div>
+              <p className="text-xs text-muted-foreground">Effective hourly price for the week, including unsaved rules. Highlighted cells use a rule.</p>
+            </div>
+            <div>
+              <Label>Week starting</Label>
+              <Input type="date" value={previewWeek} onChange={(e) => e.target.value && setPreviewWeek(e.target.value)} />
+            </div>
+          </div>
+          <div className="max-h-96 overflow-auto border rounded-lg">
+            <table className="w-full text-xs">
+              <thead className="sticky top-0 bg-muted">
+                <tr>
+                  <th className="p-2 text-left">Time</th>
+                  {preview.dates.map((date) => (
+                    <th key={date} className="p-2 text-right">{format(new Date(`${date}T00:00:00`), "EEE dd")}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {preview.rows.map((row) => (
+                  <tr key={row.time} className="border-t">
+                    <td className="p-2 font-medium">{row.time}</td>
+                    {row.cells.map((cell, i) => (
+                      <td key={preview.dates[i]} title={cell.ruleName ?? "Base price"} className={`p-2 text-right ${cell.ruleName ? "bg-primary/10 font-medium" : ""}`}>
+                        {cell.price}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
       </CardContent>
     </Card>
   );
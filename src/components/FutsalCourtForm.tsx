@@ -33,6 +33,8 @@ import {
 import { Phone, Upload, X } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { convertTo24HourFormat } from "@/lib/timeUtils";
+import { BUSINESS_TIMEZONE_OPTIONS, DEFAULT_TIMEZONE } from "@/lib/timezone";
+import { findRuleOverlaps } from "@/lib/pricing";
 
 const formSchema = z.object({
   businessName: z.string().min(1, "Business name is required"),
@@ -44,6 +46,7 @@ const formSchema = z.object({
     name: z.string().min(1, "Field name is required"),
     price: z.string().min(1, "Price is required"),
   })),
+  timezone: z.string().min(1, "Please select a timezone"),
   operatingHours: z.array(z.object({
     day: z.string(),
     closed: z.boolean(),
@@ -158,6 +161,7 @@ export const FutsalCourtForm = () => {
       numberOfFields: "1",
       fieldType: "Indoor" as "Indoor" | "Outdoor" | "Indoor/Outdoor",
       fieldDetails: [{ name: "Field 1", price: "" }],
+      timezone: DEFAULT_TIMEZONE,
       operatingHours: days.map(day => ({
         day,
         closed: false,
@@ -361,6 +365,7 @@ export const FutsalCourtForm = () => {
       formData.append('maxCapacity', '1');
       formData.append('fieldType', values.fieldType);
       formData.append('fieldDetails', JSON.stringify(values.fieldDetails));
+      formData.append('timezone', values.timezone);
       formData.append('operatingHours', JSON.stringify(values.operatingHours));
       formData.append('paymentMethods', JSON.stringify(values.paymentMethods));
 
@@ -384,6 +389,17 @@ export const FutsalCourtForm = () => {
           end_time: rule.end_time.length === 5 ? `${rule.end_time}:00` : rule.end_time,
         }));
 
+      // Overlapping rules are rejected by the database, so catch them before creating the listing
+      const pricingOverlap = findRuleOverlaps(pricingRulesPayload)[0];
+      if (pricingOverlap) {
+        toast({
+          title: "Overlapping pricing rules",
+          description: `"${pricingOverlap.first.rule_name}" and "${pricingOverlap.second.rule_name}" apply to the same day and time. Adjust one of them.`,
+          variant: "destructive",
+        });
+        return;
+      }
+
       formData.append("pricingRules", JSON.stringify(pricingRulesPayload));
 
       // Submit to edge function
@@ -560,6 +576,30 @@ export const FutsalCourtForm = () => {
             <p className="text-sm text-muted-foreground mb-4">
               Please provide your business's opening and closing hours. If your business is closed on a particular day (e.g., Sunday), you may check the 'Close' checkbox for that day.
             </p>
+            <FormField
+              control={form.control}
+              name="timezone"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Timezone *</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select timezone" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {BUSINESS_TIMEZONE_OPTIONS.map((tz) => (
+                        <SelectItem key={tz.value} value={tz.value}>
+                          {tz.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
             {days.map((day, index) => (
               <div key={day} className="grid grid-cols-4 gap-4 items-center">
                 <div className="font-medium">{day}</div>
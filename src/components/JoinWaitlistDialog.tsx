@@ -0,0 +1,174 @@
+import { useEffect, useMemo, useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import { joinWaitlist } from "@/lib/bookingActions";
+import type { ResourceLite } from "@/lib/bookingData";
+import { formatInTimeZone } from "@/lib/timezone";
+
+// The slot or window the dialog opens with; resourceId null means any resource
+export type WaitlistWindow = {
+  resourceId: string | null;
+  start: string;
+  end: string;
+};
+
+interface JoinWaitlistDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  businessId: string;
+  resources: ResourceLite[];
+  timeZone: string;
+  // Slot times of the day on view, used for the from/to choices
+  times: { start_time: string; end_time: string }[];
+  initialWindow: WaitlistWindow | null;
+}
+
+const ANY_RESOURCE = "any";
+
+export function JoinWaitlistDialog({
+  open,
+  onOpenChange,
+  businessId,
+  resources,
+  timeZone,
+  times,
+  initialWindow,
+}: JoinWaitlistDialogProps) {
+  const [resourceId, setResourceId] = useState<string>(ANY_RESOURCE);
+  const [start, setStart] = useState<string>("");
+  const [end, setEnd] = useState<string>("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setResourceId(initialWindow?.resourceId ?? ANY_RESOURCE);
+    setStart(initialWindow?.start ?? times[0]?.start_time ?? "");
+    setEnd(initialWindow?.end ?? times[times.length - 1]?.end_time ?? "");
+  }, [open, initialWindow, times]);
+
+  const startOptions = useMemo(
+    () => Array.from(new Set(times.map((t) => t.start_time))).sort(),
+    [times]
+  );
+  const endOptions = useMemo(
+    () => Array.from(new Set(times.map((t) => t.end_time))).filter((t) => !start || t > start).sort(),
+    [times, start]
+  );
+
+  const formatTime = (iso: string) => formatInTimeZone(iso, timeZone, "h:mm a");
+
+  const handleSubmit = async () => {
+    if (!start || !end) return;
+    setSubmitting(true);
+    const result = await joinWaitlist(
+      businessId,
+      resourceId === ANY_RESOURCE ? null : resourceId,
+      new Date(start).toISOString(),
+      new Date(end).toISOString()
+    );
+    setSubmitting(false);
+
+    if (result.success === false) {
+      toast({ title: "Could not join waitlist", description: result.error, variant: "destructive" });
+      return;
+    }
+
+    toast({
+      title: "You're on the waitlist",
+      description: "If a slot in this window frees up we'll hold it for you and let you know.",
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Join Waitlist</DialogTitle>
+          <DialogDescription>
+            When a slot in this window is released, the first renter in line gets it held for 30 minutes to
+            book.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label className="mb-2 block">Court</Label>
+            <Select value={resourceId} onValueChange={setResourceId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_RESOURCE}>Any court</SelectItem>
+                {resources.map((resource) => (
+                  <SelectItem key={resource.id} value={resource.id}>
+                    {resource.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label className="mb-2 block">From</Label>
+              <Select
+                value={start}
+                onValueChange={(value) => {
+                  setStart(value);
+                  if (end && end <= value) setEnd("");
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Start" />
+                </SelectTrigger>
+                <SelectContent>
+                  {startOptions.map((time) => (
+                    <SelectItem key={time} value={time}>
+                      {formatTime(time)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="mb-2 block">Until</Label>
+              <Select value={end} onValueChange={setEnd}>
+                <SelectTrigger>
+                  <SelectValue placeholder="End" />
+                </SelectTrigger>
+                <SelectContent>
+                  {endOptions.map((time) => (
+                    <SelectItem key={time} value={time}>
+                      {formatTime(time)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Close
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitting || !start || !end}>
+            {submitting && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Join Waitlist
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,513 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { format, startOfMonth, subDays, subMonths } from "date-fns";
+import { BarChart3, CalendarRange, Download, Flame, Loader2, TrendingDown, TrendingUp, Wallet } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "@/hooks/use-toast";
+import { fetchOwnerAnalytics, type OwnerAnalyticsData } from "@/lib/bookingData";
+import {
+  WEEKDAY_LABELS,
+  monthlyTrends,
+  occupancyByResource,
+  occupancyHeatmap,
+  pricingEffectiveness,
+  revenueByPaymentMethod,
+} from "@/lib/analytics";
+import { downloadCsv } from "@/lib/csv";
+
+interface OwnerAnalyticsProps {
+  ownerId: string;
+}
+
+type RangePreset = "30d" | "90d" | "6m" | "12m";
+
+const RANGE_LABELS: Record<RangePreset, string> = {
+  "30d": "Last 30 days",
+  "90d": "Last 90 days",
+  "6m": "Last 6 months",
+  "12m": "Last 12 months",
+};
+
+const ALL = "all";
+
+const currencyFormatter = new Intl.NumberFormat("en-US", {
+  style: "currency",
+  currency: "MMK",
+  maximumFractionDigits: 0,
+});
+
+// Ranges end today; month ranges start on the 1st so the first month is complete
+function getRange(preset: RangePreset): { from: string; to: string } {
+  const today = new Date();
+  const from =
+    preset === "30d"
+      ? subDays(today, 29)
+      : preset === "90d"
+        ? subDays(today, 89)
+        : startOfMonth(subMonths(today, preset === "6m" ? 5 : 11));
+  return { from: format(from, "yyyy-MM-dd"), to: format(today, "yyyy-MM-dd") };
+}
+
+function heatmapCellStyle(occupancy: number | null) {
+  if (occupancy === null) return undefined;
+  return { backgroundColor: `hsl(var(--primary) / ${Math.max(0.08, occupancy / 100)})` };
+}
+
+export function OwnerAnalytics({ ownerId }: OwnerAnalyticsProps) {
+  const [preset, setPreset] = useState<RangePreset>("90d");
+  const [resourceFilter, setResourceFilter] = useState<string>(ALL);
+  const [data, setData] = useState<OwnerAnalyticsData | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const range = useMemo(() => getRange(preset), [preset]);
+
+  const loadAnalytics = useCallback(async () => {
+    setLoading(true);
+    try {
+      setData(await fetchOwnerAnalytics(ownerId, range.from, range.to));
+    } catch (error) {
+      console.error("Error fetching analytics:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load analytics",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [ownerId, range]);
+
+  useEffect(() => {
+    loadAnalytics();
+  }, [loadAnalytics]);
+
+  const filtered = useMemo(() => {
+    if (!data) return null;
+    if (resourceFilter === ALL) return data;
+    return {
+      resources: data.resources.filter((resource) => resource.id === resourceFilter),
+      slots: data.slots.filter((slot) => slot.resource_id === resourceFilter),
+      bookings: data.bookings.filter((booking) => booking.resource_id === resourceFilter),
+    };
+  }, [data, resourceFilter]);
+
+  const occupancy = useMemo(() => (filtered ? occupancyByResource(filtered.resources, filtered.slots) : []), [filtered]);
+  const heatmap = useMemo(() => (filtered ? occupancyHeatmap(filtered.slots) : []), [filtered]);
+  const paymentMethods = useMemo(() => (filtered ? revenueByPaymentMethod(filtered.bookings) : []), [filtered]);
+  const pricingTiers = useMemo(
+    () => (filtered ? pricingEffectiveness(filtered.resources, filtered.slots) : []),
+    [filtered]
+  );
+  const trends = useMemo(() => (filtered ? monthlyTrends(filtered.slots, filtered.bookings) : []), [filtered]);
+
+  // Hours that had at least one slot on any day, so closed hours do not widen the heatmap
+  const openHours = useMemo(
+    () => Array.from({ length: 24 }, (_, hour) => hour).filter((hour) => heatmap.some((row) => row[hour].totalSlots > 0)),
+    [heatmap]
+  );
+
+  const totalRevenue = trends.reduce((sum, month) => sum + month.revenue, 0);
+  const totalSlots = occupancy.reduce((sum, row) => sum + row.totalSlots, 0);
+  const totalBooked = occupancy.reduce((sum, row) => sum + row.bookedSlots, 0);
+  const fileSuffix = `${range.from}_${range.to}`;
+
+  const exportOccupancy = () =>
+    downloadCsv(
+      `occupancy-by-resource_${fileSuffix}.csv`,
+      ["Resource", "Slots offered", "Slots booked", "Occupancy %", "Booked value (MMK)"],
+      occupancy.map((row) => [row.resourceName, row.totalSlots, row.bookedSlots, row.occupancy, row.bookedValue])
+    );
+
+  const exportHeatmap = () =>
+    downloadCsv(
+      `occupancy-heatmap_${fileSuffix}.csv`,
+      ["Weekday", ...openHours.map((hour) => `${String(hour).padStart(2, "0")}:00`)],
+      heatmap.map((row, day) => [WEEKDAY_LABELS[day], ...openHours.map((hour) => row[hour].occupancy)])
+    );
+
+  const exportPaymentMethods = () =>
+    downloadCsv(
+      `revenue-by-payment-method_${fileSuffix}.csv`,
+      ["Payment method", "Confirmed bookings", "Revenue (MMK)", "Share %"],
+      paymentMethods.map((row) => [row.paymentMethod, row.bookings, row.revenue, row.share])
+    );
+
+  const exportPricing = () =>
+    downloadCsv(
+      `pricing-effectiveness_${fileSuffix}.csv`,
+      ["Tier", "Rule", "Average price (MMK)", "Slots offered", "Slots booked", "Occupancy %", "Booked value (MMK)", "Revenue per offered slot (MMK)"],
+      pricingTiers.map((row) => [
+        row.tier,
+        row.label,
+        row.price,
+        row.totalSlots,
+        row.bookedSlots,
+        row.occupancy,
+        row.bookedValue,
+        row.revenuePerSlot,
+      ])
+    );
+
+  const exportTrends = () =>
+    downloadCsv(
+      `monthly-trends_${fileSuffix}.csv`,
+      ["Month", "Slots offered", "Slots booked", "Occupancy %", "Confirmed bookings", "Walk-ins", "Cancellations", "No-shows", "Revenue (MMK)", "Revenue change %"],
+      trends.map((row) => [
+        row.month,
+        row.totalSlots,
+        row.bookedSlots,
+        row.occupancy,
+        row.bookings,
+        row.walkIns,
+        row.cancellations,
+        row.noShows,
+        row.revenue,
+        row.revenueChange,
+      ])
+    );
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div>
+            <label className="text-sm font-medium mb-2 block">Period</label>
+            <Select value={preset} onValueChange={(value) => setPreset(value as RangePreset)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(RANGE_LABELS) as RangePreset[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {RANGE_LABELS[key]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="text-sm font-medium mb-2 block">Resource</label>
+            <Select value={resourceFilter} onValueChange={setResourceFilter}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All resources</SelectItem>
+                {(data?.resources || []).map((resource) => (
+                  <SelectItem key={resource.id} value={resource.id}>
+                    {resource.business_name} · {resource.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-sm text-muted-foreground flex items-center gap-2">
+            <CalendarRange className="h-4 w-4" />
+            {range.from} to {range.to}, in each business's timezone
+          </p>
+        </CardContent>
+      </Card>
+
+      {loading && !data ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : !filtered || filtered.resources.length === 0 ? (
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-muted-foreground text-center py-8">
+              Analytics appear once your business has bookable resources.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">Occupancy</p>
+                <p className="text-2xl font-bold">{totalSlots > 0 ? Math.round((totalBooked / totalSlots) * 1000) / 10 : 0}%</p>
+                <p className="text-xs text-muted-foreground">
+                  {totalBooked} of {totalSlots} slots booked
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">Revenue</p>
+                <p className="text-2xl font-bold">{currencyFormatter.format(totalRevenue)}</p>
+                <p className="text-xs text-muted-foreground">Confirmed bookings, walk-ins and cancellation fees</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">Confirmed bookings</p>
+                <p className="text-2xl font-bold">{trends.reduce((sum, month) => sum + month.bookings, 0)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {trends.reduce((sum, month) => sum + month.cancellations, 0)} cancelled ·{" "}
+                  {trends.reduce((sum, month) => sum + month.noShows, 0)} no-shows
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Occupancy by resource */}
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <BarChart3 className="h-5 w-5" />
+                  Occupancy by Resource
+                </CardTitle>
+                <CardDescription>Share of offered slots that were booked</CardDescription>
+              </div>
+              <Button variant="outline" size="sm" onClick={exportOccupancy} disabled={occupancy.length === 0}>
+                <Download className="h-4 w-4 mr-1" />
+                CSV
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {occupancy.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No slots were offered in this period.</p>
+              ) : (
+                occupancy.map((row) => (
+                  <div key={row.resourceId} className="space-y-1">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="font-medium">{row.resourceName}</span>
+                      <span className="text-muted-foreground">
+                        {row.occupancy}% · {row.bookedSlots}/{row.totalSlots} · {currencyFormatter.format(row.bookedValue)}
+                      </span>
+                    </div>
+                    <Progress value={row.occupancy} />
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Weekday x hour heatmap */}
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <Flame className="h-5 w-5" />
+                  Busy Times
+                </CardTitle>
+                <CardDescription>Occupancy by weekday and starting hour</CardDescription>
+              </div>
+              <Button variant="outline" size="sm" onClick={exportHeatmap} disabled={openHours.length === 0}>
+                <Download className="h-4 w-4 mr-1" />
+                CSV
+              </Button>
+            </CardHeader>
+            <CardContent>
+              {openHours.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No slots were offered in this period.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="text-xs border-separate border-spacing-1">
+                    <thead>
+                      <tr>
+                        <th />
+                        {openHours.map((hour) => (
+                          <th key={hour} className="font-normal text-muted-foreground px-1">
+                            {String(hour).padStart(2, "0")}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {heatmap.map((row, day) => (
+                        <tr key={WEEKDAY_LABELS[day]}>
+                          <th className="font-medium text-left pr-2">{WEEKDAY_LABELS[day]}</th>
+                          {openHours.map((hour) => {
+                            const cell = row[hour];
+                            return (
+                              <td
+                                key={hour}
+                                className="h-8 w-10 rounded text-center bg-muted/40"
+                                style={heatmapCellStyle(cell.occupancy)}
+                                title={
+                                  cell.occupancy === null
+                                    ? "No slots"
+                                    : `${cell.bookedSlots} of ${cell.totalSlots} slots booked`
+                                }
+                              >
+                                {cell.occupancy === null ? "" : Math.round(cell.occupancy)}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+            {/* Revenue by payment method */}
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <Wallet className="h-5 w-5" />
+                    Revenue by Payment Method
+                  </CardTitle>
+                  <CardDescription>Walk-ins are listed under the method they paid with</CardDescription>
+                </div>
+                <Button variant="outline" size="sm" onClick={exportPaymentMethods} disabled={paymentMethods.length === 0}>
+                  <Download className="h-4 w-4 mr-1" />
+                  CSV
+                </Button>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {paymentMethods.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No revenue in this period.</p>
+                ) : (
+                  paymentMethods.map((row) => (
+                    <div key={row.paymentMethod} className="space-y-1">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="font-medium">{row.paymentMethod}</span>
+                        <span className="text-muted-foreground">
+                          {currencyFormatter.format(row.revenue)} · {row.bookings} booking{row.bookings === 1 ? "" : "s"}
+                        </span>
+                      </div>
+                      <Progress value={row.share} />
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Peak vs off-peak */}
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                <div>
+                  <CardTitle>Peak vs Off-Peak Pricing</CardTitle>
+                  <CardDescription>Slots grouped by the pricing rule that set their price</CardDescription>
+                </div>
+                <Button variant="outline" size="sm" onClick={exportPricing} disabled={pricingTiers.length === 0}>
+                  <Download className="h-4 w-4 mr-1" />
+                  CSV
+                </Button>
+              </CardHeader>
+              <CardContent className="p-0">
+                {pricingTiers.length === 0 ? (
+                  <p className="text-sm text-muted-foreground px-6 pb-6">No slots were offered in this period.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Rule</TableHead>
+                        <TableHead className="text-right">Avg price</TableHead>
+                        <TableHead className="text-right">Occupancy</TableHead>
+                        <TableHead className="text-right">Per slot</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {pricingTiers.map((row) => (
+                        <TableRow key={`${row.tier}-${row.label}`}>
+                          <TableCell>
+                            <div className="font-medium">{row.label}</div>
+                            <Badge variant={row.tier === "peak" ? "default" : row.tier === "off-peak" ? "secondary" : "outline"}>
+                              {row.tier === "peak" ? "Peak" : row.tier === "off-peak" ? "Off-peak" : "Standard"}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right">{currencyFormatter.format(row.price)}</TableCell>
+                          <TableCell className="text-right">
+                            {row.occupancy}%
+                            <div className="text-xs text-muted-foreground">
+                              {row.bookedSlots}/{row.totalSlots}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">{currencyFormatter.format(row.revenuePerSlot)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Month over month */}
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+              <div>
+                <CardTitle>Monthly Trends</CardTitle>
+                <CardDescription>Bookings are counted in the month of their first slot</CardDescription>
+              </div>
+              <Button variant="outline" size="sm" onClick={exportTrends} disabled={trends.length === 0}>
+                <Download className="h-4 w-4 mr-1" />
+                CSV
+              </Button>
+            </CardHeader>
+            <CardContent className="p-0">
+              {trends.length === 0 ? (
+                <p className="text-sm text-muted-foreground px-6 pb-6">No activity in this period.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Month</TableHead>
+                        <TableHead className="text-right">Occupancy</TableHead>
+                        <TableHead className="text-right">Bookings</TableHead>
+                        <TableHead className="text-right">Cancelled</TableHead>
+                        <TableHead className="text-right">No-shows</TableHead>
+                        <TableHead className="text-right">Revenue</TableHead>
+                        <TableHead className="text-right">vs last month</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {trends.map((row) => (
+                        <TableRow key={row.month}>
+                          <TableCell className="font-medium">{format(new Date(`${row.month}-01T00:00:00`), "MMM yyyy")}</TableCell>
+                          <TableCell className="text-right">{row.occupancy}%</TableCell>
+                          <TableCell className="text-right">
+                            {row.bookings}
+                            {row.walkIns > 0 && (
+                              <div className="text-xs text-muted-foreground">{row.walkIns} walk-in</div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">{row.cancellations}</TableCell>
+                          <TableCell className="text-right">{row.noShows}</TableCell>
+                          <TableCell className="text-right">{currencyFormatter.format(row.revenue)}</TableCell>
+                          <TableCell className="text-right">
+                            {row.revenueChange === null ? (
+                              <span className="text-muted-foreground">–</span>
+                            ) : (
+                              <span
+                                className={`inline-flex items-center gap-1 ${
+                                  row.revenueChange >= 0 ? "text-emerald-600" : "text-destructive"
+                                }`}
+                              >
+                                {row.revenueChange >= 0 ? (
+                                  <TrendingUp className="h-3 w-3" />
+                                ) : (
+                                  <TrendingDown className="h-3 w-3" />
+                                )}
+                                {row.revenueChange > 0 ? "+" : ""}
+                                {row.revenueChange}%
+                              </span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
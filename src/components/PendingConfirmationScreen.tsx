@@ -8,6 +8,9 @@ import { Separator } from "@/components/ui/separator";
 import { Loader2, Phone } from "lucide-react";
 import { addHours, format, formatDistanceToNow, formatDistanceToNowStrict } from "date-fns";
 import { toast } from "@/hooks/use-toast";
+import { BookingTicket } from "@/components/BookingTicket";
+import { CancelBookingDialog } from "@/components/CancelBookingDialog";
+import { canChangeBooking, getBookingStatusLabel } from "@/lib/cancellationPolicy";
 
 interface PendingConfirmationScreenProps {
   bookingId: string;
@@ -15,8 +18,18 @@ interface PendingConfirmationScreenProps {
 
 type BookingRow = Pick<
   Tables<"bookings">,
-  "id" | "status" | "payment_amount" | "created_at" | "resource_id"
->;
+  | "id"
+  | "status"
+  | "payment_amount"
+  | "payment_method"
+  | "refund_amount"
+  | "rejection_reason"
+  | "created_at"
+  | "resource_id"
+  | "attendance"
+> & {
+  slots: Pick<Tables<"slots">, "start_time"> | null;
+};
 
 type ResourceRow = Pick<Tables<"business_resources">, "service_id">;
 
@@ -35,12 +48,16 @@ export default function PendingConfirmationScreen({
   const [contactPhone, setContactPhone] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
 
   const statusBadgeVariant = useMemo(() => {
     switch (booking?.status) {
       case "Confirmed":
         return "default" as const;
       case "Rejected":
+      case "Cancelled":
+      case "RefundPending":
+      case "Refunded":
         return "destructive" as const;
       default:
         return "secondary" as const;
@@ -49,12 +66,11 @@ export default function PendingConfirmationScreen({
 
   const statusLabel = useMemo(() => {
     switch (booking?.status) {
-      case "Confirmed":
-        return "Status: Confirmed";
-      case "Rejected":
-        return "Status: Rejected";
-      default:
+      case undefined:
+      case "Pending":
         return "Status: Pending Confirmation";
+      default:
+        return `Status: ${getBookingStatusLabel(booking.status)}`;
     }
   }, [booking?.status]);
 
@@ -67,7 +83,9 @@ export default function PendingConfirmationScreen({
         setError(null);
         const { data, error: bookingError } = await supabase
           .from("bookings")
-          .select("id, status, payment_amount, created_at, resource_id")
+          .select(
+            "id, status, payment_amount, payment_method, refund_amount, rejection_reason, created_at, resource_id, attendance, slots!bookings_slot_id_fkey (start_time)"
+          )
           .eq("id", bookingId)
           .maybeSingle<BookingRow>();
 
@@ -128,8 +146,9 @@ export default function PendingConfirmationScreen({
       cancelled = true;
       clearInterval(interval);
     };
-  }, [bookingId]);
+  }, [bookingId, refreshKey]);
 
+  const isCancelled = ["Cancelled", "RefundPending", "Refunded"].includes(booking?.status ?? "");
   const createdAtDate = booking ? new Date(booking.created_at) : null;
   const confirmationWindowEnd = createdAtDate ? addHours(createdAtDate, 2) : null;
   const timeSinceSubmission = createdAtDate
@@ -160,14 +179,53 @@ export default function PendingConfirmationScreen({
               <Badge variant={statusBadgeVariant} className="px-3 py-1 text-sm uppercase tracking-wide">
                 {statusLabel}
               </Badge>
-              <h1 className="text-3xl font-semibold text-foreground">
-                We received your payment receipt
-              </h1>
-              <p className="text-sm text-muted-foreground max-w-xl mx-auto">
-                We will notify you when it is confirmed. Standard confirmation can take up to 6 hours.
-              </p>
+              {isCancelled ? (
+                <>
+                  <h1 className="text-3xl font-semibold text-foreground">Your booking was cancelled</h1>
+                  <p className="text-sm text-muted-foreground max-w-xl mx-auto">
+                    {booking.status === "RefundPending"
+                      ? `The provider owes you a refund of ${currencyFormatter.format(Number(booking.refund_amount || 0))}. Contact them if it has not arrived.`
+                      : booking.status === "Refunded"
+                        ? `The provider has refunded ${currencyFormatter.format(Number(booking.refund_amount || 0))}.`
+                        : "No refund is due under the provider's cancellation policy."}
+                  </p>
+                </>
+              ) : booking.status === "Rejected" ? (
+                <>
+                  <h1 className="text-3xl font-semibold text-foreground">Your payment was not accepted</h1>
+                  <p className="text-sm text-muted-foreground max-w-xl mx-auto">
+                    {booking.rejection_reason
+                      ? `Reason from the provider: ${booking.rejection_reason}`
+                      : "The provider rejected this booking. Contact them for details."}
+                  </p>
+                </>
+              ) : booking.status === "Confirmed" ? (
+                <>
+                  <h1 className="text-3xl font-semibold text-foreground">Your booking is confirmed</h1>
+                  <p className="text-sm text-muted-foreground max-w-xl mx-auto">
+                    Show the ticket below at the venue when you arrive.
+                  </p>
+                </>
+              ) : (
+                <>
+                  <h1 className="text-3xl font-semibold text-foreground">
+                    We received your payment receipt
+                  </h1>
+                  <p className="text-sm text-muted-foreground max-w-xl mx-auto">
+                    We will notify you when it is confirmed. Standard confirmation can take up to 6 hours.
+                  </p>
+                </>
+              )}
             </div>
 
+            {booking.status === "Confirmed" && (
+              <BookingTicket
+                bookingId={booking.id}
+                checkedIn={booking.attendance === "checked_in"}
+                className="mx-auto max-w-sm"
+              />
+            )}
+
             <Separator />
 
             <div className="grid gap-6 md:grid-cols-2">
@@ -216,6 +274,17 @@ export default function PendingConfirmationScreen({
               <div className="text-sm text-muted-foreground text-center md:text-left">
                 Need to follow up? Call the renter directly for urgent updates.
               </div>
+              {canChangeBooking(booking.status, booking.slots?.start_time ?? null) && (
+                <CancelBookingDialog
+                  bookingId={booking.id}
+                  resourceId={booking.resource_id}
+                  amount={Number(booking.payment_amount || 0)}
+                  paymentMethod={booking.payment_method}
+                  firstSlotStart={booking.slots?.start_time ?? null}
+                  onCancelled={() => setRefreshKey((key) => key + 1)}
+                  className="w-full md:w-auto"
+                />
+              )}
               {contactPhone ? (
                 <Button size="lg" className="w-full md:w-auto" asChild>
                   <a href={`tel:${contactPhone}`} className="inline-flex items-center gap-2">
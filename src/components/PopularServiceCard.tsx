@@ -162,6 +162,7 @@ export const PopularServiceCard = ({ service }: PopularServiceCardProps) => {
             .select('open_time, close_time')
             .eq('resource_id', resources[0].id)
             .eq('is_open', true)
+            .is('applies_to_date', null)
             .limit(1)
             .maybeSingle();
 
@@ -0,0 +1,99 @@
+import { useEffect, useState } from "react";
+import { ShieldAlert } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "@/hooks/use-toast";
+import { setServicePolicy } from "@/lib/bookingActions";
+import { describePrepaymentThreshold } from "@/lib/reliability";
+
+interface PrepaymentThresholdSettingsProps {
+  resourceId: string;
+}
+
+export function PrepaymentThresholdSettings({ resourceId }: PrepaymentThresholdSettingsProps) {
+  const [serviceId, setServiceId] = useState<number | null>(null);
+  const [minScore, setMinScore] = useState("0");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let isMounted = true;
+    setLoading(true);
+
+    (async () => {
+      const { data, error } = await supabase
+        .from("business_resources")
+        .select("service_id, services:service_id (prepayment_min_score)")
+        .eq("id", resourceId)
+        .maybeSingle();
+
+      if (!isMounted) return;
+
+      if (error) {
+        console.error("Error fetching prepayment threshold:", error);
+      } else if (data) {
+        setServiceId(data.service_id);
+        if (data.services) {
+          setMinScore(String(data.services.prepayment_min_score));
+        }
+      }
+      setLoading(false);
+    })();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [resourceId]);
+
+  const threshold = Number(minScore) || 0;
+
+  const handleSave = async () => {
+    if (serviceId === null) return;
+
+    setSaving(true);
+    const result = await setServicePolicy(serviceId, { kind: "prepayment", minScore: threshold });
+    setSaving(false);
+
+    if (result.success === false) {
+      toast({ title: "Error", description: result.error, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Prepayment threshold saved", description: describePrepaymentThreshold(threshold) });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5" />
+          Unreliable Renters
+        </CardTitle>
+        <CardDescription>
+          The reliability score is the share of a renter's past bookings they checked in for, counting no-shows and
+          late cancellations against them. Applies to every resource of this service
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="max-w-xs">
+          <Label className="mb-2 block">Require full prepayment below (%)</Label>
+          <Input
+            type="number"
+            inputMode="numeric"
+            min={0}
+            max={100}
+            value={minScore}
+            onChange={(e) => setMinScore(e.target.value)}
+            disabled={loading}
+          />
+        </div>
+        <p className="text-sm text-muted-foreground">{describePrepaymentThreshold(threshold)}</p>
+        <Button onClick={handleSave} disabled={loading || saving || serviceId === null}>
+          {saving ? "Saving..." : "Save Threshold"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
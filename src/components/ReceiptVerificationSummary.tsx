@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useState } from "react";
+import { AlertTriangle, CheckCircle2, HelpCircle, Loader2, ScanText, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/hooks/use-toast";
+import { requestReceiptVerification } from "@/lib/bookingActions";
+import {
+  fetchReceiptVerification,
+  type ReceiptVerification,
+  type ReceiptVerificationStatus,
+} from "@/lib/bookingData";
+
+interface ReceiptVerificationSummaryProps {
+  bookingId: string;
+  expectedAmount: number;
+}
+
+const STATUS_BADGES: Record<ReceiptVerificationStatus, { label: string; className: string }> = {
+  verified: {
+    label: "Looks good",
+    className: "bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200",
+  },
+  review: {
+    label: "Check carefully",
+    className: "bg-orange-100 dark:bg-orange-900 text-orange-800 dark:text-orange-200",
+  },
+  unreadable: {
+    label: "Could not read",
+    className: "bg-muted text-muted-foreground",
+  },
+};
+
+const currencyFormatter = new Intl.NumberFormat("en-US", {
+  style: "currency",
+  currency: "MMK",
+  maximumFractionDigits: 0,
+});
+
+function MatchIcon({ matches }: { matches: boolean | null }) {
+  if (matches === true) return <CheckCircle2 className="h-4 w-4 text-green-600 shrink-0" />;
+  if (matches === false) return <XCircle className="h-4 w-4 text-destructive shrink-0" />;
+  return <HelpCircle className="h-4 w-4 text-muted-foreground shrink-0" />;
+}
+
+// What OCR read from the receipt, shown next to it to help the owner's check
+export function ReceiptVerificationSummary({ bookingId, expectedAmount }: ReceiptVerificationSummaryProps) {
+  const [verification, setVerification] = useState<ReceiptVerification | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [checking, setChecking] = useState(false);
+
+  const loadVerification = useCallback(async () => {
+    try {
+      setVerification(await fetchReceiptVerification(bookingId));
+    } catch (error) {
+      console.error("Error fetching receipt verification:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [bookingId]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadVerification();
+  }, [loadVerification]);
+
+  const handleCheck = async () => {
+    setChecking(true);
+    const result = await requestReceiptVerification(bookingId);
+    setChecking(false);
+
+    if (result.success === false) {
+      toast({ title: "Error", description: result.error, variant: "destructive" });
+      return;
+    }
+    loadVerification();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 rounded-lg border p-3 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading receipt check...
+      </div>
+    );
+  }
+
+  const badge = verification ? STATUS_BADGES[verification.status] : null;
+  const isDuplicate = (verification?.duplicate_booking_ids.length ?? 0) > 0;
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 font-medium">
+          <ScanText className="h-4 w-4 text-primary" />
+          Receipt Check
+        </div>
+        {badge && (
+          <Badge className={badge.className}>
+            {badge.label} · {Math.round(Number(verification?.confidence ?? 0) * 100)}%
+          </Badge>
+        )}
+      </div>
+
+      {verification ? (
+        <>
+          {isDuplicate && (
+            <div className="flex items-start gap-2 rounded-md bg-destructive/10 p-2 text-destructive">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+              <span>
+                This transaction ID is also on {verification.duplicate_booking_ids.length} other booking
+                {verification.duplicate_booking_ids.length === 1 ? "" : "s"}. The receipt may have been re-used.
+              </span>
+            </div>
+          )}
+          <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-2">
+            <dt className="text-muted-foreground">Amount</dt>
+            <dd className="flex items-center gap-2">
+              <MatchIcon matches={verification.amount_matches} />
+              {verification.extracted_amount !== null
+                ? currencyFormatter.format(Number(verification.extracted_amount))
+                : "Not found"}
+              {verification.amount_matches === false && (
+                <span className="text-muted-foreground">(expected {currencyFormatter.format(expectedAmount)})</span>
+              )}
+            </dd>
+            <dt className="text-muted-foreground">Transaction ID</dt>
+            <dd className="flex items-center gap-2 break-all">
+              <MatchIcon matches={verification.extracted_transaction_id ? !isDuplicate : null} />
+              {verification.extracted_transaction_id ?? "Not found"}
+            </dd>
+            <dt className="text-muted-foreground">Date</dt>
+            <dd>{verification.extracted_paid_at ?? "Not found"}</dd>
+            <dt className="text-muted-foreground">Paid to</dt>
+            <dd className="flex items-center gap-2">
+              <MatchIcon matches={verification.account_matches} />
+              {verification.extracted_account ?? "Not found"}
+              {verification.account_matches === false && (
+                <span className="text-muted-foreground">(not one of your accounts)</span>
+              )}
+            </dd>
+            {verification.provider && (
+              <>
+                <dt className="text-muted-foreground">Wallet</dt>
+                <dd>{verification.provider}</dd>
+              </>
+            )}
+          </dl>
+          <p className="text-xs text-muted-foreground">
+            Read automatically from the receipt image. Always compare with the receipt before confirming.
+          </p>
+        </>
+      ) : (
+        <p className="text-muted-foreground">This receipt has not been checked yet.</p>
+      )}
+
+      <Button variant="outline" size="sm" className="w-full" onClick={handleCheck} disabled={checking}>
+        {checking && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+        {verification ? "Check Again" : "Check Receipt"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { useEffect, useState } from "react";
+import { ExternalLink, FileText, Loader2, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { BOOKING_RECEIPTS_BUCKET, getReceiptSignedUrl, type ReceiptBucket } from "@/lib/receiptStorage";
+
+interface ReceiptViewerProps {
+  // Object path in the private bucket
+  path: string;
+  bucket?: ReceiptBucket;
+  className?: string;
+}
+
+// Receipts are uploaded as images or PDFs; the storage path keeps the original extension
+function isPdfPath(path: string) {
+  return path.split("?")[0].toLowerCase().endsWith(".pdf");
+}
+
+export function ReceiptViewer({ path, bucket = BOOKING_RECEIPTS_BUCKET, className }: ReceiptViewerProps) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const isPdf = isPdfPath(path);
+
+  useEffect(() => {
+    let isMounted = true;
+    setLoading(true);
+
+    getReceiptSignedUrl(bucket, path).then((signedUrl) => {
+      if (!isMounted) return;
+      setUrl(signedUrl);
+      setLoading(false);
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [bucket, path]);
+
+  // The signed URL expires after a few minutes, so a fresh one is issued for the new tab
+  const handleOpen = async () => {
+    const signedUrl = await getReceiptSignedUrl(bucket, path);
+    if (signedUrl) window.open(signedUrl, "_blank");
+  };
+
+  if (loading) {
+    return (
+      <div className={`flex items-center justify-center rounded-lg border bg-muted/30 py-10 ${className ?? ""}`}>
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!url) {
+    return (
+      <div
+        className={`flex flex-col items-center justify-center gap-2 rounded-lg border bg-muted/30 py-10 text-sm text-muted-foreground ${className ?? ""}`}
+      >
+        <Lock className="h-8 w-8" />
+        This receipt could not be loaded.
+      </div>
+    );
+  }
+
+  return (
+    <div className={`rounded-lg border overflow-hidden bg-muted/30 ${className ?? ""}`}>
+      {isPdf ? (
+        <object data={url} type="application/pdf" className="w-full h-96">
+          <div className="flex flex-col items-center justify-center gap-2 py-10 text-sm text-muted-foreground">
+            <FileText className="h-10 w-10" />
+            This browser cannot show the PDF inline.
+          </div>
+        </object>
+      ) : (
+        <img src={url} alt="Payment Receipt" className="w-full h-auto max-h-96 object-contain" />
+      )}
+      <div className="p-3 bg-background border-t">
+        <Button variant="outline" size="sm" className="w-full" onClick={handleOpen}>
+          <ExternalLink className="h-4 w-4 mr-1" />
+          {isPdf ? "Open PDF" : "View Full Size"}
+        </Button>
+      </div>
+    </div>
+  );
+}
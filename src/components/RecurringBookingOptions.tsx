@@ -0,0 +1,170 @@
+import { format } from "date-fns";
+import { CheckCircle2, Loader2, Repeat, XCircle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { RecurringOccurrence } from "@/lib/bookingData";
+import {
+  MAX_RECURRING_OCCURRENCES,
+  describeRecurrence,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+} from "@/lib/recurrence";
+
+interface RecurringBookingOptionsProps {
+  rule: RecurrenceRule | null;
+  onRuleChange: (rule: RecurrenceRule | null) => void;
+  occurrences: RecurringOccurrence[] | null;
+  checking: boolean;
+  onCheck: () => void;
+  canCheck: boolean;
+}
+
+type EndMode = "count" | "until";
+
+export function RecurringBookingOptions({
+  rule,
+  onRuleChange,
+  occurrences,
+  checking,
+  onCheck,
+  canCheck,
+}: RecurringBookingOptionsProps) {
+  const endMode: EndMode = rule?.until ? "until" : "count";
+  const availableCount = occurrences?.filter((o) => !o.conflict).length ?? 0;
+
+  const handleFrequencyChange = (value: string) => {
+    if (value === "none") {
+      onRuleChange(null);
+      return;
+    }
+    onRuleChange({
+      frequency: value as RecurrenceFrequency,
+      occurrences: rule?.occurrences ?? (rule?.until ? null : 8),
+      until: rule?.until ?? null,
+    });
+  };
+
+  const handleEndModeChange = (value: string) => {
+    if (!rule) return;
+    onRuleChange(
+      value === "until"
+        ? { ...rule, occurrences: null, until: format(new Date(Date.now() + 90 * 24 * 60 * 60 * 1000), "yyyy-MM-dd") }
+        : { ...rule, occurrences: 8, until: null }
+    );
+  };
+
+  return (
+    <Card className="shadow-lg border-primary/10">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-foreground">
+          <Repeat className="h-5 w-5" />
+          Repeat Booking
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label className="mb-2 block">Repeats</Label>
+            <Select value={rule?.frequency ?? "none"} onValueChange={handleFrequencyChange}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Does not repeat</SelectItem>
+                <SelectItem value="weekly">Every week</SelectItem>
+                <SelectItem value="biweekly">Every 2 weeks</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {rule && (
+            <>
+              <div>
+                <Label className="mb-2 block">Ends</Label>
+                <Select value={endMode} onValueChange={handleEndModeChange}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="count">After a number of games</SelectItem>
+                    <SelectItem value="until">On a date</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                {endMode === "count" ? (
+                  <>
+                    <Label className="mb-2 block">Number of games (max {MAX_RECURRING_OCCURRENCES})</Label>
+                    <Input
+                      type="number"
+                      inputMode="numeric"
+                      min={2}
+                      max={MAX_RECURRING_OCCURRENCES}
+                      value={rule.occurrences ?? ""}
+                      onChange={(e) =>
+                        onRuleChange({
+                          ...rule,
+                          occurrences: Math.min(parseInt(e.target.value, 10) || 2, MAX_RECURRING_OCCURRENCES),
+                        })
+                      }
+                    />
+                  </>
+                ) : (
+                  <>
+                    <Label className="mb-2 block">Last date</Label>
+                    <Input
+                      type="date"
+                      value={rule.until ?? ""}
+                      onChange={(e) => onRuleChange({ ...rule, until: e.target.value || null })}
+                    />
+                  </>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        {rule && (
+          <div className="space-y-3">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground">
+                {describeRecurrence(rule)}, at the times selected below. One receipt covers every game.
+              </p>
+              <Button variant="outline" size="sm" onClick={onCheck} disabled={!canCheck || checking}>
+                {checking && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                Check All Dates
+              </Button>
+            </div>
+
+            {occurrences && (
+              <div className="rounded-lg border divide-y text-sm">
+                <div className="px-3 py-2 font-medium">
+                  {availableCount} of {occurrences.length} dates available
+                  {availableCount < occurrences.length && " · unavailable dates will be skipped"}
+                </div>
+                {occurrences.map((occurrence) => (
+                  <div key={occurrence.date} className="flex items-center justify-between px-3 py-2">
+                    <span>{format(new Date(`${occurrence.date}T00:00:00`), "EEE, MMM dd, yyyy")}</span>
+                    {occurrence.conflict ? (
+                      <span className="flex items-center gap-1 text-destructive">
+                        <XCircle className="h-4 w-4" />
+                        {occurrence.conflict}
+                      </span>
+                    ) : (
+                      <span className="flex items-center gap-1 text-green-600">
+                        <CheckCircle2 className="h-4 w-4" />
+                        Available
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
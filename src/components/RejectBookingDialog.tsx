@@ -0,0 +1,93 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+interface RejectBookingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Number of bookings the reason will be sent for
+  bookingCount?: number;
+  processing: boolean;
+  onConfirm: (reason: string) => void;
+}
+
+const COMMON_REASONS = [
+  "Payment not received",
+  "Amount does not match the booking",
+  "Receipt is unreadable",
+  "Court is unavailable at this time",
+];
+
+export function RejectBookingDialog({
+  open,
+  onOpenChange,
+  bookingCount = 1,
+  processing,
+  onConfirm,
+}: RejectBookingDialogProps) {
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (open) setReason("");
+  }, [open]);
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            {bookingCount > 1 ? `Reject ${bookingCount} bookings?` : "Reject this booking?"}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            The slots are released and the customer sees the reason below.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-2">
+            {COMMON_REASONS.map((common) => (
+              <Button
+                key={common}
+                type="button"
+                size="sm"
+                variant={reason === common ? "default" : "outline"}
+                onClick={() => setReason(common)}
+              >
+                {common}
+              </Button>
+            ))}
+          </div>
+          <div>
+            <Label className="mb-2 block">Reason</Label>
+            <Textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Tell the customer why the payment was not accepted"
+              maxLength={500}
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={processing}>Back</AlertDialogCancel>
+          <Button variant="destructive" onClick={() => onConfirm(reason.trim())} disabled={processing || !reason.trim()}>
+            {processing && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Reject
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
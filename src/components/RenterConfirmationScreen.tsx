@@ -1,13 +1,22 @@
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { Loader2, CheckCircle2, XCircle, User, Receipt, DollarSign } from "lucide-react";
+import { Loader2, CheckCircle2, XCircle, User, Receipt, DollarSign, Clock } from "lucide-react";
 import { format } from "date-fns";
 import { toast } from "@/hooks/use-toast";
 import { processBookingFinalization } from "@/lib/bookingActions";
+import { fetchRenterReliability, type RenterReliability } from "@/lib/bookingData";
+import { formatInTimeZone, resolveTimeZone } from "@/lib/timezone";
+import { getBookingStatusLabel } from "@/lib/cancellationPolicy";
+import { describeRecurrence, parseRecurrence } from "@/lib/recurrence";
+import { ReceiptViewer } from "@/components/ReceiptViewer";
+import { ReceiptVerificationSummary } from "@/components/ReceiptVerificationSummary";
+import { RejectBookingDialog } from "@/components/RejectBookingDialog";
+import { RenterReliabilityBadge } from "@/components/RenterReliabilityBadge";
 
 interface RenterConfirmationScreenProps {
   bookingId: string;
@@ -18,11 +27,26 @@ interface BookingData {
   id: string;
   status: string;
   payment_amount: number;
+  balance_due: number;
   receipt_url: string | null;
   payment_method: string | null;
   created_at: string;
-  user_id: string;
-  customer_name?: string | null;
+  user_id: string | null;
+  refund_amount: number | null;
+  cancellation_reason: string | null;
+  rejection_reason: string | null;
+  recurrence: Json | null;
+  source: string;
+  customer_name: string | null;
+  customer_phone: string | null;
+}
+
+interface BookedSlot {
+  id: string;
+  start_time: string;
+  end_time: string;
+  resource_name: string | null;
+  time_zone: string;
 }
 
 const currencyFormatter = new Intl.NumberFormat("en-US", {
@@ -36,8 +60,11 @@ export default function RenterConfirmationScreen({
   onSuccess,
 }: RenterConfirmationScreenProps) {
   const [booking, setBooking] = useState<BookingData | null>(null);
+  const [bookedSlots, setBookedSlots] = useState<BookedSlot[]>([]);
+  const [reliability, setReliability] = useState<RenterReliability | null>(null);
   const [loading, setLoading] = useState(true);
   const [processing, setProcessing] = useState(false);
+  const [showRejectDialog, setShowRejectDialog] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
@@ -46,7 +73,7 @@ export default function RenterConfirmationScreen({
         setError(null);
         const { data: bookingData, error: bookingError } = await supabase
           .from("bookings")
-          .select("id, status, payment_amount, receipt_url, payment_method, created_at, user_id")
+          .select("id, status, payment_amount, balance_due, receipt_url, payment_method, created_at, user_id, refund_amount, cancellation_reason, rejection_reason, recurrence, source, customer_name, customer_phone")
           .eq("id", bookingId)
           .maybeSingle();
 
@@ -55,16 +82,43 @@ export default function RenterConfirmationScreen({
           throw new Error("Booking not found.");
         }
 
-        // Fetch profile separately
-        const { data: profileData } = await supabase
-          .from("profiles")
-          .select("display_name")
-          .eq("id", bookingData.user_id)
-          .maybeSingle();
+        // Fetch profile separately; walk-ins have no renter account
+        const { data: profileData } = bookingData.user_id
+          ? await supabase.from("profiles").select("display_name").eq("id", bookingData.user_id).maybeSingle()
+          : { data: null };
+
+        const { data: slotRows } = await supabase
+          .from("booking_slots")
+          .select("slots (id, start_time, end_time, business_resources:resource_id (name, businesses:business_id (timezone)))")
+          .eq("booking_id", bookingId);
+
+        setBookedSlots(
+          (slotRows || [])
+            .filter((row) => row.slots)
+            .map((row) => ({
+              id: row.slots.id,
+              start_time: row.slots.start_time,
+              end_time: row.slots.end_time,
+              resource_name: row.slots.business_resources?.name ?? null,
+              time_zone: resolveTimeZone(row.slots.business_resources?.businesses?.timezone),
+            }))
+            .sort((a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime())
+        );
+
+        // Past check-ins, no-shows and late cancellations of the renter; walk-ins have no history
+        if (bookingData.source === "online") {
+          try {
+            const reliabilityByUser = await fetchRenterReliability([bookingData.user_id]);
+            setReliability(reliabilityByUser.get(bookingData.user_id) ?? null);
+          } catch (reliabilityError) {
+            console.error("Failed to load renter reliability", reliabilityError);
+          }
+        }
 
+        // Walk-in customers have no account; their name is kept on the booking
         setBooking({
           ...bookingData,
-          customer_name: profileData?.display_name || null,
+          customer_name: bookingData.customer_name || profileData?.display_name || null,
         });
       } catch (err) {
         console.error("Failed to load booking details", err);
@@ -84,17 +138,12 @@ export default function RenterConfirmationScreen({
     fetchBookingDetails();
   }, [bookingId]);
 
-  const handleAction = async (actionType: "confirm" | "reject") => {
+  const handleAction = async (actionType: "confirm" | "reject", rejectionReason = "") => {
     if (!booking) return;
 
     setProcessing(true);
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        throw new Error("You must be logged in to perform this action.");
-      }
-
-      const result = await processBookingFinalization(bookingId, user.id, actionType);
+      const result = await processBookingFinalization(bookingId, actionType, rejectionReason);
 
       if (result.success) {
         toast({
@@ -103,6 +152,7 @@ export default function RenterConfirmationScreen({
             ? "The booking has been confirmed and the slot is now marked as booked."
             : "The booking has been rejected and the slot is now available again.",
         });
+        setShowRejectDialog(false);
         onSuccess?.();
       } else {
         throw new Error("error" in result ? result.error : "Unknown error occurred");
@@ -144,6 +194,7 @@ export default function RenterConfirmationScreen({
 
   const customerName = booking.customer_name || "Customer";
   const isAlreadyProcessed = booking.status !== "Pending";
+  const recurrence = parseRecurrence(booking.recurrence);
 
   return (
     <Card className="w-full">
@@ -151,7 +202,7 @@ export default function RenterConfirmationScreen({
         <div className="flex items-center justify-between">
           <CardTitle className="text-2xl">Payment Confirmation</CardTitle>
           <Badge variant={isAlreadyProcessed ? "secondary" : "default"}>
-            {booking.status}
+            {getBookingStatusLabel(booking.status)}
           </Badge>
         </div>
       </CardHeader>
@@ -163,17 +214,62 @@ export default function RenterConfirmationScreen({
             Customer Name
           </div>
           <div className="text-xl font-semibold">{customerName}</div>
+          {booking.customer_phone && (
+            <div className="text-sm text-muted-foreground">{booking.customer_phone}</div>
+          )}
+          {booking.source === "online" && <RenterReliabilityBadge reliability={reliability} showDetails />}
         </div>
 
         <Separator />
 
+        {/* Booked Slots */}
+        {bookedSlots.length > 0 && (
+          <>
+            <div className="space-y-3">
+              <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                <Clock className="h-4 w-4" />
+                {bookedSlots.length > 1 ? `Booked Slots (${bookedSlots.length})` : "Booked Slot"}
+              </div>
+              {recurrence && (
+                <p className="text-sm text-muted-foreground">
+                  Season booking · {describeRecurrence(recurrence)}. Confirming approves every date below.
+                </p>
+              )}
+              <ul className="space-y-1 text-sm">
+                {bookedSlots.map((slot) => (
+                  <li key={slot.id} className="flex items-center justify-between rounded-md bg-muted/30 px-3 py-2">
+                    <span>
+                      {formatInTimeZone(slot.start_time, slot.time_zone, "EEE, dd MMM • h:mm a")} - {formatInTimeZone(slot.end_time, slot.time_zone, "h:mm a")}
+                    </span>
+                    {slot.resource_name && (
+                      <span className="text-muted-foreground">{slot.resource_name}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <Separator />
+          </>
+        )}
+
         {/* Receipt */}
         <div className="space-y-3">
           <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
             <Receipt className="h-4 w-4" />
             Payment Receipt
           </div>
-          {booking.payment_method?.toLowerCase() === "cash on arrival" ? (
+          {booking.source === "walk_in" ? (
+            <div className="rounded-lg border bg-muted/30 p-6 text-center">
+              <div className="flex flex-col items-center gap-2">
+                <Receipt className="h-12 w-12 text-primary" />
+                <p className="text-lg font-semibold text-foreground">Walk-in Booking</p>
+                <p className="text-sm text-muted-foreground">
+                  Paid at the venue{booking.payment_method ? ` by ${booking.payment_method}` : ""}
+                </p>
+              </div>
+            </div>
+          ) : booking.payment_method?.toLowerCase() === "cash on arrival" ? (
             <div className="rounded-lg border bg-muted/30 p-6 text-center">
               <div className="flex flex-col items-center gap-2">
                 <Receipt className="h-12 w-12 text-primary" />
@@ -184,22 +280,12 @@ export default function RenterConfirmationScreen({
               </div>
             </div>
           ) : booking.receipt_url ? (
-            <div className="rounded-lg border overflow-hidden bg-muted/30">
-              <img
-                src={booking.receipt_url}
-                alt="Payment Receipt"
-                className="w-full h-auto max-h-96 object-contain"
+            <div className="space-y-3">
+              <ReceiptViewer path={booking.receipt_url} />
+              <ReceiptVerificationSummary
+                bookingId={booking.id}
+                expectedAmount={Number(booking.payment_amount || 0)}
               />
-              <div className="p-3 bg-background border-t">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  className="w-full"
-                  onClick={() => window.open(booking.receipt_url!, "_blank")}
-                >
-                  View Full Size
-                </Button>
-              </div>
             </div>
           ) : (
             <p className="text-sm text-muted-foreground">No receipt available</p>
@@ -212,11 +298,16 @@ export default function RenterConfirmationScreen({
         <div className="space-y-3">
           <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
             <DollarSign className="h-4 w-4" />
-            Total Payment Amount
+            {Number(booking.balance_due) > 0 ? "Deposit Paid" : "Total Payment Amount"}
           </div>
           <div className="text-3xl font-bold text-primary">
             {currencyFormatter.format(Number(booking.payment_amount || 0))}
           </div>
+          {Number(booking.balance_due) > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {currencyFormatter.format(Number(booking.balance_due))} is due at the venue
+            </p>
+          )}
           <p className="text-xs text-muted-foreground">
             Submitted on {format(new Date(booking.created_at), "dd MMM yyyy, h:mm a")}
           </p>
@@ -228,15 +319,25 @@ export default function RenterConfirmationScreen({
         {isAlreadyProcessed ? (
           <div className="rounded-lg bg-muted/50 p-4 text-center">
             <p className="text-sm text-muted-foreground">
-              This booking has already been {booking.status.toLowerCase()}.
+              This booking is {getBookingStatusLabel(booking.status).toLowerCase()}.
             </p>
+            {booking.status === "RefundPending" && booking.refund_amount ? (
+              <p className="mt-1 text-sm font-medium text-foreground">
+                Refund owed to the customer: {currencyFormatter.format(Number(booking.refund_amount))}
+              </p>
+            ) : null}
+            {(booking.rejection_reason || booking.cancellation_reason) && (
+              <p className="mt-1 text-sm text-muted-foreground">
+                Reason: {booking.rejection_reason || booking.cancellation_reason}
+              </p>
+            )}
           </div>
         ) : (
           <div className="grid grid-cols-2 gap-4">
             <Button
               variant="destructive"
               size="lg"
-              onClick={() => handleAction("reject")}
+              onClick={() => setShowRejectDialog(true)}
               disabled={processing}
               className="w-full"
             >
@@ -263,6 +364,13 @@ export default function RenterConfirmationScreen({
             </Button>
           </div>
         )}
+
+        <RejectBookingDialog
+          open={showRejectDialog}
+          onOpenChange={setShowRejectDialog}
+          processing={processing}
+          onConfirm={(reason) => handleAction("reject", reason)}
+        />
       </CardContent>
     </Card>
   );
@@ -0,0 +1,38 @@
+import { Badge } from "@/components/ui/badge";
+import type { RenterReliability } from "@/lib/bookingData";
+import { describeReliability, getReliabilityLevel, type ReliabilityLevel } from "@/lib/reliability";
+
+interface RenterReliabilityBadgeProps {
+  reliability: RenterReliability | null | undefined;
+  showDetails?: boolean;
+  className?: string;
+}
+
+const LEVEL_CLASSES: Record<ReliabilityLevel, string> = {
+  new: "bg-muted text-muted-foreground border-transparent",
+  reliable: "bg-emerald-100 text-emerald-800 border-transparent",
+  mixed: "bg-amber-100 text-amber-800 border-transparent",
+  unreliable: "bg-red-100 text-red-800 border-transparent",
+};
+
+const LEVEL_LABELS: Record<ReliabilityLevel, string> = {
+  new: "New renter",
+  reliable: "Reliable",
+  mixed: "Sometimes misses",
+  unreliable: "Often misses",
+};
+
+export function RenterReliabilityBadge({ reliability, showDetails = false, className }: RenterReliabilityBadgeProps) {
+  const level = getReliabilityLevel(reliability);
+  const details = describeReliability(reliability);
+
+  return (
+    <div className={`inline-flex flex-col gap-1 ${className ?? ""}`}>
+      <Badge variant="outline" className={LEVEL_CLASSES[level]} title={details}>
+        {LEVEL_LABELS[level]}
+        {reliability?.score !== null && reliability?.score !== undefined && ` · ${reliability.score}%`}
+      </Badge>
+      {showDetails && <span className="text-xs text-muted-foreground">{details}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+import { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { CalendarClock, Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "@/hooks/use-toast";
+import { rescheduleBooking } from "@/lib/bookingActions";
+import {
+  fetchAllSlotsForBusiness,
+  isSlotHeldByOther,
+  isSlotPastLeadTime,
+  type SlotWithResource,
+} from "@/lib/bookingData";
+import { formatInTimeZone, resolveTimeZone } from "@/lib/timezone";
+
+interface RescheduleBookingDialogProps {
+  bookingId: string;
+  // Owners may move bookings inside the resource's lead time
+  asOwner?: boolean;
+  onRescheduled?: () => void;
+  className?: string;
+}
+
+type BookingSummary = {
+  userId: string;
+  businessId: string;
+  timeZone: string;
+  paymentAmount: number;
+  currentSlotIds: Set<string>;
+};
+
+const currencyFormatter = new Intl.NumberFormat("en-US", {
+  style: "currency",
+  currency: "MMK",
+  maximumFractionDigits: 0,
+});
+
+export function RescheduleBookingDialog({
+  bookingId,
+  asOwner = false,
+  onRescheduled,
+  className,
+}: RescheduleBookingDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [booking, setBooking] = useState<BookingSummary | null>(null);
+  const [selectedDate, setSelectedDate] = useState<Date>(new Date());
+  const [slots, setSlots] = useState<SlotWithResource[]>([]);
+  const [selected, setSelected] = useState<Map<string, SlotWithResource>>(new Map());
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Load the booking when the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    let isMounted = true;
+
+    (async () => {
+      const { data, error } = await supabase
+        .from("bookings")
+        .select(
+          `user_id, payment_amount,
+           booking_slots (slot_id),
+           business_resources (business_id, businesses (timezone))`
+        )
+        .eq("id", bookingId)
+        .maybeSingle();
+
+      if (!isMounted) return;
+      if (error || !data?.business_resources) {
+        console.error("Error loading booking for reschedule:", error);
+        toast({ title: "Error", description: "Unable to load this booking", variant: "destructive" });
+        setOpen(false);
+        return;
+      }
+
+      setBooking({
+        userId: data.user_id,
+        businessId: data.business_resources.business_id,
+        timeZone: resolveTimeZone(data.business_resources.businesses?.timezone),
+        paymentAmount: Number(data.payment_amount || 0),
+        currentSlotIds: new Set((data.booking_slots || []).map((bs) => bs.slot_id)),
+      });
+    })();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [open, bookingId]);
+
+  // Slots of the whole business for the picked date
+  useEffect(() => {
+    if (!open || !booking) return;
+    let isMounted = true;
+    setLoadingSlots(true);
+
+    fetchAllSlotsForBusiness(booking.businessId, format(selectedDate, "yyyy-MM-dd"), booking.timeZone)
+      .then((data) => {
+        if (isMounted) setSlots(data);
+      })
+      .catch((error) => {
+        console.error("Error fetching slots for reschedule:", error);
+        if (isMounted) setSlots([]);
+      })
+      .finally(() => {
+        if (isMounted) setLoadingSlots(false);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [open, booking, selectedDate]);
+
+  const selectableSlots = useMemo(() => {
+    if (!booking) return [];
+    const now = Date.now();
+    return slots.filter((slot) => {
+      if (booking.currentSlotIds.has(slot.id)) return true;
+      if (slot.is_booked || isSlotHeldByOther(slot, booking.userId)) return false;
+      return asOwner ? new Date(slot.start_time).getTime() > now : !isSlotPastLeadTime(slot);
+    });
+  }, [slots, booking, asOwner]);
+
+  const newTotal = Array.from(selected.values()).reduce((sum, slot) => sum + Number(slot.slot_price || 0), 0);
+  const difference = booking ? newTotal - booking.paymentAmount : 0;
+
+  const toggleSlot = (slot: SlotWithResource) => {
+    setSelected((prev) => {
+      const next = new Map(prev);
+      if (next.has(slot.id)) {
+        next.delete(slot.id);
+      } else {
+        next.set(slot.id, slot);
+      }
+      return next;
+    });
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (!value) {
+      setSelected(new Map());
+      setBooking(null);
+    }
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    const result = await rescheduleBooking(bookingId, Array.from(selected.keys()));
+    setSubmitting(false);
+
+    if (result.success === false) {
+      toast({ title: "Reschedule failed", description: result.error, variant: "destructive" });
+      return;
+    }
+
+    toast({
+      title: "Booking rescheduled",
+      description:
+        result.balanceDue > 0
+          ? `${currencyFormatter.format(result.balanceDue)} is still to be paid for the new slots.`
+          : result.balanceDue < 0
+            ? `${currencyFormatter.format(-result.balanceDue)} will be refunded for the new slots.`
+            : "The new slots cost the same as the amount paid.",
+    });
+    handleOpenChange(false);
+    onRescheduled?.();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" className={className}>
+          <CalendarClock className="h-4 w-4 mr-1" />
+          Reschedule
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reschedule Booking</DialogTitle>
+          <DialogDescription>
+            Pick the new slots. The original payment receipt stays with the booking.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!booking ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-[auto,1fr]">
+            <Calendar
+              mode="single"
+              selected={selectedDate}
+              onSelect={(date) => date && setSelectedDate(date)}
+              disabled={{ before: new Date(new Date().setHours(0, 0, 0, 0)) }}
+              className="rounded-md border"
+            />
+            <div className="space-y-2">
+              {loadingSlots ? (
+                <div className="flex justify-center py-10">
+                  <Loader2 className="h-5 w-5 animate-spin text-primary" />
+                </div>
+              ) : selectableSlots.length === 0 ? (
+                <p className="py-10 text-center text-sm text-muted-foreground">
+                  No free slots on {format(selectedDate, "MMM dd, yyyy")}
+                </p>
+              ) : (
+                selectableSlots.map((slot) => (
+                  <Button
+                    key={slot.id}
+                    type="button"
+                    variant={selected.has(slot.id) ? "default" : "outline"}
+                    className="w-full justify-between"
+                    onClick={() => toggleSlot(slot)}
+                  >
+                    <span>
+                      {formatInTimeZone(slot.start_time, booking.timeZone, "h:mm a")} -{" "}
+                      {formatInTimeZone(slot.end_time, booking.timeZone, "h:mm a")} · {slot.resource_name}
+                    </span>
+                    <span className="flex items-center gap-2">
+                      {booking.currentSlotIds.has(slot.id) && <Badge variant="secondary">Current</Badge>}
+                      {currencyFormatter.format(Number(slot.slot_price || 0))}
+                    </span>
+                  </Button>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+
+        {booking && selected.size > 0 && (
+          <div className="rounded-lg border bg-muted/30 p-3 space-y-1 text-sm">
+            <div className="flex items-center justify-between text-muted-foreground">
+              <span>Amount paid</span>
+              <span>{currencyFormatter.format(booking.paymentAmount)}</span>
+            </div>
+            <div className="flex items-center justify-between text-muted-foreground">
+              <span>New slots ({selected.size})</span>
+              <span>{currencyFormatter.format(newTotal)}</span>
+            </div>
+            <div className="flex items-center justify-between font-medium">
+              <span>{difference >= 0 ? "Still to pay" : "To be refunded"}</span>
+              <span>{currencyFormatter.format(Math.abs(difference))}</span>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={submitting}>
+            Close
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitting || selected.size === 0}>
+            {submitting && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Move Booking
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,163 @@
+import { useEffect, useState } from "react";
+import { Timer } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "@/hooks/use-toast";
+import { regenerateResourceSlots } from "@/lib/bookingData";
+import { addDaysToDateString, toZonedDateString } from "@/lib/timezone";
+
+interface ResourceSlotSettingsProps {
+  resourceId: string;
+  timeZone: string;
+  onChanged?: () => void;
+}
+
+// Days of slots rebuilt after the settings change (matches the renter's booking window)
+const REGENERATE_DAYS = 30;
+
+export function ResourceSlotSettings({ resourceId, timeZone, onChanged }: ResourceSlotSettingsProps) {
+  const [duration, setDuration] = useState("");
+  const [defaultDuration, setDefaultDuration] = useState<number>(60);
+  const [buffer, setBuffer] = useState("0");
+  const [leadTime, setLeadTime] = useState("0");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let isMounted = true;
+    setLoading(true);
+
+    (async () => {
+      const { data, error } = await supabase
+        .from("business_resources")
+        .select("slot_duration_minutes, buffer_minutes, min_lead_minutes, services:service_id (default_duration_min)")
+        .eq("id", resourceId)
+        .maybeSingle();
+
+      if (!isMounted) return;
+
+      if (error) {
+        console.error("Error fetching slot settings:", error);
+      } else if (data) {
+        setDuration(data.slot_duration_minutes?.toString() ?? "");
+        setDefaultDuration(data.services?.default_duration_min ?? 60);
+        setBuffer(data.buffer_minutes.toString());
+        setLeadTime(data.min_lead_minutes.toString());
+      }
+      setLoading(false);
+    })();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [resourceId]);
+
+  const handleSave = async () => {
+    const durationValue = duration.trim() ? parseInt(duration, 10) : null;
+    const bufferValue = parseInt(buffer, 10) || 0;
+    const leadValue = parseInt(leadTime, 10) || 0;
+
+    if (durationValue !== null && (Number.isNaN(durationValue) || durationValue < 15 || durationValue > 720)) {
+      toast({
+        title: "Invalid slot length",
+        description: "Slot length must be between 15 and 720 minutes.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from("business_resources")
+        .update({
+          slot_duration_minutes: durationValue,
+          buffer_minutes: bufferValue,
+          min_lead_minutes: leadValue,
+        })
+        .eq("id", resourceId);
+      if (error) throw error;
+
+      // Rebuild upcoming free slots with the new length and buffer; bookings are kept
+      const today = toZonedDateString(new Date(), timeZone);
+      const report = await regenerateResourceSlots(resourceId, today, addDaysToDateString(today, REGENERATE_DAYS));
+
+      toast({
+        title: "Slot settings saved",
+        description:
+          report.conflicts.length > 0
+            ? `${report.conflicts.length} booked slot(s) no longer match the new slot length and were kept.`
+            : `${report.slotsCreated} slots created, ${report.slotsDeleted} removed.`,
+      });
+      onChanged?.();
+    } catch (error) {
+      console.error("Error saving slot settings:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save slot settings",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Timer className="h-5 w-5" />
+          Slot Settings
+        </CardTitle>
+        <CardDescription>Slot length, changeover time and how early renters must book</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label className="mb-2 block">Slot length (minutes)</Label>
+            <Input
+              type="number"
+              inputMode="numeric"
+              min={15}
+              step={15}
+              value={duration}
+              onChange={(e) => setDuration(e.target.value)}
+              placeholder={`Service default (${defaultDuration})`}
+              disabled={loading}
+            />
+          </div>
+          <div>
+            <Label className="mb-2 block">Buffer between slots (minutes)</Label>
+            <Input
+              type="number"
+              inputMode="numeric"
+              min={0}
+              step={5}
+              value={buffer}
+              onChange={(e) => setBuffer(e.target.value)}
+              disabled={loading}
+            />
+          </div>
+          <div>
+            <Label className="mb-2 block">Minimum notice (minutes)</Label>
+            <Input
+              type="number"
+              inputMode="numeric"
+              min={0}
+              step={15}
+              value={leadTime}
+              onChange={(e) => setLeadTime(e.target.value)}
+              disabled={loading}
+            />
+          </div>
+        </div>
+        <Button onClick={handleSave} disabled={loading || saving}>
+          {saving ? "Saving..." : "Save Settings"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
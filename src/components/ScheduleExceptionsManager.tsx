@@ -0,0 +1,300 @@
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { AlertTriangle, CalendarOff, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import {
+  fetchScheduleExceptions,
+  regenerateResourceSlots,
+  type ResourceLite,
+  type ScheduleException,
+  type SlotConflict,
+} from "@/lib/bookingData";
+import { addDaysToDateString, formatInTimeZone, getIsoDayOfWeek, toZonedDateString } from "@/lib/timezone";
+
+interface ScheduleExceptionsManagerProps {
+  resources: ResourceLite[];
+  selectedResourceId: string;
+  selectedDate: Date;
+  timeZone: string;
+  onChanged?: () => void;
+}
+
+type ExceptionType = "closed" | "special_hours";
+type ExceptionScope = "resource" | "business";
+
+// How far ahead the upcoming exceptions list looks
+const UPCOMING_DAYS = 90;
+
+const toDbTime = (time: string) => (time.length === 5 ? `${time}:00` : time);
+
+export function ScheduleExceptionsManager({
+  resources,
+  selectedResourceId,
+  selectedDate,
+  timeZone,
+  onChanged,
+}: ScheduleExceptionsManagerProps) {
+  const [exceptionType, setExceptionType] = useState<ExceptionType>("closed");
+  const [scope, setScope] = useState<ExceptionScope>("resource");
+  const [openTime, setOpenTime] = useState("09:00");
+  const [closeTime, setCloseTime] = useState("22:00");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const [exceptions, setExceptions] = useState<ScheduleException[]>([]);
+  const [conflicts, setConflicts] = useState<Array<SlotConflict & { resource_id: string }>>([]);
+
+  const dateStr = format(selectedDate, "yyyy-MM-dd");
+  const resourceNames = new Map(resources.map((r) => [r.id, r.name]));
+
+  const loadExceptions = useCallback(async () => {
+    try {
+      const today = toZonedDateString(new Date(), timeZone);
+      const data = await fetchScheduleExceptions(
+        resources.map((r) => r.id),
+        today,
+        addDaysToDateString(today, UPCOMING_DAYS)
+      );
+      setExceptions(data);
+    } catch (error) {
+      console.error("Error fetching schedule exceptions:", error);
+    }
+  }, [resources, timeZone]);
+
+  useEffect(() => {
+    loadExceptions();
+  }, [loadExceptions]);
+
+  // Rebuild the affected date so closed days lose their free slots and special hours get new ones.
+  // Bookings that fall outside the new hours are kept and listed for the owner to resolve.
+  const regenerateSlots = async (resourceIds: string[], date: string) => {
+    const found: Array<SlotConflict & { resource_id: string }> = [];
+    for (const resourceId of resourceIds) {
+      try {
+        const report = await regenerateResourceSlots(resourceId, date, date);
+        found.push(...report.conflicts.map((conflict) => ({ ...conflict, resource_id: resourceId })));
+      } catch (error) {
+        console.error(`Slot regeneration failed for resource ${resourceId}:`, error);
+      }
+    }
+    setConflicts(found);
+    if (found.length > 0) {
+      toast({
+        title: "Bookings need attention",
+        description: `${found.length} booked slot(s) fall outside the new hours and were kept.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSave = async () => {
+    if (exceptionType === "special_hours" && (!openTime || !closeTime)) {
+      toast({
+        title: "Opening hours required",
+        description: "Enter the opening and closing time for this date.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const targetIds = scope === "business" ? resources.map((r) => r.id) : [selectedResourceId];
+    const isOpen = exceptionType === "special_hours";
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("business_schedules").upsert(
+        targetIds.map((resourceId) => ({
+          resource_id: resourceId,
+          applies_to_date: dateStr,
+          day_of_week: getIsoDayOfWeek(dateStr),
+          is_open: isOpen,
+          open_time: isOpen ? toDbTime(openTime) : "00:00:00",
+          close_time: isOpen ? toDbTime(closeTime) : "00:00:00",
+          note: note.trim() || null,
+        })),
+        { onConflict: "resource_id,applies_to_date" }
+      );
+      if (error) throw error;
+
+      await regenerateSlots(targetIds, dateStr);
+
+      toast({
+        title: "Schedule updated",
+        description: isOpen
+          ? `Special hours saved for ${format(selectedDate, "MMM dd, yyyy")}`
+          : `${format(selectedDate, "MMM dd, yyyy")} marked as closed`,
+      });
+      setNote("");
+      await loadExceptions();
+      onChanged?.();
+    } catch (error) {
+      console.error("Error saving schedule exception:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save the schedule exception",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (exception: ScheduleException) => {
+    setRemovingId(exception.id);
+    try {
+      const { error } = await supabase.from("business_schedules").delete().eq("id", exception.id);
+      if (error) throw error;
+
+      // Back to the weekly rule for that date
+      if (exception.applies_to_date) {
+        await regenerateSlots([exception.resource_id], exception.applies_to_date);
+      }
+
+      await loadExceptions();
+      onChanged?.();
+    } catch (error) {
+      console.error("Error removing schedule exception:", error);
+      toast({
+        title: "Error",
+        description: "Failed to remove the schedule exception",
+        variant: "destructive",
+      });
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarOff className="h-5 w-5" />
+          Holidays &amp; Special Hours
+        </CardTitle>
+        <CardDescription>
+          Override the weekly schedule for {format(selectedDate, "MMMM dd, yyyy")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label className="mb-2 block">Type</Label>
+            <Select value={exceptionType} onValueChange={(v) => setExceptionType(v as ExceptionType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="closed">Closed all day</SelectItem>
+                <SelectItem value="special_hours">Special opening hours</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="mb-2 block">Applies to</Label>
+            <Select value={scope} onValueChange={(v) => setScope(v as ExceptionScope)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="resource">
+                  {resourceNames.get(selectedResourceId) ?? "This resource"} only
+                </SelectItem>
+                <SelectItem value="business">All resources</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {exceptionType === "special_hours" && (
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label className="mb-2 block">Opens</Label>
+              <Input type="time" value={openTime} onChange={(e) => setOpenTime(e.target.value)} />
+            </div>
+            <div>
+              <Label className="mb-2 block">Closes</Label>
+              <Input type="time" value={closeTime} onChange={(e) => setCloseTime(e.target.value)} />
+            </div>
+          </div>
+        )}
+
+        <div>
+          <Label className="mb-2 block">Reason (optional)</Label>
+          <Input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="e.g., Thingyan holiday, pitch maintenance"
+          />
+        </div>
+
+        <Button onClick={handleSave} disabled={saving || !selectedResourceId}>
+          {saving ? "Saving..." : "Save Exception"}
+        </Button>
+
+        {conflicts.length > 0 && (
+          <div className="space-y-2 rounded-lg border border-destructive/50 bg-destructive/5 p-3">
+            <div className="flex items-center gap-2 text-sm font-medium text-destructive">
+              <AlertTriangle className="h-4 w-4" />
+              Bookings outside the new hours
+            </div>
+            <p className="text-xs text-muted-foreground">
+              These slots were kept because they are booked or being checked out. Contact the renters to
+              reschedule or cancel them.
+            </p>
+            {conflicts.map((conflict) => (
+              <div key={conflict.slot_id} className="flex items-center justify-between text-sm">
+                <span>
+                  {formatInTimeZone(conflict.start_time, timeZone, "MMM dd, h:mm a")} -{" "}
+                  {formatInTimeZone(conflict.end_time, timeZone, "h:mm a")} ·{" "}
+                  {resourceNames.get(conflict.resource_id) ?? "Resource"}
+                </span>
+                <Badge variant="outline">{conflict.booking_status ?? "Held"}</Badge>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {exceptions.length > 0 && (
+          <div className="space-y-2 pt-2">
+            <div className="text-sm font-medium">Upcoming exceptions</div>
+            {exceptions.map((exception) => (
+              <div
+                key={exception.id}
+                className="flex items-center justify-between gap-3 p-3 border rounded-lg text-sm"
+              >
+                <div className="space-y-1">
+                  <div className="font-medium">
+                    {exception.applies_to_date} · {resourceNames.get(exception.resource_id) ?? "Resource"}
+                  </div>
+                  <div className="flex items-center gap-2 text-muted-foreground">
+                    <Badge variant={exception.is_open ? "secondary" : "destructive"}>
+                      {exception.is_open
+                        ? `${exception.open_time.slice(0, 5)} - ${exception.close_time.slice(0, 5)}`
+                        : "Closed"}
+                    </Badge>
+                    {exception.note && <span>{exception.note}</span>}
+                  </div>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleRemove(exception)}
+                  disabled={removingId === exception.id}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
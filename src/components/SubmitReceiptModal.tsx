@@ -13,7 +13,7 @@ import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { toast } from "@/hooks/use-toast";
-import { CheckCircle2, Copy, Upload, X } from "lucide-react";
+import { CheckCircle2, Clock, Copy, FileText, Upload, X } from "lucide-react";
 
 export type PaymentMethodInfo = {
   method_type: string;
@@ -26,8 +26,13 @@ interface SubmitReceiptModalProps {
   onClose: () => void;
   paymentMethods: PaymentMethodInfo[];
   amount: number;
+  // Smallest amount the service lets the renter prepay; the rest is paid at the venue
+  depositAmount?: number | null;
+  // The renter's reliability is below the service's threshold: full price up front, no cash on arrival
+  prepaymentRequired?: boolean;
   isSubmitting: boolean;
-  onSubmit: (file: File | null, paymentMethod: string | null) => Promise<void>;
+  holdExpiresAt?: string | null;
+  onSubmit: (file: File | null, paymentMethod: string | null, amountPaid: number) => Promise<void>;
 }
 
 const currencyFormatter = new Intl.NumberFormat("en-US", {
@@ -41,23 +46,47 @@ export function SubmitReceiptModal({
   onClose,
   paymentMethods,
   amount,
+  depositAmount = null,
+  prepaymentRequired = false,
   isSubmitting,
+  holdExpiresAt = null,
   onSubmit,
 }: SubmitReceiptModalProps) {
   const [selectedMethodIndex, setSelectedMethodIndex] = useState(-1);
+  const [payInFull, setPayInFull] = useState(false);
   const [receiptFile, setReceiptFile] = useState<File | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!open || !holdExpiresAt) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [open, holdExpiresAt]);
+
+  const holdRemainingMs = holdExpiresAt ? new Date(holdExpiresAt).getTime() - now : null;
+  const holdExpired = holdRemainingMs !== null && holdRemainingMs <= 0;
+  const holdCountdown =
+    holdRemainingMs !== null && holdRemainingMs > 0
+      ? `${Math.floor(holdRemainingMs / 60000)}:${String(Math.floor((holdRemainingMs % 60000) / 1000)).padStart(2, "0")}`
+      : null;
 
   const selectedMethod = useMemo(
     () => selectedMethodIndex >= 0 ? paymentMethods[selectedMethodIndex] ?? null : null,
     [paymentMethods, selectedMethodIndex]
   );
 
+  const isCashOnArrival = selectedMethod?.method_type.toLowerCase() === "cash on arrival";
+  const depositAllowed = depositAmount !== null && depositAmount < amount && !isCashOnArrival;
+  const amountPaid = depositAllowed && !payInFull ? depositAmount : amount;
+
   useEffect(() => {
     if (!open) {
       setReceiptFile(null);
       setPreviewUrl(null);
       setSelectedMethodIndex(-1);
+      setPayInFull(false);
     }
   }, [open]);
 
@@ -93,10 +122,10 @@ export function SubmitReceiptModal({
       return;
     }
 
-    if (!file.type.startsWith("image/")) {
+    if (!file.type.startsWith("image/") && file.type !== "application/pdf") {
       toast({
         title: "Unsupported file",
-        description: "Please upload an image of your payment receipt.",
+        description: "Please upload an image or PDF of your payment receipt.",
         variant: "destructive",
       });
       event.target.value = "";
@@ -108,7 +137,7 @@ export function SubmitReceiptModal({
     if (file.size > maxSize) {
       toast({
         title: "File too large",
-        description: "Receipt image must be less than 1MB. Please compress or resize your image.",
+        description: "Receipt must be less than 1MB. Please compress or resize your file.",
         variant: "destructive",
       });
       event.target.value = "";
@@ -126,10 +155,10 @@ export function SubmitReceiptModal({
   const handleSubmit = async () => {
     const paymentMethodType = selectedMethod?.method_type || null;
     // For "Cash on Arrival", receipt is optional
-    if (selectedMethod?.method_type.toLowerCase() === "cash on arrival") {
-      await onSubmit(receiptFile || null, paymentMethodType);
+    if (isCashOnArrival) {
+      await onSubmit(receiptFile || null, paymentMethodType, amount);
     } else if (receiptFile) {
-      await onSubmit(receiptFile, paymentMethodType);
+      await onSubmit(receiptFile, paymentMethodType, amountPaid);
     }
   };
 
@@ -158,7 +187,7 @@ export function SubmitReceiptModal({
                   </h3>
                 </div>
                 <Badge variant="secondary" className="text-base font-medium px-3 py-1">
-                  {currencyFormatter.format(amount)}
+                  {currencyFormatter.format(amountPaid)}
                 </Badge>
               </div>
 
@@ -173,11 +202,13 @@ export function SubmitReceiptModal({
                 <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
                   {paymentMethods.map((method, index) => {
                     const isSelected = index === selectedMethodIndex;
+                    const isUnavailable = prepaymentRequired && method.method_type.toLowerCase() === "cash on arrival";
                     return (
                       <button
                         key={`${method.method_type}-${index}`}
                         type="button"
-                        className={`text-left rounded-xl border transition-all p-4 space-y-2 hover:border-primary/60 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 ${
+                        disabled={isUnavailable}
+                        className={`text-left rounded-xl border transition-all p-4 space-y-2 hover:border-primary/60 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 ${
                           isSelected ? "border-primary shadow-md bg-primary/5" : "border-border bg-background"
                         }`}
                         onClick={() => setSelectedMethodIndex(index)}
@@ -186,6 +217,9 @@ export function SubmitReceiptModal({
                           <span className="font-semibold text-foreground">{method.method_type}</span>
                           {isSelected ? <CheckCircle2 className="h-5 w-5 text-primary" /> : null}
                         </div>
+                      {isUnavailable && (
+                        <p className="text-sm text-muted-foreground">Not available for this booking</p>
+                      )}
                       {method.method_type.toLowerCase() !== "cash on arrival" && (
                         <div className="text-sm text-muted-foreground">
                           {method.account_name && (
@@ -230,8 +264,71 @@ export function SubmitReceiptModal({
                 </div>
               )}
 
+              {prepaymentRequired && (
+                <p className="rounded-lg border border-amber-300 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+                  Because of missed or late-cancelled bookings on your account, this venue asks you to pay the full
+                  price up front.
+                </p>
+              )}
             </section>
 
+            {depositAllowed && (
+              <section className="space-y-3">
+                <div>
+                  <p className="text-sm font-medium text-foreground">How much are you paying now?</p>
+                  <p className="text-sm text-muted-foreground">
+                    This venue takes a deposit. Anything you don't pay now is paid at the venue.
+                  </p>
+                </div>
+                <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                  {[false, true].map((full) => {
+                    const isSelected = payInFull === full;
+                    return (
+                      <button
+                        key={String(full)}
+                        type="button"
+                        className={`text-left rounded-xl border transition-all p-4 space-y-1 hover:border-primary/60 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 ${
+                          isSelected ? "border-primary shadow-md bg-primary/5" : "border-border bg-background"
+                        }`}
+                        onClick={() => setPayInFull(full)}
+                      >
+                        <div className="flex items-center justify-between">
+                          <span className="font-semibold text-foreground">
+                            {full ? "Pay in full" : "Pay deposit"}
+                          </span>
+                          {isSelected ? <CheckCircle2 className="h-5 w-5 text-primary" /> : null}
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          {full
+                            ? `${currencyFormatter.format(amount)} now, nothing at the venue`
+                            : `${currencyFormatter.format(depositAmount)} now, ${currencyFormatter.format(
+                                amount - depositAmount
+                              )} at the venue`}
+                        </p>
+                      </button>
+                    );
+                  })}
+                </div>
+              </section>
+            )}
+
+            {holdExpiresAt && (
+              <div
+                className={`flex items-center gap-2 rounded-lg border px-4 py-3 text-sm ${
+                  holdExpired ? "border-destructive/40 bg-destructive/10 text-destructive" : "bg-muted/30 text-foreground"
+                }`}
+              >
+                <Clock className="h-4 w-4" />
+                {holdExpired ? (
+                  <span>Your hold on these slots has expired. Close this window and select your slots again.</span>
+                ) : (
+                  <span>
+                    Your slots are held for you for <span className="font-semibold">{holdCountdown}</span>.
+                  </span>
+                )}
+              </div>
+            )}
+
             <section className="space-y-3">
               <div>
                 <p className="text-sm font-medium text-foreground">Status: Payment Must Be Completed Externally</p>
@@ -241,7 +338,7 @@ export function SubmitReceiptModal({
               </div>
             </section>
 
-            {selectedMethod?.method_type.toLowerCase() !== "cash on arrival" && (
+            {!isCashOnArrival && (
               <section className="space-y-4">
                 <div className="space-y-1">
                   <h4 className="text-lg font-semibold text-foreground">Upload Screenshot of Payment Receipt</h4>
@@ -256,15 +353,22 @@ export function SubmitReceiptModal({
                   >
                     <Upload className="h-8 w-8 text-primary" />
                     <div>
-                      <p className="text-sm font-semibold text-foreground">Select receipt image</p>
-                      <p className="text-xs text-muted-foreground">PNG, JPG, or JPEG (max 1MB)</p>
+                      <p className="text-sm font-semibold text-foreground">Select receipt image or PDF</p>
+                      <p className="text-xs text-muted-foreground">PNG, JPG, JPEG or PDF (max 1MB)</p>
                     </div>
-                    <Input id="receipt-upload" type="file" accept="image/*" className="hidden" onChange={handleFileChange} />
+                    <Input id="receipt-upload" type="file" accept="image/*,application/pdf" className="hidden" onChange={handleFileChange} />
                   </Label>
 
                   {previewUrl ? (
                     <div className="relative w-full overflow-hidden rounded-xl border bg-muted/20">
-                      <img src={previewUrl} alt="Payment receipt preview" className="w-full h-full object-cover" />
+                      {receiptFile?.type === "application/pdf" ? (
+                        <div className="flex min-h-[160px] flex-col items-center justify-center gap-2 p-6 text-center">
+                          <FileText className="h-10 w-10 text-primary" />
+                          <p className="text-sm text-foreground break-all">{receiptFile.name}</p>
+                        </div>
+                      ) : (
+                        <img src={previewUrl} alt="Payment receipt preview" className="w-full h-full object-cover" />
+                      )}
                       <button
                         type="button"
                         className="absolute top-2 right-2 inline-flex items-center justify-center rounded-full bg-background/80 p-2 text-muted-foreground shadow"
@@ -308,7 +412,8 @@ export function SubmitReceiptModal({
             disabled={
               selectedMethodIndex < 0 ||
               isSubmitting ||
-              (selectedMethod?.method_type.toLowerCase() !== "cash on arrival" && !receiptFile)
+              holdExpired ||
+              (!isCashOnArrival && !receiptFile)
             }
           >
             {isSubmitting ? "Submitting..." : "Submit My Booking"}
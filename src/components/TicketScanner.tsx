@@ -0,0 +1,125 @@
+import { useEffect, useRef, useState } from "react";
+import { Camera, CameraOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+// The Shape Detection API is not in the TypeScript DOM lib yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorInstance;
+
+const SCAN_INTERVAL_MS = 300;
+// The same code stays in front of the camera for a while; ignore repeats for this long
+const REPEAT_SCAN_COOLDOWN_MS = 3000;
+
+interface TicketScannerProps {
+  onScan: (code: string) => void;
+  disabled?: boolean;
+}
+
+function getBarcodeDetector(): BarcodeDetectorConstructor | null {
+  const detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+  return detector ?? null;
+}
+
+// Camera scanner using the browser's BarcodeDetector. Browsers without it (e.g. Safari on
+// desktop) only get the paste field on the check-in page.
+export function TicketScanner({ onScan, disabled = false }: TicketScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onScanRef = useRef(onScan);
+  const [active, setActive] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const supported = getBarcodeDetector() !== null && !!navigator.mediaDevices?.getUserMedia;
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    if (!active || disabled) return;
+
+    const Detector = getBarcodeDetector();
+    if (!Detector) return;
+
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let stopped = false;
+    let lastCode = "";
+    let lastScanAt = 0;
+    const detector = new Detector({ formats: ["qr_code"] });
+
+    const scan = async () => {
+      const video = videoRef.current;
+      if (stopped || !video) return;
+
+      try {
+        const [barcode] = await detector.detect(video);
+        const now = Date.now();
+        if (barcode?.rawValue && (barcode.rawValue !== lastCode || now - lastScanAt > REPEAT_SCAN_COOLDOWN_MS)) {
+          lastCode = barcode.rawValue;
+          lastScanAt = now;
+          onScanRef.current(barcode.rawValue);
+        }
+      } catch (detectError) {
+        console.error("Failed to read QR code", detectError);
+      }
+
+      if (!stopped) timer = window.setTimeout(scan, SCAN_INTERVAL_MS);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" } })
+      .then(async (mediaStream) => {
+        if (stopped) {
+          mediaStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = mediaStream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = mediaStream;
+          await videoRef.current.play();
+        }
+        setError(null);
+        scan();
+      })
+      .catch((cameraError) => {
+        console.error("Failed to open camera", cameraError);
+        setError("Unable to open the camera. Allow camera access or paste the ticket code instead.");
+        setActive(false);
+      });
+
+    return () => {
+      stopped = true;
+      window.clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [active, disabled]);
+
+  if (!supported) {
+    return (
+      <p className="rounded-lg border bg-muted/30 p-4 text-sm text-muted-foreground">
+        This browser cannot scan QR codes. Paste the ticket code below instead.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {active && (
+        <div className="overflow-hidden rounded-lg border bg-black">
+          <video ref={videoRef} className="w-full max-h-80 object-cover" muted playsInline />
+        </div>
+      )}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <Button variant={active ? "outline" : "default"} className="w-full" onClick={() => setActive((value) => !value)}>
+        {active ? <CameraOff className="h-4 w-4 mr-2" /> : <Camera className="h-4 w-4 mr-2" />}
+        {active ? "Stop camera" : "Scan with camera"}
+      </Button>
+    </div>
+  );
+}
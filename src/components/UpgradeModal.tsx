@@ -7,6 +7,8 @@ import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
 import { CheckCircle } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { uploadPaymentReceipt } from "@/lib/receiptStorage";
 import { formatDateWithOrdinal } from "@/lib/dateUtils";
 
 interface UpgradeModalProps {
@@ -29,6 +31,7 @@ export default function UpgradeModal({ isOpen, onClose, businessId, businessName
   const [submitted, setSubmitted] = useState(false);
   const [odooExpiredDateState, setOdooExpiredDate] = useState<string>("");
   const { toast } = useToast();
+  const { user } = useAuth();
 
   // Calculate total price based on expiration dates for upgrade modal
   const calculateTotalPrice = () => {
@@ -64,7 +67,7 @@ export default function UpgradeModal({ isOpen, onClose, businessId, businessName
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!receiptFile) {
+    if (!receiptFile || !user) {
       toast({
         title: "Error",
         description: "Please upload a receipt",
@@ -84,24 +87,13 @@ export default function UpgradeModal({ isOpen, onClose, businessId, businessName
 
       if (fetchError) throw fetchError;
 
-      // Upload receipt to Supabase storage
+      // Upload receipt to the private receipts bucket; admins open it through a signed URL
       const fileExt = receiptFile.name.split('.').pop();
-      const fileName = `${businessId}-${Date.now()}.${fileExt}`;
-      
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from('business-assets')
-        .upload(`receipts/${fileName}`, receiptFile);
-
-      if (uploadError) throw uploadError;
-
-      // Get public URL for the uploaded file
-      const { data: urlData } = supabase.storage
-        .from('business-assets')
-        .getPublicUrl(`receipts/${fileName}`);
+      const receiptPath = await uploadPaymentReceipt(user.id, receiptFile, `${businessId}.${fileExt}`);
 
       const currentDate = new Date();
       const updateData: any = {
-        receipt_url: urlData.publicUrl,
+        receipt_url: receiptPath,
         payment_status: 'to_be_confirmed',
         last_payment_date: new Date().toISOString(),
         'POS+Website': 1
@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { BellRing, Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "@/hooks/use-toast";
+import { leaveWaitlist } from "@/lib/bookingActions";
+import { fetchActiveWaitlist, type WaitlistEntry } from "@/lib/bookingData";
+import { formatInTimeZone, toZonedDateString } from "@/lib/timezone";
+
+interface WaitlistOffersProps {
+  userId: string;
+}
+
+function formatWindow(entry: WaitlistEntry) {
+  const day = formatInTimeZone(entry.window_start, entry.time_zone, "EEE, MMM dd");
+  const from = formatInTimeZone(entry.window_start, entry.time_zone, "h:mm a");
+  const until = formatInTimeZone(entry.window_end, entry.time_zone, "h:mm a");
+  return `${day}, ${from} - ${until}`;
+}
+
+// Renter's waitlist: open offers first, with a link to book the held slot before it lapses
+export function WaitlistOffers({ userId }: WaitlistOffersProps) {
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+  const [leavingId, setLeavingId] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    try {
+      const data = await fetchActiveWaitlist(userId);
+      setEntries(data.sort((a, b) => Number(b.status === "offered") - Number(a.status === "offered")));
+    } catch (error) {
+      console.error("Error fetching waitlist:", error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  // Offers are made server-side when a slot is released; tell the renter straight away
+  useEffect(() => {
+    const channel = supabase
+      .channel(`slot_waitlist_${userId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "slot_waitlist",
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          if ((payload.new as { status?: string }).status === "offered") {
+            toast({
+              title: "A slot you wanted is free!",
+              description: "We're holding it for you for 30 minutes. Book it from your dashboard.",
+              duration: 8000,
+            });
+          }
+          loadEntries();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, loadEntries]);
+
+  const handleLeave = async (entryId: string) => {
+    setLeavingId(entryId);
+    const result = await leaveWaitlist(entryId);
+    setLeavingId(null);
+
+    if (result.success === false) {
+      toast({ title: "Error", description: result.error, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Left waitlist", description: "You will no longer get offers for this time." });
+    loadEntries();
+  };
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="animate-slide-up">
+      <h3 className="text-xl font-semibold mb-6 flex items-center gap-2">
+        <BellRing className="h-5 w-5 text-primary" />
+        My Waitlist
+      </h3>
+      <Card>
+        <CardContent className="p-0 divide-y">
+          {entries.map((entry) => {
+            const offeredSlot = entry.status === "offered" ? entry.offered_slot : null;
+            return (
+              <div
+                key={entry.id}
+                className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4"
+              >
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{entry.business_name}</span>
+                    <Badge variant={offeredSlot ? "default" : "secondary"}>
+                      {offeredSlot ? "Slot available" : "Waiting"}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {entry.resource_name ?? "Any court"} · {formatWindow(entry)}
+                  </p>
+                  {offeredSlot && entry.offer_expires_at && (
+                    <p className="text-sm text-primary">
+                      {formatInTimeZone(offeredSlot.start_time, entry.time_zone, "h:mm a")} -{" "}
+                      {formatInTimeZone(offeredSlot.end_time, entry.time_zone, "h:mm a")} is held for you until{" "}
+                      {formatInTimeZone(entry.offer_expires_at, entry.time_zone, "h:mm a")}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  {offeredSlot && (
+                    <Button size="sm" asChild>
+                      <Link
+                        to={`/availability?resourceId=${offeredSlot.resource_id}&date=${toZonedDateString(
+                          new Date(offeredSlot.start_time),
+                          entry.time_zone
+                        )}`}
+                      >
+                        Book Now
+                      </Link>
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleLeave(entry.id)}
+                    disabled={leavingId === entry.id}
+                  >
+                    {leavingId === entry.id && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                    {offeredSlot ? "Decline" : "Leave"}
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
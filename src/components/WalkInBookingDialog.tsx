@@ -0,0 +1,209 @@
+import { useEffect, useState } from "react";
+import { Loader2, UserPlus } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import { createWalkInBooking } from "@/lib/bookingActions";
+import { formatInTimeZone } from "@/lib/timezone";
+
+type WalkInSlot = {
+  id: string;
+  start_time: string;
+  end_time: string;
+  slot_price: number;
+};
+
+interface WalkInBookingDialogProps {
+  // The slot the owner clicked; other free slots of the day can be added
+  initialSlotId: string;
+  freeSlots: WalkInSlot[];
+  timeZone: string;
+  onCreated?: () => void;
+}
+
+const WALK_IN_PAYMENT_METHODS = ["Cash", "KBZPay", "WavePay", "AYA Pay", "CB Pay", "Bank Transfer", "Other"];
+
+const currencyFormatter = new Intl.NumberFormat("en-US", {
+  style: "currency",
+  currency: "MMK",
+  maximumFractionDigits: 0,
+});
+
+export function WalkInBookingDialog({ initialSlotId, freeSlots, timeZone, onCreated }: WalkInBookingDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set([initialSlotId]));
+  const [customerName, setCustomerName] = useState("");
+  const [customerPhone, setCustomerPhone] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState(WALK_IN_PAYMENT_METHODS[0]);
+  const [amount, setAmount] = useState("");
+  const [amountEdited, setAmountEdited] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const slotTotal = freeSlots
+    .filter((slot) => selectedIds.has(slot.id))
+    .reduce((sum, slot) => sum + Number(slot.slot_price || 0), 0);
+
+  // The amount follows the slot prices until the owner types a different one (discounts, deposits)
+  useEffect(() => {
+    if (!amountEdited) setAmount(String(slotTotal));
+  }, [slotTotal, amountEdited]);
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (!value) {
+      setSelectedIds(new Set([initialSlotId]));
+      setCustomerName("");
+      setCustomerPhone("");
+      setPaymentMethod(WALK_IN_PAYMENT_METHODS[0]);
+      setAmountEdited(false);
+    }
+  };
+
+  const toggleSlot = (slotId: string, checked: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(slotId);
+      } else {
+        next.delete(slotId);
+      }
+      return next;
+    });
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    const result = await createWalkInBooking({
+      slotIds: Array.from(selectedIds),
+      customerName,
+      customerPhone,
+      paymentMethod,
+      amount: Number(amount),
+    });
+    setSubmitting(false);
+
+    if (result.success === false) {
+      toast({ title: "Booking failed", description: result.error, variant: "destructive" });
+      return;
+    }
+
+    toast({
+      title: "Walk-in booked",
+      description: `${customerName.trim()} is booked for ${selectedIds.size} slot${selectedIds.size === 1 ? "" : "s"}.`,
+    });
+    handleOpenChange(false);
+    onCreated?.();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <UserPlus className="h-4 w-4 mr-1" />
+          Walk-in
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Create Booking</DialogTitle>
+          <DialogDescription>
+            Record a walk-in or phone customer. The booking is confirmed straight away.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label className="mb-2 block">Slots</Label>
+            <div className="rounded-lg border divide-y max-h-48 overflow-y-auto">
+              {freeSlots.map((slot) => (
+                <label key={slot.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm cursor-pointer">
+                  <span className="flex items-center gap-2">
+                    <Checkbox
+                      checked={selectedIds.has(slot.id)}
+                      onCheckedChange={(checked) => toggleSlot(slot.id, checked === true)}
+                    />
+                    {formatInTimeZone(slot.start_time, timeZone, "h:mm a")} -{" "}
+                    {formatInTimeZone(slot.end_time, timeZone, "h:mm a")}
+                  </span>
+                  <span className="text-muted-foreground">{currencyFormatter.format(Number(slot.slot_price || 0))}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <div>
+            <Label className="mb-2 block">Customer name</Label>
+            <Input value={customerName} onChange={(e) => setCustomerName(e.target.value)} maxLength={120} />
+          </div>
+          <div>
+            <Label className="mb-2 block">Phone (optional)</Label>
+            <Input
+              type="tel"
+              inputMode="tel"
+              value={customerPhone}
+              onChange={(e) => setCustomerPhone(e.target.value)}
+              maxLength={40}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label className="mb-2 block">Payment method</Label>
+              <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WALK_IN_PAYMENT_METHODS.map((method) => (
+                    <SelectItem key={method} value={method}>
+                      {method}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="mb-2 block">Amount paid (MMK)</Label>
+              <Input
+                type="number"
+                inputMode="numeric"
+                min={0}
+                value={amount}
+                onChange={(e) => {
+                  setAmountEdited(true);
+                  setAmount(e.target.value);
+                }}
+              />
+            </div>
+          </div>
+          {amountEdited && Number(amount) !== slotTotal && (
+            <p className="text-xs text-muted-foreground">Slot prices add up to {currencyFormatter.format(slotTotal)}.</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={submitting}>
+            Close
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={submitting || selectedIds.size === 0 || !customerName.trim() || amount === ""}
+          >
+            {submitting && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Create Booking
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
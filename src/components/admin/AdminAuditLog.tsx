@@ -0,0 +1,118 @@
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+type AuditEntry = Tables<"admin_audit_log"> & { adminName: string };
+
+const ACTION_LABELS: Record<string, string> = {
+  "business.feature": "Featured",
+  "business.unfeature": "Unfeatured",
+  "business.hide": "Hidden from search",
+  "business.unhide": "Shown in search",
+  "business.update": "Edited",
+  "business.extend": "Listing extended",
+  "business.delete": "Deleted",
+  "user.suspend": "Suspended",
+  "user.unsuspend": "Unsuspended",
+  "user.role": "Role changed",
+  "user.grant_admin": "Admin role granted",
+  "user.revoke_admin": "Admin access revoked",
+  "user.reset_2fa": "Two-factor authentication reset",
+  "review.delete": "Review removed",
+  "job_report.dismiss": "Report dismissed",
+  "job_posting.remove": "Job post removed",
+};
+
+type AuditDetails = { before?: Record<string, unknown>; after?: Record<string, unknown>; reason?: string | null };
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined || value === "" ? "empty" : String(value);
+
+// One line per changed field, e.g. "listing_expired_date: 2025-01-01 → 2026-01-01"
+function describeChanges(details: AuditDetails): string[] {
+  const lines = Object.keys(details.after ?? {}).map(
+    (key) => `${key}: ${formatValue(details.before?.[key])} → ${formatValue(details.after?.[key])}`
+  );
+  if (details.reason) lines.push(`Reason: ${details.reason}`);
+  return lines;
+}
+
+interface AdminAuditLogProps {
+  targetType: string;
+  targetId: string;
+}
+
+export function AdminAuditLog({ targetType, targetId }: AdminAuditLogProps) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchEntries = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("admin_audit_log")
+        .select("*")
+        .eq("target_type", targetType)
+        .eq("target_id", targetId)
+        .order("created_at", { ascending: false })
+        .limit(20);
+
+      if (error) throw error;
+
+      const adminIds = Array.from(new Set((data || []).map((entry) => entry.admin_id).filter(Boolean))) as string[];
+      const { data: profiles } = adminIds.length
+        ? await supabase.from("profiles").select("user_id, display_name, email").in("user_id", adminIds)
+        : { data: [] };
+      const names = new Map((profiles || []).map((profile) => [profile.user_id, profile.display_name || profile.email]));
+
+      setEntries(
+        (data || []).map((entry) => ({
+          ...entry,
+          adminName: (entry.admin_id && names.get(entry.admin_id)) || "Admin",
+        }))
+      );
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [targetType, targetId]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">No admin changes yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {entries.map((entry) => (
+        <li key={entry.id} className="text-sm">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <span className="font-medium">{ACTION_LABELS[entry.action] ?? entry.action}</span>
+            <span className="text-xs text-muted-foreground">
+              {entry.adminName} · {format(new Date(entry.created_at), "MMM d, yyyy HH:mm")}
+            </span>
+          </div>
+          {describeChanges(entry.details as AuditDetails).map((line) => (
+            <p key={line} className="text-xs text-muted-foreground break-words">
+              {line}
+            </p>
+          ))}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -1,79 +1,195 @@
+import { useCallback, useEffect, useState } from "react";
+import { format, subDays } from "date-fns";
+import type { DateRange } from "react-day-picker";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { 
-  Users, 
-  Store, 
-  UserPlus, 
-  DollarSign
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useToast } from "@/hooks/use-toast";
+import { fetchAdminMetrics, percentChange, type AdminMetricsData } from "@/lib/adminMetrics";
+import {
+  Store,
+  Archive,
+  UserPlus,
+  Wallet,
+  CalendarCheck,
+  Briefcase,
+  CalendarRange,
+  RefreshCw
 } from "lucide-react";
 
+const numberFormatter = new Intl.NumberFormat("en-US");
+
+const currencyFormatter = new Intl.NumberFormat("en-US", {
+  style: "currency",
+  currency: "MMK",
+  maximumFractionDigits: 0,
+});
+
+const formatRange = (from: Date, to: Date) =>
+  `${format(from, "MMM d, yyyy")} – ${format(to, "MMM d, yyyy")}`;
+
 export default function AdminMetrics() {
-  // Mock data - in real app this would come from API
+  const { toast } = useToast();
+  const [range, setRange] = useState<DateRange>({ from: subDays(new Date(), 29), to: new Date() });
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [data, setData] = useState<AdminMetricsData | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const from = range.from ? format(range.from, "yyyy-MM-dd") : null;
+  const to = range.to ? format(range.to, "yyyy-MM-dd") : null;
+
+  const loadMetrics = useCallback(async () => {
+    if (!from || !to) return;
+    setLoading(true);
+    try {
+      setData(await fetchAdminMetrics(from, to));
+    } catch (error) {
+      console.error("Error fetching admin metrics:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load metrics",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to, toast]);
+
+  useEffect(() => {
+    loadMetrics();
+  }, [loadMetrics]);
+
+  const current = data?.current;
+  const previous = data?.previous;
+
+  // higherIsBetter decides whether a rise is shown in green or red
   const metrics = [
     {
-      title: "Total Listings",
-      value: "2,847",
-      change: "+12%",
-      changeType: "positive" as const,
+      title: "Active Listings",
+      value: current ? numberFormatter.format(current.active_listings) : "–",
+      change: current && previous ? percentChange(current.active_listings, previous.active_listings) : null,
+      higherIsBetter: true,
       icon: Store,
-      description: "Active business listings"
+      description: "Paid listings that have not expired"
     },
     {
-      title: "Total Users",
-      value: "18,432",
-      change: "+8%",
-      changeType: "positive" as const,
-      icon: Users,
-      description: "Registered users"
+      title: "Expired Listings",
+      value: current ? numberFormatter.format(current.expired_listings) : "–",
+      change: current && previous ? percentChange(current.expired_listings, previous.expired_listings) : null,
+      higherIsBetter: false,
+      icon: Archive,
+      description: "Listings past their expiry date"
     },
     {
       title: "New Sign-ups",
-      value: "234",
-      change: "+23%",
-      changeType: "positive" as const,
+      value: current ? numberFormatter.format(current.sign_ups) : "–",
+      change: current && previous ? percentChange(current.sign_ups, previous.sign_ups) : null,
+      higherIsBetter: true,
       icon: UserPlus,
-      description: "This month"
+      description: current ? `${numberFormatter.format(current.total_users)} registered users` : "Registered users"
+    },
+    {
+      title: "Bookings Confirmed",
+      value: current ? numberFormatter.format(current.bookings_confirmed) : "–",
+      change: current && previous ? percentChange(current.bookings_confirmed, previous.bookings_confirmed) : null,
+      higherIsBetter: true,
+      icon: CalendarCheck,
+      description: "Online bookings, by booking date"
     },
     {
-      title: "Total Revenue",
-      value: "$54,280",
-      change: "+18%",
-      changeType: "positive" as const,
-      icon: DollarSign,
-      description: "Monthly revenue"
+      title: "Subscription Revenue",
+      value: current ? currencyFormatter.format(current.subscription_revenue) : "–",
+      change: current && previous ? percentChange(current.subscription_revenue, previous.subscription_revenue) : null,
+      higherIsBetter: true,
+      icon: Wallet,
+      description: current
+        ? `${numberFormatter.format(current.subscription_payments)} confirmed payment${current.subscription_payments === 1 ? "" : "s"}`
+        : "Confirmed payments"
+    },
+    {
+      title: "Job Posts",
+      value: current ? numberFormatter.format(current.job_posts) : "–",
+      change: current && previous ? percentChange(current.job_posts, previous.job_posts) : null,
+      higherIsBetter: true,
+      icon: Briefcase,
+      description: "New job postings"
     }
   ];
 
   return (
-    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
-      {metrics.map((metric, index) => {
-        const IconComponent = metric.icon;
-        return (
-          <Card key={index}>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">{metric.title}</CardTitle>
-              <IconComponent className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">{metric.value}</div>
-              <div className="flex items-center space-x-1 text-xs">
-                <span
-                  className={`font-medium ${
-                    metric.changeType === 'positive' 
-                      ? 'text-green-600' 
-                      : 'text-red-600'
-                  }`}
-                >
-                  {metric.change}
-                </span>
-                <span className="text-muted-foreground">from last month</span>
-              </div>
-              <p className="text-xs text-muted-foreground mt-1">
-                {metric.description}
-              </p>
-            </CardContent>
-          </Card>
-        );
-      })}
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Popover open={pickerOpen} onOpenChange={setPickerOpen}>
+          <PopoverTrigger asChild>
+            <Button variant="outline" className="justify-start font-normal">
+              <CalendarRange className="h-4 w-4 mr-2" />
+              {range.from && range.to ? formatRange(range.from, range.to) : "Pick a date range"}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="range"
+              selected={range}
+              onSelect={(selected) => {
+                setRange(selected ?? { from: undefined, to: undefined });
+                if (selected?.from && selected?.to) setPickerOpen(false);
+              }}
+              numberOfMonths={2}
+              disabled={{ after: new Date() }}
+            />
+          </PopoverContent>
+        </Popover>
+        <Button variant="outline" size="icon" onClick={loadMetrics} disabled={loading || !from || !to}>
+          <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+        </Button>
+        {data && (
+          <span className="text-xs text-muted-foreground">
+            Compared with {formatRange(new Date(`${data.previousFrom}T00:00:00`), new Date(`${data.previousTo}T00:00:00`))}
+          </span>
+        )}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+        {metrics.map((metric, index) => {
+          const IconComponent = metric.icon;
+          const isGood = metric.change !== null && (metric.change >= 0) === metric.higherIsBetter;
+          return (
+            <Card key={index}>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">{metric.title}</CardTitle>
+                <IconComponent className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className={`text-2xl font-bold ${loading ? "opacity-50" : ""}`}>{metric.value}</div>
+                <div className="flex items-center space-x-1 text-xs">
+                  {metric.change === null ? (
+                    <span className="text-muted-foreground">No data for the previous period</span>
+                  ) : (
+                    <>
+                      <span
+                        className={`font-medium ${
+                          metric.change === 0
+                            ? 'text-muted-foreground'
+                            : isGood
+                              ? 'text-green-600'
+                              : 'text-red-600'
+                        }`}
+                      >
+                        {metric.change > 0 ? "+" : ""}{metric.change}%
+                      </span>
+                      <span className="text-muted-foreground">from previous period</span>
+                    </>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {metric.description}
+                </p>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,66 @@
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Copy, Download } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface BackupCodesListProps {
+  codes: string[];
+}
+
+// The server only keeps hashes, so this is the one chance to save the codes
+export function BackupCodesList({ codes }: BackupCodesListProps) {
+  const { toast } = useToast();
+  const text = codes.join("\n");
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title: "Backup codes copied", description: "Store them somewhere safe, away from this device." });
+    } catch (error) {
+      console.error("Failed to copy backup codes", error);
+      toast({ title: "Copy failed", description: "Select the codes and copy them manually.", variant: "destructive" });
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([`YaYou admin backup codes\nEach code can be used once.\n\n${text}\n`], {
+      type: "text/plain;charset=utf-8",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "yayou-admin-backup-codes.txt";
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <Alert>
+        <AlertDescription>
+          Save these backup codes now. Each one signs you in once if you lose your authenticator app, and they
+          will not be shown again.
+        </AlertDescription>
+      </Alert>
+      <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted/30 p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code} className="text-center">
+            {code}
+          </span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" className="flex-1" onClick={handleCopy}>
+          <Copy className="h-4 w-4 mr-1" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" size="sm" className="flex-1" onClick={handleDownload}>
+          <Download className="h-4 w-4 mr-1" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+}
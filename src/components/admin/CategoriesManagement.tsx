@@ -32,7 +32,11 @@ interface Category {
   created_at: string;
 }
 
-export function CategoriesManagement() {
+interface CategoriesManagementProps {
+  canEdit: boolean;
+}
+
+export function CategoriesManagement({ canEdit }: CategoriesManagementProps) {
   const { toast } = useToast();
   const [categories, setCategories] = useState<Category[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -110,10 +114,12 @@ export function CategoriesManagement() {
         <CardHeader>
           <div className="flex items-center justify-between">
             <CardTitle>All Categories</CardTitle>
-            <Button onClick={handleAddNew} className="flex items-center gap-2">
-              <Plus className="h-4 w-4" />
-              Add New Category
-            </Button>
+            {canEdit && (
+              <Button onClick={handleAddNew} className="flex items-center gap-2">
+                <Plus className="h-4 w-4" />
+                Add New Category
+              </Button>
+            )}
           </div>
         </CardHeader>
         <CardContent>
@@ -159,22 +165,24 @@ export function CategoriesManagement() {
                         </div>
                       </TableCell>
                       <TableCell>
-                        <div className="flex items-center gap-2">
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={() => handleEdit(category)}
-                          >
-                            <Edit className="h-3 w-3" />
-                          </Button>
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={() => setDeletingCategory(category)}
-                          >
-                            <Trash2 className="h-3 w-3" />
-                          </Button>
-                        </div>
+                        {canEdit && (
+                          <div className="flex items-center gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleEdit(category)}
+                            >
+                              <Edit className="h-3 w-3" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setDeletingCategory(category)}
+                            >
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))
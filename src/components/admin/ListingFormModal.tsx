@@ -0,0 +1,151 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { useToast } from "@/hooks/use-toast";
+import { updateListingDetails, type AdminListing, type AdminListingDetails } from "@/lib/adminActions";
+import { AdminAuditLog } from "./AdminAuditLog";
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  category: z.string(),
+  description: z.string(),
+  phone: z.string(),
+  email: z.union([z.literal(""), z.string().trim().email("Enter a valid email")]),
+  address: z.string(),
+  towns: z.string(),
+  province_district: z.string(),
+  website: z.string(),
+  facebook_page: z.string(),
+});
+
+type FormData = z.infer<typeof formSchema>;
+
+const FIELDS: { name: keyof FormData; label: string; multiline?: boolean }[] = [
+  { name: "name", label: "Business Name" },
+  { name: "category", label: "Category" },
+  { name: "description", label: "Description", multiline: true },
+  { name: "phone", label: "Phone" },
+  { name: "email", label: "Email" },
+  { name: "address", label: "Address" },
+  { name: "towns", label: "Town" },
+  { name: "province_district", label: "Province / District" },
+  { name: "website", label: "Website" },
+  { name: "facebook_page", label: "Facebook Page" },
+];
+
+const toFormData = (listing: AdminListing | null): FormData => ({
+  name: listing?.name ?? "",
+  category: listing?.category ?? "",
+  description: listing?.description ?? "",
+  phone: listing?.phone ?? "",
+  email: listing?.email ?? "",
+  address: listing?.address ?? "",
+  towns: listing?.towns ?? "",
+  province_district: listing?.province_district ?? "",
+  website: listing?.website ?? "",
+  facebook_page: listing?.facebook_page ?? "",
+});
+
+interface ListingFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: () => void;
+  listing: AdminListing | null;
+}
+
+export function ListingFormModal({ isOpen, onClose, onSubmit, listing }: ListingFormModalProps) {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: toFormData(listing),
+  });
+
+  useEffect(() => {
+    form.reset(toFormData(listing));
+  }, [listing, form]);
+
+  const handleSubmit = async (data: FormData) => {
+    if (!listing) return;
+
+    // Only send the fields that were changed, so the audit log records just those
+    const original = toFormData(listing);
+    const changes: Partial<AdminListingDetails> = {};
+    (Object.keys(data) as (keyof FormData)[]).forEach((key) => {
+      if (data[key] !== original[key]) changes[key] = data[key];
+    });
+
+    if (Object.keys(changes).length === 0) {
+      onClose();
+      return;
+    }
+
+    setIsLoading(true);
+    const result = await updateListingDetails(listing.id, changes);
+    setIsLoading(false);
+
+    if (result.success === false) {
+      toast({ title: "Error", description: result.error, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Success", description: "Listing updated successfully" });
+    onSubmit();
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Listing</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              {FIELDS.map((item) => (
+                <FormField
+                  key={item.name}
+                  control={form.control}
+                  name={item.name}
+                  render={({ field }) => (
+                    <FormItem className={item.multiline ? "md:col-span-2" : undefined}>
+                      <FormLabel>{item.label}</FormLabel>
+                      <FormControl>
+                        {item.multiline ? <Textarea rows={4} {...field} /> : <Input {...field} />}
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isLoading}>
+                {isLoading ? "Saving..." : "Save Changes"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+
+        {listing && (
+          <div className="border-t pt-4">
+            <h3 className="text-sm font-semibold mb-2">History</h3>
+            <AdminAuditLog targetType="business" targetId={listing.id} />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,370 +1,544 @@
-import { useState } from "react";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useCallback, useEffect, useState } from "react";
+import { addDays, addYears, format, parseISO } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
-import { Separator } from "@/components/ui/separator";
-import { 
-  Plus, 
-  Search, 
-  Filter, 
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Search,
+  Filter,
   MoreHorizontal,
   Edit,
   Trash2,
   Eye,
+  EyeOff,
   Star,
-  MapPin,
-  Phone,
-  Globe,
-  Upload
+  StarOff,
+  CalendarPlus,
+  ExternalLink,
+  ChevronLeft,
+  ChevronRight,
+  Loader2
 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { formatDateWithOrdinal } from "@/lib/dateUtils";
+import {
+  deleteListing,
+  extendListing,
+  fetchAdminListings,
+  setListingFeatured,
+  setListingSearchable,
+  type AdminActionResult,
+  type AdminListing,
+  type AdminListingFilters,
+  type ListingExpiryFilter,
+} from "@/lib/adminActions";
+import { hasAdminPermission } from "@/lib/adminPermissions";
+import { ListingFormModal } from "./ListingFormModal";
 
-export default function ListingManagement() {
-  const [activeTab, setActiveTab] = useState("all");
+const PAGE_SIZE = 20;
+const ALL = "all";
 
-  // Mock data for existing listings
-  const listings = [
-    {
-      id: 1,
-      name: "Sunset Cafe",
-      category: "Food & Beverage",
-      location: "Downtown",
-      status: "active",
-      rating: 4.5,
-      reviews: 89,
-      phone: "(555) 123-4567",
-      website: "www.sunsetcafe.com",
-      featured: true
-    },
-    {
-      id: 2,
-      name: "TechHub Coworking",
-      category: "Business Services", 
-      location: "Tech District",
-      status: "pending",
-      rating: 4.8,
-      reviews: 156,
-      phone: "(555) 987-6543",
-      website: "www.techhub.co",
-      featured: false
-    },
-    {
-      id: 3,
-      name: "Green Valley Spa",
-      category: "Health & Wellness",
-      location: "Uptown",
-      status: "active",
-      rating: 4.2,
-      reviews: 234,
-      phone: "(555) 456-7890",
-      website: "www.greenvalleyspa.com",
-      featured: true
-    }
-  ];
+const DEFAULT_FILTERS: AdminListingFilters = {
+  search: "",
+  category: null,
+  paymentStatus: null,
+  expiry: null,
+  searchable: null,
+  includeDeleted: false,
+};
+
+const todayKey = () => format(new Date(), "yyyy-MM-dd");
+
+const getExpiryBadge = (listing: AdminListing) => {
+  if (!listing.listing_expired_date) {
+    return <Badge variant="outline">Never paid</Badge>;
+  }
+  const today = todayKey();
+  if (listing.listing_expired_date < today) {
+    return <Badge variant="secondary" className="bg-red-100 text-red-800">Expired</Badge>;
+  }
+  if (listing.listing_expired_date <= format(addDays(new Date(), 30), "yyyy-MM-dd")) {
+    return <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">Expiring</Badge>;
+  }
+  return <Badge variant="secondary" className="bg-green-100 text-green-800">Active</Badge>;
+};
+
+const getPaymentBadge = (status: string) => {
+  switch (status) {
+    case "confirmed":
+      return <Badge variant="secondary" className="bg-green-100 text-green-800">Confirmed</Badge>;
+    case "to_be_confirmed":
+      return <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">To be confirmed</Badge>;
+    case "cancelled":
+      return <Badge variant="secondary" className="bg-gray-100 text-gray-800">Cancelled</Badge>;
+    default:
+      return <Badge variant="outline">{status}</Badge>;
+  }
+};
 
-  const getStatusBadge = (status: string) => {
-    switch (status) {
-      case "active":
-        return <Badge variant="secondary" className="bg-green-100 text-green-800">Active</Badge>;
-      case "pending":
-        return <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">Pending</Badge>;
-      case "inactive":
-        return <Badge variant="secondary" className="bg-gray-100 text-gray-800">Inactive</Badge>;
-      default:
-        return <Badge variant="outline">{status}</Badge>;
+interface ListingManagementProps {
+  adminRole: string | null | undefined;
+}
+
+export default function ListingManagement({ adminRole }: ListingManagementProps) {
+  const { toast } = useToast();
+  const canEdit = hasAdminPermission(adminRole, "listings.edit");
+  const canModerate = hasAdminPermission(adminRole, "listings.moderate");
+  const [filters, setFilters] = useState<AdminListingFilters>(DEFAULT_FILTERS);
+  const [searchInput, setSearchInput] = useState("");
+  const [page, setPage] = useState(0);
+  const [listings, setListings] = useState<AdminListing[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const [editingListing, setEditingListing] = useState<AdminListing | null>(null);
+  const [extendingListing, setExtendingListing] = useState<AdminListing | null>(null);
+  const [newExpiry, setNewExpiry] = useState("");
+  const [deletingListing, setDeletingListing] = useState<AdminListing | null>(null);
+  const [deleteReason, setDeleteReason] = useState("");
+
+  const fetchListings = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await fetchAdminListings(filters, page, PAGE_SIZE);
+      setListings(result.listings);
+      setTotal(result.total);
+    } catch (error) {
+      console.error("Error fetching listings:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to fetch listings",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
     }
-  };
+  }, [filters, page, toast]);
 
-  return (
-    <div className="space-y-6">
-      <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid w-full grid-cols-2">
-          <TabsTrigger value="all">All Listings</TabsTrigger>
-          <TabsTrigger value="create">Create New Listing</TabsTrigger>
-        </TabsList>
+  useEffect(() => {
+    fetchListings();
+  }, [fetchListings]);
 
-        {/* All Listings Tab */}
-        <TabsContent value="all" className="space-y-6">
-          {/* Search and Filter Bar */}
-          <Card>
-            <CardContent className="p-6">
-              <div className="flex flex-col sm:flex-row gap-4">
-                <div className="flex-1">
-                  <div className="relative">
-                    <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                    <Input 
-                      placeholder="Search listings..." 
-                      className="pl-10"
-                    />
-                  </div>
-                </div>
-                <div className="flex gap-2">
-                  <Select>
-                    <SelectTrigger className="w-32">
-                      <Filter className="h-4 w-4 mr-2" />
-                      <SelectValue placeholder="Status" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="all">All Status</SelectItem>
-                      <SelectItem value="active">Active</SelectItem>
-                      <SelectItem value="pending">Pending</SelectItem>
-                      <SelectItem value="inactive">Inactive</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  <Select>
-                    <SelectTrigger className="w-40">
-                      <SelectValue placeholder="Category" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="all">All Categories</SelectItem>
-                      <SelectItem value="food">Food & Beverage</SelectItem>
-                      <SelectItem value="retail">Retail</SelectItem>
-                      <SelectItem value="services">Services</SelectItem>
-                      <SelectItem value="health">Health & Wellness</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
+  useEffect(() => {
+    supabase
+      .from("business_categories")
+      .select("name")
+      .order("name", { ascending: true })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Error fetching categories:", error);
+          return;
+        }
+        setCategories((data || []).map((category) => category.name));
+      });
+  }, []);
 
-          {/* Listings Grid */}
-          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-            {listings.map((listing) => (
-              <Card key={listing.id} className="hover:shadow-md transition-shadow">
-                <CardHeader className="pb-3">
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1">
-                      <CardTitle className="text-lg flex items-center gap-2">
-                        {listing.name}
-                        {listing.featured && <Star className="h-4 w-4 text-yellow-500 fill-current" />}
-                      </CardTitle>
-                      <p className="text-sm text-muted-foreground">{listing.category}</p>
-                    </div>
-                    {getStatusBadge(listing.status)}
-                  </div>
-                </CardHeader>
-                <CardContent className="space-y-3">
-                  <div className="flex items-center text-sm text-muted-foreground">
-                    <MapPin className="h-4 w-4 mr-1" />
-                    {listing.location}
-                  </div>
-                  <div className="flex items-center text-sm">
-                    <Star className="h-4 w-4 text-yellow-500 fill-current mr-1" />
-                    <span className="font-medium">{listing.rating}</span>
-                    <span className="text-muted-foreground ml-1">({listing.reviews} reviews)</span>
-                  </div>
-                  <div className="flex items-center text-sm text-muted-foreground">
-                    <Phone className="h-4 w-4 mr-1" />
-                    {listing.phone}
-                  </div>
-                  <div className="flex items-center text-sm text-muted-foreground">
-                    <Globe className="h-4 w-4 mr-1" />
-                    {listing.website}
-                  </div>
-                  <Separator />
-                  <div className="flex justify-between">
-                    <Button variant="outline" size="sm">
-                      <Eye className="h-4 w-4 mr-1" />
-                      View
-                    </Button>
-                    <Button variant="outline" size="sm">
-                      <Edit className="h-4 w-4 mr-1" />
-                      Edit
-                    </Button>
-                    <Button variant="outline" size="sm">
-                      <MoreHorizontal className="h-4 w-4" />
-                    </Button>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
-        </TabsContent>
+  // Search runs on the server, so wait until typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters((prev) => (prev.search === searchInput ? prev : { ...prev, search: searchInput }));
+      setPage(0);
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
 
-        {/* Create New Listing Tab */}
-        <TabsContent value="create">
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center space-x-2">
-                <Plus className="h-5 w-5" />
-                <span>Create New Business Listing</span>
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-6">
-              <form className="space-y-6">
-                {/* Basic Information */}
-                <div className="space-y-4">
-                  <h3 className="text-lg font-semibold">Basic Information</h3>
-                  <div className="grid gap-4 md:grid-cols-2">
-                    <div className="space-y-2">
-                      <Label htmlFor="businessName">Business Name *</Label>
-                      <Input id="businessName" placeholder="Enter business name" />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="category">Category *</Label>
-                      <Select>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select category" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="food">Food & Beverage</SelectItem>
-                          <SelectItem value="retail">Retail</SelectItem>
-                          <SelectItem value="services">Services</SelectItem>
-                          <SelectItem value="health">Health & Wellness</SelectItem>
-                          <SelectItem value="automotive">Automotive</SelectItem>
-                          <SelectItem value="professional">Professional Services</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="description">Description *</Label>
-                    <Textarea 
-                      id="description" 
-                      placeholder="Describe the business..."
-                      rows={4}
-                    />
-                  </div>
-                </div>
+  const updateFilter = <K extends keyof AdminListingFilters>(key: K, value: AdminListingFilters[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    setPage(0);
+  };
 
-                <Separator />
+  const runAction = async (listing: AdminListing, action: () => Promise<AdminActionResult>, successMessage: string) => {
+    setBusyId(listing.id);
+    const result = await action();
+    setBusyId(null);
 
-                {/* Contact Information */}
-                <div className="space-y-4">
-                  <h3 className="text-lg font-semibold">Contact Information</h3>
-                  <div className="grid gap-4 md:grid-cols-2">
-                    <div className="space-y-2">
-                      <Label htmlFor="phone">Phone Number *</Label>
-                      <Input id="phone" placeholder="(555) 123-4567" />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="email">Email Address *</Label>
-                      <Input id="email" type="email" placeholder="business@example.com" />
-                    </div>
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="website">Website URL</Label>
-                    <Input id="website" placeholder="https://www.example.com" />
-                  </div>
-                </div>
+    if (result.success === false) {
+      toast({ title: "Error", description: result.error, variant: "destructive" });
+      return false;
+    }
 
-                <Separator />
+    toast({ title: "Success", description: successMessage });
+    await fetchListings();
+    return true;
+  };
 
-                {/* Location Information */}
-                <div className="space-y-4">
-                  <h3 className="text-lg font-semibold">Location</h3>
-                  <div className="space-y-2">
-                    <Label htmlFor="address">Street Address *</Label>
-                    <Input id="address" placeholder="123 Main Street" />
-                  </div>
-                  <div className="grid gap-4 md:grid-cols-3">
-                    <div className="space-y-2">
-                      <Label htmlFor="city">City *</Label>
-                      <Input id="city" placeholder="City" />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="state">State/Province *</Label>
-                      <Input id="state" placeholder="State" />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="zipCode">ZIP/Postal Code *</Label>
-                      <Input id="zipCode" placeholder="12345" />
-                    </div>
-                  </div>
-                </div>
+  const openExtend = (listing: AdminListing) => {
+    const base = listing.listing_expired_date && listing.listing_expired_date > todayKey()
+      ? parseISO(listing.listing_expired_date)
+      : new Date();
+    setNewExpiry(format(addYears(base, 1), "yyyy-MM-dd"));
+    setExtendingListing(listing);
+  };
 
-                <Separator />
+  const handleExtend = async () => {
+    if (!extendingListing) return;
+    const done = await runAction(
+      extendingListing,
+      () => extendListing(extendingListing.id, newExpiry),
+      `Listing now expires on ${formatDateWithOrdinal(newExpiry)}`
+    );
+    if (done) setExtendingListing(null);
+  };
 
-                {/* Business Hours */}
-                <div className="space-y-4">
-                  <h3 className="text-lg font-semibold">Business Hours</h3>
-                  <div className="grid gap-4">
-                    {['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'].map((day) => (
-                      <div key={day} className="flex items-center space-x-4">
-                        <div className="w-20 text-sm font-medium">{day}</div>
-                        <div className="flex items-center space-x-2">
-                          <Input className="w-24" placeholder="9:00 AM" />
-                          <span className="text-muted-foreground">to</span>
-                          <Input className="w-24" placeholder="5:00 PM" />
-                        </div>
-                        <Button variant="outline" size="sm">Closed</Button>
-                      </div>
-                    ))}
-                  </div>
-                </div>
+  const handleDelete = async () => {
+    if (!deletingListing) return;
+    const done = await runAction(
+      deletingListing,
+      () => deleteListing(deletingListing.id, deleteReason),
+      `${deletingListing.name} was deleted`
+    );
+    if (done) {
+      setDeletingListing(null);
+      setDeleteReason("");
+    }
+  };
+
+  const firstRow = total === 0 ? 0 : page * PAGE_SIZE + 1;
+  const lastRow = Math.min(total, (page + 1) * PAGE_SIZE);
+  const extendBase = extendingListing?.listing_expired_date && extendingListing.listing_expired_date > todayKey()
+    ? parseISO(extendingListing.listing_expired_date)
+    : new Date();
+
+  return (
+    <div className="space-y-6">
+      {/* Search and Filter Bar */}
+      <Card>
+        <CardContent className="p-6 space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by name, phone, email or owner email..."
+              className="pl-10"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Filter className="h-4 w-4 text-muted-foreground" />
+            <Select
+              value={filters.category ?? ALL}
+              onValueChange={(value) => updateFilter("category", value === ALL ? null : value)}
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue placeholder="Category" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All Categories</SelectItem>
+                {categories.map((category) => (
+                  <SelectItem key={category} value={category}>{category}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={filters.paymentStatus ?? ALL}
+              onValueChange={(value) => updateFilter("paymentStatus", value === ALL ? null : value)}
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue placeholder="Payment" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All Payments</SelectItem>
+                <SelectItem value="confirmed">Confirmed</SelectItem>
+                <SelectItem value="to_be_confirmed">To be confirmed</SelectItem>
+                <SelectItem value="cancelled">Cancelled</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select
+              value={filters.expiry ?? ALL}
+              onValueChange={(value) => updateFilter("expiry", value === ALL ? null : (value as ListingExpiryFilter))}
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue placeholder="Expiry" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Any Expiry</SelectItem>
+                <SelectItem value="active">Active</SelectItem>
+                <SelectItem value="expiring">Expiring in 30 days</SelectItem>
+                <SelectItem value="expired">Expired</SelectItem>
+                <SelectItem value="none">Never paid</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select
+              value={filters.searchable === null ? ALL : filters.searchable ? "visible" : "hidden"}
+              onValueChange={(value) => updateFilter("searchable", value === ALL ? null : value === "visible")}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue placeholder="Visibility" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Any Visibility</SelectItem>
+                <SelectItem value="visible">In search</SelectItem>
+                <SelectItem value="hidden">Hidden</SelectItem>
+              </SelectContent>
+            </Select>
+            <div className="flex items-center space-x-2 ml-2">
+              <Switch
+                id="include-deleted"
+                checked={filters.includeDeleted}
+                onCheckedChange={(checked) => updateFilter("includeDeleted", checked)}
+              />
+              <Label htmlFor="include-deleted" className="text-sm">Show deleted</Label>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
 
-                <Separator />
+      {/* Listings Table */}
+      <Card>
+        <CardContent className="p-0">
+          {loading && listings.length === 0 ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : listings.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">No listings match these filters.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Business</TableHead>
+                  <TableHead>Owner</TableHead>
+                  <TableHead>Payment</TableHead>
+                  <TableHead>Listing Expiry</TableHead>
+                  <TableHead>Visibility</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody className={loading ? "opacity-50" : undefined}>
+                {listings.map((listing) => {
+                  const isDeleted = Boolean(listing.deleted_at);
+                  const isFeatured = listing.featured_business === 1;
+                  return (
+                    <TableRow key={listing.id} className={isDeleted ? "text-muted-foreground" : undefined}>
+                      <TableCell>
+                        <div className="font-medium flex items-center gap-2">
+                          {listing.name}
+                          {isFeatured && <Star className="h-4 w-4 text-yellow-500 fill-current" />}
+                        </div>
+                        <div className="text-xs text-muted-foreground">{listing.category || "No category"}</div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="text-sm">{listing.owner_email || "Unknown"}</div>
+                        {listing.phone && <div className="text-xs text-muted-foreground">{listing.phone}</div>}
+                      </TableCell>
+                      <TableCell>{getPaymentBadge(listing.payment_status)}</TableCell>
+                      <TableCell>
+                        <div className="space-y-1">
+                          {getExpiryBadge(listing)}
+                          {listing.listing_expired_date && (
+                            <div className="text-xs text-muted-foreground">
+                              {formatDateWithOrdinal(listing.listing_expired_date)}
+                            </div>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {isDeleted ? (
+                          <Badge variant="destructive">Deleted</Badge>
+                        ) : listing.searchable_business ? (
+                          <Badge variant="outline">In search</Badge>
+                        ) : (
+                          <Badge variant="secondary">Hidden</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {busyId === listing.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="sm">
+                                <MoreHorizontal className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuItem onSelect={() => window.open(`/business/${listing.id}`, "_blank")}>
+                                <ExternalLink className="h-4 w-4 mr-2" />
+                                View
+                              </DropdownMenuItem>
+                              {!isDeleted && canEdit && (
+                                <>
+                                  <DropdownMenuItem onSelect={() => setEditingListing(listing)}>
+                                    <Edit className="h-4 w-4 mr-2" />
+                                    Edit
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    onSelect={() =>
+                                      runAction(
+                                        listing,
+                                        () => setListingFeatured(listing.id, !isFeatured),
+                                        isFeatured ? `${listing.name} is no longer featured` : `${listing.name} is now featured`
+                                      )
+                                    }
+                                  >
+                                    {isFeatured ? <StarOff className="h-4 w-4 mr-2" /> : <Star className="h-4 w-4 mr-2" />}
+                                    {isFeatured ? "Unfeature" : "Feature"}
+                                  </DropdownMenuItem>
+                                </>
+                              )}
+                              {!isDeleted && canModerate && (
+                                <DropdownMenuItem
+                                  onSelect={() =>
+                                    runAction(
+                                      listing,
+                                      () => setListingSearchable(listing.id, !listing.searchable_business),
+                                      listing.searchable_business
+                                        ? `${listing.name} is hidden from search`
+                                        : `${listing.name} is shown in search again`
+                                    )
+                                  }
+                                >
+                                  {listing.searchable_business ? <EyeOff className="h-4 w-4 mr-2" /> : <Eye className="h-4 w-4 mr-2" />}
+                                  {listing.searchable_business ? "Hide" : "Unhide"}
+                                </DropdownMenuItem>
+                              )}
+                              {!isDeleted && canEdit && (
+                                <>
+                                  <DropdownMenuItem onSelect={() => openExtend(listing)}>
+                                    <CalendarPlus className="h-4 w-4 mr-2" />
+                                    Extend listing
+                                  </DropdownMenuItem>
+                                  <DropdownMenuSeparator />
+                                  <DropdownMenuItem
+                                    className="text-destructive focus:text-destructive"
+                                    onSelect={() => setDeletingListing(listing)}
+                                  >
+                                    <Trash2 className="h-4 w-4 mr-2" />
+                                    Delete
+                                  </DropdownMenuItem>
+                                </>
+                              )}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
 
-                {/* Images */}
-                <div className="space-y-4">
-                  <h3 className="text-lg font-semibold">Images</h3>
-                  <div className="grid gap-4 md:grid-cols-2">
-                    <div className="space-y-2">
-                      <Label>Logo</Label>
-                      <div className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-6 text-center">
-                        <Upload className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
-                        <p className="text-sm text-muted-foreground">Click to upload logo</p>
-                      </div>
-                    </div>
-                    <div className="space-y-2">
-                      <Label>Cover Photo</Label>
-                      <div className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-6 text-center">
-                        <Upload className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
-                        <p className="text-sm text-muted-foreground">Click to upload cover photo</p>
-                      </div>
-                    </div>
-                  </div>
-                </div>
+      {/* Pagination */}
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {total === 0 ? "No listings" : `Showing ${firstRow}–${lastRow} of ${total}`}
+        </p>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => setPage((p) => p - 1)} disabled={page === 0 || loading}>
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Previous
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setPage((p) => p + 1)} disabled={lastRow >= total || loading}>
+            Next
+            <ChevronRight className="h-4 w-4 ml-1" />
+          </Button>
+        </div>
+      </div>
 
-                <Separator />
+      <ListingFormModal
+        isOpen={editingListing !== null}
+        onClose={() => setEditingListing(null)}
+        onSubmit={fetchListings}
+        listing={editingListing}
+      />
 
-                {/* Additional Settings */}
-                <div className="space-y-4">
-                  <h3 className="text-lg font-semibold">Additional Settings</h3>
-                  <div className="grid gap-4 md:grid-cols-2">
-                    <div className="space-y-2">
-                      <Label htmlFor="status">Status</Label>
-                      <Select>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select status" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="active">Active</SelectItem>
-                          <SelectItem value="pending">Pending Review</SelectItem>
-                          <SelectItem value="inactive">Inactive</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="featured">Featured Listing</Label>
-                      <Select>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select featured status" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="yes">Yes</SelectItem>
-                          <SelectItem value="no">No</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-                  </div>
-                </div>
+      {/* Extend Listing */}
+      <Dialog open={extendingListing !== null} onOpenChange={(open) => !open && setExtendingListing(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Extend Listing</DialogTitle>
+            <DialogDescription>
+              {extendingListing?.listing_expired_date
+                ? `${extendingListing.name} currently expires on ${formatDateWithOrdinal(extendingListing.listing_expired_date)}.`
+                : `${extendingListing?.name} has no expiry date yet.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setNewExpiry(format(addDays(extendBase, 30), "yyyy-MM-dd"))}>
+                +30 days
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setNewExpiry(format(addDays(extendBase, 90), "yyyy-MM-dd"))}>
+                +90 days
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setNewExpiry(format(addYears(extendBase, 1), "yyyy-MM-dd"))}>
+                +1 year
+              </Button>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-expiry">New expiry date</Label>
+              <Input id="new-expiry" type="date" value={newExpiry} onChange={(e) => setNewExpiry(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setExtendingListing(null)}>Cancel</Button>
+            <Button onClick={handleExtend} disabled={!newExpiry || busyId !== null}>Extend</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
 
-                {/* Form Actions */}
-                <div className="flex justify-end space-x-4">
-                  <Button variant="outline">Save as Draft</Button>
-                  <Button type="submit">Create Listing</Button>
-                </div>
-              </form>
-            </CardContent>
-          </Card>
-        </TabsContent>
-      </Tabs>
+      {/* Delete Listing */}
+      <AlertDialog open={deletingListing !== null} onOpenChange={(open) => !open && setDeletingListing(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deletingListing?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The listing disappears from the site but its bookings and payments are kept. The owner can still see it in their dashboard.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="delete-reason">Reason (kept in the audit log)</Label>
+            <Textarea
+              id="delete-reason"
+              rows={3}
+              value={deleteReason}
+              onChange={(e) => setDeleteReason(e.target.value)}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleDelete();
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -15,7 +15,11 @@ interface Location {
   created_at: string;
 }
 
-export function LocationsManagement() {
+interface LocationsManagementProps {
+  canEdit: boolean;
+}
+
+export function LocationsManagement({ canEdit }: LocationsManagementProps) {
   const [locations, setLocations] = useState<Location[]>([]);
   const [loading, setLoading] = useState(true);
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -99,10 +103,12 @@ export function LocationsManagement() {
             <MapPin className="h-5 w-5" />
             <CardTitle>Locations</CardTitle>
           </div>
-          <Button onClick={handleAddNew} className="flex items-center space-x-2">
-            <Plus className="h-4 w-4" />
-            <span>Add Location</span>
-          </Button>
+          {canEdit && (
+            <Button onClick={handleAddNew} className="flex items-center space-x-2">
+              <Plus className="h-4 w-4" />
+              <span>Add Location</span>
+            </Button>
+          )}
         </div>
       </CardHeader>
       <CardContent>
@@ -145,26 +151,28 @@ export function LocationsManagement() {
                     </div>
                   </TableCell>
                     <TableCell>
-                      <div className="flex items-center space-x-2">
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => handleEdit(location)}
-                          className="flex items-center space-x-1"
-                        >
-                          <Pencil className="h-3 w-3" />
-                          <span>Edit</span>
-                        </Button>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => handleDelete(location.id)}
-                          className="flex items-center space-x-1 text-destructive hover:bg-destructive hover:text-destructive-foreground"
-                        >
-                          <Trash2 className="h-3 w-3" />
-                          <span>Delete</span>
-                        </Button>
-                      </div>
+                      {canEdit && (
+                        <div className="flex items-center space-x-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleEdit(location)}
+                            className="flex items-center space-x-1"
+                          >
+                            <Pencil className="h-3 w-3" />
+                            <span>Edit</span>
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleDelete(location.id)}
+                            className="flex items-center space-x-1 text-destructive hover:bg-destructive hover:text-destructive-foreground"
+                          >
+                            <Trash2 className="h-3 w-3" />
+                            <span>Delete</span>
+                          </Button>
+                        </div>
+                      )}
                     </TableCell>
                   </TableRow>
                 ))
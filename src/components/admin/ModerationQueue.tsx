@@ -0,0 +1,301 @@
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Check, Trash2, Loader2, Star } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { deleteReview, dismissJobReport, removeJobPosting, type AdminActionResult } from "@/lib/adminActions";
+
+const QUEUE_LIMIT = 50;
+
+type JobReport = {
+  id: string;
+  reason: string;
+  created_at: string;
+  job_post_id: string;
+  job_postings: { job_title: string; business_name: string } | null;
+};
+
+type Review = {
+  id: string;
+  rating: number;
+  comment: string | null;
+  created_at: string;
+  businesses: { name: string } | null;
+};
+
+// What the confirmation dialog is about to remove
+type PendingRemoval =
+  | { kind: "job"; id: string; title: string }
+  | { kind: "review"; id: string; title: string };
+
+const formatDateTime = (value: string) => format(new Date(value), "MMM d, yyyy HH:mm");
+
+export function ModerationQueue() {
+  const { toast } = useToast();
+  const [reports, setReports] = useState<JobReport[]>([]);
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [pendingRemoval, setPendingRemoval] = useState<PendingRemoval | null>(null);
+  const [removalReason, setRemovalReason] = useState("");
+
+  const fetchQueue = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [reportsResult, reviewsResult] = await Promise.all([
+        supabase
+          .from("job_reports")
+          .select("id, reason, created_at, job_post_id, job_postings(job_title, business_name)")
+          .order("created_at", { ascending: false })
+          .limit(QUEUE_LIMIT),
+        supabase
+          .from("business_reviews")
+          .select("id, rating, comment, created_at, businesses(name)")
+          .order("created_at", { ascending: false })
+          .limit(QUEUE_LIMIT),
+      ]);
+
+      if (reportsResult.error) throw reportsResult.error;
+      if (reviewsResult.error) throw reviewsResult.error;
+
+      setReports((reportsResult.data || []) as JobReport[]);
+      setReviews((reviewsResult.data || []) as Review[]);
+    } catch (error) {
+      console.error("Error fetching moderation queue:", error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch reports and reviews",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const runAction = async (id: string, action: () => Promise<AdminActionResult>, successMessage: string) => {
+    setBusyId(id);
+    const result = await action();
+    setBusyId(null);
+
+    if (result.success === false) {
+      toast({ title: "Error", description: result.error, variant: "destructive" });
+      return false;
+    }
+
+    toast({ title: "Success", description: successMessage });
+    await fetchQueue();
+    return true;
+  };
+
+  const handleRemove = async () => {
+    if (!pendingRemoval) return;
+    const { kind, id, title } = pendingRemoval;
+    const done = await runAction(
+      id,
+      () => (kind === "job" ? removeJobPosting(id, removalReason) : deleteReview(id, removalReason)),
+      kind === "job" ? `${title} was removed` : "The review was removed"
+    );
+    if (done) {
+      setPendingRemoval(null);
+      setRemovalReason("");
+    }
+  };
+
+  if (loading && reports.length === 0 && reviews.length === 0) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Tabs defaultValue="job-reports">
+        <TabsList>
+          <TabsTrigger value="job-reports">
+            Job Reports
+            {reports.length > 0 && <Badge variant="secondary" className="ml-2">{reports.length}</Badge>}
+          </TabsTrigger>
+          <TabsTrigger value="reviews">Recent Reviews</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="job-reports">
+          <Card>
+            <CardContent className="p-0">
+              {reports.length === 0 ? (
+                <p className="text-center text-muted-foreground py-12">No open job reports.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Job Post</TableHead>
+                      <TableHead>Report</TableHead>
+                      <TableHead>Reported</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody className={loading ? "opacity-50" : undefined}>
+                    {reports.map((report) => (
+                      <TableRow key={report.id}>
+                        <TableCell>
+                          <div className="font-medium">{report.job_postings?.job_title || "Removed job post"}</div>
+                          <div className="text-xs text-muted-foreground">{report.job_postings?.business_name}</div>
+                        </TableCell>
+                        <TableCell className="max-w-sm break-words">{report.reason}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{formatDateTime(report.created_at)}</TableCell>
+                        <TableCell>
+                          {busyId === report.id || busyId === report.job_post_id ? (
+                            <Loader2 className="h-4 w-4 animate-spin ml-auto" />
+                          ) : (
+                            <div className="flex justify-end gap-2">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => runAction(report.id, () => dismissJobReport(report.id), "Report dismissed")}
+                              >
+                                <Check className="h-4 w-4 mr-1" />
+                                Dismiss
+                              </Button>
+                              <Button
+                                variant="destructive"
+                                size="sm"
+                                onClick={() =>
+                                  setPendingRemoval({
+                                    kind: "job",
+                                    id: report.job_post_id,
+                                    title: report.job_postings?.job_title || "The job post",
+                                  })
+                                }
+                              >
+                                <Trash2 className="h-4 w-4 mr-1" />
+                                Remove Job
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="reviews">
+          <Card>
+            <CardContent className="p-0">
+              {reviews.length === 0 ? (
+                <p className="text-center text-muted-foreground py-12">No reviews yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Business</TableHead>
+                      <TableHead>Review</TableHead>
+                      <TableHead>Posted</TableHead>
+                      <TableHead className="w-12" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody className={loading ? "opacity-50" : undefined}>
+                    {reviews.map((review) => (
+                      <TableRow key={review.id}>
+                        <TableCell className="font-medium">{review.businesses?.name || "Unknown business"}</TableCell>
+                        <TableCell className="max-w-md">
+                          <div className="flex items-center gap-1 text-sm">
+                            <Star className="h-3 w-3 text-yellow-500 fill-current" />
+                            {review.rating}
+                          </div>
+                          {review.comment && <p className="text-sm text-muted-foreground break-words">{review.comment}</p>}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{formatDateTime(review.created_at)}</TableCell>
+                        <TableCell>
+                          {busyId === review.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() =>
+                                setPendingRemoval({
+                                  kind: "review",
+                                  id: review.id,
+                                  title: review.businesses?.name || "this business",
+                                })
+                              }
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {/* Remove Job Post / Review */}
+      <AlertDialog open={pendingRemoval !== null} onOpenChange={(open) => !open && setPendingRemoval(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingRemoval?.kind === "job" ? `Remove ${pendingRemoval.title}?` : `Remove this review of ${pendingRemoval?.title}?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingRemoval?.kind === "job"
+                ? "The job post and all of its reports are deleted. This cannot be undone."
+                : "The review is deleted and no longer counts towards the business rating. This cannot be undone."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="removal-reason">Reason (kept in the audit log)</Label>
+            <Textarea
+              id="removal-reason"
+              rows={3}
+              value={removalReason}
+              onChange={(e) => setRemovalReason(e.target.value)}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleRemove();
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -19,7 +19,11 @@ interface Plan {
   updated_at: string;
 }
 
-export function PlansManagement() {
+interface PlansManagementProps {
+  canEdit: boolean;
+}
+
+export function PlansManagement({ canEdit }: PlansManagementProps) {
   const { toast } = useToast();
   const [plans, setPlans] = useState<Plan[]>([]);
   const [loading, setLoading] = useState(true);
@@ -115,10 +119,12 @@ export function PlansManagement() {
         <CardHeader>
           <div className="flex items-center justify-between">
             <CardTitle>All Plans</CardTitle>
-            <Button onClick={handleAddPlan} className="flex items-center gap-2">
-              <Plus className="h-4 w-4" />
-              Add New Plan
-            </Button>
+            {canEdit && (
+              <Button onClick={handleAddPlan} className="flex items-center gap-2">
+                <Plus className="h-4 w-4" />
+                Add New Plan
+              </Button>
+            )}
           </div>
         </CardHeader>
         <CardContent>
@@ -146,47 +152,49 @@ export function PlansManagement() {
                       <TableCell>{plan.currency_symbol}</TableCell>
                       <TableCell>{plan.duration}</TableCell>
                       <TableCell className="text-right">
-                        <div className="flex items-center justify-end gap-2">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleEditPlan(plan)}
-                          >
-                            <Edit className="h-4 w-4" />
-                          </Button>
-                          <AlertDialog>
-                            <AlertDialogTrigger asChild>
-                              <Button
-                                variant="outline"
-                                size="sm"
-                                disabled={deletingId === plan.id}
-                              >
-                                {deletingId === plan.id ? (
-                                  <Loader2 className="h-4 w-4 animate-spin" />
-                                ) : (
-                                  <Trash2 className="h-4 w-4" />
-                                )}
-                              </Button>
-                            </AlertDialogTrigger>
-                            <AlertDialogContent>
-                              <AlertDialogHeader>
-                                <AlertDialogTitle>Delete Plan</AlertDialogTitle>
-                                <AlertDialogDescription>
-                                  Are you sure you want to delete the plan "{plan.name}"? This action cannot be undone.
-                                </AlertDialogDescription>
-                              </AlertDialogHeader>
-                              <AlertDialogFooter>
-                                <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                <AlertDialogAction
-                                  onClick={() => handleDeletePlan(plan.id)}
-                                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        {canEdit && (
+                          <div className="flex items-center justify-end gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleEditPlan(plan)}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  disabled={deletingId === plan.id}
                                 >
-                                  Delete
-                                </AlertDialogAction>
-                              </AlertDialogFooter>
-                            </AlertDialogContent>
-                          </AlertDialog>
-                        </div>
+                                  {deletingId === plan.id ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                  ) : (
+                                    <Trash2 className="h-4 w-4" />
+                                  )}
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Delete Plan</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Are you sure you want to delete the plan "{plan.name}"? This action cannot be undone.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction
+                                    onClick={() => handleDeletePlan(plan.id)}
+                                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                  >
+                                    Delete
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          </div>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))}
@@ -15,6 +15,8 @@ import {
 import { ExternalLink, CheckCircle, Edit, Trash2, AlertCircle, Save } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { formatDateWithOrdinal } from "@/lib/dateUtils";
+import { getReceiptSignedUrl, PAYMENT_RECEIPTS_BUCKET } from "@/lib/receiptStorage";
+import { deleteListing as deleteAdminListing, extendListing } from "@/lib/adminActions";
 
 interface Business {
   id: string;
@@ -30,7 +32,12 @@ interface Business {
   "POS+Website": number;
 }
 
-export default function ToBeConfirmedListings() {
+interface ToBeConfirmedListingsProps {
+  canConfirmPayments: boolean;
+  canEditListings: boolean;
+}
+
+export default function ToBeConfirmedListings({ canConfirmPayments, canEditListings }: ToBeConfirmedListingsProps) {
   const [listings, setListings] = useState<Business[]>([]);
   const [loading, setLoading] = useState(true);
   const [editingDates, setEditingDates] = useState<{[key: string]: string}>({});
@@ -111,33 +118,27 @@ export default function ToBeConfirmedListings() {
   };
 
   const deleteListing = async (businessId: string) => {
-    if (!confirm('Are you sure you want to delete this listing? This action cannot be undone.')) {
+    if (!confirm('Are you sure you want to delete this listing? It will be removed from the site.')) {
       return;
     }
 
-    try {
-      const { error } = await supabase
-        .from('businesses')
-        .delete()
-        .eq('id', businessId);
-
-      if (error) throw error;
-
-      toast({
-        title: "Success",
-        description: "Listing deleted successfully",
-      });
-
-      // Refresh the listings
-      fetchPendingListings();
-    } catch (error) {
-      console.error('Error deleting listing:', error);
+    const result = await deleteAdminListing(businessId, '');
+    if (result.success === false) {
       toast({
         title: "Error",
-        description: "Failed to delete listing",
+        description: result.error,
         variant: "destructive",
       });
+      return;
     }
+
+    toast({
+      title: "Success",
+      description: "Listing deleted successfully",
+    });
+
+    // Refresh the listings
+    fetchPendingListings();
   };
 
   const editListing = (businessId: string) => {
@@ -155,44 +156,44 @@ export default function ToBeConfirmedListings() {
       return;
     }
 
-    try {
-      console.log('Updating listing expired date:', { businessId, newDate });
-      
-      const { data, error } = await supabase
-        .from('businesses')
-        .update({ listing_expired_date: newDate })
-        .eq('id', businessId)
-        .select('listing_expired_date');
-
-      if (error) {
-        console.error('Database error:', error);
-        throw error;
-      }
-
-      console.log('Database updated successfully:', data);
-
+    const result = await extendListing(businessId, newDate);
+    if (result.success === false) {
       toast({
-        title: "Success",
-        description: `Listing expired date updated to ${formatDateWithOrdinal(newDate)}`,
+        title: "Error",
+        description: result.error,
+        variant: "destructive",
       });
+      return;
+    }
 
-      // Remove from editing state
-      setEditingDates(prev => {
-        const newState = { ...prev };
-        delete newState[businessId];
-        return newState;
-      });
+    toast({
+      title: "Success",
+      description: `Listing expired date updated to ${formatDateWithOrdinal(newDate)}`,
+    });
 
-      // Refresh the listings to show updated data
-      fetchPendingListings();
-    } catch (error) {
-      console.error('Error updating listing expired date:', error);
+    // Remove from editing state
+    setEditingDates(prev => {
+      const newState = { ...prev };
+      delete newState[businessId];
+      return newState;
+    });
+
+    // Refresh the listings to show updated data
+    fetchPendingListings();
+  };
+
+  // Receipts are private; open them through a short-lived signed URL
+  const handleViewReceipt = async (receiptPath: string) => {
+    const signedUrl = await getReceiptSignedUrl(PAYMENT_RECEIPTS_BUCKET, receiptPath);
+    if (!signedUrl) {
       toast({
         title: "Error",
-        description: "Failed to update listing expired date. Please try again.",
+        description: "Unable to open the receipt. Please try again.",
         variant: "destructive",
       });
+      return;
     }
+    window.open(signedUrl, '_blank');
   };
 
   const handleDateChange = (businessId: string, value: string) => {
@@ -296,7 +297,7 @@ export default function ToBeConfirmedListings() {
                          <Button
                            variant="outline"
                            size="sm"
-                           onClick={() => window.open(listing.receipt_url, '_blank')}
+                           onClick={() => handleViewReceipt(listing.receipt_url)}
                            className="flex items-center space-x-2"
                          >
                            <ExternalLink className="h-4 w-4" />
@@ -326,10 +327,12 @@ export default function ToBeConfirmedListings() {
                           }
                           onChange={(e) => handleDateChange(listing.id, e.target.value)}
                           className="w-40"
+                          disabled={!canEditListings}
                         />
                         <Button
                           variant="outline"
                           size="sm"
+                          disabled={!canEditListings}
                           onClick={() => updateListingExpiredDate(
                             listing.id, 
                             editingDates[listing.id] !== undefined 
@@ -351,33 +354,39 @@ export default function ToBeConfirmedListings() {
                     </TableCell>
                     <TableCell>
                       <div className="flex items-center space-x-2">
-                        <Button
-                          variant="default"
-                          size="sm"
-                          onClick={() => confirmPayment(listing.id)}
-                          className="flex items-center space-x-1"
-                        >
-                          <CheckCircle className="h-4 w-4" />
-                          <span>Confirm</span>
-                        </Button>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => editListing(listing.id)}
-                          className="flex items-center space-x-1"
-                        >
-                          <Edit className="h-4 w-4" />
-                          <span>Edit</span>
-                        </Button>
-                        <Button
-                          variant="destructive"
-                          size="sm"
-                          onClick={() => deleteListing(listing.id)}
-                          className="flex items-center space-x-1"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                          <span>Delete</span>
-                        </Button>
+                        {canConfirmPayments && (
+                          <Button
+                            variant="default"
+                            size="sm"
+                            onClick={() => confirmPayment(listing.id)}
+                            className="flex items-center space-x-1"
+                          >
+                            <CheckCircle className="h-4 w-4" />
+                            <span>Confirm</span>
+                          </Button>
+                        )}
+                        {canEditListings && (
+                          <>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => editListing(listing.id)}
+                              className="flex items-center space-x-1"
+                            >
+                              <Edit className="h-4 w-4" />
+                              <span>Edit</span>
+                            </Button>
+                            <Button
+                              variant="destructive"
+                              size="sm"
+                              onClick={() => deleteListing(listing.id)}
+                              className="flex items-center space-x-1"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                              <span>Delete</span>
+                            </Button>
+                          </>
+                        )}
                       </div>
                     </TableCell>
                   </TableRow>
@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/hooks/use-toast";
+import { verifyBackupCode, verifyTwoFactor } from "@/lib/adminActions";
+
+interface TwoFactorChallengeProps {
+  onVerified: () => void;
+  onCancel: () => void;
+}
+
+// Second step of every admin sign-in: a code from the authenticator app, or a backup code
+export function TwoFactorChallenge({ onVerified, onCancel }: TwoFactorChallengeProps) {
+  const { toast } = useToast();
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [token, setToken] = useState("");
+  const [backupCode, setBackupCode] = useState("");
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const handleVerify = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (isVerifying) return;
+    if (useBackupCode ? !backupCode.trim() : token.length !== 6) return;
+
+    setIsVerifying(true);
+    const result = useBackupCode ? await verifyBackupCode(backupCode) : await verifyTwoFactor(token);
+    setIsVerifying(false);
+
+    if (result.success === false) {
+      toast({ title: "Verification failed", description: result.error, variant: "destructive" });
+      setToken("");
+      setBackupCode("");
+      return;
+    }
+
+    onVerified();
+  };
+
+  return (
+    <form onSubmit={handleVerify} className="space-y-4">
+      {useBackupCode ? (
+        <div className="space-y-2">
+          <Label htmlFor="backup-code">Backup code</Label>
+          <Input
+            id="backup-code"
+            placeholder="xxxxx-xxxxx"
+            autoComplete="off"
+            value={backupCode}
+            onChange={(e) => setBackupCode(e.target.value)}
+            disabled={isVerifying}
+            autoFocus
+          />
+          <p className="text-xs text-muted-foreground">Each backup code works once.</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <Label>Authentication code</Label>
+          <div className="flex justify-center">
+            <InputOTP maxLength={6} value={token} onChange={setToken} disabled={isVerifying} autoFocus>
+              <InputOTPGroup>
+                {Array.from({ length: 6 }, (_, index) => (
+                  <InputOTPSlot key={index} index={index} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+          <p className="text-xs text-muted-foreground text-center">Enter the 6-digit code from your authenticator app.</p>
+        </div>
+      )}
+
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={isVerifying || (useBackupCode ? !backupCode.trim() : token.length !== 6)}
+      >
+        {isVerifying ? "Verifying..." : "Verify"}
+      </Button>
+      <div className="flex justify-between">
+        <Button type="button" variant="link" size="sm" className="px-0" onClick={() => setUseBackupCode(!useBackupCode)}>
+          {useBackupCode ? "Use authenticator app" : "Use a backup code"}
+        </Button>
+        <Button type="button" variant="link" size="sm" className="px-0" onClick={onCancel} disabled={isVerifying}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,159 @@
+import { useEffect, useState } from "react";
+import QRCode from "qrcode";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Copy, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { beginTwoFactorEnrollment, confirmTwoFactorEnrollment, type TwoFactorEnrollment as Enrollment } from "@/lib/adminActions";
+import { BackupCodesList } from "./BackupCodesList";
+
+interface TwoFactorEnrollmentProps {
+  onComplete: () => void;
+  onCancel: () => void;
+}
+
+// Enrollment is required before the first admin sign-in completes: scan the secret, confirm a code,
+// then save the backup codes
+export function TwoFactorEnrollment({ onComplete, onCancel }: TwoFactorEnrollmentProps) {
+  const { toast } = useToast();
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [token, setToken] = useState("");
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    beginTwoFactorEnrollment()
+      .then((result) => {
+        if (isMounted) setEnrollment(result);
+      })
+      .catch((enrollError) => {
+        console.error("Failed to start two-factor enrollment", enrollError);
+        if (isMounted) setError(enrollError instanceof Error ? enrollError.message : "Unable to start two-factor setup");
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!enrollment) return;
+    let isMounted = true;
+
+    QRCode.toDataURL(enrollment.otpauthUrl, { errorCorrectionLevel: "M", margin: 1, width: 220 })
+      .then((dataUrl) => {
+        if (isMounted) setQrDataUrl(dataUrl);
+      })
+      .catch((qrError) => console.error("Failed to render two-factor QR code", qrError));
+
+    return () => {
+      isMounted = false;
+    };
+  }, [enrollment]);
+
+  const handleCopySecret = async () => {
+    if (!enrollment) return;
+    try {
+      await navigator.clipboard.writeText(enrollment.secret);
+      toast({ title: "Secret copied", description: "Paste it into your authenticator app." });
+    } catch (copyError) {
+      console.error("Failed to copy two-factor secret", copyError);
+    }
+  };
+
+  const handleConfirm = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (token.length !== 6 || isVerifying) return;
+
+    setIsVerifying(true);
+    const result = await confirmTwoFactorEnrollment(token);
+    setIsVerifying(false);
+
+    if (result.success === false) {
+      toast({ title: "Verification failed", description: result.error, variant: "destructive" });
+      setToken("");
+      return;
+    }
+
+    setBackupCodes(result.backupCodes);
+  };
+
+  if (backupCodes) {
+    return (
+      <div className="space-y-4">
+        <BackupCodesList codes={backupCodes} />
+        <Button className="w-full" onClick={onComplete}>
+          I have saved my backup codes
+        </Button>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="space-y-4 text-center">
+        <p className="text-sm text-destructive">{error}</p>
+        <Button variant="outline" className="w-full" onClick={onCancel}>
+          Back to sign in
+        </Button>
+      </div>
+    );
+  }
+
+  if (!enrollment) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleConfirm} className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Scan this QR code with an authenticator app such as Google Authenticator, 1Password or Authy, or enter the
+        secret by hand.
+      </p>
+      <div className="flex justify-center">
+        {qrDataUrl ? (
+          <img src={qrDataUrl} alt="Two-factor authentication QR code" className="h-48 w-48 rounded-md bg-white p-2" />
+        ) : (
+          <div className="flex h-48 w-48 items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+      </div>
+      <div className="flex items-center gap-2 rounded-md border bg-muted/30 px-3 py-2">
+        <code className="flex-1 break-all text-xs">{enrollment.secret}</code>
+        <Button type="button" variant="ghost" size="sm" onClick={handleCopySecret}>
+          <Copy className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Code from the app</Label>
+        <div className="flex justify-center">
+          <InputOTP maxLength={6} value={token} onChange={setToken} disabled={isVerifying} autoFocus>
+            <InputOTPGroup>
+              {Array.from({ length: 6 }, (_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+      </div>
+
+      <Button type="submit" className="w-full" disabled={token.length !== 6 || isVerifying}>
+        {isVerifying ? "Verifying..." : "Turn On Two-Factor Authentication"}
+      </Button>
+      <Button type="button" variant="ghost" className="w-full" onClick={onCancel} disabled={isVerifying}>
+        Cancel
+      </Button>
+    </form>
+  );
+}
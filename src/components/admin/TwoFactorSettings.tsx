@@ -0,0 +1,135 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { KeyRound, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { regenerateBackupCodes, type TwoFactorStatus } from "@/lib/adminActions";
+import { BackupCodesList } from "./BackupCodesList";
+
+const LOW_BACKUP_CODES = 3;
+
+interface TwoFactorSettingsProps {
+  status: TwoFactorStatus | null;
+  onChange: () => void;
+}
+
+export function TwoFactorSettings({ status, onChange }: TwoFactorSettingsProps) {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [token, setToken] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setToken("");
+    setBackupCodes(null);
+  };
+
+  const handleRegenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (token.length !== 6 || isSaving) return;
+
+    setIsSaving(true);
+    const result = await regenerateBackupCodes(token);
+    setIsSaving(false);
+
+    if (result.success === false) {
+      toast({ title: "Error", description: result.error, variant: "destructive" });
+      setToken("");
+      return;
+    }
+
+    setBackupCodes(result.backupCodes);
+    onChange();
+  };
+
+  const remaining = status?.backupCodesRemaining ?? 0;
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <KeyRound className="h-5 w-5" />
+            <span>Two-Factor Authentication</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <p className="text-sm text-muted-foreground">Status</p>
+            {status?.enabled ? <Badge>Enabled</Badge> : <Badge variant="destructive">Not set up</Badge>}
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Backup codes left</p>
+            <p className={remaining <= LOW_BACKUP_CODES ? "font-medium text-destructive" : "font-medium"}>
+              {remaining} of 10
+            </p>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Lost your authenticator app and backup codes? Ask a super admin to reset your two-factor authentication.
+          </p>
+          <Button variant="outline" size="sm" onClick={() => setDialogOpen(true)} disabled={!status?.enabled}>
+            <RefreshCw className="h-4 w-4 mr-1" />
+            Create New Backup Codes
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>New Backup Codes</DialogTitle>
+            <DialogDescription>
+              {backupCodes
+                ? "Your previous backup codes no longer work."
+                : "Enter a code from your authenticator app. Your current backup codes stop working."}
+            </DialogDescription>
+          </DialogHeader>
+          {backupCodes ? (
+            <>
+              <BackupCodesList codes={backupCodes} />
+              <DialogFooter>
+                <Button onClick={closeDialog}>Done</Button>
+              </DialogFooter>
+            </>
+          ) : (
+            <form onSubmit={handleRegenerate} className="space-y-4">
+              <div className="space-y-2">
+                <Label>Authentication code</Label>
+                <div className="flex justify-center">
+                  <InputOTP maxLength={6} value={token} onChange={setToken} disabled={isSaving} autoFocus>
+                    <InputOTPGroup>
+                      {Array.from({ length: 6 }, (_, index) => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={closeDialog} disabled={isSaving}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={token.length !== 6 || isSaving}>
+                  {isSaving ? "Creating..." : "Create Codes"}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,484 @@
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Ban, CheckCircle2, Star, KeyRound } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { formatDateWithOrdinal } from "@/lib/dateUtils";
+import {
+  ADMIN_ROLE_LABELS,
+  ROLE_LABELS,
+  fetchAdminUserDetails,
+  resetTwoFactor,
+  setAdminRole,
+  setUserRole,
+  setUserSuspended,
+  type AdminActionResult,
+  type AdminRole,
+  type AdminUserDetails,
+  type UserRole,
+} from "@/lib/adminActions";
+import { hasAdminPermission } from "@/lib/adminPermissions";
+import { AdminAuditLog } from "./AdminAuditLog";
+
+const NO_ADMIN_ROLE = "none";
+
+const formatDateTime = (value: string | null) => (value ? format(new Date(value), "MMM d, yyyy HH:mm") : "Never");
+
+interface UserDetailsModalProps {
+  userId: string | null;
+  onClose: () => void;
+  onChange: () => void;
+  adminRole: string | null | undefined;
+  currentUserId: string | null | undefined;
+}
+
+export function UserDetailsModal({ userId, onClose, onChange, adminRole, currentUserId }: UserDetailsModalProps) {
+  const { toast } = useToast();
+  const [details, setDetails] = useState<AdminUserDetails | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [suspendOpen, setSuspendOpen] = useState(false);
+  const [suspendReason, setSuspendReason] = useState("");
+  const [resetTwoFactorOpen, setResetTwoFactorOpen] = useState(false);
+  const [resetReason, setResetReason] = useState("");
+  // Bumped after each change so the history list reloads
+  const [historyKey, setHistoryKey] = useState(0);
+
+  const fetchDetails = useCallback(async () => {
+    if (!userId) return;
+    setLoading(true);
+    try {
+      setDetails(await fetchAdminUserDetails(userId));
+    } catch (error) {
+      console.error("Error fetching user:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to fetch user",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, toast]);
+
+  useEffect(() => {
+    setDetails(null);
+    fetchDetails();
+  }, [fetchDetails]);
+
+  const user = details?.user;
+  const isSelf = Boolean(user && user.user_id === currentUserId);
+  const isTargetAdmin = Boolean(user?.admin_role);
+  const mayManageUsers = hasAdminPermission(adminRole, "users.manage");
+  const mayManageAdmins = hasAdminPermission(adminRole, "admins.manage");
+  const canSuspend = mayManageUsers && !isSelf && (!isTargetAdmin || mayManageAdmins);
+  const canChangeRole = mayManageUsers && !isTargetAdmin;
+  const canChangeAdminRole = mayManageAdmins && !isSelf;
+  const canResetTwoFactor = mayManageAdmins && isTargetAdmin && !isSelf;
+
+  const runAction = async (action: () => Promise<AdminActionResult>, successMessage: string) => {
+    setSaving(true);
+    const result = await action();
+    setSaving(false);
+
+    if (result.success === false) {
+      toast({ title: "Error", description: result.error, variant: "destructive" });
+      return false;
+    }
+
+    toast({ title: "Success", description: successMessage });
+    setHistoryKey((key) => key + 1);
+    await fetchDetails();
+    onChange();
+    return true;
+  };
+
+  const handleSuspend = async () => {
+    if (!user) return;
+    const done = await runAction(
+      () => setUserSuspended(user.user_id, true, suspendReason),
+      `${user.email} was suspended`
+    );
+    if (done) {
+      setSuspendOpen(false);
+      setSuspendReason("");
+    }
+  };
+
+  const handleResetTwoFactor = async () => {
+    if (!user) return;
+    const done = await runAction(
+      () => resetTwoFactor(user.user_id, resetReason),
+      `${user.email} will set up two-factor authentication again at their next sign-in`
+    );
+    if (done) {
+      setResetTwoFactorOpen(false);
+      setResetReason("");
+    }
+  };
+
+  return (
+    <Dialog open={userId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{user?.display_name || user?.email || "User"}</DialogTitle>
+          {user && <DialogDescription>{user.email}</DialogDescription>}
+        </DialogHeader>
+
+        {loading && !details ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : details && user ? (
+          <div className="space-y-6">
+            {/* Account */}
+            <div className="grid gap-4 md:grid-cols-2 text-sm">
+              <div>
+                <p className="text-muted-foreground">Joined</p>
+                <p className="font-medium">{formatDateTime(user.created_at)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Last sign-in</p>
+                <p className="font-medium">{formatDateTime(user.last_sign_in_at)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Email</p>
+                <p className="font-medium">{user.email_confirmed_at ? "Confirmed" : "Not confirmed"}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Status</p>
+                {user.suspended_at ? (
+                  <div>
+                    <Badge variant="destructive">Suspended</Badge>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {formatDateTime(user.suspended_at)}
+                      {user.suspension_reason && ` · ${user.suspension_reason}`}
+                    </p>
+                  </div>
+                ) : (
+                  <Badge variant="outline">Active</Badge>
+                )}
+              </div>
+            </div>
+
+            {/* Roles and suspension */}
+            <div className="grid gap-4 md:grid-cols-3 items-end border-t pt-4">
+              <div className="space-y-2">
+                <Label>Profile role</Label>
+                <Select
+                  value={user.role}
+                  disabled={!canChangeRole || saving}
+                  onValueChange={(value) =>
+                    runAction(
+                      () => setUserRole(user.user_id, value as UserRole),
+                      `${user.email} is now ${ROLE_LABELS[value] ?? value}`
+                    )
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="user">{ROLE_LABELS.user}</SelectItem>
+                    <SelectItem value="business_owner">{ROLE_LABELS.business_owner}</SelectItem>
+                    {user.role === "admin" && <SelectItem value="admin" disabled>{ROLE_LABELS.admin}</SelectItem>}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Admin role</Label>
+                <Select
+                  value={user.admin_role ?? NO_ADMIN_ROLE}
+                  disabled={!canChangeAdminRole || saving}
+                  onValueChange={(value) => {
+                    const next = value === NO_ADMIN_ROLE ? null : (value as AdminRole);
+                    runAction(
+                      () => setAdminRole(user.user_id, next),
+                      next ? `${user.email} is now ${ADMIN_ROLE_LABELS[next]}` : `${user.email} no longer has admin access`
+                    );
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_ADMIN_ROLE}>No admin access</SelectItem>
+                    {(Object.keys(ADMIN_ROLE_LABELS) as AdminRole[]).map((role) => (
+                      <SelectItem key={role} value={role}>{ADMIN_ROLE_LABELS[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                {user.suspended_at ? (
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    disabled={!canSuspend || saving}
+                    onClick={() =>
+                      runAction(() => setUserSuspended(user.user_id, false), `${user.email} can sign in again`)
+                    }
+                  >
+                    <CheckCircle2 className="h-4 w-4 mr-2" />
+                    Unsuspend
+                  </Button>
+                ) : (
+                  <Button
+                    variant="destructive"
+                    className="w-full"
+                    disabled={!canSuspend || saving}
+                    onClick={() => setSuspendOpen(true)}
+                  >
+                    <Ban className="h-4 w-4 mr-2" />
+                    Suspend
+                  </Button>
+                )}
+              </div>
+            </div>
+            {canResetTwoFactor && (
+              <div className="flex items-center justify-between gap-4 rounded-md border p-3">
+                <p className="text-sm text-muted-foreground">
+                  Lost their authenticator app and backup codes? Resetting ends their current admin session and
+                  asks them to set up two-factor authentication again.
+                </p>
+                <Button variant="outline" size="sm" disabled={saving} onClick={() => setResetTwoFactorOpen(true)}>
+                  <KeyRound className="h-4 w-4 mr-2" />
+                  Reset 2FA
+                </Button>
+              </div>
+            )}
+            {isSelf && (
+              <p className="text-xs text-muted-foreground">This is your own account; another admin has to change it.</p>
+            )}
+
+            {/* Activity */}
+            <Tabs defaultValue="businesses">
+              <TabsList className="flex-wrap h-auto">
+                <TabsTrigger value="businesses">Businesses ({details.businesses.length})</TabsTrigger>
+                <TabsTrigger value="bookings">Bookings ({details.bookings.length})</TabsTrigger>
+                <TabsTrigger value="jobs">Job Posts ({details.job_posts.length})</TabsTrigger>
+                <TabsTrigger value="reviews">Reviews ({details.reviews.length})</TabsTrigger>
+                <TabsTrigger value="logins">Sign-ins</TabsTrigger>
+                <TabsTrigger value="history">History</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="businesses">
+                {details.businesses.length === 0 ? (
+                  <p className="text-sm text-muted-foreground py-4">No businesses.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Business</TableHead>
+                        <TableHead>Payment</TableHead>
+                        <TableHead>Listing Expiry</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {details.businesses.map((business) => (
+                        <TableRow key={business.id} className={business.deleted_at ? "text-muted-foreground" : undefined}>
+                          <TableCell>
+                            <div className="font-medium">
+                              {business.name}
+                              {business.deleted_at && <Badge variant="destructive" className="ml-2">Deleted</Badge>}
+                            </div>
+                            <div className="text-xs text-muted-foreground">{business.category || "No category"}</div>
+                          </TableCell>
+                          <TableCell className="capitalize">{business.payment_status.replace(/_/g, " ")}</TableCell>
+                          <TableCell>
+                            {business.listing_expired_date ? formatDateWithOrdinal(business.listing_expired_date) : "Never paid"}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </TabsContent>
+
+              <TabsContent value="bookings">
+                {details.bookings.length === 0 ? (
+                  <p className="text-sm text-muted-foreground py-4">No bookings.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Booked</TableHead>
+                        <TableHead>Resource</TableHead>
+                        <TableHead>Amount</TableHead>
+                        <TableHead>Status</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {details.bookings.map((booking) => (
+                        <TableRow key={booking.id}>
+                          <TableCell>{formatDateTime(booking.created_at)}</TableCell>
+                          <TableCell>
+                            <div className="font-medium">{booking.resource_name}</div>
+                            <div className="text-xs text-muted-foreground">{booking.business_name}</div>
+                          </TableCell>
+                          <TableCell>{Number(booking.payment_amount).toLocaleString()} MMK</TableCell>
+                          <TableCell>
+                            <Badge variant="outline" className="capitalize">{booking.status}</Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </TabsContent>
+
+              <TabsContent value="jobs">
+                {details.job_posts.length === 0 ? (
+                  <p className="text-sm text-muted-foreground py-4">No job posts.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Job</TableHead>
+                        <TableHead>Posted</TableHead>
+                        <TableHead>Deadline</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {details.job_posts.map((job) => (
+                        <TableRow key={job.id}>
+                          <TableCell>
+                            <div className="font-medium">{job.job_title}</div>
+                            <div className="text-xs text-muted-foreground">{job.business_name}</div>
+                          </TableCell>
+                          <TableCell>{formatDateWithOrdinal(job.created_at)}</TableCell>
+                          <TableCell>{formatDateWithOrdinal(job.application_deadline)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </TabsContent>
+
+              <TabsContent value="reviews">
+                {details.reviews.length === 0 ? (
+                  <p className="text-sm text-muted-foreground py-4">No reviews.</p>
+                ) : (
+                  <ul className="space-y-3 py-2">
+                    {details.reviews.map((review) => (
+                      <li key={review.id} className="text-sm">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium">{review.business_name}</span>
+                          <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                            <Star className="h-3 w-3 text-yellow-500 fill-current" />
+                            {review.rating} · {formatDateWithOrdinal(review.created_at)}
+                          </span>
+                        </div>
+                        {review.comment && <p className="text-muted-foreground break-words">{review.comment}</p>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </TabsContent>
+
+              <TabsContent value="logins">
+                {details.login_attempts.length === 0 ? (
+                  <p className="text-sm text-muted-foreground py-4">No sign-in attempts recorded.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>When</TableHead>
+                        <TableHead>Result</TableHead>
+                        <TableHead>IP Address</TableHead>
+                        <TableHead>Device</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {details.login_attempts.map((attempt) => (
+                        <TableRow key={attempt.created_at}>
+                          <TableCell>{formatDateTime(attempt.created_at)}</TableCell>
+                          <TableCell>
+                            {attempt.success ? (
+                              <Badge variant="outline">Success</Badge>
+                            ) : (
+                              <Badge variant="destructive">Failed</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="font-mono text-xs">{attempt.ip_address || "Unknown"}</TableCell>
+                          <TableCell className="text-xs text-muted-foreground max-w-48 truncate" title={attempt.user_agent ?? undefined}>
+                            {attempt.user_agent || "Unknown"}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </TabsContent>
+
+              <TabsContent value="history" className="pt-2">
+                <AdminAuditLog key={historyKey} targetType="user" targetId={user.user_id} />
+              </TabsContent>
+            </Tabs>
+          </div>
+        ) : null}
+
+        {/* Suspend */}
+        <Dialog open={suspendOpen} onOpenChange={setSuspendOpen}>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>Suspend {user?.email}?</DialogTitle>
+              <DialogDescription>
+                They are signed out everywhere and cannot sign in until the account is unsuspended. Their listings and bookings are kept.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="suspend-reason">Reason (kept in the audit log)</Label>
+              <Textarea
+                id="suspend-reason"
+                rows={3}
+                value={suspendReason}
+                onChange={(e) => setSuspendReason(e.target.value)}
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setSuspendOpen(false)}>Cancel</Button>
+              <Button variant="destructive" onClick={handleSuspend} disabled={!suspendReason.trim() || saving}>
+                Suspend
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {/* Reset 2FA */}
+        <Dialog open={resetTwoFactorOpen} onOpenChange={setResetTwoFactorOpen}>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>Reset two-factor authentication for {user?.email}?</DialogTitle>
+              <DialogDescription>
+                Their authenticator app and backup codes stop working. They keep their admin role and enroll a new app the next time they sign in.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="reset-2fa-reason">Reason (kept in the audit log)</Label>
+              <Textarea
+                id="reset-2fa-reason"
+                rows={3}
+                value={resetReason}
+                onChange={(e) => setResetReason(e.target.value)}
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setResetTwoFactorOpen(false)}>Cancel</Button>
+              <Button variant="destructive" onClick={handleResetTwoFactor} disabled={saving}>
+                Reset 2FA
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </DialogContent>
+    </Dialog>
+  );
+}
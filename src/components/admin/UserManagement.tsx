@@ -0,0 +1,192 @@
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Search, Filter, ChevronLeft, ChevronRight, Loader2, Eye } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { ADMIN_ROLE_LABELS, ROLE_LABELS, fetchAdminUsers, type AdminUser } from "@/lib/adminActions";
+import { UserDetailsModal } from "./UserDetailsModal";
+
+const PAGE_SIZE = 20;
+const ALL = "all";
+
+interface UserManagementProps {
+  adminRole: string | null | undefined;
+  currentUserId: string | null | undefined;
+}
+
+export default function UserManagement({ adminRole, currentUserId }: UserManagementProps) {
+  const { toast } = useToast();
+  const [search, setSearch] = useState("");
+  const [searchInput, setSearchInput] = useState("");
+  const [suspended, setSuspended] = useState<boolean | null>(null);
+  const [page, setPage] = useState(0);
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+
+  const fetchUsers = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await fetchAdminUsers(search, suspended, page, PAGE_SIZE);
+      setUsers(result.users);
+      setTotal(result.total);
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to fetch users",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [search, suspended, page, toast]);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  // Search runs on the server, so wait until typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch((prev) => (prev === searchInput ? prev : searchInput));
+      setPage(0);
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const firstRow = total === 0 ? 0 : page * PAGE_SIZE + 1;
+  const lastRow = Math.min(total, (page + 1) * PAGE_SIZE);
+
+  return (
+    <div className="space-y-6">
+      {/* Search and Filter Bar */}
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex flex-col gap-4 md:flex-row md:items-center">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by email, name or user ID..."
+                className="pl-10"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Filter className="h-4 w-4 text-muted-foreground" />
+              <Select
+                value={suspended === null ? ALL : suspended ? "suspended" : "active"}
+                onValueChange={(value) => {
+                  setSuspended(value === ALL ? null : value === "suspended");
+                  setPage(0);
+                }}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue placeholder="Status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All Accounts</SelectItem>
+                  <SelectItem value="active">Active</SelectItem>
+                  <SelectItem value="suspended">Suspended</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Users Table */}
+      <Card>
+        <CardContent className="p-0">
+          {loading && users.length === 0 ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : users.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">No users match this search.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Activity</TableHead>
+                  <TableHead>Joined</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody className={loading ? "opacity-50" : undefined}>
+                {users.map((user) => (
+                  <TableRow key={user.user_id}>
+                    <TableCell>
+                      <div className="font-medium">{user.display_name || "No name"}</div>
+                      <div className="text-xs text-muted-foreground">{user.email || "No email"}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        <Badge variant="outline">{ROLE_LABELS[user.role] ?? user.role}</Badge>
+                        {user.admin_role && <Badge variant="secondary">{ADMIN_ROLE_LABELS[user.admin_role]}</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {user.business_count} businesses · {user.booking_count} bookings
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm">{format(new Date(user.created_at), "MMM d, yyyy")}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {user.last_sign_in_at
+                          ? `Last sign-in ${format(new Date(user.last_sign_in_at), "MMM d, yyyy")}`
+                          : "Never signed in"}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {user.suspended_at ? <Badge variant="destructive">Suspended</Badge> : <Badge variant="outline">Active</Badge>}
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="sm" onClick={() => setSelectedUserId(user.user_id)}>
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Pagination */}
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {total === 0 ? "No users" : `Showing ${firstRow}–${lastRow} of ${total}`}
+        </p>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => setPage((p) => p - 1)} disabled={page === 0 || loading}>
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Previous
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setPage((p) => p + 1)} disabled={lastRow >= total || loading}>
+            Next
+            <ChevronRight className="h-4 w-4 ml-1" />
+          </Button>
+        </div>
+      </div>
+
+      <UserDetailsModal
+        userId={selectedUserId}
+        onClose={() => setSelectedUserId(null)}
+        onChange={fetchUsers}
+        adminRole={adminRole}
+        currentUserId={currentUserId}
+      />
+    </div>
+  );
+}
@@ -1,13 +1,14 @@
 import { useState, useEffect } from "react";
 import { User, Session } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
+import { hasAdminPermission, type AdminPermission } from "@/lib/adminPermissions";
+import { fetchTwoFactorStatus, type TwoFactorStatus } from "@/lib/adminActions";
 
 interface AdminProfile {
   id: string;
   user_id: string;
   admin_role: string;
   two_factor_enabled?: boolean;
-  two_factor_secret?: string;
   created_at: string;
   updated_at: string;
 }
@@ -16,6 +17,7 @@ export function useAdminAuth() {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [adminProfile, setAdminProfile] = useState<AdminProfile | null>(null);
+  const [twoFactorStatus, setTwoFactorStatus] = useState<TwoFactorStatus | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -32,6 +34,7 @@ export function useAdminAuth() {
           }, 0);
         } else {
           setAdminProfile(null);
+          setTwoFactorStatus(null);
           setLoading(false);
         }
       }
@@ -62,12 +65,15 @@ export function useAdminAuth() {
       if (error) {
         console.error('Error fetching admin profile:', error);
         setAdminProfile(null);
+        setTwoFactorStatus(null);
       } else {
         setAdminProfile(data);
+        setTwoFactorStatus(await fetchTwoFactorStatus());
       }
     } catch (error) {
       console.error('Error fetching admin profile:', error);
       setAdminProfile(null);
+      setTwoFactorStatus(null);
     } finally {
       setLoading(false);
     }
@@ -92,6 +98,14 @@ export function useAdminAuth() {
     }
   };
 
+  const refreshTwoFactorStatus = async () => {
+    try {
+      setTwoFactorStatus(await fetchTwoFactorStatus());
+    } catch (error) {
+      console.error('Error fetching two-factor status:', error);
+    }
+  };
+
   const signOut = async () => {
     try {
       // Clean up auth state
@@ -136,45 +150,22 @@ export function useAdminAuth() {
     }
   };
 
-  const provisionAdminUser = async (userId: string) => {
-    try {
-      const { error } = await supabase
-        .from('admin_users')
-        .insert({
-          user_id: userId,
-          admin_role: 'admin'
-        });
-
-      if (error) throw error;
-      
-      // Also create profile entry
-      await supabase
-        .from('profiles')
-        .upsert({
-          user_id: userId,
-          role: 'admin'
-        });
-
-      await fetchAdminProfile(userId);
-    } catch (error) {
-      console.error('Error provisioning admin user:', error);
-      throw error;
-    }
-  };
-
   return {
     user,
     session,
     adminProfile,
+    twoFactorStatus,
     loading,
     updateAdminProfile,
+    refreshTwoFactorStatus,
     signOut,
     checkAdminRateLimit,
     logAdminLoginAttempt,
-    provisionAdminUser,
+    hasPermission: (permission: AdminPermission) => hasAdminPermission(adminProfile?.admin_role, permission),
     isSuperAdmin: adminProfile?.admin_role === 'super_admin',
     isAdmin: adminProfile?.admin_role === 'admin',
     isModerator: adminProfile?.admin_role === 'moderator',
-    isAuthenticated: !!user && !!adminProfile
+    // The database only grants the admin role to sessions that passed the second factor
+    isAuthenticated: !!user && !!adminProfile && !!twoFactorStatus?.verified
   };
 }
\ No newline at end of file
@@ -14,13 +14,42 @@ export type Database = {
   }
   public: {
     Tables: {
+      admin_audit_log: {
+        Row: {
+          action: string
+          admin_id: string | null
+          created_at: string
+          details: Json
+          id: string
+          target_id: string | null
+          target_type: string
+        }
+        Insert: {
+          action: string
+          admin_id?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+          target_id?: string | null
+          target_type: string
+        }
+        Update: {
+          action?: string
+          admin_id?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+          target_id?: string | null
+          target_type?: string
+        }
+        Relationships: []
+      }
       admin_users: {
         Row: {
           admin_role: string | null
           created_at: string
           id: string
           two_factor_enabled: boolean | null
-          two_factor_secret: string | null
           updated_at: string
           user_id: string
         }
@@ -29,7 +58,6 @@ export type Database = {
           created_at?: string
           id?: string
           two_factor_enabled?: boolean | null
-          two_factor_secret?: string | null
           updated_at?: string
           user_id: string
         }
@@ -38,7 +66,6 @@ export type Database = {
           created_at?: string
           id?: string
           two_factor_enabled?: boolean | null
-          two_factor_secret?: string | null
           updated_at?: string
           user_id?: string
         }
@@ -62,45 +89,182 @@ export type Database = {
         }
         Relationships: []
       }
+      booking_reschedules: {
+        Row: {
+          booking_id: string
+          created_at: string
+          id: string
+          new_amount: number
+          new_slot_ids: string[]
+          previous_amount: number
+          previous_slot_ids: string[]
+          rescheduled_by_id: string
+        }
+        Insert: {
+          booking_id: string
+          created_at?: string
+          id?: string
+          new_amount: number
+          new_slot_ids: string[]
+          previous_amount: number
+          previous_slot_ids: string[]
+          rescheduled_by_id: string
+        }
+        Update: {
+          booking_id?: string
+          created_at?: string
+          id?: string
+          new_amount?: number
+          new_slot_ids?: string[]
+          previous_amount?: number
+          previous_slot_ids?: string[]
+          rescheduled_by_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_reschedules_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      booking_slots: {
+        Row: {
+          booking_id: string
+          created_at: string
+          id: string
+          slot_id: string
+        }
+        Insert: {
+          booking_id: string
+          created_at?: string
+          id?: string
+          slot_id: string
+        }
+        Update: {
+          booking_id?: string
+          created_at?: string
+          id?: string
+          slot_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_slots_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_slots_slot_id_fkey"
+            columns: ["slot_id"]
+            isOneToOne: true
+            referencedRelation: "slots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       bookings: {
         Row: {
+          attendance: string | null
+          balance_due: number
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by_id: string | null
+          checked_in_at: string | null
+          checked_in_by_id: string | null
           confirmed_by_id: string | null
           created_at: string
+          created_by: string | null
+          customer_name: string | null
+          customer_phone: string | null
           id: string
+          late_cancellation: boolean
           payment_amount: number
           payment_method: string | null
           receipt_url: string
+          recurrence: Json | null
+          refund_amount: number | null
+          refunded_at: string | null
+          rejected_at: string | null
+          rejection_reason: string | null
+          rescheduled_at: string | null
+          rescheduled_by_id: string | null
           resource_id: string
-          slot_id: string
+          slot_id: string | null
+          source: string
+          starts_at: string | null
           status: string
           updated_at: string
-          user_id: string
+          user_id: string | null
         }
         Insert: {
+          attendance?: string | null
+          balance_due?: number
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by_id?: string | null
+          checked_in_at?: string | null
+          checked_in_by_id?: string | null
           confirmed_by_id?: string | null
           created_at?: string
+          created_by?: string | null
+          customer_name?: string | null
+          customer_phone?: string | null
           id?: string
+          late_cancellation?: boolean
           payment_amount: number
           payment_method?: string | null
           receipt_url: string
+          recurrence?: Json | null
+          refund_amount?: number | null
+          refunded_at?: string | null
+          rejected_at?: string | null
+          rejection_reason?: string | null
+          rescheduled_at?: string | null
+          rescheduled_by_id?: string | null
           resource_id: string
-          slot_id: string
+          slot_id?: string | null
+          source?: string
+          starts_at?: string | null
           status?: string
           updated_at?: string
-          user_id: string
+          user_id?: string | null
         }
         Update: {
+          attendance?: string | null
+          balance_due?: number
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by_id?: string | null
+          checked_in_at?: string | null
+          checked_in_by_id?: string | null
           confirmed_by_id?: string | null
           created_at?: string
+          created_by?: string | null
+          customer_name?: string | null
+          customer_phone?: string | null
           id?: string
+          late_cancellation?: boolean
           payment_amount?: number
           payment_method?: string | null
           receipt_url?: string
+          recurrence?: Json | null
+          refund_amount?: number | null
+          refunded_at?: string | null
+          rejected_at?: string | null
+          rejection_reason?: string | null
+          rescheduled_at?: string | null
+          rescheduled_by_id?: string | null
           resource_id?: string
-          slot_id?: string
+          slot_id?: string | null
+          source?: string
+          starts_at?: string | null
           status?: string
           updated_at?: string
-          user_id?: string
+          user_id?: string | null
         }
         Relationships: [
           {
@@ -113,7 +277,7 @@ export type Database = {
           {
             foreignKeyName: "bookings_slot_id_fkey"
             columns: ["slot_id"]
-            isOneToOne: true
+            isOneToOne: false
             referencedRelation: "slots"
             referencedColumns: ["id"]
           },
@@ -169,35 +333,44 @@ export type Database = {
       business_resources: {
         Row: {
           base_price: number | null
+          buffer_minutes: number
           business_id: string
           created_at: string
           field_type: string | null
           id: string
           max_capacity: number
+          min_lead_minutes: number
           name: string
           service_id: number
+          slot_duration_minutes: number | null
           updated_at: string
         }
         Insert: {
           base_price?: number | null
+          buffer_minutes?: number
           business_id: string
           created_at?: string
           field_type?: string | null
           id?: string
           max_capacity?: number
+          min_lead_minutes?: number
           name: string
           service_id: number
+          slot_duration_minutes?: number | null
           updated_at?: string
         }
         Update: {
           base_price?: number | null
+          buffer_minutes?: number
           business_id?: string
           created_at?: string
           field_type?: string | null
           id?: string
           max_capacity?: number
+          min_lead_minutes?: number
           name?: string
           service_id?: number
+          slot_duration_minutes?: number | null
           updated_at?: string
         }
         Relationships: [
@@ -263,6 +436,7 @@ export type Database = {
           day_of_week: number
           id: string
           is_open: boolean
+          note: string | null
           open_time: string
           resource_id: string
           updated_at: string
@@ -274,6 +448,7 @@ export type Database = {
           day_of_week: number
           id?: string
           is_open?: boolean
+          note?: string | null
           open_time: string
           resource_id: string
           updated_at?: string
@@ -285,6 +460,7 @@ export type Database = {
           day_of_week?: number
           id?: string
           is_open?: boolean
+          note?: string | null
           open_time?: string
           resource_id?: string
           updated_at?: string
@@ -305,6 +481,8 @@ export type Database = {
           business_options: string[] | null
           category: string | null
           created_at: string
+          deleted_at: string | null
+          deleted_by_id: string | null
           description: string | null
           email: string | null
           facebook_page: string | null
@@ -337,6 +515,7 @@ export type Database = {
           service_listing_price: string | null
           starting_price: string | null
           tiktok_url: string | null
+          timezone: string
           towns: string | null
           updated_at: string
           user_email: string | null
@@ -348,6 +527,8 @@ export type Database = {
           business_options?: string[] | null
           category?: string | null
           created_at?: string
+          deleted_at?: string | null
+          deleted_by_id?: string | null
           description?: string | null
           email?: string | null
           facebook_page?: string | null
@@ -380,6 +561,7 @@ export type Database = {
           service_listing_price?: string | null
           starting_price?: string | null
           tiktok_url?: string | null
+          timezone?: string
           towns?: string | null
           updated_at?: string
           user_email?: string | null
@@ -391,6 +573,8 @@ export type Database = {
           business_options?: string[] | null
           category?: string | null
           created_at?: string
+          deleted_at?: string | null
+          deleted_by_id?: string | null
           description?: string | null
           email?: string | null
           facebook_page?: string | null
@@ -423,6 +607,7 @@ export type Database = {
           service_listing_price?: string | null
           starting_price?: string | null
           tiktok_url?: string | null
+          timezone?: string
           towns?: string | null
           updated_at?: string
           user_email?: string | null
@@ -766,6 +951,9 @@ export type Database = {
           email: string | null
           id: string
           role: string | null
+          suspended_at: string | null
+          suspended_by_id: string | null
+          suspension_reason: string | null
           updated_at: string
           user_id: string
         }
@@ -777,6 +965,9 @@ export type Database = {
           email?: string | null
           id?: string
           role?: string | null
+          suspended_at?: string | null
+          suspended_by_id?: string | null
+          suspension_reason?: string | null
           updated_at?: string
           user_id: string
         }
@@ -788,11 +979,73 @@ export type Database = {
           email?: string | null
           id?: string
           role?: string | null
+          suspended_at?: string | null
+          suspended_by_id?: string | null
+          suspension_reason?: string | null
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      receipt_verifications: {
+        Row: {
+          account_matches: boolean | null
+          amount_matches: boolean | null
+          booking_id: string
+          checked_at: string
+          confidence: number
+          duplicate_booking_ids: string[]
+          extracted_account: string | null
+          extracted_amount: number | null
+          extracted_paid_at: string | null
+          extracted_transaction_id: string | null
+          flags: string[]
+          provider: string | null
+          raw_text: string | null
+          status: string
+        }
+        Insert: {
+          account_matches?: boolean | null
+          amount_matches?: boolean | null
+          booking_id: string
+          checked_at?: string
+          confidence?: number
+          duplicate_booking_ids?: string[]
+          extracted_account?: string | null
+          extracted_amount?: number | null
+          extracted_paid_at?: string | null
+          extracted_transaction_id?: string | null
+          flags?: string[]
+          provider?: string | null
+          raw_text?: string | null
+          status: string
+        }
+        Update: {
+          account_matches?: boolean | null
+          amount_matches?: boolean | null
+          booking_id?: string
+          checked_at?: string
+          confidence?: number
+          duplicate_booking_ids?: string[]
+          extracted_account?: string | null
+          extracted_amount?: number | null
+          extracted_paid_at?: string | null
+          extracted_transaction_id?: string | null
+          flags?: string[]
+          provider?: string | null
+          raw_text?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "receipt_verifications_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: true
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       resource_pricing_rules: {
         Row: {
           created_at: string
@@ -800,9 +1053,12 @@ export type Database = {
           end_time: string
           id: string
           price_override: number
+          priority: number
           resource_id: string
           rule_name: string
           start_time: string
+          valid_from: string | null
+          valid_until: string | null
         }
         Insert: {
           created_at?: string
@@ -810,9 +1066,12 @@ export type Database = {
           end_time: string
           id?: string
           price_override: number
+          priority?: number
           resource_id: string
           rule_name: string
           start_time: string
+          valid_from?: string | null
+          valid_until?: string | null
         }
         Update: {
           created_at?: string
@@ -820,9 +1079,12 @@ export type Database = {
           end_time?: string
           id?: string
           price_override?: number
+          priority?: number
           resource_id?: string
           rule_name?: string
           start_time?: string
+          valid_from?: string | null
+          valid_until?: string | null
         }
         Relationships: [
           {
@@ -842,9 +1104,15 @@ export type Database = {
           contact_phone: string | null
           created_at: string
           default_duration_min: number | null
+          deposit_type: string
+          deposit_value: number
           facilities: string | null
+          free_cancellation_hours: number
+          hold_minutes: number
           id: number
+          late_cancellation_refund_percent: number
           popular_products: string
+          prepayment_min_score: number
           rules: string | null
           service_images: string[] | null
           service_key: string
@@ -860,9 +1128,15 @@ export type Database = {
           contact_phone?: string | null
           created_at?: string
           default_duration_min?: number | null
+          deposit_type?: string
+          deposit_value?: number
           facilities?: string | null
+          free_cancellation_hours?: number
+          hold_minutes?: number
           id?: number
+          late_cancellation_refund_percent?: number
           popular_products: string
+          prepayment_min_score?: number
           rules?: string | null
           service_images?: string[] | null
           service_key: string
@@ -878,9 +1152,15 @@ export type Database = {
           contact_phone?: string | null
           created_at?: string
           default_duration_min?: number | null
+          deposit_type?: string
+          deposit_value?: number
           facilities?: string | null
+          free_cancellation_hours?: number
+          hold_minutes?: number
           id?: number
+          late_cancellation_refund_percent?: number
           popular_products?: string
+          prepayment_min_score?: number
           rules?: string | null
           service_images?: string[] | null
           service_key?: string
@@ -899,11 +1179,77 @@ export type Database = {
           },
         ]
       }
+      slot_waitlist: {
+        Row: {
+          business_id: string
+          created_at: string
+          id: string
+          offer_expires_at: string | null
+          offered_at: string | null
+          offered_slot_id: string | null
+          resource_id: string | null
+          status: string
+          user_id: string
+          window_end: string
+          window_start: string
+        }
+        Insert: {
+          business_id: string
+          created_at?: string
+          id?: string
+          offer_expires_at?: string | null
+          offered_at?: string | null
+          offered_slot_id?: string | null
+          resource_id?: string | null
+          status?: string
+          user_id: string
+          window_end: string
+          window_start: string
+        }
+        Update: {
+          business_id?: string
+          created_at?: string
+          id?: string
+          offer_expires_at?: string | null
+          offered_at?: string | null
+          offered_slot_id?: string | null
+          resource_id?: string | null
+          status?: string
+          user_id?: string
+          window_end?: string
+          window_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "slot_waitlist_business_id_fkey"
+            columns: ["business_id"]
+            isOneToOne: false
+            referencedRelation: "businesses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "slot_waitlist_offered_slot_id_fkey"
+            columns: ["offered_slot_id"]
+            isOneToOne: false
+            referencedRelation: "slots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "slot_waitlist_resource_id_fkey"
+            columns: ["resource_id"]
+            isOneToOne: false
+            referencedRelation: "business_resources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       slots: {
         Row: {
           booking_id: string | null
           created_at: string
           end_time: string
+          held_by: string | null
+          held_until: string | null
           id: string
           is_booked: boolean
           resource_id: string
@@ -916,6 +1262,8 @@ export type Database = {
           booking_id?: string | null
           created_at?: string
           end_time: string
+          held_by?: string | null
+          held_until?: string | null
           id?: string
           is_booked?: boolean
           resource_id: string
@@ -928,6 +1276,8 @@ export type Database = {
           booking_id?: string | null
           created_at?: string
           end_time?: string
+          held_by?: string | null
+          held_until?: string | null
           id?: string
           is_booked?: boolean
           resource_id?: string
@@ -946,17 +1296,180 @@ export type Database = {
           },
         ]
       }
+      subscription_payments: {
+        Row: {
+          amount: number
+          business_id: string | null
+          confirmed_by_id: string | null
+          created_at: string
+          id: string
+          listing_amount: number
+          paid_at: string
+          pos_website_amount: number
+        }
+        Insert: {
+          business_id?: string | null
+          confirmed_by_id?: string | null
+          created_at?: string
+          id?: string
+          listing_amount?: number
+          paid_at?: string
+          pos_website_amount?: number
+        }
+        Update: {
+          business_id?: string | null
+          confirmed_by_id?: string | null
+          created_at?: string
+          id?: string
+          listing_amount?: number
+          paid_at?: string
+          pos_website_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subscription_payments_business_id_fkey"
+            columns: ["business_id"]
+            isOneToOne: false
+            referencedRelation: "businesses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      admin_begin_two_factor_enrollment: { Args: never; Returns: Json }
       admin_confirm_business_payment: {
         Args: { business_id: string; pos_website_option: number }
         Returns: Json
       }
+      admin_confirm_two_factor_enrollment: {
+        Args: { p_token: string }
+        Returns: Json
+      }
+      admin_delete_business: {
+        Args: { p_business_id: string; p_reason?: string }
+        Returns: Json
+      }
+      admin_delete_review: {
+        Args: { p_reason?: string; p_review_id: string }
+        Returns: Json
+      }
+      admin_dismiss_job_report: {
+        Args: { p_report_id: string }
+        Returns: Json
+      }
+      admin_extend_listing: {
+        Args: { p_business_id: string; p_expires_on: string }
+        Returns: Json
+      }
+      admin_get_user: {
+        Args: { p_user_id: string }
+        Returns: Json
+      }
+      admin_has_permission: {
+        Args: { p_permission: string }
+        Returns: boolean
+      }
+      admin_list_businesses: {
+        Args: {
+          p_category?: string
+          p_expiry?: string
+          p_include_deleted?: boolean
+          p_page?: number
+          p_page_size?: number
+          p_payment_status?: string
+          p_search?: string
+          p_searchable?: boolean
+        }
+        Returns: Json
+      }
+      admin_regenerate_backup_codes: {
+        Args: { p_token: string }
+        Returns: Json
+      }
+      admin_remove_job_posting: {
+        Args: { p_job_post_id: string; p_reason?: string }
+        Returns: Json
+      }
+      admin_reset_two_factor: {
+        Args: { p_reason?: string; p_user_id: string }
+        Returns: Json
+      }
+      admin_search_users: {
+        Args: {
+          p_page?: number
+          p_page_size?: number
+          p_search?: string
+          p_suspended?: boolean
+        }
+        Returns: Json
+      }
+      admin_set_admin_role: {
+        Args: { p_admin_role?: string; p_user_id: string }
+        Returns: Json
+      }
+      admin_set_business_featured: {
+        Args: { p_business_id: string; p_featured: boolean }
+        Returns: Json
+      }
+      admin_set_business_searchable: {
+        Args: { p_business_id: string; p_searchable: boolean }
+        Returns: Json
+      }
+      admin_set_user_role: {
+        Args: { p_role: string; p_user_id: string }
+        Returns: Json
+      }
+      admin_set_user_suspended: {
+        Args: { p_reason?: string; p_suspended: boolean; p_user_id: string }
+        Returns: Json
+      }
+      admin_two_factor_status: { Args: never; Returns: Json }
+      admin_update_business: {
+        Args: { p_business_id: string; p_details: Json }
+        Returns: Json
+      }
+      admin_verify_backup_code: { Args: { p_code: string }; Returns: Json }
+      admin_verify_two_factor: { Args: { p_token: string }; Returns: Json }
+      booking_deposit_amount: { Args: { p_slot_ids: string[] }; Returns: number }
+      booking_prepayment_required: {
+        Args: { p_slot_ids: string[] }
+        Returns: boolean
+      }
+      cancel_booking: {
+        Args: { p_booking_id: string; p_reason?: string }
+        Returns: Json
+      }
       check_admin_rate_limit: { Args: { user_email: string }; Returns: boolean }
+      check_in_booking: {
+        Args: { p_booking_id: string; p_ticket_signature?: string }
+        Returns: Json
+      }
       check_rate_limit: { Args: { user_email: string }; Returns: boolean }
+      confirm_booking: { Args: { p_booking_id: string }; Returns: Json }
+      create_walk_in_booking: {
+        Args: {
+          p_amount: number
+          p_customer_name: string
+          p_customer_phone: string
+          p_payment_method: string
+          p_slot_ids: string[]
+        }
+        Returns: Json
+      }
+      expire_waitlist_offers: { Args: never; Returns: Json }
+      get_admin_metrics: {
+        Args: { p_from: string; p_to: string }
+        Returns: Json
+      }
+      get_booking_ticket: { Args: { p_booking_id: string }; Returns: Json }
+      get_owner_analytics: {
+        Args: { p_from: string; p_to: string }
+        Returns: Json
+      }
       get_pending_businesses_with_emails: {
         Args: never
         Returns: {
@@ -1009,6 +1522,27 @@ export type Database = {
           website: string
         }[]
       }
+      get_renter_reliability: {
+        Args: { p_user_ids: string[] }
+        Returns: {
+          attended_count: number
+          late_cancel_count: number
+          no_show_count: number
+          score: number
+          user_id: string
+        }[]
+      }
+      hold_slots: { Args: { p_slot_ids: string[] }; Returns: Json }
+      join_waitlist: {
+        Args: {
+          p_business_id: string
+          p_resource_id?: string
+          p_window_end: string
+          p_window_start: string
+        }
+        Returns: Json
+      }
+      leave_waitlist: { Args: { p_entry_id: string }; Returns: Json }
       log_admin_login_attempt: {
         Args: { attempt_success: boolean; user_email: string }
         Returns: undefined
@@ -1017,7 +1551,27 @@ export type Database = {
         Args: { attempt_success: boolean; user_email: string }
         Returns: undefined
       }
-      provision_admin_user: { Args: { user_email: string }; Returns: undefined }
+      mark_booking_no_show: { Args: { p_booking_id: string }; Returns: Json }
+      mark_booking_refunded: { Args: { p_booking_id: string }; Returns: Json }
+      regenerate_resource_slots: {
+        Args: {
+          p_range_end: string
+          p_range_start: string
+          p_resource_id: string
+          p_slot_name?: string
+          p_slots: Json
+        }
+        Returns: Json
+      }
+      reject_booking: {
+        Args: { p_booking_id: string; p_reason: string }
+        Returns: Json
+      }
+      release_slot_holds: { Args: { p_slot_ids: string[] }; Returns: number }
+      reschedule_booking: {
+        Args: { p_booking_id: string; p_new_slot_ids: string[] }
+        Returns: Json
+      }
       search_businesses: {
         Args: {
           category_id?: string
@@ -1080,9 +1634,45 @@ export type Database = {
           isSetofReturn: true
         }
       }
-      verify_totp_token: {
-        Args: { secret_key: string; token_input: string }
-        Returns: boolean
+      set_cancellation_policy: {
+        Args: {
+          p_free_cancellation_hours: number
+          p_late_cancellation_refund_percent: number
+          p_service_id: number
+        }
+        Returns: Json
+      }
+      set_deposit_policy: {
+        Args: {
+          p_deposit_type: string
+          p_deposit_value: number
+          p_service_id: number
+        }
+        Returns: Json
+      }
+      set_prepayment_threshold: {
+        Args: { p_min_score: number; p_service_id: number }
+        Returns: Json
+      }
+      settle_booking_balance: { Args: { p_booking_id: string }; Returns: Json }
+      submit_booking: {
+        Args: {
+          p_amount: number
+          p_payment_method?: string
+          p_receipt_url: string
+          p_slot_ids: string[]
+        }
+        Returns: Json
+      }
+      submit_recurring_booking: {
+        Args: {
+          p_amount: number
+          p_payment_method: string
+          p_receipt_url: string
+          p_recurrence: Json
+          p_slot_ids: string[]
+        }
+        Returns: Json
       }
     }
     Enums: {
@@ -0,0 +1,448 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+
+export type AdminActionResult = { success: true } | { success: false; error: string };
+
+export type AdminErrorCode =
+  | "NOT_AUTHENTICATED"
+  | "NOT_AUTHORIZED"
+  | "INVALID_DATE_RANGE"
+  | "BUSINESS_NOT_FOUND"
+  | "INVALID_BUSINESS_DETAILS"
+  | "INVALID_EXPIRY_DATE"
+  | "USER_NOT_FOUND"
+  | "CANNOT_CHANGE_OWN_ACCOUNT"
+  | "INVALID_ROLE"
+  | "USER_IS_ADMIN"
+  | "SUSPENSION_REASON_REQUIRED"
+  | "REPORT_NOT_FOUND"
+  | "JOB_POSTING_NOT_FOUND"
+  | "REVIEW_NOT_FOUND"
+  | "INVALID_TOTP_CODE"
+  | "INVALID_BACKUP_CODE"
+  | "TOO_MANY_ATTEMPTS"
+  | "TWO_FACTOR_NOT_ENROLLED"
+  | "TWO_FACTOR_ALREADY_ENABLED";
+
+const ADMIN_ERROR_MESSAGES: Record<AdminErrorCode, string> = {
+  NOT_AUTHENTICATED: "Please sign in again.",
+  NOT_AUTHORIZED: "Your admin role does not allow this action.",
+  INVALID_DATE_RANGE: "Pick a range of at most two years.",
+  BUSINESS_NOT_FOUND: "This listing no longer exists or has been deleted.",
+  INVALID_BUSINESS_DETAILS: "The business name cannot be empty.",
+  INVALID_EXPIRY_DATE: "The new expiry date must be in the future and after the current one.",
+  USER_NOT_FOUND: "This account no longer exists.",
+  CANNOT_CHANGE_OWN_ACCOUNT: "You cannot change your own account from here.",
+  INVALID_ROLE: "That role is not recognised.",
+  USER_IS_ADMIN: "Admins keep the admin profile role. Revoke their admin role first.",
+  SUSPENSION_REASON_REQUIRED: "Enter a reason for the suspension.",
+  REPORT_NOT_FOUND: "This report has already been handled.",
+  JOB_POSTING_NOT_FOUND: "This job post has already been removed.",
+  REVIEW_NOT_FOUND: "This review has already been removed.",
+  INVALID_TOTP_CODE: "That code is not valid. Enter the current code from your authenticator app.",
+  INVALID_BACKUP_CODE: "That backup code is not valid or has already been used.",
+  TOO_MANY_ATTEMPTS: "Too many wrong codes. Try again in 15 minutes.",
+  TWO_FACTOR_NOT_ENROLLED: "Two-factor authentication is not set up for this account.",
+  TWO_FACTOR_ALREADY_ENABLED: "Two-factor authentication is already set up for this account.",
+};
+
+export function getAdminErrorMessage(code: string | null | undefined, fallback: string): string {
+  return (code && ADMIN_ERROR_MESSAGES[code as AdminErrorCode]) || fallback;
+}
+
+async function callAdminRpc(
+  request: PromiseLike<{ data: Json | null; error: unknown }>,
+  failureMessage: string
+): Promise<AdminActionResult> {
+  const { data, error } = await request;
+
+  if (error) {
+    console.error(failureMessage, error);
+    return { success: false, error: `${failureMessage}.` };
+  }
+
+  const response = data as { success: true } | { success: false; error_code: AdminErrorCode } | null;
+  if (!response || response.success === false) {
+    const errorCode = response && response.success === false ? response.error_code : null;
+    return { success: false, error: getAdminErrorMessage(errorCode, `${failureMessage}.`) };
+  }
+
+  return { success: true };
+}
+
+// Listings
+
+export type ListingExpiryFilter = "active" | "expiring" | "expired" | "none";
+
+export type AdminListingFilters = {
+  search: string;
+  category: string | null;
+  paymentStatus: string | null;
+  expiry: ListingExpiryFilter | null;
+  searchable: boolean | null;
+  includeDeleted: boolean;
+};
+
+export type AdminListing = {
+  id: string;
+  name: string;
+  category: string | null;
+  description: string | null;
+  owner_id: string;
+  owner_email: string | null;
+  phone: string | null;
+  email: string | null;
+  address: string | null;
+  towns: string | null;
+  province_district: string | null;
+  website: string | null;
+  facebook_page: string | null;
+  image_url: string | null;
+  payment_status: string;
+  listing_expired_date: string | null;
+  featured_business: number;
+  searchable_business: boolean;
+  created_at: string;
+  deleted_at: string | null;
+};
+
+export type AdminListingDetails = Pick<
+  AdminListing,
+  "name" | "category" | "description" | "phone" | "email" | "address" | "towns" | "province_district" | "website" | "facebook_page"
+>;
+
+export type AdminListingsPage = { listings: AdminListing[]; total: number };
+
+export async function fetchAdminListings(
+  filters: AdminListingFilters,
+  page: number,
+  pageSize: number
+): Promise<AdminListingsPage> {
+  const { data, error } = await supabase.rpc("admin_list_businesses", {
+    p_search: filters.search.trim() || undefined,
+    p_category: filters.category ?? undefined,
+    p_payment_status: filters.paymentStatus ?? undefined,
+    p_expiry: filters.expiry ?? undefined,
+    p_searchable: filters.searchable ?? undefined,
+    p_include_deleted: filters.includeDeleted,
+    p_page: page,
+    p_page_size: pageSize,
+  });
+  if (error) throw error;
+
+  const response = data as
+    | { success: true; total: number; listings: AdminListing[] }
+    | { success: false; error_code: string }
+    | null;
+  if (!response || response.success === false) {
+    const code = response && response.success === false ? response.error_code : null;
+    throw new Error(getAdminErrorMessage(code, "Unable to load listings"));
+  }
+
+  return { listings: response.listings, total: response.total };
+}
+
+export function setListingFeatured(businessId: string, featured: boolean): Promise<AdminActionResult> {
+  return callAdminRpc(
+    supabase.rpc("admin_set_business_featured", { p_business_id: businessId, p_featured: featured }),
+    featured ? "Unable to feature the listing" : "Unable to unfeature the listing"
+  );
+}
+
+// Hidden listings keep their page but no longer appear in search and the directory
+export function setListingSearchable(businessId: string, searchable: boolean): Promise<AdminActionResult> {
+  return callAdminRpc(
+    supabase.rpc("admin_set_business_searchable", { p_business_id: businessId, p_searchable: searchable }),
+    searchable ? "Unable to unhide the listing" : "Unable to hide the listing"
+  );
+}
+
+export function updateListingDetails(businessId: string, details: Partial<AdminListingDetails>): Promise<AdminActionResult> {
+  return callAdminRpc(
+    supabase.rpc("admin_update_business", { p_business_id: businessId, p_details: details as Json }),
+    "Unable to save the listing"
+  );
+}
+
+export function extendListing(businessId: string, expiresOn: string): Promise<AdminActionResult> {
+  return callAdminRpc(
+    supabase.rpc("admin_extend_listing", { p_business_id: businessId, p_expires_on: expiresOn }),
+    "Unable to extend the listing"
+  );
+}
+
+export function deleteListing(businessId: string, reason: string): Promise<AdminActionResult> {
+  return callAdminRpc(
+    supabase.rpc("admin_delete_business", { p_business_id: businessId, p_reason: reason.trim() || undefined }),
+    "Unable to delete the listing"
+  );
+}
+
+// Users
+
+export type UserRole = "user" | "business_owner";
+
+export type AdminRole = "super_admin" | "admin" | "moderator";
+
+export const ROLE_LABELS: Record<string, string> = {
+  user: "User",
+  business_owner: "Business Owner",
+  admin: "Admin",
+};
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  super_admin: "Super Admin",
+  admin: "Admin",
+  moderator: "Moderator",
+};
+
+export type AdminUser = {
+  user_id: string;
+  email: string | null;
+  display_name: string | null;
+  role: string;
+  admin_role: AdminRole | null;
+  created_at: string;
+  last_sign_in_at: string | null;
+  suspended_at: string | null;
+  business_count: number;
+  booking_count: number;
+};
+
+export type AdminUserDetails = {
+  user: Omit<AdminUser, "business_count" | "booking_count"> & {
+    avatar_url: string | null;
+    email_confirmed_at: string | null;
+    suspension_reason: string | null;
+  };
+  businesses: {
+    id: string;
+    name: string;
+    category: string | null;
+    payment_status: string;
+    listing_expired_date: string | null;
+    created_at: string;
+    deleted_at: string | null;
+  }[];
+  bookings: {
+    id: string;
+    status: string;
+    payment_amount: number;
+    created_at: string;
+    resource_name: string;
+    business_name: string;
+  }[];
+  job_posts: {
+    id: string;
+    job_title: string;
+    business_name: string;
+    application_deadline: string;
+    created_at: string;
+  }[];
+  reviews: { id: string; rating: number; comment: string | null; created_at: string; business_name: string }[];
+  login_attempts: { success: boolean; ip_address: string | null; user_agent: string | null; created_at: string }[];
+};
+
+export type AdminUsersPage = { users: AdminUser[]; total: number };
+
+export async function fetchAdminUsers(
+  search: string,
+  suspended: boolean | null,
+  page: number,
+  pageSize: number
+): Promise<AdminUsersPage> {
+  const { data, error } = await supabase.rpc("admin_search_users", {
+    p_search: search.trim() || undefined,
+    p_suspended: suspended ?? undefined,
+    p_page: page,
+    p_page_size: pageSize,
+  });
+  if (error) throw error;
+
+  const response = data as
+    | { success: true; total: number; users: AdminUser[] }
+    | { success: false; error_code: string }
+    | null;
+  if (!response || response.success === false) {
+    const code = response && response.success === false ? response.error_code : null;
+    throw new Error(getAdminErrorMessage(code, "Unable to load users"));
+  }
+
+  return { users: response.users, total: response.total };
+}
+
+export async function fetchAdminUserDetails(userId: string): Promise<AdminUserDetails> {
+  const { data, error } = await supabase.rpc("admin_get_user", { p_user_id: userId });
+  if (error) throw error;
+
+  const response = data as ({ success: true } & AdminUserDetails) | { success: false; error_code: string } | null;
+  if (!response || response.success === false) {
+    const code = response && response.success === false ? response.error_code : null;
+    throw new Error(getAdminErrorMessage(code, "Unable to load the user"));
+  }
+
+  return response;
+}
+
+// Suspended accounts are banned from signing in and their sessions are ended
+export function setUserSuspended(userId: string, suspended: boolean, reason?: string): Promise<AdminActionResult> {
+  return callAdminRpc(
+    supabase.rpc("admin_set_user_suspended", {
+      p_user_id: userId,
+      p_suspended: suspended,
+      p_reason: reason?.trim() || undefined,
+    }),
+    suspended ? "Unable to suspend the account" : "Unable to unsuspend the account"
+  );
+}
+
+export function setUserRole(userId: string, role: UserRole): Promise<AdminActionResult> {
+  return callAdminRpc(
+    supabase.rpc("admin_set_user_role", { p_user_id: userId, p_role: role }),
+    "Unable to change the role"
+  );
+}
+
+// null revokes admin access
+export function setAdminRole(userId: string, adminRole: AdminRole | null): Promise<AdminActionResult> {
+  return callAdminRpc(
+    supabase.rpc("admin_set_admin_role", { p_user_id: userId, p_admin_role: adminRole ?? undefined }),
+    adminRole ? "Unable to change the admin role" : "Unable to revoke admin access"
+  );
+}
+
+// Moderation
+
+export function dismissJobReport(reportId: string): Promise<AdminActionResult> {
+  return callAdminRpc(
+    supabase.rpc("admin_dismiss_job_report", { p_report_id: reportId }),
+    "Unable to dismiss the report"
+  );
+}
+
+// Also removes every report filed against the job post
+export function removeJobPosting(jobPostId: string, reason: string): Promise<AdminActionResult> {
+  return callAdminRpc(
+    supabase.rpc("admin_remove_job_posting", { p_job_post_id: jobPostId, p_reason: reason.trim() || undefined }),
+    "Unable to remove the job post"
+  );
+}
+
+export function deleteReview(reviewId: string, reason: string): Promise<AdminActionResult> {
+  return callAdminRpc(
+    supabase.rpc("admin_delete_review", { p_review_id: reviewId, p_reason: reason.trim() || undefined }),
+    "Unable to delete the review"
+  );
+}
+
+// Two-factor authentication
+
+export type TwoFactorStatus = {
+  enabled: boolean;
+  // Whether this sign-in has passed the second factor; admin access depends on it
+  verified: boolean;
+  backupCodesRemaining: number;
+};
+
+export type TwoFactorEnrollment = { secret: string; otpauthUrl: string };
+
+export type BackupCodesResult = { success: true; backupCodes: string[] } | { success: false; error: string };
+
+export async function fetchTwoFactorStatus(): Promise<TwoFactorStatus> {
+  const { data, error } = await supabase.rpc("admin_two_factor_status");
+  if (error) throw error;
+
+  const response = data as
+    | { success: true; enabled: boolean; verified: boolean; backup_codes_remaining: number }
+    | { success: false; error_code: string }
+    | null;
+  if (!response || response.success === false) {
+    const code = response && response.success === false ? response.error_code : null;
+    throw new Error(getAdminErrorMessage(code, "Unable to load two-factor status"));
+  }
+
+  return {
+    enabled: response.enabled,
+    verified: response.verified,
+    backupCodesRemaining: response.backup_codes_remaining,
+  };
+}
+
+// Starts over with a new secret each time; the previous one is discarded until confirmed
+export async function beginTwoFactorEnrollment(): Promise<TwoFactorEnrollment> {
+  const { data, error } = await supabase.rpc("admin_begin_two_factor_enrollment");
+  if (error) throw error;
+
+  const response = data as
+    | { success: true; secret: string; otpauth_url: string }
+    | { success: false; error_code: string }
+    | null;
+  if (!response || response.success === false) {
+    const code = response && response.success === false ? response.error_code : null;
+    throw new Error(getAdminErrorMessage(code, "Unable to start two-factor setup"));
+  }
+
+  return { secret: response.secret, otpauthUrl: response.otpauth_url };
+}
+
+async function callBackupCodesRpc(
+  request: PromiseLike<{ data: Json | null; error: unknown }>,
+  failureMessage: string
+): Promise<BackupCodesResult> {
+  const { data, error } = await request;
+
+  if (error) {
+    console.error(failureMessage, error);
+    return { success: false, error: `${failureMessage}.` };
+  }
+
+  const response = data as
+    | { success: true; backup_codes: string[] }
+    | { success: false; error_code: AdminErrorCode }
+    | null;
+  if (!response || response.success === false) {
+    const errorCode = response && response.success === false ? response.error_code : null;
+    return { success: false, error: getAdminErrorMessage(errorCode, `${failureMessage}.`) };
+  }
+
+  return { success: true, backupCodes: response.backup_codes };
+}
+
+// Turns 2FA on and returns the backup codes, which are only shown this once
+export function confirmTwoFactorEnrollment(token: string): Promise<BackupCodesResult> {
+  return callBackupCodesRpc(
+    supabase.rpc("admin_confirm_two_factor_enrollment", { p_token: token.trim() }),
+    "Unable to turn on two-factor authentication"
+  );
+}
+
+export function verifyTwoFactor(token: string): Promise<AdminActionResult> {
+  return callAdminRpc(
+    supabase.rpc("admin_verify_two_factor", { p_token: token.trim() }),
+    "Unable to verify the code"
+  );
+}
+
+// Each backup code works once
+export function verifyBackupCode(code: string): Promise<AdminActionResult> {
+  return callAdminRpc(
+    supabase.rpc("admin_verify_backup_code", { p_code: code.trim() }),
+    "Unable to verify the backup code"
+  );
+}
+
+// Replaces every previous backup code
+export function regenerateBackupCodes(token: string): Promise<BackupCodesResult> {
+  return callBackupCodesRpc(
+    supabase.rpc("admin_regenerate_backup_codes", { p_token: token.trim() }),
+    "Unable to create new backup codes"
+  );
+}
+
+// The admin has to enroll again on their next sign-in
+export function resetTwoFactor(userId: string, reason: string): Promise<AdminActionResult> {
+  return callAdminRpc(
+    supabase.rpc("admin_reset_two_factor", { p_user_id: userId, p_reason: reason.trim() || undefined }),
+    "Unable to reset two-factor authentication"
+  );
+}
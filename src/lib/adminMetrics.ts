@@ -0,0 +1,67 @@
+import { supabase } from "@/integrations/supabase/client";
+import { getAdminErrorMessage } from "@/lib/adminActions";
+
+export type AdminMetricValues = {
+  active_listings: number;
+  expired_listings: number;
+  total_users: number;
+  sign_ups: number;
+  bookings_confirmed: number;
+  subscription_revenue: number; // MMK
+  subscription_payments: number;
+  job_posts: number;
+};
+
+export type AdminMetricsData = {
+  current: AdminMetricValues;
+  previous: AdminMetricValues;
+  previousFrom: string;
+  previousTo: string;
+};
+
+// numeric aggregates arrive as strings or numbers depending on their size
+function toMetricValues(values: Record<keyof AdminMetricValues, number | string>): AdminMetricValues {
+  return {
+    active_listings: Number(values.active_listings),
+    expired_listings: Number(values.expired_listings),
+    total_users: Number(values.total_users),
+    sign_ups: Number(values.sign_ups),
+    bookings_confirmed: Number(values.bookings_confirmed),
+    subscription_revenue: Number(values.subscription_revenue),
+    subscription_payments: Number(values.subscription_payments),
+    job_posts: Number(values.job_posts),
+  };
+}
+
+export async function fetchAdminMetrics(from: string, to: string): Promise<AdminMetricsData> {
+  const { data, error } = await supabase.rpc("get_admin_metrics", { p_from: from, p_to: to });
+  if (error) throw error;
+
+  const response = data as
+    | {
+        success: true;
+        current: Record<keyof AdminMetricValues, number | string>;
+        previous: Record<keyof AdminMetricValues, number | string>;
+        previous_from: string;
+        previous_to: string;
+      }
+    | { success: false; error_code: string }
+    | null;
+  if (!response || response.success === false) {
+    const code = response && response.success === false ? response.error_code : null;
+    throw new Error(getAdminErrorMessage(code, "Unable to load metrics"));
+  }
+
+  return {
+    current: toMetricValues(response.current),
+    previous: toMetricValues(response.previous),
+    previousFrom: response.previous_from,
+    previousTo: response.previous_to,
+  };
+}
+
+// Percent change against the previous period, null when there is nothing to compare with
+export function percentChange(current: number, previous: number): number | null {
+  if (previous === 0) return current === 0 ? 0 : null;
+  return Math.round(((current - previous) / previous) * 1000) / 10;
+}
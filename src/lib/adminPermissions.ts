@@ -0,0 +1,43 @@
+import type { AdminRole } from "@/lib/adminActions";
+
+export type AdminPermission =
+  | "content.moderate"
+  | "listings.moderate"
+  | "listings.edit"
+  | "payments.confirm"
+  | "plans.manage"
+  | "catalog.manage"
+  | "users.view"
+  | "users.manage"
+  | "admins.manage";
+
+// Mirrors admin_has_permission in the database, which RLS and the admin RPCs enforce.
+// The UI only uses this to hide actions a role cannot perform.
+const ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+  super_admin: [
+    "content.moderate",
+    "listings.moderate",
+    "listings.edit",
+    "payments.confirm",
+    "plans.manage",
+    "catalog.manage",
+    "users.view",
+    "users.manage",
+    "admins.manage",
+  ],
+  admin: [
+    "content.moderate",
+    "listings.moderate",
+    "listings.edit",
+    "payments.confirm",
+    "plans.manage",
+    "catalog.manage",
+    "users.view",
+    "users.manage",
+  ],
+  moderator: ["content.moderate", "listings.moderate", "users.view"],
+};
+
+export function hasAdminPermission(adminRole: string | null | undefined, permission: AdminPermission): boolean {
+  return Boolean(adminRole && ROLE_PERMISSIONS[adminRole as AdminRole]?.includes(permission));
+}
@@ -0,0 +1,191 @@
+import type { AnalyticsBookingStat, AnalyticsResource, AnalyticsSlotStat } from "@/lib/bookingData";
+import { getIsoDayOfWeek } from "@/lib/timezone";
+import { pickPricingRule } from "@/lib/pricing";
+
+export type PricingTier = "peak" | "standard" | "off-peak";
+
+export const WEEKDAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+export type ResourceOccupancy = {
+  resourceId: string;
+  resourceName: string;
+  totalSlots: number;
+  bookedSlots: number;
+  occupancy: number; // 0-100
+  bookedValue: number;
+};
+
+export type HeatmapCell = {
+  totalSlots: number;
+  bookedSlots: number;
+  occupancy: number | null; // null when no slots were offered
+};
+
+export type PaymentMethodRevenue = {
+  paymentMethod: string;
+  bookings: number;
+  revenue: number;
+  share: number; // 0-100
+};
+
+export type PricingTierStat = {
+  tier: PricingTier;
+  label: string; // rule name, or "Base price"
+  price: number; // average slot price
+  totalSlots: number;
+  bookedSlots: number;
+  occupancy: number;
+  bookedValue: number;
+  revenuePerSlot: number; // booked value over every offered slot
+};
+
+export type MonthlyTrend = {
+  month: string; // YYYY-MM
+  totalSlots: number;
+  bookedSlots: number;
+  occupancy: number;
+  bookings: number;
+  walkIns: number;
+  cancellations: number;
+  noShows: number;
+  revenue: number;
+  revenueChange: number | null; // % against the previous month, null for the first
+};
+
+function percent(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0;
+}
+
+export function occupancyByResource(resources: AnalyticsResource[], slots: AnalyticsSlotStat[]): ResourceOccupancy[] {
+  return resources
+    .map((resource) => {
+      const own = slots.filter((slot) => slot.resource_id === resource.id);
+      const totalSlots = own.reduce((sum, slot) => sum + slot.total_count, 0);
+      const bookedSlots = own.reduce((sum, slot) => sum + slot.booked_count, 0);
+      return {
+        resourceId: resource.id,
+        resourceName: resource.name,
+        totalSlots,
+        bookedSlots,
+        occupancy: percent(bookedSlots, totalSlots),
+        bookedValue: own.reduce((sum, slot) => sum + slot.booked_value, 0),
+      };
+    })
+    .filter((row) => row.totalSlots > 0)
+    .sort((a, b) => b.occupancy - a.occupancy);
+}
+
+// 7 rows (Mon..Sun) of 24 hourly cells, by the local start of each slot
+export function occupancyHeatmap(slots: AnalyticsSlotStat[]): HeatmapCell[][] {
+  const cells = WEEKDAY_LABELS.map(() =>
+    Array.from({ length: 24 }, () => ({ totalSlots: 0, bookedSlots: 0, occupancy: null as number | null }))
+  );
+  for (const slot of slots) {
+    const cell = cells[getIsoDayOfWeek(slot.date) - 1][Number(slot.time.slice(0, 2))];
+    cell.totalSlots += slot.total_count;
+    cell.bookedSlots += slot.booked_count;
+  }
+  for (const row of cells) {
+    for (const cell of row) {
+      cell.occupancy = cell.totalSlots > 0 ? percent(cell.bookedSlots, cell.totalSlots) : null;
+    }
+  }
+  return cells;
+}
+
+export function revenueByPaymentMethod(bookings: AnalyticsBookingStat[]): PaymentMethodRevenue[] {
+  const byMethod = new Map<string, { bookings: number; revenue: number }>();
+  for (const row of bookings) {
+    const entry = byMethod.get(row.payment_method) ?? { bookings: 0, revenue: 0 };
+    entry.bookings += row.confirmed_count;
+    entry.revenue += row.revenue;
+    byMethod.set(row.payment_method, entry);
+  }
+  const total = Array.from(byMethod.values()).reduce((sum, entry) => sum + entry.revenue, 0);
+  return Array.from(byMethod.entries())
+    .map(([paymentMethod, entry]) => ({ paymentMethod, ...entry, share: percent(entry.revenue, total) }))
+    .filter((row) => row.bookings > 0 || row.revenue > 0)
+    .sort((a, b) => b.revenue - a.revenue);
+}
+
+/**
+ * Groups slots by the pricing rule that priced them: rules above the resource's base price
+ * are peak, rules below it off-peak, and slots no rule matched are standard. Comparing
+ * occupancy and revenue per offered slot shows whether a surcharge or discount pays off.
+ */
+export function pricingEffectiveness(resources: AnalyticsResource[], slots: AnalyticsSlotStat[]): PricingTierStat[] {
+  const resourcesById = new Map(resources.map((resource) => [resource.id, resource]));
+  const groups = new Map<string, Omit<PricingTierStat, "occupancy" | "revenuePerSlot" | "price"> & { totalValue: number }>();
+
+  for (const slot of slots) {
+    const resource = resourcesById.get(slot.resource_id);
+    if (!resource) continue;
+
+    const rule = pickPricingRule(resource.pricing_rules, slot.date, getIsoDayOfWeek(slot.date), `${slot.time}:00`);
+    const tier: PricingTier = !rule
+      ? "standard"
+      : Number(rule.price_override) > resource.base_price
+        ? "peak"
+        : Number(rule.price_override) < resource.base_price
+          ? "off-peak"
+          : "standard";
+    const label = rule && tier !== "standard" ? rule.rule_name : "Base price";
+    const key = `${tier}:${label}`;
+
+    const group = groups.get(key) ?? { tier, label, totalSlots: 0, bookedSlots: 0, bookedValue: 0, totalValue: 0 };
+    group.totalSlots += slot.total_count;
+    group.bookedSlots += slot.booked_count;
+    group.bookedValue += slot.booked_value;
+    group.totalValue += slot.total_value;
+    groups.set(key, group);
+  }
+
+  const tierOrder: PricingTier[] = ["peak", "standard", "off-peak"];
+  return Array.from(groups.values())
+    .map(({ totalValue, ...group }) => ({
+      ...group,
+      price: group.totalSlots > 0 ? Math.round(totalValue / group.totalSlots) : 0,
+      occupancy: percent(group.bookedSlots, group.totalSlots),
+      revenuePerSlot: group.totalSlots > 0 ? Math.round(group.bookedValue / group.totalSlots) : 0,
+    }))
+    .sort((a, b) => tierOrder.indexOf(a.tier) - tierOrder.indexOf(b.tier) || b.totalSlots - a.totalSlots);
+}
+
+export function monthlyTrends(slots: AnalyticsSlotStat[], bookings: AnalyticsBookingStat[]): MonthlyTrend[] {
+  const months = new Map<string, Omit<MonthlyTrend, "occupancy" | "revenueChange">>();
+  const monthEntry = (month: string) => {
+    let entry = months.get(month);
+    if (!entry) {
+      entry = { month, totalSlots: 0, bookedSlots: 0, bookings: 0, walkIns: 0, cancellations: 0, noShows: 0, revenue: 0 };
+      months.set(month, entry);
+    }
+    return entry;
+  };
+
+  for (const slot of slots) {
+    const entry = monthEntry(slot.date.slice(0, 7));
+    entry.totalSlots += slot.total_count;
+    entry.bookedSlots += slot.booked_count;
+  }
+  for (const row of bookings) {
+    const entry = monthEntry(row.month);
+    entry.bookings += row.confirmed_count;
+    if (row.source === "walk_in") entry.walkIns += row.confirmed_count;
+    entry.cancellations += row.cancelled_count;
+    entry.noShows += row.no_show_count;
+    entry.revenue += row.revenue;
+  }
+
+  const sorted = Array.from(months.values()).sort((a, b) => a.month.localeCompare(b.month));
+  return sorted.map((entry, index) => {
+    const previous = sorted[index - 1];
+    return {
+      ...entry,
+      occupancy: percent(entry.bookedSlots, entry.totalSlots),
+      revenueChange:
+        previous && previous.revenue > 0
+          ? Math.round(((entry.revenue - previous.revenue) / previous.revenue) * 1000) / 10
+          : null,
+    };
+  });
+}
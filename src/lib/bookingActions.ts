@@ -1,5 +1,9 @@
 import { supabase } from "@/integrations/supabase/client";
-import type { Tables } from "@/integrations/supabase/types";
+import type { Database, Tables } from "@/integrations/supabase/types";
+import { cacheTicket, getCachedTicket, parseTicket } from "@/lib/bookingTicket";
+import type { DepositType } from "@/lib/depositPolicy";
+import { BOOKING_RECEIPTS_BUCKET } from "@/lib/receiptStorage";
+import type { RecurrenceRule } from "@/lib/recurrence";
 
 export type SubmitBookingResult =
   | { success: true; bookingId: string }
@@ -7,6 +11,98 @@ export type SubmitBookingResult =
 
 export type ConfirmBookingResult = { success: true } | { success: false; error: string };
 
+// Error codes returned by the booking RPCs (submit, confirm, reject, cancel, reschedule, refund, waitlist, check-in)
+export type BookingErrorCode =
+  | "NOT_AUTHENTICATED"
+  | "NOT_AUTHORIZED"
+  | "NO_SLOTS"
+  | "SLOT_NOT_FOUND"
+  | "SLOT_UNAVAILABLE"
+  | "SLOT_CONFLICT"
+  | "SLOT_HELD"
+  | "SLOT_TOO_SOON"
+  | "SLOT_IN_PAST"
+  | "TOO_MANY_SLOTS"
+  | "HOLD_LIMIT_REACHED"
+  | "MIXED_BUSINESSES"
+  | "AMOUNT_MISMATCH"
+  | "BOOKING_NOT_FOUND"
+  | "BOOKING_ALREADY_PROCESSED"
+  | "BOOKING_NOT_CANCELLABLE"
+  | "BOOKING_ALREADY_STARTED"
+  | "BOOKING_NOT_RESCHEDULABLE"
+  | "INVALID_POLICY"
+  | "INVALID_DEPOSIT_POLICY"
+  | "INVALID_PREPAYMENT_THRESHOLD"
+  | "PREPAYMENT_REQUIRED"
+  | "INVALID_RECEIPT"
+  | "INVALID_RECURRENCE"
+  | "REJECTION_REASON_REQUIRED"
+  | "CUSTOMER_NAME_REQUIRED"
+  | "INVALID_AMOUNT"
+  | "RESOURCE_NOT_FOUND"
+  | "INVALID_WAITLIST_WINDOW"
+  | "ALREADY_ON_WAITLIST"
+  | "WAITLIST_ENTRY_NOT_FOUND"
+  | "WAITLIST_ENTRY_CLOSED"
+  | "BOOKING_NOT_CONFIRMED"
+  | "BOOKING_HAS_NO_SLOTS"
+  | "BOOKING_NOT_STARTED"
+  | "BOOKING_ALREADY_ENDED"
+  | "CHECK_IN_TOO_EARLY"
+  | "INVALID_TICKET"
+  | "ALREADY_CHECKED_IN";
+
+type BookingRpcResponse =
+  | { success: true; booking_id: string; status?: string }
+  | { success: false; error_code: BookingErrorCode };
+
+const BOOKING_ERROR_MESSAGES: Record<BookingErrorCode, string> = {
+  NOT_AUTHENTICATED: "Please sign in to continue.",
+  NOT_AUTHORIZED: "You do not have permission to manage this booking.",
+  NO_SLOTS: "Please select at least one slot.",
+  SLOT_NOT_FOUND: "One or more selected slots could not be found.",
+  SLOT_UNAVAILABLE: "One of the selected slots was already booked. Please choose other available slots.",
+  SLOT_CONFLICT: "One of this booking's slots is already taken by another booking.",
+  SLOT_HELD: "Another customer is checking out one of these slots. Please try again in a few minutes.",
+  SLOT_TOO_SOON: "One of the selected slots starts too soon to be booked online. Please choose a later time.",
+  SLOT_IN_PAST: "One of the selected slots has already started. Please choose a later time.",
+  TOO_MANY_SLOTS: "You can check out at most 16 slots at a time.",
+  HOLD_LIMIT_REACHED: "You have held these slots for 30 minutes. Please try again later or choose other slots.",
+  MIXED_BUSINESSES: "All selected slots must belong to the same business.",
+  AMOUNT_MISMATCH: "Submitted amount must be at least the deposit and no more than the total slot price.",
+  BOOKING_NOT_FOUND: "Unable to find booking.",
+  BOOKING_ALREADY_PROCESSED: "This booking has already been processed.",
+  BOOKING_NOT_CANCELLABLE: "Only pending or confirmed bookings can be cancelled.",
+  BOOKING_ALREADY_STARTED: "This booking has already started and can no longer be changed.",
+  BOOKING_NOT_RESCHEDULABLE: "Only pending or confirmed bookings can be rescheduled.",
+  INVALID_POLICY: "Cancellation window must be 0-720 hours and the refund 0-100%.",
+  INVALID_DEPOSIT_POLICY: "Deposit must be 1-100% of the price or a fixed amount of 0 or more.",
+  INVALID_PREPAYMENT_THRESHOLD: "The reliability threshold must be between 0 and 100%.",
+  PREPAYMENT_REQUIRED: "This venue asks you to pay the full price up front. Please choose a transfer method and upload your receipt.",
+  INVALID_RECEIPT: "We could not find your uploaded receipt. Please upload it again.",
+  INVALID_RECURRENCE: "Please choose how often the booking repeats.",
+  REJECTION_REASON_REQUIRED: "Please tell the customer why the booking is rejected (up to 500 characters).",
+  CUSTOMER_NAME_REQUIRED: "Please enter the customer's name.",
+  INVALID_AMOUNT: "Please enter the amount paid.",
+  RESOURCE_NOT_FOUND: "This court or business could not be found.",
+  INVALID_WAITLIST_WINDOW: "Please choose a time window that has not passed yet.",
+  ALREADY_ON_WAITLIST: "You are already on the waitlist for this time.",
+  WAITLIST_ENTRY_NOT_FOUND: "Unable to find this waitlist entry.",
+  WAITLIST_ENTRY_CLOSED: "This waitlist entry is no longer active.",
+  BOOKING_NOT_CONFIRMED: "Only confirmed bookings have a ticket and can be checked in.",
+  BOOKING_HAS_NO_SLOTS: "This booking has no booked slots, so it has no ticket and cannot be checked in.",
+  BOOKING_NOT_STARTED: "A booking can only be marked as a no-show once it has started.",
+  BOOKING_ALREADY_ENDED: "This booking has already ended.",
+  CHECK_IN_TOO_EARLY: "Check-in opens 30 minutes before the booking starts.",
+  INVALID_TICKET: "This ticket is not valid. Ask the customer to open it again in the app.",
+  ALREADY_CHECKED_IN: "This booking has already been checked in.",
+};
+
+export function getBookingErrorMessage(code: string | null | undefined, fallback: string): string {
+  return (code && BOOKING_ERROR_MESSAGES[code as BookingErrorCode]) || fallback;
+}
+
 function buildReceiptPath(slotId: string, userId: string, originalName: string): string {
   const sanitizedName = originalName
     ? originalName.toLowerCase().replace(/[^a-z0-9.]+/g, "-")
@@ -18,14 +114,15 @@ function buildReceiptPath(slotId: string, userId: string, originalName: string):
   return `${userId}/${slotId}/${Date.now()}-${randomToken}-${sanitizedName}`;
 }
 
+// The bucket is private: the booking stores the object path and viewers get a signed URL
 async function uploadReceipt(
   slotId: string,
   userId: string,
   receiptFile: File
-): Promise<{ success: true; url: string } | { success: false; error: string }> {
+): Promise<{ success: true; path: string } | { success: false; error: string }> {
   const storagePath = buildReceiptPath(slotId, userId, receiptFile.name);
   const { data: uploadData, error: uploadError } = await supabase.storage
-    .from("receipts")
+    .from(BOOKING_RECEIPTS_BUCKET)
     .upload(storagePath, receiptFile, {
       cacheControl: "3600",
       upsert: false,
@@ -36,219 +133,405 @@ async function uploadReceipt(
     return { success: false, error: "Unable to upload receipt. Please try again." };
   }
 
-  const { data: publicUrlData } = supabase.storage.from("receipts").getPublicUrl(uploadData.path);
-  if (!publicUrlData?.publicUrl) {
-    console.error("Failed to generate public URL for receipt", uploadData.path);
-    return { success: false, error: "Unable to retrieve receipt link." };
-  }
-
-  return { success: true, url: publicUrlData.publicUrl };
+  return { success: true, path: uploadData.path };
 }
 
 export async function submitBooking(
-  slotId: string,
+  slotIds: string[],
   userId: string,
   amount: number,
   receiptFile: File | null,
-  paymentMethod: string | null = null
+  paymentMethod: string | null = null,
+  recurrence: RecurrenceRule | null = null
 ): Promise<SubmitBookingResult> {
-  const { data: slot, error: slotError } = await supabase
-    .from("slots")
-    .select("id, resource_id, slot_price, booking_id")
-    .eq("id", slotId)
-    .maybeSingle();
-
-  if (slotError) {
-    console.error("Failed to load slot for booking", slotError);
-    return { success: false, error: "Unable to validate the selected slot." };
-  }
-
-  if (!slot) {
-    return { success: false, error: "Selected slot could not be found." };
-  }
-
-  if (slot.booking_id) {
-    return { success: false, error: "This slot has already been booked by another customer." };
-  }
-
-  if (Number(slot.slot_price) !== Number(amount)) {
-    console.warn("Payment amount mismatch for slot", { slotId, amount, slotPrice: slot.slot_price });
-    return { success: false, error: "Submitted amount does not match the slot price." };
+  const uniqueSlotIds = Array.from(new Set(slotIds));
+  if (uniqueSlotIds.length === 0) {
+    return { success: false, error: getBookingErrorMessage("NO_SLOTS", "") };
   }
 
-  let receiptUrl: string | null = null;
+  let receiptPath: string | null = null;
 
   // Only upload receipt if file is provided (not for Cash on Arrival)
   if (receiptFile) {
-    const uploadResult = await uploadReceipt(slotId, userId, receiptFile);
+    const uploadResult = await uploadReceipt(uniqueSlotIds[0], userId, receiptFile);
     if (uploadResult.success === false) {
       return { success: false, error: uploadResult.error };
     }
-    receiptUrl = uploadResult.url;
-  }
-
-  const { data: bookingData, error: bookingError } = await supabase
-    .from("bookings")
-    .insert({
-      slot_id: slot.id,
-      resource_id: slot.resource_id,
-      user_id: userId,
-      payment_amount: slot.slot_price,
-      receipt_url: receiptUrl || "Cash on Arrival - No receipt required",
-      payment_method: paymentMethod,
-    })
-    .select("id")
-    .single();
-
-  if (bookingError) {
-    if (bookingError.code === "23505") {
-      return {
-        success: false,
-        error: "This slot was already booked. Please choose another available slot.",
-      };
-    }
-
-    console.error("Failed to create booking", bookingError);
-    return { success: false, error: "Unable to submit booking. Please try again." };
+    receiptPath = uploadResult.path;
   }
 
-  return { success: true, bookingId: bookingData.id };
-}
+  // Slots are locked, validated and written together on the server; a season booking
+  // covers every occurrence's slots and also stores its repeat pattern
+  const bookingArgs = {
+    p_slot_ids: uniqueSlotIds,
+    p_amount: amount,
+    p_receipt_url: receiptPath,
+    p_payment_method: paymentMethod,
+  };
+  const { data, error } = recurrence
+    ? await supabase.rpc("submit_recurring_booking", { ...bookingArgs, p_recurrence: recurrence })
+    : await supabase.rpc("submit_booking", bookingArgs);
+
+  const response = data as BookingRpcResponse | null;
+  if (error || !response || response.success === false) {
+    if (receiptPath) {
+      await supabase.storage.from(BOOKING_RECEIPTS_BUCKET).remove([receiptPath]);
+    }
 
-export async function confirmBooking(
-  bookingId: string,
-  staffUserId: string
-): Promise<ConfirmBookingResult> {
-  const { data: updatedBooking, error: bookingError } = await supabase
-    .from("bookings")
-    .update({ status: "Confirmed", confirmed_by_id: staffUserId })
-    .eq("id", bookingId)
-    .eq("status", "Pending")
-    .select("id, slot_id")
-    .single();
-
-  if (bookingError) {
-    console.error("Failed to confirm booking", bookingError);
-    return { success: false, error: "Unable to confirm booking." };
-  }
-
-  if (!updatedBooking?.slot_id) {
-    return { success: false, error: "Booking not found or already processed." };
-  }
-
-  const { data: updatedSlot, error: slotError } = await supabase
-    .from("slots")
-    .update({ is_booked: true, booking_id: bookingId })
-    .eq("id", updatedBooking.slot_id)
-    .select("id")
-    .single();
-
-  if (slotError || !updatedSlot) {
-    console.error("Failed to update slot inventory for booking", bookingId, slotError);
-    await supabase
-      .from("bookings")
-      .update({ status: "Pending", confirmed_by_id: null })
-      .eq("id", bookingId);
+    if (error) {
+      console.error("Failed to create booking", error);
+      return { success: false, error: "Unable to submit booking. Please try again." };
+    }
+
+    const errorCode = response && response.success === false ? response.error_code : null;
+    if (errorCode === "AMOUNT_MISMATCH") {
+      console.warn("Payment amount mismatch for slots", { slotIds: uniqueSlotIds, amount });
+    }
     return {
       success: false,
-      error: "Booking status updated but slot inventory failed. The booking was reverted to pending.",
+      error: getBookingErrorMessage(errorCode, "Unable to submit booking. Please try again."),
     };
   }
 
+  // OCR takes a few seconds; the owner sees the result when they open the booking
+  if (receiptPath) {
+    void requestReceiptVerification(response.booking_id);
+  }
+
+  return { success: true, bookingId: response.booking_id };
+}
+
+// Read the booking's receipt on the server and compare it with the booking and payout accounts
+export async function requestReceiptVerification(bookingId: string): Promise<ConfirmBookingResult> {
+  const { data, error } = await supabase.functions.invoke("verify-receipt", {
+    body: { bookingId },
+  });
+
+  if (error || !data?.success) {
+    console.error("Failed to verify receipt", bookingId, error ?? data?.error);
+    return { success: false, error: "Unable to check the receipt." };
+  }
+
   return { success: true };
 }
 
+type BookingRpcName = keyof Database["public"]["Functions"];
+
+type BookingRpcFailure = { success: false; error_code: BookingErrorCode; checked_in_at?: string };
+
+// failure is the RPC's own error response, or null when the call itself failed
+type BookingTransitionResult<TData extends object> =
+  | ({ success: true } & TData)
+  | { success: false; error: string; failure: BookingRpcFailure | null };
+
+// Runs a booking RPC that answers { success, error_code, ... } and turns its error code into a message.
+// toData picks what the caller needs from a successful response.
+async function runBookingTransition<FnName extends BookingRpcName, TResponse = unknown, TData extends object = object>(
+  rpcName: FnName,
+  args: Database["public"]["Functions"][FnName]["Args"],
+  fallbackError: string,
+  toData?: (response: TResponse) => TData
+): Promise<BookingTransitionResult<TData>> {
+  const { data, error } = await supabase.rpc(rpcName, args);
+
+  if (error) {
+    console.error(`Failed to run ${rpcName}`, args, error);
+    return { success: false, error: fallbackError, failure: null };
+  }
+
+  const response = data as ({ success: true } & TResponse) | BookingRpcFailure | null;
+  if (!response || response.success === false) {
+    const failure = response && response.success === false ? response : null;
+    return { success: false, error: getBookingErrorMessage(failure?.error_code, fallbackError), failure };
+  }
+
+  return { success: true as const, ...(toData ? toData(response) : ({} as TData)) };
+}
+
+export type HoldSlotsResult =
+  | { success: true; heldUntil: string }
+  | { success: false; error: string };
+
+// Reserve the selected slots for the current user while they complete checkout
+export async function holdSlots(slotIds: string[]): Promise<HoldSlotsResult> {
+  return runBookingTransition(
+    "hold_slots",
+    { p_slot_ids: Array.from(new Set(slotIds)) },
+    "Unable to reserve the selected slots. Please try again.",
+    (response: { held_until: string }) => ({ heldUntil: response.held_until })
+  );
+}
+
+export async function releaseSlotHolds(slotIds: string[]): Promise<void> {
+  if (slotIds.length === 0) return;
+  const { error } = await supabase.rpc("release_slot_holds", { p_slot_ids: slotIds });
+  if (error) {
+    console.error("Failed to release slot holds", error);
+  }
+}
+
+export async function confirmBooking(bookingId: string): Promise<ConfirmBookingResult> {
+  return runBookingTransition("confirm_booking", { p_booking_id: bookingId }, "Unable to confirm booking.");
+}
+
+// The reason is stored on the booking and shown to the renter
+export async function rejectBooking(bookingId: string, reason: string): Promise<ConfirmBookingResult> {
+  if (!reason.trim()) {
+    return { success: false, error: getBookingErrorMessage("REJECTION_REASON_REQUIRED", "") };
+  }
+
+  return runBookingTransition(
+    "reject_booking",
+    { p_booking_id: bookingId, p_reason: reason.trim() },
+    "Unable to reject booking."
+  );
+}
+
 export async function processBookingFinalization(
   bookingId: string,
-  staffUserId: string,
-  actionType: "confirm" | "reject"
+  actionType: "confirm" | "reject",
+  rejectionReason = ""
 ): Promise<ConfirmBookingResult> {
-  // Fetch booking and slot information
-  const { data: booking, error: bookingFetchError } = await supabase
-    .from("bookings")
-    .select("id, slot_id, status")
-    .eq("id", bookingId)
-    .maybeSingle();
+  // Booking status and every slot it covers are updated in one server-side transaction
+  if (actionType === "confirm") {
+    return confirmBooking(bookingId);
+  } else if (actionType === "reject") {
+    return rejectBooking(bookingId, rejectionReason);
+  }
+
+  return { success: false, error: "Invalid action type." };
+}
+
+export type CancelBookingResult =
+  | { success: true; status: string; refundAmount: number }
+  | { success: false; error: string };
+
+// Renter cancels their own booking; slots are released and the refund is set from the service policy
+export async function cancelBooking(bookingId: string, reason: string | null = null): Promise<CancelBookingResult> {
+  return runBookingTransition(
+    "cancel_booking",
+    { p_booking_id: bookingId, p_reason: reason ?? undefined },
+    "Unable to cancel booking.",
+    (response: { status: string; refund_amount: number }) => ({
+      status: response.status,
+      refundAmount: Number(response.refund_amount || 0),
+    })
+  );
+}
+
+export async function markBookingRefunded(bookingId: string): Promise<ConfirmBookingResult> {
+  return runBookingTransition("mark_booking_refunded", { p_booking_id: bookingId }, "Unable to mark the refund as paid.");
+}
+
+export type RescheduleBookingResult =
+  | { success: true; newAmount: number; balanceDue: number }
+  | { success: false; error: string };
+
+// Move a booking onto other free slots of the same business; the receipt and amount paid are kept
+export async function rescheduleBooking(bookingId: string, newSlotIds: string[]): Promise<RescheduleBookingResult> {
+  const uniqueSlotIds = Array.from(new Set(newSlotIds));
+  if (uniqueSlotIds.length === 0) {
+    return { success: false, error: getBookingErrorMessage("NO_SLOTS", "") };
+  }
+
+  return runBookingTransition(
+    "reschedule_booking",
+    { p_booking_id: bookingId, p_new_slot_ids: uniqueSlotIds },
+    "Unable to reschedule booking.",
+    (response: { new_amount: number; balance_due: number }) => ({
+      newAmount: Number(response.new_amount || 0),
+      balanceDue: Number(response.balance_due || 0),
+    })
+  );
+}
 
-  if (bookingFetchError || !booking) {
-    console.error("Failed to fetch booking", bookingFetchError);
-    return { success: false, error: "Unable to find booking." };
+// Owner records that the rest of a deposit or a reschedule difference was collected or paid back
+export async function settleBookingBalance(bookingId: string): Promise<ConfirmBookingResult> {
+  return runBookingTransition("settle_booking_balance", { p_booking_id: bookingId }, "Unable to settle the booking balance.");
+}
+
+// Booking rules an owner sets per service. A prepayment threshold of 0 turns it off; renters whose
+// reliability score is below it must pay the full price up front.
+export type ServicePolicy =
+  | { kind: "cancellation"; freeCancellationHours: number; lateCancellationRefundPercent: number }
+  | { kind: "deposit"; depositType: DepositType; depositValue: number }
+  | { kind: "prepayment"; minScore: number };
+
+export async function setServicePolicy(serviceId: number, policy: ServicePolicy): Promise<ConfirmBookingResult> {
+  switch (policy.kind) {
+    case "cancellation":
+      return runBookingTransition(
+        "set_cancellation_policy",
+        {
+          p_service_id: serviceId,
+          p_free_cancellation_hours: policy.freeCancellationHours,
+          p_late_cancellation_refund_percent: policy.lateCancellationRefundPercent,
+        },
+        "Unable to save the cancellation policy."
+      );
+    case "deposit":
+      return runBookingTransition(
+        "set_deposit_policy",
+        { p_service_id: serviceId, p_deposit_type: policy.depositType, p_deposit_value: policy.depositValue },
+        "Unable to save the deposit policy."
+      );
+    case "prepayment":
+      return runBookingTransition(
+        "set_prepayment_threshold",
+        { p_service_id: serviceId, p_min_score: policy.minScore },
+        "Unable to save the prepayment threshold."
+      );
   }
+}
 
-  if (booking.status !== "Pending") {
-    return { success: false, error: "This booking has already been processed." };
+export type WalkInBookingInput = {
+  slotIds: string[];
+  customerName: string;
+  customerPhone: string;
+  paymentMethod: string;
+  amount: number;
+};
+
+// Owner records a venue or phone customer; the booking is confirmed and its slots booked at once
+export async function createWalkInBooking(input: WalkInBookingInput): Promise<SubmitBookingResult> {
+  const uniqueSlotIds = Array.from(new Set(input.slotIds));
+  if (uniqueSlotIds.length === 0) {
+    return { success: false, error: getBookingErrorMessage("NO_SLOTS", "") };
   }
 
-  if (actionType === "confirm") {
-    // Atomically update booking status to Confirmed
-    const { data: updatedBooking, error: bookingError } = await supabase
-      .from("bookings")
-      .update({ status: "Confirmed", confirmed_by_id: staffUserId })
-      .eq("id", bookingId)
-      .eq("status", "Pending")
-      .select("id, slot_id")
-      .single();
-
-    if (bookingError || !updatedBooking) {
-      console.error("Failed to confirm booking", bookingError);
-      return { success: false, error: "Unable to confirm booking." };
-    }
+  return runBookingTransition(
+    "create_walk_in_booking",
+    {
+      p_slot_ids: uniqueSlotIds,
+      p_customer_name: input.customerName.trim(),
+      p_customer_phone: input.customerPhone.trim(),
+      p_payment_method: input.paymentMethod,
+      p_amount: input.amount,
+    },
+    "Unable to create the booking.",
+    (response: { booking_id: string }) => ({ bookingId: response.booking_id })
+  );
+}
 
-    // Update slot inventory - mark as booked
-    if (updatedBooking.slot_id) {
-      const { error: slotError } = await supabase
-        .from("slots")
-        .update({ is_booked: true, booking_id: bookingId })
-        .eq("id", updatedBooking.slot_id);
-
-      if (slotError) {
-        console.error("Failed to update slot for confirmed booking", slotError);
-        // Attempt rollback
-        await supabase
-          .from("bookings")
-          .update({ status: "Pending", confirmed_by_id: null })
-          .eq("id", bookingId);
-        return {
-          success: false,
-          error: "Failed to mark slot as booked. Booking reverted to pending.",
-        };
-      }
-    }
+export type JoinWaitlistResult = { success: true; entryId: string } | { success: false; error: string };
+
+// Queue for a booked slot or time window; resourceId null means any resource of the business
+export async function joinWaitlist(
+  businessId: string,
+  resourceId: string | null,
+  windowStart: string,
+  windowEnd: string
+): Promise<JoinWaitlistResult> {
+  return runBookingTransition(
+    "join_waitlist",
+    {
+      p_business_id: businessId,
+      p_resource_id: resourceId ?? undefined,
+      p_window_start: windowStart,
+      p_window_end: windowEnd,
+    },
+    "Unable to join the waitlist.",
+    (response: { entry_id: string }) => ({ entryId: response.entry_id })
+  );
+}
 
-    return { success: true };
-  } else if (actionType === "reject") {
-    // Update booking status to Rejected
-    const { error: bookingError } = await supabase
-      .from("bookings")
-      .update({ status: "Rejected", confirmed_by_id: staffUserId })
-      .eq("id", bookingId)
-      .eq("status", "Pending");
-
-    if (bookingError) {
-      console.error("Failed to reject booking", bookingError);
-      return { success: false, error: "Unable to reject booking." };
-    }
+// Leave the waitlist; an open offer passes to the next renter in line
+export async function leaveWaitlist(entryId: string): Promise<ConfirmBookingResult> {
+  return runBookingTransition("leave_waitlist", { p_entry_id: entryId }, "Unable to leave the waitlist.");
+}
 
-    // Release the slot - make it available again
-    if (booking.slot_id) {
-      const { error: slotError } = await supabase
-        .from("slots")
-        .update({ is_booked: false, booking_id: null })
-        .eq("id", booking.slot_id);
-
-      if (slotError) {
-        console.error("Failed to release slot for rejected booking", slotError);
-        return {
-          success: false,
-          error: "Booking rejected but failed to release slot. Please manually check the slot.",
-        };
-      }
-    }
+export type BookingTicketResult = { success: true; ticket: string } | { success: false; error: string };
+
+// Signed QR ticket for a confirmed booking; a cached copy is used when the device is offline
+export async function fetchBookingTicket(bookingId: string): Promise<BookingTicketResult> {
+  const result = await runBookingTransition(
+    "get_booking_ticket",
+    { p_booking_id: bookingId },
+    "Unable to load the ticket.",
+    (response: { ticket: string }) => ({ ticket: response.ticket })
+  );
+
+  if (result.success === false) {
+    // No answer from the server at all, rather than a refusal
+    const cachedTicket = result.failure ? null : getCachedTicket(bookingId);
+    return cachedTicket ? { success: true, ticket: cachedTicket } : result;
+  }
+
+  cacheTicket(bookingId, result.ticket);
+  return result;
+}
+
+export type CheckInDetails = {
+  bookingId: string;
+  customerName: string | null;
+  customerPhone: string | null;
+  resourceName: string;
+  startTime: string | null;
+  endTime: string | null;
+  slots: string | null;
+  balanceDue: number;
+};
+
+export type CheckInResult =
+  | { success: true; booking: CheckInDetails }
+  | { success: false; error: string; alreadyCheckedInAt?: string };
+
+type CheckInResponse = {
+  booking_id: string;
+  customer_name: string | null;
+  customer_phone: string | null;
+  resource_name: string;
+  start_time: string | null;
+  end_time: string | null;
+  slots: string | null;
+  balance_due: number;
+};
+
+async function runCheckIn(bookingId: string, signature: string | null): Promise<CheckInResult> {
+  const result = await runBookingTransition(
+    "check_in_booking",
+    { p_booking_id: bookingId, p_ticket_signature: signature ?? undefined },
+    "Unable to check in this booking.",
+    (response: CheckInResponse) => ({
+      booking: {
+        bookingId: response.booking_id,
+        customerName: response.customer_name,
+        customerPhone: response.customer_phone,
+        resourceName: response.resource_name,
+        startTime: response.start_time,
+        endTime: response.end_time,
+        slots: response.slots,
+        balanceDue: Number(response.balance_due || 0),
+      },
+    })
+  );
+
+  if (result.success === false) {
+    return { success: false, error: result.error, alreadyCheckedInAt: result.failure?.checked_in_at };
+  }
+  return result;
+}
 
-    return { success: true };
+// Owner scans or pastes a renter's ticket; the signature is checked server-side
+export async function checkInWithTicket(code: string): Promise<CheckInResult> {
+  const ticket = parseTicket(code);
+  if (!ticket) {
+    return { success: false, error: getBookingErrorMessage("INVALID_TICKET", "") };
   }
+  return runCheckIn(ticket.bookingId, ticket.signature);
+}
 
-  return { success: false, error: "Invalid action type." };
+// Owner checks a customer in from the day's booking list without a ticket
+export async function checkInBooking(bookingId: string): Promise<CheckInResult> {
+  return runCheckIn(bookingId, null);
+}
+
+export async function markBookingNoShow(bookingId: string): Promise<ConfirmBookingResult> {
+  return runBookingTransition(
+    "mark_booking_no_show",
+    { p_booking_id: bookingId },
+    "Unable to mark this booking as a no-show."
+  );
 }
 
 export type BookingRecord = Tables<"bookings">;
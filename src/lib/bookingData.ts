@@ -1,15 +1,30 @@
 import { supabase } from "@/integrations/supabase/client";
 import type { Tables } from "@/integrations/supabase/types";
+import { DEFAULT_TIMEZONE, formatZonedTime, getZonedDayRange, resolveTimeZone } from "@/lib/timezone";
 
 // Shared types
 export type ResourceLite = Pick<Tables<"business_resources">, "id" | "name">;
 export type SlotLite = Pick<
   Tables<"slots">,
-  "id" | "start_time" | "end_time" | "slot_price" | "is_booked" | "resource_id"
+  | "id"
+  | "start_time"
+  | "end_time"
+  | "slot_price"
+  | "is_booked"
+  | "resource_id"
+  | "held_by"
+  | "held_until"
 >;
 
-export type SlotWithResource = SlotLite & { resource_name: string };
+export type SlotWithResource = SlotLite & {
+  resource_name: string;
+  min_lead_minutes: number; // bookable until this many minutes before start
+};
 export type WeeklyRule = Pick<Tables<"business_schedules">, "day_of_week" | "is_open">;
+export type ScheduleException = Pick<
+  Tables<"business_schedules">,
+  "id" | "resource_id" | "applies_to_date" | "is_open" | "open_time" | "close_time" | "note"
+>;
 
 // I. Data Fetching Functions (Foundation)
 
@@ -40,24 +55,34 @@ export async function fetchDailySlots(
     throw new Error("Resource does not belong to a business");
   }
 
-  return fetchAllSlotsForBusiness(resource.business_id, dateString);
+  const timeZone = await fetchBusinessTimezone(resource.business_id);
+  return fetchAllSlotsForBusiness(resource.business_id, dateString, timeZone);
+}
+
+// Timezone the business's schedules and slots are expressed in
+export async function fetchBusinessTimezone(businessId: string): Promise<string> {
+  const { data, error } = await supabase
+    .from("businesses")
+    .select("timezone")
+    .eq("id", businessId)
+    .maybeSingle();
+  if (error) throw error;
+  return resolveTimeZone(data?.timezone);
 }
 
-// Fetch slots for every resource under a business for the provided date
+// Fetch slots for every resource under a business for the provided local date
 export async function fetchAllSlotsForBusiness(
   businessId: string,
-  dateString: string
+  dateString: string,
+  timeZone: string = DEFAULT_TIMEZONE
 ): Promise<SlotWithResource[]> {
-  const [year, month, dayNum] = dateString.split("-").map(Number);
-  const myanmarOffsetMs = 6.5 * 60 * 60 * 1000; // UTC+6:30
-  const startUTC = new Date(Date.UTC(year, month - 1, dayNum, 0, 0, 0) - myanmarOffsetMs);
-  const endUTC = new Date(Date.UTC(year, month - 1, dayNum + 1, 0, 0, 0) - myanmarOffsetMs);
+  const { start: startUTC, end: endUTC } = getZonedDayRange(dateString, timeZone);
 
   const { data, error } = await supabase
     .from("slots")
     .select(
-      `id, start_time, end_time, slot_price, is_booked, resource_id,
-       business_resources:resource_id (id, name, business_id)`
+      `id, start_time, end_time, slot_price, is_booked, resource_id, held_by, held_until,
+       business_resources:resource_id (id, name, business_id, min_lead_minutes)`
     )
     .eq("business_resources.business_id", businessId)
     .gte("start_time", startUTC.toISOString())
@@ -75,18 +100,350 @@ export async function fetchAllSlotsForBusiness(
       slot_price: slot.slot_price,
       is_booked: slot.is_booked,
       resource_id: slot.resource_id,
+      held_by: slot.held_by,
+      held_until: slot.held_until,
       resource_name: slot.business_resources.name,
+      min_lead_minutes: slot.business_resources.min_lead_minutes ?? 0,
     }));
 
   return slotsWithResources;
 }
 
+// Slots inside the resource's lead time can no longer be booked
+export function isSlotPastLeadTime(slot: Pick<SlotWithResource, "start_time" | "min_lead_minutes">): boolean {
+  return new Date(slot.start_time).getTime() < Date.now() + slot.min_lead_minutes * 60 * 1000;
+}
+
+// A slot held by another renter's unexpired checkout is not bookable
+export function isSlotHeldByOther(
+  slot: Pick<SlotLite, "held_by" | "held_until">,
+  userId: string | null | undefined
+): boolean {
+  if (!slot.held_by || !slot.held_until) return false;
+  if (userId && slot.held_by === userId) return false;
+  return new Date(slot.held_until).getTime() > Date.now();
+}
+
 // 3) Fetch weekly schedule rules for a resource
 export async function fetchWeeklySchedule(resourceId: string): Promise<WeeklyRule[]> {
   const { data, error } = await supabase
     .from("business_schedules")
     .select("day_of_week, is_open")
-    .eq("resource_id", resourceId);
+    .eq("resource_id", resourceId)
+    .is("applies_to_date", null);
   if (error) throw error;
   return data || [];
 }
+
+// 4) Fetch date-specific exceptions (closures, special hours) for resources in a date range
+export async function fetchScheduleExceptions(
+  resourceIds: string[],
+  fromDate: string,
+  toDate: string
+): Promise<ScheduleException[]> {
+  if (resourceIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from("business_schedules")
+    .select("id, resource_id, applies_to_date, is_open, open_time, close_time, note")
+    .in("resource_id", resourceIds)
+    .gte("applies_to_date", fromDate)
+    .lte("applies_to_date", toDate)
+    .order("applies_to_date", { ascending: true });
+  if (error) throw error;
+  return data || [];
+}
+
+// II. Slot generation
+
+// A booked, pending or held slot that no longer fits the resource's schedule
+export type SlotConflict = {
+  slot_id: string;
+  start_time: string;
+  end_time: string;
+  booking_id: string | null;
+  booking_status: string | null;
+  held_until: string | null;
+};
+
+export type SlotRegenerationReport = {
+  slotsCreated: number;
+  slotsUpdated: number;
+  slotsDeleted: number;
+  slotsUnchanged: number;
+  conflicts: SlotConflict[];
+};
+
+// Re-apply schedule and pricing to a resource's slots for local dates [startDate, endDate].
+// Existing bookings and holds are preserved; the ones that no longer fit come back as conflicts.
+export async function regenerateResourceSlots(
+  resourceId: string,
+  startDate: string,
+  endDate: string
+): Promise<SlotRegenerationReport> {
+  const { data, error } = await supabase.functions.invoke("generate-slots", {
+    body: { resourceId, startDate, endDate },
+  });
+  if (error) throw error;
+  return {
+    slotsCreated: data?.slotsCreated ?? 0,
+    slotsUpdated: data?.slotsUpdated ?? 0,
+    slotsDeleted: data?.slotsDeleted ?? 0,
+    slotsUnchanged: data?.slotsUnchanged ?? 0,
+    conflicts: data?.conflicts ?? [],
+  };
+}
+
+// III. Recurring bookings
+
+// One date of a series: the slots matching the chosen times, or why that date cannot be booked
+export type RecurringOccurrence = {
+  date: string; // YYYY-MM-DD, business local
+  slots: SlotWithResource[];
+  conflict: string | null;
+};
+
+/**
+ * Finds, for every date, the slots on the same resources at the same local times as
+ * `templateSlots` (the renter's picks on the first date) and checks they are still free.
+ */
+export async function findRecurringSlots(
+  businessId: string,
+  templateSlots: SlotWithResource[],
+  dates: string[],
+  timeZone: string,
+  userId: string | null | undefined
+): Promise<RecurringOccurrence[]> {
+  const slotKey = (slot: Pick<SlotLite, "resource_id" | "start_time" | "end_time">) =>
+    `${slot.resource_id}|${formatZonedTime(new Date(slot.start_time), timeZone)}|${formatZonedTime(
+      new Date(slot.end_time),
+      timeZone
+    )}`;
+  const wanted = templateSlots.map(slotKey);
+
+  return Promise.all(
+    dates.map(async (date) => {
+      const daySlots = await fetchAllSlotsForBusiness(businessId, date, timeZone);
+      const byKey = new Map(daySlots.map((slot) => [slotKey(slot), slot]));
+      const matched = wanted.map((key) => byKey.get(key));
+
+      let conflict: string | null = null;
+      if (matched.some((slot) => !slot)) {
+        conflict = "Closed or no slot at this time";
+      } else if (matched.some((slot) => slot!.is_booked || isSlotHeldByOther(slot!, userId))) {
+        conflict = "Already booked";
+      } else if (matched.some((slot) => isSlotPastLeadTime(slot!))) {
+        conflict = "Too soon to book";
+      }
+
+      return {
+        date,
+        slots: conflict ? [] : (matched as SlotWithResource[]),
+        conflict,
+      };
+    })
+  );
+}
+
+// IV. Waitlist
+
+export type WaitlistStatus = "waiting" | "offered" | "accepted" | "expired" | "cancelled";
+
+export type WaitlistEntry = Pick<
+  Tables<"slot_waitlist">,
+  "id" | "business_id" | "resource_id" | "window_start" | "window_end" | "offered_slot_id" | "offer_expires_at"
+> & {
+  status: WaitlistStatus;
+  business_name: string;
+  resource_name: string | null; // null: any resource of the business
+  time_zone: string;
+  offered_slot: Pick<SlotLite, "start_time" | "end_time" | "resource_id"> | null;
+};
+
+// The user's waitlist entries that are still waiting or hold an open offer
+export async function fetchActiveWaitlist(userId: string): Promise<WaitlistEntry[]> {
+  const { data, error } = await supabase
+    .from("slot_waitlist")
+    .select(
+      `id, business_id, resource_id, window_start, window_end, status, offered_slot_id, offer_expires_at,
+       businesses (name, timezone),
+       business_resources (name),
+       slots (start_time, end_time, resource_id)`
+    )
+    .eq("user_id", userId)
+    .in("status", ["waiting", "offered"])
+    .order("window_start", { ascending: true });
+  if (error) throw error;
+
+  return (data || []).map((entry) => ({
+    id: entry.id,
+    business_id: entry.business_id,
+    resource_id: entry.resource_id,
+    window_start: entry.window_start,
+    window_end: entry.window_end,
+    offered_slot_id: entry.offered_slot_id,
+    offer_expires_at: entry.offer_expires_at,
+    status: entry.status as WaitlistStatus,
+    business_name: entry.businesses?.name ?? "",
+    resource_name: entry.business_resources?.name ?? null,
+    time_zone: resolveTimeZone(entry.businesses?.timezone),
+    offered_slot: entry.slots ?? null,
+  }));
+}
+
+// V. Deposits
+
+// Smallest amount the renter may pay up front for these slots, from each service's deposit policy
+export async function fetchDepositAmount(slotIds: string[]): Promise<number> {
+  const { data, error } = await supabase.rpc("booking_deposit_amount", { p_slot_ids: slotIds });
+  if (error) throw error;
+  return Number(data || 0);
+}
+
+// VI. Receipt verification
+
+export type ReceiptVerificationStatus = "verified" | "review" | "unreadable";
+
+export type ReceiptVerification = Omit<Tables<"receipt_verifications">, "status"> & {
+  status: ReceiptVerificationStatus;
+};
+
+// OCR result for a booking's receipt; null until verify-receipt has run
+export async function fetchReceiptVerification(bookingId: string): Promise<ReceiptVerification | null> {
+  const { data, error } = await supabase
+    .from("receipt_verifications")
+    .select("*")
+    .eq("booking_id", bookingId)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? { ...data, status: data.status as ReceiptVerificationStatus } : null;
+}
+
+// VII. Renter reliability
+
+export type RenterReliability = {
+  attendedCount: number;
+  noShowCount: number;
+  lateCancelCount: number;
+  // Share of check-ins among all outcomes, 0-100; null until the renter has any
+  score: number | null;
+};
+
+// Only renters who booked one of the current owner's businesses are returned
+export async function fetchRenterReliability(userIds: string[]): Promise<Map<string, RenterReliability>> {
+  const uniqueIds = Array.from(new Set(userIds));
+  if (uniqueIds.length === 0) return new Map();
+
+  const { data, error } = await supabase.rpc("get_renter_reliability", { p_user_ids: uniqueIds });
+  if (error) throw error;
+
+  return new Map(
+    (data || []).map((row) => [
+      row.user_id,
+      {
+        attendedCount: row.attended_count,
+        noShowCount: row.no_show_count,
+        lateCancelCount: row.late_cancel_count,
+        score: row.score ?? null,
+      },
+    ])
+  );
+}
+
+// Whether the current renter has to pay these slots in full, from the services' reliability thresholds
+export async function fetchPrepaymentRequired(slotIds: string[]): Promise<boolean> {
+  const { data, error } = await supabase.rpc("booking_prepayment_required", { p_slot_ids: slotIds });
+  if (error) throw error;
+  return data === true;
+}
+
+// VIII. Owner analytics
+
+export type AnalyticsResource = {
+  id: string;
+  name: string;
+  business_name: string;
+  base_price: number;
+  pricing_rules: Tables<"resource_pricing_rules">[];
+};
+
+// Slots of one resource starting at one local date and time
+export type AnalyticsSlotStat = {
+  resource_id: string;
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+  total_count: number;
+  booked_count: number;
+  total_value: number;
+  booked_value: number;
+};
+
+// Bookings of one resource in one month (of their first slot), payment method and source
+export type AnalyticsBookingStat = {
+  resource_id: string;
+  month: string; // YYYY-MM
+  payment_method: string;
+  source: string;
+  confirmed_count: number;
+  cancelled_count: number;
+  no_show_count: number;
+  revenue: number;
+};
+
+export type OwnerAnalyticsData = {
+  resources: AnalyticsResource[];
+  slots: AnalyticsSlotStat[];
+  bookings: AnalyticsBookingStat[];
+};
+
+// Every resource of the current owner's businesses, for local dates from..to (YYYY-MM-DD)
+export async function fetchOwnerAnalytics(ownerId: string, from: string, to: string): Promise<OwnerAnalyticsData> {
+  const [{ data: resourceRows, error: resourceError }, { data: stats, error: statsError }] = await Promise.all([
+    supabase
+      .from("business_resources")
+      .select("id, name, base_price, businesses!inner (name, owner_id)")
+      .eq("businesses.owner_id", ownerId)
+      .order("name", { ascending: true }),
+    supabase.rpc("get_owner_analytics", { p_from: from, p_to: to }),
+  ]);
+  if (resourceError) throw resourceError;
+  if (statsError) throw statsError;
+
+  const response = stats as
+    | { success: true; slots: AnalyticsSlotStat[]; bookings: AnalyticsBookingStat[] }
+    | { success: false; error_code: string }
+    | null;
+  if (!response || response.success === false) {
+    throw new Error(response && response.success === false ? response.error_code : "Unable to load analytics");
+  }
+
+  const resourceIds = (resourceRows || []).map((resource) => resource.id);
+  const { data: rules, error: rulesError } = resourceIds.length
+    ? await supabase.from("resource_pricing_rules").select("*").in("resource_id", resourceIds)
+    : { data: [], error: null };
+  if (rulesError) throw rulesError;
+
+  return {
+    resources: (resourceRows || []).map((resource) => ({
+      id: resource.id,
+      name: resource.name,
+      business_name: resource.businesses.name,
+      base_price: Number(resource.base_price || 0),
+      pricing_rules: (rules || []).filter((rule) => rule.resource_id === resource.id),
+    })),
+    // numeric columns arrive as strings or numbers depending on their size
+    slots: response.slots.map((row) => ({
+      ...row,
+      total_count: Number(row.total_count),
+      booked_count: Number(row.booked_count),
+      total_value: Number(row.total_value),
+      booked_value: Number(row.booked_value),
+    })),
+    bookings: response.bookings.map((row) => ({
+      ...row,
+      confirmed_count: Number(row.confirmed_count),
+      cancelled_count: Number(row.cancelled_count),
+      no_show_count: Number(row.no_show_count),
+      revenue: Number(row.revenue),
+    })),
+  };
+}
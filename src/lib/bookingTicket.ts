@@ -0,0 +1,39 @@
+// Tickets are signed by the database (see the booking_check_in migration):
+// YYT1.<booking id>.<signature>
+const TICKET_PREFIX = "YYT1";
+const TICKET_PATTERN = /^YYT1\.([0-9a-f-]{36})\.([0-9a-f]{24})$/i;
+const TICKET_CACHE_PREFIX = "booking-ticket:";
+
+export interface ParsedTicket {
+  bookingId: string;
+  signature: string;
+}
+
+// Scanners sometimes add whitespace or a trailing newline around the code
+export function parseTicket(code: string): ParsedTicket | null {
+  const match = code.trim().match(TICKET_PATTERN);
+  if (!match) return null;
+  return { bookingId: match[1].toLowerCase(), signature: match[2].toLowerCase() };
+}
+
+export function isTicketForBooking(ticket: string, bookingId: string): boolean {
+  return ticket.startsWith(`${TICKET_PREFIX}.${bookingId}.`);
+}
+
+// The ticket is kept on the renter's device so it can be shown at the venue without a connection
+export function getCachedTicket(bookingId: string): string | null {
+  try {
+    const ticket = localStorage.getItem(TICKET_CACHE_PREFIX + bookingId);
+    return ticket && isTicketForBooking(ticket, bookingId) ? ticket : null;
+  } catch {
+    return null;
+  }
+}
+
+export function cacheTicket(bookingId: string, ticket: string) {
+  try {
+    localStorage.setItem(TICKET_CACHE_PREFIX + bookingId, ticket);
+  } catch {
+    // Private browsing or a full storage quota; the ticket is fetched again next time
+  }
+}
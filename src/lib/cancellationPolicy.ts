@@ -0,0 +1,74 @@
+import { differenceInMinutes } from "date-fns";
+
+export interface CancellationPolicy {
+  free_cancellation_hours: number;
+  late_cancellation_refund_percent: number;
+}
+
+// Same defaults as the services columns
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  free_cancellation_hours: 24,
+  late_cancellation_refund_percent: 0,
+};
+
+export type BookingStatus = "Pending" | "Confirmed" | "Rejected" | "Cancelled" | "RefundPending" | "Refunded";
+
+const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+  Pending: "Pending",
+  Confirmed: "Confirmed",
+  Rejected: "Rejected",
+  Cancelled: "Cancelled",
+  RefundPending: "Refund Pending",
+  Refunded: "Refunded",
+};
+
+const BOOKING_STATUS_CLASSES: Record<BookingStatus, string> = {
+  Pending: "bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200",
+  Confirmed: "bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200",
+  Rejected: "bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200",
+  Cancelled: "bg-muted text-muted-foreground",
+  RefundPending: "bg-orange-100 dark:bg-orange-900 text-orange-800 dark:text-orange-200",
+  Refunded: "bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200",
+};
+
+export function getBookingStatusLabel(status: string): string {
+  return BOOKING_STATUS_LABELS[status as BookingStatus] ?? status;
+}
+
+export function getBookingStatusClassName(status: string): string {
+  return BOOKING_STATUS_CLASSES[status as BookingStatus] ?? BOOKING_STATUS_CLASSES.Pending;
+}
+
+// Renters may cancel or reschedule open bookings until the first slot starts
+export function canChangeBooking(status: string, firstSlotStart: string | Date | null, now = new Date()): boolean {
+  if (status !== "Pending" && status !== "Confirmed") return false;
+  return !firstSlotStart || new Date(firstSlotStart) > now;
+}
+
+export function describeCancellationPolicy(policy: CancellationPolicy): string {
+  const { free_cancellation_hours: hours, late_cancellation_refund_percent: percent } = policy;
+  const lateTerms = percent > 0 ? `${percent}% is refunded after that` : "non-refundable after that";
+  if (hours === 0) {
+    return percent >= 100 ? "Free cancellation until the booking starts." : `Cancellations are ${percent}% refundable.`;
+  }
+  return `Free cancellation until ${hours} hour${hours === 1 ? "" : "s"} before the booking starts, ${lateTerms}.`;
+}
+
+/**
+ * Refund the renter can expect if they cancel now. cancel_booking works out the actual
+ * amount on the server with the same rules; this is only for showing it before confirming.
+ */
+export function estimateRefund(
+  policy: CancellationPolicy,
+  amount: number,
+  firstSlotStart: string | Date | null,
+  paymentMethod: string | null,
+  now = new Date()
+): number {
+  if (paymentMethod?.toLowerCase() === "cash on arrival") return 0;
+  if (!firstSlotStart) return amount;
+
+  const minutesUntilStart = differenceInMinutes(new Date(firstSlotStart), now);
+  if (minutesUntilStart >= policy.free_cancellation_hours * 60) return amount;
+  return Math.round((amount * policy.late_cancellation_refund_percent) / 100);
+}
@@ -0,0 +1,24 @@
+export type CsvValue = string | number | null | undefined;
+
+function escapeCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(header: string[], rows: CsvValue[][]): string {
+  return [header, ...rows].map((row) => row.map(escapeCsvValue).join(",")).join("\r\n");
+}
+
+// The BOM makes Excel read the file as UTF-8, so Myanmar and Thai names survive
+export function downloadCsv(fileName: string, header: string[], rows: CsvValue[][]) {
+  const blob = new Blob(["\uFEFF" + toCsv(header, rows)], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
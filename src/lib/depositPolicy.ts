@@ -0,0 +1,29 @@
+export type DepositType = "full" | "percent" | "fixed";
+
+export interface DepositPolicy {
+  deposit_type: DepositType;
+  deposit_value: number;
+}
+
+// Same defaults as the services columns
+export const DEFAULT_DEPOSIT_POLICY: DepositPolicy = {
+  deposit_type: "full",
+  deposit_value: 0,
+};
+
+const currencyFormatter = new Intl.NumberFormat("en-US", {
+  style: "currency",
+  currency: "MMK",
+  maximumFractionDigits: 0,
+});
+
+export function describeDepositPolicy(policy: DepositPolicy): string {
+  const { deposit_type: type, deposit_value: value } = policy;
+  if (type === "percent") {
+    return `Renters pay a ${value}% deposit when booking and the rest at the venue.`;
+  }
+  if (type === "fixed") {
+    return `Renters pay a ${currencyFormatter.format(value)} deposit per slot when booking and the rest at the venue.`;
+  }
+  return "Renters pay the full price when booking.";
+}
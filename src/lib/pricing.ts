@@ -0,0 +1,35 @@
+import { addDaysToDateString, getIsoDayOfWeek } from "@/lib/timezone";
+import { pickPricingRule, type PricingRuleInput } from "../../supabase/functions/_shared/pricing.ts";
+
+// Rule matching is shared with generate-slots so previews match the generated slot prices
+export * from "../../supabase/functions/_shared/pricing.ts";
+
+export type PricePreviewCell = {
+  price: number;
+  ruleName: string | null;
+};
+
+export type PricePreviewRow = {
+  time: string; // HH:MM
+  cells: PricePreviewCell[]; // one per day, in the order of `dates`
+};
+
+// Effective hourly price grid for 7 local dates starting at `weekStart` (YYYY-MM-DD)
+export function buildPricePreview(
+  rules: PricingRuleInput[],
+  basePrice: number,
+  weekStart: string
+): { dates: string[]; rows: PricePreviewRow[] } {
+  const dates = Array.from({ length: 7 }, (_, i) => addDaysToDateString(weekStart, i));
+  const rows = Array.from({ length: 24 }, (_, hour) => {
+    const time = `${hour.toString().padStart(2, "0")}:00`;
+    return {
+      time,
+      cells: dates.map((date) => {
+        const rule = pickPricingRule(rules, date, getIsoDayOfWeek(date), `${time}:00`);
+        return { price: rule ? rule.price_override : basePrice, ruleName: rule?.rule_name ?? null };
+      }),
+    };
+  });
+  return { dates, rows };
+}
@@ -0,0 +1,40 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Both buckets are private; rows store the object path and the app signs a URL on demand
+export const BOOKING_RECEIPTS_BUCKET = "receipts";
+export const PAYMENT_RECEIPTS_BUCKET = "payment-receipts";
+
+export type ReceiptBucket = typeof BOOKING_RECEIPTS_BUCKET | typeof PAYMENT_RECEIPTS_BUCKET;
+
+const SIGNED_URL_TTL_SECONDS = 5 * 60;
+
+/**
+ * Short-lived link to a stored receipt. Storage only signs it for users its policies let
+ * read the object (the uploader, the booked business's owner, admins), so null can also
+ * mean the user is not allowed to see it. Subscription receipts not yet moved out of the
+ * old public bucket are still full URLs and are returned as they are.
+ */
+export async function getReceiptSignedUrl(bucket: ReceiptBucket, receiptPath: string): Promise<string | null> {
+  if (/^https?:\/\//.test(receiptPath)) return receiptPath;
+
+  const { data, error } = await supabase.storage.from(bucket).createSignedUrl(receiptPath, SIGNED_URL_TTL_SECONDS);
+  if (error || !data?.signedUrl) {
+    console.error("Failed to sign receipt URL", receiptPath, error);
+    return null;
+  }
+  return data.signedUrl;
+}
+
+// Subscription payment receipts go into the uploading owner's folder of the private bucket
+export async function uploadPaymentReceipt(userId: string, file: File, name = file.name): Promise<string> {
+  const sanitizedName = name.toLowerCase().replace(/[^a-z0-9.]+/g, "-");
+  const { data, error } = await supabase.storage
+    .from(PAYMENT_RECEIPTS_BUCKET)
+    .upload(`${userId}/${Date.now()}_${sanitizedName}`, file, {
+      cacheControl: "3600",
+      upsert: false,
+    });
+
+  if (error) throw error;
+  return data.path;
+}
@@ -0,0 +1,52 @@
+import { format } from "date-fns";
+import { addDaysToDateString } from "@/lib/timezone";
+
+export type RecurrenceFrequency = "weekly" | "biweekly";
+
+// Stored as bookings.recurrence; either `occurrences` or `until` (YYYY-MM-DD, inclusive) ends the series
+export type RecurrenceRule = {
+  frequency: RecurrenceFrequency;
+  occurrences: number | null;
+  until: string | null;
+};
+
+// Keeps a series within about six months of weekly games
+export const MAX_RECURRING_OCCURRENCES = 26;
+
+const FREQUENCY_DAYS: Record<RecurrenceFrequency, number> = {
+  weekly: 7,
+  biweekly: 14,
+};
+
+// Local dates of every occurrence, starting with `startDate` itself
+export function buildOccurrenceDates(startDate: string, rule: RecurrenceRule): string[] {
+  const step = FREQUENCY_DAYS[rule.frequency];
+  const limit = Math.min(rule.occurrences ?? MAX_RECURRING_OCCURRENCES, MAX_RECURRING_OCCURRENCES);
+  const dates: string[] = [];
+
+  for (let date = startDate; dates.length < limit; date = addDaysToDateString(date, step)) {
+    if (rule.until && date > rule.until) break;
+    dates.push(date);
+  }
+  return dates;
+}
+
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const every = rule.frequency === "weekly" ? "Every week" : "Every 2 weeks";
+  if (rule.until) {
+    return `${every} until ${format(new Date(`${rule.until}T00:00:00`), "MMM dd, yyyy")}`;
+  }
+  return `${every}, ${rule.occurrences ?? MAX_RECURRING_OCCURRENCES} times`;
+}
+
+// Narrows bookings.recurrence (untyped JSON) back to a rule
+export function parseRecurrence(value: unknown): RecurrenceRule | null {
+  if (!value || typeof value !== "object") return null;
+  const rule = value as Partial<RecurrenceRule>;
+  if (rule.frequency !== "weekly" && rule.frequency !== "biweekly") return null;
+  return {
+    frequency: rule.frequency,
+    occurrences: typeof rule.occurrences === "number" ? rule.occurrences : null,
+    until: typeof rule.until === "string" ? rule.until : null,
+  };
+}
@@ -0,0 +1,30 @@
+import type { RenterReliability } from "@/lib/bookingData";
+
+export type ReliabilityLevel = "new" | "reliable" | "mixed" | "unreliable";
+
+export function getReliabilityLevel(reliability: RenterReliability | null | undefined): ReliabilityLevel {
+  const score = reliability?.score ?? null;
+  if (score === null) return "new";
+  if (score >= 90) return "reliable";
+  if (score >= 70) return "mixed";
+  return "unreliable";
+}
+
+export function describeReliability(reliability: RenterReliability | null | undefined): string {
+  if (!reliability || reliability.score === null) {
+    return "No check-ins, no-shows or late cancellations recorded yet.";
+  }
+  const { attendedCount, noShowCount, lateCancelCount } = reliability;
+  return [
+    `${attendedCount} checked in`,
+    `${noShowCount} no-show${noShowCount === 1 ? "" : "s"}`,
+    `${lateCancelCount} late cancellation${lateCancelCount === 1 ? "" : "s"}`,
+  ].join(" · ");
+}
+
+export function describePrepaymentThreshold(minScore: number): string {
+  if (minScore <= 0) {
+    return "Every renter can use the deposit and cash on arrival options.";
+  }
+  return `Renters with a reliability score below ${minScore}% must pay the full price up front.`;
+}
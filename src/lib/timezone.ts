@@ -0,0 +1,23 @@
+import { format } from "date-fns";
+import { toZonedWallClock } from "../../supabase/functions/_shared/timezone.ts";
+
+// The conversion helpers are shared with the edge functions so slot generation
+// and the booking pages agree on day boundaries.
+export * from "../../supabase/functions/_shared/timezone.ts";
+
+// date-fns `format` for an instant, shown in the business's timezone instead of the browser's
+export function formatInTimeZone(date: Date | string, timeZone: string, pattern: string): string {
+  const instant = typeof date === "string" ? new Date(date) : date;
+  return format(toZonedWallClock(instant, timeZone), pattern);
+}
+
+// Timezones offered when a business is listed; any IANA name is accepted by the database
+export const BUSINESS_TIMEZONE_OPTIONS = [
+  { value: "Asia/Yangon", label: "Myanmar (Yangon, UTC+6:30)" },
+  { value: "Asia/Bangkok", label: "Thailand (Bangkok, UTC+7)" },
+  { value: "Asia/Singapore", label: "Singapore (UTC+8)" },
+  { value: "Asia/Kuala_Lumpur", label: "Malaysia (Kuala Lumpur, UTC+8)" },
+  { value: "Asia/Dhaka", label: "Bangladesh (Dhaka, UTC+6)" },
+  { value: "Asia/Kolkata", label: "India (Kolkata, UTC+5:30)" },
+  { value: "Asia/Shanghai", label: "China (Shanghai, UTC+8)" },
+];
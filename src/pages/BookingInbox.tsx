@@ -0,0 +1,514 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { Navbar } from "@/components/Navbar";
+import { BackButton } from "@/components/BackButton";
+import { LoadingSpinner } from "@/components/LoadingSpinner";
+import { ReceiptViewer } from "@/components/ReceiptViewer";
+import { ReceiptVerificationSummary } from "@/components/ReceiptVerificationSummary";
+import { RejectBookingDialog } from "@/components/RejectBookingDialog";
+import { toast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { format } from "date-fns";
+import { CheckCircle, Inbox, Loader2, Receipt, RefreshCw, XCircle } from "lucide-react";
+import { processBookingFinalization } from "@/lib/bookingActions";
+import { formatInTimeZone, resolveTimeZone, toZonedDateString } from "@/lib/timezone";
+import { describeRecurrence, parseRecurrence } from "@/lib/recurrence";
+
+type InboxBooking = {
+  id: string;
+  payment_amount: number;
+  balance_due: number;
+  payment_method: string | null;
+  receipt_url: string | null;
+  created_at: string;
+  user_id: string;
+  recurrence: Json | null;
+  resource_id: string;
+  resource_name: string;
+  business_name: string;
+  time_zone: string;
+  customer_name: string | null;
+  slots: { id: string; start_time: string; end_time: string }[];
+};
+
+const ALL = "all";
+
+const currencyFormatter = new Intl.NumberFormat("en-US", {
+  style: "currency",
+  currency: "MMK",
+  maximumFractionDigits: 0,
+});
+
+export default function BookingInbox() {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const [bookings, setBookings] = useState<InboxBooking[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [resourceFilter, setResourceFilter] = useState<string>(ALL);
+  const [dateFilter, setDateFilter] = useState<string>("");
+  const [methodFilter, setMethodFilter] = useState<string>(ALL);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [processing, setProcessing] = useState(false);
+  const [rejectTargets, setRejectTargets] = useState<string[] | null>(null);
+
+  const userId = user?.id;
+
+  const fetchInbox = useCallback(async () => {
+    if (!userId) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("bookings")
+        .select(`
+          id,
+          payment_amount,
+          balance_due,
+          payment_method,
+          receipt_url,
+          created_at,
+          user_id,
+          recurrence,
+          resource_id,
+          booking_slots (
+            slots (
+              id,
+              start_time,
+              end_time
+            )
+          ),
+          business_resources!inner (
+            name,
+            businesses!inner (
+              name,
+              owner_id,
+              timezone
+            )
+          )
+        `)
+        .eq("status", "Pending")
+        .eq("business_resources.businesses.owner_id", userId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+
+      const userIds = Array.from(new Set((data || []).map((b) => b.user_id)));
+      const { data: profiles } = userIds.length
+        ? await supabase.from("profiles").select("id, display_name").in("id", userIds)
+        : { data: [] };
+      const names = new Map((profiles || []).map((p) => [p.id, p.display_name]));
+
+      const rows: InboxBooking[] = (data || []).map((b) => ({
+        id: b.id,
+        payment_amount: Number(b.payment_amount || 0),
+        balance_due: Number(b.balance_due || 0),
+        payment_method: b.payment_method,
+        receipt_url: b.receipt_url,
+        created_at: b.created_at,
+        user_id: b.user_id,
+        recurrence: b.recurrence,
+        resource_id: b.resource_id,
+        resource_name: b.business_resources.name,
+        business_name: b.business_resources.businesses.name,
+        time_zone: resolveTimeZone(b.business_resources.businesses.timezone),
+        customer_name: names.get(b.user_id) ?? null,
+        slots: (b.booking_slots || [])
+          .map((bs) => bs.slots)
+          .filter((slot): slot is NonNullable<typeof slot> => !!slot)
+          .sort((x, y) => new Date(x.start_time).getTime() - new Date(y.start_time).getTime()),
+      }));
+
+      setBookings(rows);
+      setSelectedIds((prev) => new Set(rows.filter((row) => prev.has(row.id)).map((row) => row.id)));
+      setActiveId((prev) => (prev && rows.some((row) => row.id === prev) ? prev : rows[0]?.id ?? null));
+    } catch (error) {
+      console.error("Error fetching booking inbox:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load pending bookings",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchInbox();
+  }, [fetchInbox]);
+
+  const resourceOptions = useMemo(() => {
+    const byId = new Map<string, string>();
+    const businessCount = new Set(bookings.map((b) => b.business_name)).size;
+    for (const booking of bookings) {
+      byId.set(
+        booking.resource_id,
+        businessCount > 1 ? `${booking.business_name} · ${booking.resource_name}` : booking.resource_name
+      );
+    }
+    return Array.from(byId.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+  }, [bookings]);
+
+  const methodOptions = useMemo(
+    () => Array.from(new Set(bookings.map((b) => b.payment_method || "Unknown"))).sort(),
+    [bookings]
+  );
+
+  // Date filter matches any slot of the booking on that local date
+  const filteredBookings = useMemo(
+    () =>
+      bookings.filter((booking) => {
+        if (resourceFilter !== ALL && booking.resource_id !== resourceFilter) return false;
+        if (methodFilter !== ALL && (booking.payment_method || "Unknown") !== methodFilter) return false;
+        if (
+          dateFilter &&
+          !booking.slots.some((slot) => toZonedDateString(new Date(slot.start_time), booking.time_zone) === dateFilter)
+        ) {
+          return false;
+        }
+        return true;
+      }),
+    [bookings, resourceFilter, methodFilter, dateFilter]
+  );
+
+  const activeBooking = filteredBookings.find((b) => b.id === activeId) ?? filteredBookings[0] ?? null;
+  const visibleSelectedIds = filteredBookings.filter((b) => selectedIds.has(b.id)).map((b) => b.id);
+  const allVisibleSelected = filteredBookings.length > 0 && visibleSelectedIds.length === filteredBookings.length;
+
+  const toggleSelected = (bookingId: string, checked: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(bookingId);
+      } else {
+        next.delete(bookingId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAllVisible = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(filteredBookings.map((b) => b.id)) : new Set());
+  };
+
+  // Each booking goes through processBookingFinalization on its own so one failure does not stop the rest
+  const runBulk = async (bookingIds: string[], actionType: "confirm" | "reject", rejectionReason = "") => {
+    if (bookingIds.length === 0) return;
+
+    setProcessing(true);
+    const failures: string[] = [];
+    for (const bookingId of bookingIds) {
+      const result = await processBookingFinalization(bookingId, actionType, rejectionReason);
+      if (result.success === false) {
+        failures.push(result.error);
+      }
+    }
+    setProcessing(false);
+    setRejectTargets(null);
+
+    const succeeded = bookingIds.length - failures.length;
+    const verb = actionType === "confirm" ? "confirmed" : "rejected";
+    if (failures.length === 0) {
+      toast({
+        title: `${succeeded} booking${succeeded === 1 ? "" : "s"} ${verb}`,
+        description:
+          actionType === "confirm"
+            ? "The slots are now marked as booked."
+            : "The slots are available again and the customers can see your reason.",
+      });
+    } else {
+      toast({
+        title: `${succeeded} of ${bookingIds.length} bookings ${verb}`,
+        description: Array.from(new Set(failures)).join(" "),
+        variant: "destructive",
+      });
+    }
+
+    setSelectedIds(new Set());
+    fetchInbox();
+  };
+
+  if (authLoading) {
+    return <LoadingSpinner />;
+  }
+
+  if (!user) {
+    navigate("/auth/signin");
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8">
+        <BackButton />
+
+        <div className="mb-8 flex flex-col md:flex-row md:items-end justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">Booking Inbox</h1>
+            <p className="text-muted-foreground">
+              Check payment receipts and confirm or reject pending bookings in bulk
+            </p>
+          </div>
+          <Button variant="outline" onClick={fetchInbox} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+
+        <Card className="mb-6">
+          <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="text-sm font-medium mb-2 block">Resource</label>
+              <Select value={resourceFilter} onValueChange={setResourceFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All resources</SelectItem>
+                  {resourceOptions.map(([id, label]) => (
+                    <SelectItem key={id} value={id}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-2 block">Date</label>
+              <Input type="date" value={dateFilter} onChange={(e) => setDateFilter(e.target.value)} />
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-2 block">Payment method</label>
+              <Select value={methodFilter} onValueChange={setMethodFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All methods</SelectItem>
+                  {methodOptions.map((method) => (
+                    <SelectItem key={method} value={method}>
+                      {method}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+          {/* Left Column - Pending list */}
+          <Card className="lg:col-span-2">
+            <CardHeader className="space-y-3">
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center gap-2">
+                  <Inbox className="h-5 w-5" />
+                  Pending ({filteredBookings.length})
+                </CardTitle>
+                <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Checkbox
+                    checked={allVisibleSelected}
+                    onCheckedChange={(checked) => toggleAllVisible(checked === true)}
+                    disabled={filteredBookings.length === 0}
+                  />
+                  Select all
+                </label>
+              </div>
+              {visibleSelectedIds.length > 0 && (
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    className="flex-1"
+                    onClick={() => runBulk(visibleSelectedIds, "confirm")}
+                    disabled={processing}
+                  >
+                    {processing ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <CheckCircle className="h-4 w-4 mr-1" />}
+                    Confirm ({visibleSelectedIds.length})
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    className="flex-1"
+                    onClick={() => setRejectTargets(visibleSelectedIds)}
+                    disabled={processing}
+                  >
+                    <XCircle className="h-4 w-4 mr-1" />
+                    Reject ({visibleSelectedIds.length})
+                  </Button>
+                </div>
+              )}
+            </CardHeader>
+            <CardContent className="p-0">
+              {loading && bookings.length === 0 ? (
+                <div className="flex justify-center py-12">
+                  <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                </div>
+              ) : filteredBookings.length === 0 ? (
+                <p className="text-center text-muted-foreground py-12 px-4">
+                  {bookings.length === 0 ? "No bookings are waiting for confirmation." : "No bookings match these filters."}
+                </p>
+              ) : (
+                <div className="divide-y max-h-[70vh] overflow-y-auto">
+                  {filteredBookings.map((booking) => {
+                    const firstSlot = booking.slots[0];
+                    return (
+                      <div
+                        key={booking.id}
+                        className={`flex items-start gap-3 px-4 py-3 cursor-pointer transition-colors hover:bg-muted/40 ${
+                          activeBooking?.id === booking.id ? "bg-primary/10" : ""
+                        }`}
+                        onClick={() => setActiveId(booking.id)}
+                      >
+                        <Checkbox
+                          className="mt-1"
+                          checked={selectedIds.has(booking.id)}
+                          onCheckedChange={(checked) => toggleSelected(booking.id, checked === true)}
+                          onClick={(e) => e.stopPropagation()}
+                        />
+                        <div className="flex-1 min-w-0 space-y-1">
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="font-medium truncate">{booking.customer_name || "Customer"}</span>
+                            <span className="font-semibold text-primary">
+                              {currencyFormatter.format(booking.payment_amount + booking.balance_due)}
+                            </span>
+                          </div>
+                          <div className="text-sm text-muted-foreground truncate">
+                            {booking.resource_name}
+                            {firstSlot &&
+                              ` · ${formatInTimeZone(firstSlot.start_time, booking.time_zone, "dd MMM, h:mm a")}`}
+                            {booking.slots.length > 1 && ` +${booking.slots.length - 1}`}
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Badge variant="outline">{booking.payment_method || "Unknown"}</Badge>
+                            {!booking.receipt_url && booking.payment_method?.toLowerCase() !== "cash on arrival" && (
+                              <Badge variant="destructive">No receipt</Badge>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Right Column - Receipt and details of the active booking */}
+          <Card className="lg:col-span-3">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Receipt className="h-5 w-5" />
+                {activeBooking ? activeBooking.customer_name || "Customer" : "Receipt"}
+              </CardTitle>
+              {activeBooking && (
+                <CardDescription>
+                  {activeBooking.business_name} · submitted{" "}
+                  {format(new Date(activeBooking.created_at), "dd MMM yyyy, h:mm a")}
+                </CardDescription>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {!activeBooking ? (
+                <p className="text-center text-muted-foreground py-12">Select a booking to see its receipt</p>
+              ) : (
+                <>
+                  {activeBooking.payment_method?.toLowerCase() === "cash on arrival" ? (
+                    <div className="rounded-lg border bg-muted/30 p-6 text-center text-sm text-muted-foreground">
+                      Cash on arrival. Payment will be collected at the venue.
+                    </div>
+                  ) : activeBooking.receipt_url ? (
+                    <div className="space-y-3">
+                      <ReceiptViewer key={activeBooking.id} path={activeBooking.receipt_url} />
+                      <ReceiptVerificationSummary
+                        key={`check-${activeBooking.id}`}
+                        bookingId={activeBooking.id}
+                        expectedAmount={activeBooking.payment_amount}
+                      />
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No receipt available</p>
+                  )}
+
+                  <div className="space-y-2">
+                    {parseRecurrence(activeBooking.recurrence) && (
+                      <p className="text-sm text-muted-foreground">
+                        Season booking · {describeRecurrence(parseRecurrence(activeBooking.recurrence)!)}
+                      </p>
+                    )}
+                    <ul className="space-y-1 text-sm">
+                      {activeBooking.slots.map((slot) => (
+                        <li key={slot.id} className="flex items-center justify-between rounded-md bg-muted/30 px-3 py-2">
+                          <span>
+                            {formatInTimeZone(slot.start_time, activeBooking.time_zone, "EEE, dd MMM • h:mm a")} -{" "}
+                            {formatInTimeZone(slot.end_time, activeBooking.time_zone, "h:mm a")}
+                          </span>
+                          <span className="text-muted-foreground">{activeBooking.resource_name}</span>
+                        </li>
+                      ))}
+                    </ul>
+                    {activeBooking.balance_due > 0 ? (
+                      <>
+                        <div className="flex items-center justify-between pt-2 font-semibold">
+                          <span>Deposit paid</span>
+                          <span className="text-primary">{currencyFormatter.format(activeBooking.payment_amount)}</span>
+                        </div>
+                        <div className="flex items-center justify-between text-muted-foreground">
+                          <span>Due at the venue</span>
+                          <span>{currencyFormatter.format(activeBooking.balance_due)}</span>
+                        </div>
+                      </>
+                    ) : (
+                      <div className="flex items-center justify-between pt-2 font-semibold">
+                        <span>Total</span>
+                        <span className="text-primary">{currencyFormatter.format(activeBooking.payment_amount)}</span>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <Button
+                      variant="destructive"
+                      onClick={() => setRejectTargets([activeBooking.id])}
+                      disabled={processing}
+                    >
+                      <XCircle className="h-4 w-4 mr-2" />
+                      Reject
+                    </Button>
+                    <Button onClick={() => runBulk([activeBooking.id], "confirm")} disabled={processing}>
+                      {processing ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <CheckCircle className="h-4 w-4 mr-2" />
+                      )}
+                      Confirm
+                    </Button>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <RejectBookingDialog
+        open={rejectTargets !== null}
+        onOpenChange={(open) => {
+          if (!open) setRejectTargets(null);
+        }}
+        bookingCount={rejectTargets?.length ?? 1}
+        processing={processing}
+        onConfirm={(reason) => rejectTargets && runBulk(rejectTargets, "reject", reason)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,393 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Navbar } from "@/components/Navbar";
+import { BackButton } from "@/components/BackButton";
+import { LoadingSpinner } from "@/components/LoadingSpinner";
+import { TicketScanner } from "@/components/TicketScanner";
+import { toast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { format } from "date-fns";
+import { AlertTriangle, CalendarCheck, CheckCircle, Loader2, QrCode, RefreshCw, UserX, XCircle } from "lucide-react";
+import {
+  checkInBooking,
+  checkInWithTicket,
+  markBookingNoShow,
+  type CheckInDetails,
+} from "@/lib/bookingActions";
+import { formatInTimeZone, resolveTimeZone, toZonedDateString } from "@/lib/timezone";
+
+type TodayBooking = {
+  id: string;
+  user_id: string | null;
+  source: string;
+  attendance: string | null;
+  checked_in_at: string | null;
+  balance_due: number;
+  resource_name: string;
+  business_name: string;
+  time_zone: string;
+  customer_name: string | null;
+  slots: { id: string; start_time: string; end_time: string }[];
+};
+
+type ScanOutcome =
+  | { kind: "checked_in"; booking: CheckInDetails }
+  | { kind: "duplicate"; message: string; checkedInAt?: string }
+  | { kind: "error"; message: string };
+
+const currencyFormatter = new Intl.NumberFormat("en-US", {
+  style: "currency",
+  currency: "MMK",
+  maximumFractionDigits: 0,
+});
+
+// Matches check_in_booking, which opens check-in 30 minutes before the first slot
+const CHECK_IN_OPENS_BEFORE_MS = 30 * 60 * 1000;
+
+export default function CheckIn() {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const [bookings, setBookings] = useState<TodayBooking[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [ticketCode, setTicketCode] = useState("");
+  const [checkingIn, setCheckingIn] = useState(false);
+  const [outcome, setOutcome] = useState<ScanOutcome | null>(null);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const userId = user?.id;
+
+  const fetchTodayBookings = useCallback(async () => {
+    if (!userId) return;
+
+    setLoading(true);
+    try {
+      // A day either side of now covers "today" in every business timezone; the exact
+      // local date is matched below
+      const now = Date.now();
+      const { data, error } = await supabase
+        .from("bookings")
+        .select(`
+          id,
+          user_id,
+          source,
+          attendance,
+          checked_in_at,
+          balance_due,
+          customer_name,
+          booking_slots!inner (
+            slots!inner (
+              id,
+              start_time,
+              end_time
+            )
+          ),
+          business_resources!inner (
+            name,
+            businesses!inner (
+              name,
+              owner_id,
+              timezone
+            )
+          )
+        `)
+        .eq("status", "Confirmed")
+        .eq("business_resources.businesses.owner_id", userId)
+        .gte("booking_slots.slots.start_time", new Date(now - 24 * 60 * 60 * 1000).toISOString())
+        .lt("booking_slots.slots.start_time", new Date(now + 24 * 60 * 60 * 1000).toISOString());
+
+      if (error) throw error;
+
+      const userIds = Array.from(new Set((data || []).filter((b) => !b.customer_name).map((b) => b.user_id)));
+      const { data: profiles } = userIds.length
+        ? await supabase.from("profiles").select("user_id, display_name").in("user_id", userIds)
+        : { data: [] };
+      const names = new Map((profiles || []).map((p) => [p.user_id, p.display_name]));
+
+      const rows: TodayBooking[] = (data || [])
+        .map((b) => {
+          const timeZone = resolveTimeZone(b.business_resources.businesses.timezone);
+          return {
+            id: b.id,
+            user_id: b.user_id,
+            source: b.source,
+            attendance: b.attendance,
+            checked_in_at: b.checked_in_at,
+            balance_due: Number(b.balance_due || 0),
+            resource_name: b.business_resources.name,
+            business_name: b.business_resources.businesses.name,
+            time_zone: timeZone,
+            customer_name: b.customer_name ?? names.get(b.user_id) ?? null,
+            slots: (b.booking_slots || [])
+              .map((bs) => bs.slots)
+              .filter((slot): slot is NonNullable<typeof slot> => !!slot)
+              .sort((x, y) => new Date(x.start_time).getTime() - new Date(y.start_time).getTime()),
+          };
+        })
+        .filter((booking) => {
+          const today = toZonedDateString(new Date(now), booking.time_zone);
+          return booking.slots.some((slot) => toZonedDateString(new Date(slot.start_time), booking.time_zone) === today);
+        })
+        .sort((x, y) => new Date(x.slots[0].start_time).getTime() - new Date(y.slots[0].start_time).getTime());
+
+      setBookings(rows);
+    } catch (error) {
+      console.error("Error fetching today's bookings:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load today's bookings",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchTodayBookings();
+  }, [fetchTodayBookings]);
+
+  const handleTicket = useCallback(
+    async (code: string) => {
+      if (!code.trim()) return;
+
+      setCheckingIn(true);
+      const result = await checkInWithTicket(code);
+      setCheckingIn(false);
+
+      if (result.success === false) {
+        setOutcome(
+          result.alreadyCheckedInAt
+            ? { kind: "duplicate", message: result.error, checkedInAt: result.alreadyCheckedInAt }
+            : { kind: "error", message: result.error }
+        );
+        return;
+      }
+
+      setOutcome({ kind: "checked_in", booking: result.booking });
+      setTicketCode("");
+      fetchTodayBookings();
+    },
+    [fetchTodayBookings]
+  );
+
+  const handleManualCheckIn = async (bookingId: string) => {
+    setProcessingId(bookingId);
+    const result = await checkInBooking(bookingId);
+    setProcessingId(null);
+
+    if (result.success === false) {
+      toast({ title: "Check-in failed", description: result.error, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Checked in", description: `${result.booking.customerName || "Customer"} is checked in.` });
+    fetchTodayBookings();
+  };
+
+  const handleNoShow = async (bookingId: string) => {
+    setProcessingId(bookingId);
+    const result = await markBookingNoShow(bookingId);
+    setProcessingId(null);
+
+    if (result.success === false) {
+      toast({ title: "Error", description: result.error, variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Marked as no-show" });
+    fetchTodayBookings();
+  };
+
+  const checkedInCount = useMemo(() => bookings.filter((b) => b.attendance === "checked_in").length, [bookings]);
+
+  if (authLoading) {
+    return <LoadingSpinner />;
+  }
+
+  if (!user) {
+    navigate("/auth/signin");
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8">
+        <BackButton />
+
+        <div className="mb-8 flex flex-col md:flex-row md:items-end justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold mb-2">Check-in</h1>
+            <p className="text-muted-foreground">
+              Scan the customer's booking ticket or check them in from today's list
+            </p>
+          </div>
+          <Button variant="outline" onClick={fetchTodayBookings} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+          {/* Left Column - Scanner and result */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <QrCode className="h-5 w-5" />
+                Scan ticket
+              </CardTitle>
+              <CardDescription>Tickets are on the customer's booking page in the app</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <TicketScanner onScan={handleTicket} disabled={checkingIn} />
+
+              <form
+                className="flex gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleTicket(ticketCode);
+                }}
+              >
+                <Input
+                  value={ticketCode}
+                  onChange={(e) => setTicketCode(e.target.value)}
+                  placeholder="Paste the ticket code"
+                  className="font-mono text-xs"
+                />
+                <Button type="submit" disabled={checkingIn || !ticketCode.trim()}>
+                  {checkingIn ? <Loader2 className="h-4 w-4 animate-spin" /> : "Check in"}
+                </Button>
+              </form>
+
+              {outcome?.kind === "checked_in" && (
+                <div className="rounded-lg border border-emerald-300 bg-emerald-50 p-4 space-y-1 text-sm">
+                  <p className="flex items-center gap-2 font-semibold text-emerald-700">
+                    <CheckCircle className="h-4 w-4" />
+                    {outcome.booking.customerName || "Customer"} is checked in
+                  </p>
+                  <p className="text-emerald-800">
+                    {outcome.booking.resourceName}
+                    {outcome.booking.startTime &&
+                      ` · ${format(new Date(outcome.booking.startTime), "h:mm a")}`}
+                    {outcome.booking.endTime && ` - ${format(new Date(outcome.booking.endTime), "h:mm a")}`}
+                  </p>
+                  {outcome.booking.customerPhone && <p className="text-emerald-800">{outcome.booking.customerPhone}</p>}
+                  {outcome.booking.balanceDue > 0 && (
+                    <p className="font-medium text-amber-700">
+                      Collect {currencyFormatter.format(outcome.booking.balanceDue)} at the venue
+                    </p>
+                  )}
+                </div>
+              )}
+              {outcome?.kind === "duplicate" && (
+                <div className="rounded-lg border border-amber-300 bg-amber-50 p-4 text-sm">
+                  <p className="flex items-center gap-2 font-semibold text-amber-700">
+                    <AlertTriangle className="h-4 w-4" />
+                    Already scanned
+                  </p>
+                  <p className="text-amber-800">
+                    {outcome.checkedInAt
+                      ? `This ticket was checked in at ${format(new Date(outcome.checkedInAt), "h:mm a, dd MMM")}. Make sure it is not being re-used.`
+                      : outcome.message}
+                  </p>
+                </div>
+              )}
+              {outcome?.kind === "error" && (
+                <div className="rounded-lg border border-destructive/40 bg-destructive/10 p-4 text-sm">
+                  <p className="flex items-center gap-2 font-semibold text-destructive">
+                    <XCircle className="h-4 w-4" />
+                    Not checked in
+                  </p>
+                  <p className="text-destructive">{outcome.message}</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Right Column - Today's bookings */}
+          <Card className="lg:col-span-3">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarCheck className="h-5 w-5" />
+                Today ({checkedInCount}/{bookings.length} checked in)
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              {loading && bookings.length === 0 ? (
+                <div className="flex justify-center py-12">
+                  <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                </div>
+              ) : bookings.length === 0 ? (
+                <p className="text-center text-muted-foreground py-12 px-4">No confirmed bookings today.</p>
+              ) : (
+                <div className="divide-y">
+                  {bookings.map((booking) => {
+                    const firstSlot = booking.slots[0];
+                    const lastSlot = booking.slots[booking.slots.length - 1];
+                    const hasStarted = new Date(firstSlot.start_time).getTime() <= Date.now();
+                    const checkInOpen = new Date(firstSlot.start_time).getTime() - CHECK_IN_OPENS_BEFORE_MS <= Date.now();
+                    return (
+                      <div key={booking.id} className="flex flex-col md:flex-row md:items-center gap-3 px-4 py-3">
+                        <div className="flex-1 min-w-0 space-y-1">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium truncate">{booking.customer_name || "Customer"}</span>
+                            {booking.source === "walk_in" && <Badge variant="outline">Walk-in</Badge>}
+                          </div>
+                          <div className="text-sm text-muted-foreground truncate">
+                            {booking.resource_name} · {formatInTimeZone(firstSlot.start_time, booking.time_zone, "h:mm a")} -{" "}
+                            {formatInTimeZone(lastSlot.end_time, booking.time_zone, "h:mm a")}
+                          </div>
+                          {booking.balance_due > 0 && (
+                            <div className="text-xs text-amber-700">
+                              {currencyFormatter.format(booking.balance_due)} due at the venue
+                            </div>
+                          )}
+                        </div>
+                        {booking.attendance === "checked_in" ? (
+                          <Badge className="bg-emerald-600 hover:bg-emerald-600">
+                            Checked in
+                            {booking.checked_in_at && ` · ${formatInTimeZone(booking.checked_in_at, booking.time_zone, "h:mm a")}`}
+                          </Badge>
+                        ) : (
+                          <div className="flex items-center gap-2">
+                            {booking.attendance === "no_show" && <Badge variant="destructive">No-show</Badge>}
+                            <Button
+                              size="sm"
+                              onClick={() => handleManualCheckIn(booking.id)}
+                              disabled={processingId === booking.id || !checkInOpen}
+                              title={checkInOpen ? undefined : "Available 30 minutes before the booking starts"}
+                            >
+                              <CheckCircle className="h-4 w-4 mr-1" />
+                              Check in
+                            </Button>
+                            {booking.attendance !== "no_show" && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleNoShow(booking.id)}
+                                disabled={processingId === booking.id || !hasStarted}
+                                title={hasStarted ? undefined : "Available once the booking has started"}
+                              >
+                                <UserX className="h-4 w-4 mr-1" />
+                                No-show
+                              </Button>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -12,6 +12,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Checkbox } from "@/components/ui/checkbox";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { useToast } from "@/hooks/use-toast";
+import { uploadPaymentReceipt } from "@/lib/receiptStorage";
 import { Building2, Upload, Calendar, MapPin, Phone, Globe, Facebook, Music, DollarSign, Package, Camera, CreditCard, Plus, X } from "lucide-react";
 
 interface BusinessFormData {
@@ -262,8 +263,7 @@ export default function ListBusiness() {
 
       // Upload receipt if bank payment option is selected
       if (formData.paymentOption === 'bank' && receiptFile) {
-        const receiptPath = `receipts/${user.id}/${Date.now()}_${receiptFile.name}`;
-        receiptUrl = await uploadFile(receiptFile, 'business-assets', receiptPath);
+        receiptUrl = await uploadPaymentReceipt(user.id, receiptFile);
       }
 
       // Create business listing
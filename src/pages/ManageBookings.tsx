@@ -13,10 +13,27 @@ import { Calendar } from "@/components/ui/calendar";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { format } from "date-fns";
 import { Calendar as CalendarIcon, CheckCircle, XCircle } from "lucide-react";
+import {
+  addDaysToDateString,
+  formatInTimeZone,
+  getZonedDayRange,
+  resolveTimeZone,
+  toZonedDateString,
+} from "@/lib/timezone";
+import { regenerateResourceSlots } from "@/lib/bookingData";
+import { ScheduleExceptionsManager } from "@/components/ScheduleExceptionsManager";
+import { DynamicPricingRules } from "@/components/DynamicPricingRules";
+import { ResourceSlotSettings } from "@/components/ResourceSlotSettings";
+import { CancellationPolicySettings } from "@/components/CancellationPolicySettings";
+import { DepositPolicySettings } from "@/components/DepositPolicySettings";
+import { PrepaymentThresholdSettings } from "@/components/PrepaymentThresholdSettings";
+import { RescheduleBookingDialog } from "@/components/RescheduleBookingDialog";
+import { WalkInBookingDialog } from "@/components/WalkInBookingDialog";
 
 type Business = {
   id: string;
   name: string;
+  timezone: string;
 };
 
 type Resource = {
@@ -35,18 +52,30 @@ type Slot = {
   booking_id: string | null;
 };
 
+type SlotBooking = {
+  id: string;
+  source: string;
+  customer_name: string | null;
+  customer_phone: string | null;
+  payment_method: string | null;
+};
+
 export default function ManageBookings() {
   const { user, loading: authLoading } = useAuth();
   const navigate = useNavigate();
   const [businesses, setBusinesses] = useState<Business[]>([]);
   const [resources, setResources] = useState<Resource[]>([]);
   const [slots, setSlots] = useState<Slot[]>([]);
+  const [slotBookings, setSlotBookings] = useState<Map<string, SlotBooking>>(new Map());
   const [selectedBusiness, setSelectedBusiness] = useState<string>("");
   const [selectedResource, setSelectedResource] = useState<string>("");
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [loading, setLoading] = useState(false);
   const [updatingSlot, setUpdatingSlot] = useState<string | null>(null);
 
+  // Slots are shown in the selected business's local time
+  const timeZone = resolveTimeZone(businesses.find((b) => b.id === selectedBusiness)?.timezone);
+
   // Fetch user's businesses
   useEffect(() => {
     if (user?.id) {
@@ -67,11 +96,11 @@ export default function ManageBookings() {
   // Fetch slots when resource and date are selected
   useEffect(() => {
     if (selectedResource && selectedDate) {
-      fetchSlots(selectedResource, selectedDate);
+      fetchSlots(selectedResource, selectedDate, timeZone);
     } else {
       setSlots([]);
     }
-  }, [selectedResource, selectedDate]);
+  }, [selectedResource, selectedDate, timeZone]);
 
   // Real-time subscription for slot updates
   useEffect(() => {
@@ -89,7 +118,7 @@ export default function ManageBookings() {
         },
         (payload) => {
           console.log('Slot changed:', payload);
-          fetchSlots(selectedResource, selectedDate);
+          fetchSlots(selectedResource, selectedDate, timeZone);
         }
       )
       .subscribe();
@@ -97,13 +126,13 @@ export default function ManageBookings() {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [selectedResource, selectedDate]);
+  }, [selectedResource, selectedDate, timeZone]);
 
   const fetchBusinesses = async () => {
     try {
       const { data, error } = await supabase
         .from('businesses')
-        .select('id, name')
+        .select('id, name, timezone')
         .eq('owner_id', user!.id)
         .order('name');
 
@@ -145,14 +174,11 @@ export default function ManageBookings() {
     }
   };
 
-  const fetchSlots = async (resourceId: string, date: Date) => {
+  const fetchSlots = async (resourceId: string, date: Date, slotTimeZone: string) => {
     setLoading(true);
     try {
       const dateString = format(date, 'yyyy-MM-dd');
-      const [year, month, dayNum] = dateString.split("-").map(Number);
-      const myanmarOffsetMs = 6.5 * 60 * 60 * 1000;
-      const startUTC = new Date(Date.UTC(year, month - 1, dayNum, 0, 0, 0) - myanmarOffsetMs);
-      const endUTC = new Date(Date.UTC(year, month - 1, dayNum + 1, 0, 0, 0) - myanmarOffsetMs);
+      const { start: startUTC, end: endUTC } = getZonedDayRange(dateString, slotTimeZone);
 
       const { data, error } = await supabase
         .from('slots')
@@ -164,6 +190,20 @@ export default function ManageBookings() {
 
       if (error) throw error;
       setSlots(data || []);
+
+      // Who booked each slot, so walk-in customers show by name
+      const bookingIds = Array.from(new Set((data || []).map((slot) => slot.booking_id).filter((id): id is string => !!id)));
+      if (bookingIds.length > 0) {
+        const { data: bookingRows, error: bookingError } = await supabase
+          .from('bookings')
+          .select('id, source, customer_name, customer_phone, payment_method')
+          .in('id', bookingIds);
+
+        if (bookingError) throw bookingError;
+        setSlotBookings(new Map((bookingRows || []).map((booking) => [booking.id, booking])));
+      } else {
+        setSlotBookings(new Map());
+      }
     } catch (error) {
       console.error('Error fetching slots:', error);
       toast({
@@ -193,7 +233,7 @@ export default function ManageBookings() {
 
       // Refresh slots
       if (selectedResource && selectedDate) {
-        fetchSlots(selectedResource, selectedDate);
+        fetchSlots(selectedResource, selectedDate, timeZone);
       }
     } catch (error) {
       console.error('Error updating slot:', error);
@@ -207,9 +247,34 @@ export default function ManageBookings() {
     }
   };
 
+  // Re-price the free slots of the bookable window after pricing rules change
+  const handlePricingSaved = async () => {
+    if (!selectedResource) return;
+    try {
+      const today = toZonedDateString(new Date(), timeZone);
+      const report = await regenerateResourceSlots(selectedResource, today, addDaysToDateString(today, 30));
+      toast({
+        title: "Prices updated",
+        description: `${report.slotsUpdated} available slots re-priced. Booked slots keep their original price.`,
+      });
+      fetchSlots(selectedResource, selectedDate, timeZone);
+    } catch (error) {
+      console.error('Error regenerating slots:', error);
+      toast({
+        title: "Error",
+        description: "Rules were saved but slot prices could not be refreshed",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Slots a walk-in can still be booked into
+  const freeSlots = slots.filter(
+    (slot) => !slot.is_booked && !slot.booking_id && new Date(slot.end_time) > new Date()
+  );
+
   const formatTime = (dateString: string) => {
-    const date = new Date(dateString);
-    return format(date, 'hh:mm a');
+    return formatInTimeZone(dateString, timeZone, 'hh:mm a');
   };
 
   if (authLoading) {
@@ -319,51 +384,123 @@ export default function ManageBookings() {
                 </div>
               ) : (
                 <div className="space-y-2">
-                  {slots.map((slot) => (
-                    <div
-                      key={slot.id}
-                      className="flex items-center justify-between p-4 border rounded-lg hover:bg-accent/50 transition-colors"
-                    >
-                      <div className="flex-1">
-                        <div className="font-medium">
-                          {formatTime(slot.start_time)} - {formatTime(slot.end_time)}
-                        </div>
-                        <div className="text-sm text-muted-foreground">
-                          Price: {slot.slot_price} MMK
+                  {slots.map((slot) => {
+                    const booking = slot.booking_id ? slotBookings.get(slot.booking_id) : undefined;
+                    return (
+                      <div
+                        key={slot.id}
+                        className="flex items-center justify-between p-4 border rounded-lg hover:bg-accent/50 transition-colors"
+                      >
+                        <div className="flex-1">
+                          <div className="font-medium">
+                            {formatTime(slot.start_time)} - {formatTime(slot.end_time)}
+                          </div>
+                          <div className="text-sm text-muted-foreground">
+                            Price: {slot.slot_price} MMK
+                          </div>
+                          {booking?.source === 'walk_in' && (
+                            <div className="text-sm text-muted-foreground">
+                              Walk-in: {booking.customer_name}
+                              {booking.customer_phone && ` · ${booking.customer_phone}`}
+                              {booking.payment_method && ` · ${booking.payment_method}`}
+                            </div>
+                          )}
                         </div>
-                      </div>
-                      <div className="flex items-center gap-3">
-                        <Badge variant={slot.is_booked ? "destructive" : "default"}>
-                          {slot.is_booked ? "Booked" : "Available"}
-                        </Badge>
-                        <Button
-                          size="sm"
-                          variant={slot.is_booked ? "outline" : "default"}
-                          onClick={() => toggleSlotStatus(slot.id, slot.is_booked)}
-                          disabled={updatingSlot === slot.id}
-                        >
-                          {updatingSlot === slot.id ? (
-                            "Updating..."
-                          ) : slot.is_booked ? (
-                            <>
-                              <XCircle className="h-4 w-4 mr-1" />
-                              Mark Available
-                            </>
-                          ) : (
-                            <>
-                              <CheckCircle className="h-4 w-4 mr-1" />
-                              Mark Booked
-                            </>
+                        <div className="flex items-center gap-3">
+                          <Badge variant={slot.is_booked ? "destructive" : "default"}>
+                            {slot.is_booked ? "Booked" : "Available"}
+                          </Badge>
+                          {!slot.is_booked && !slot.booking_id && new Date(slot.end_time) > new Date() && (
+                            <WalkInBookingDialog
+                              initialSlotId={slot.id}
+                              freeSlots={freeSlots}
+                              timeZone={timeZone}
+                              onCreated={() => fetchSlots(selectedResource, selectedDate, timeZone)}
+                            />
+                          )}
+                          {slot.booking_id && new Date(slot.start_time) > new Date() && (
+                            <RescheduleBookingDialog
+                              bookingId={slot.booking_id}
+                              asOwner
+                              onRescheduled={() => fetchSlots(selectedResource, selectedDate, timeZone)}
+                            />
                           )}
-                        </Button>
+                          <Button
+                            size="sm"
+                            variant={slot.is_booked ? "outline" : "default"}
+                            onClick={() => toggleSlotStatus(slot.id, slot.is_booked)}
+                            disabled={updatingSlot === slot.id}
+                          >
+                            {updatingSlot === slot.id ? (
+                              "Updating..."
+                            ) : slot.is_booked ? (
+                              <>
+                                <XCircle className="h-4 w-4 mr-1" />
+                                Mark Available
+                              </>
+                            ) : (
+                              <>
+                                <CheckCircle className="h-4 w-4 mr-1" />
+                                Mark Booked
+                              </>
+                            )}
+                          </Button>
+                        </div>
                       </div>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               )}
             </CardContent>
           </Card>
         </div>
+
+        {selectedResource && (
+          <div className="mt-6">
+            <ResourceSlotSettings
+              key={selectedResource}
+              resourceId={selectedResource}
+              timeZone={timeZone}
+              onChanged={() => fetchSlots(selectedResource, selectedDate, timeZone)}
+            />
+          </div>
+        )}
+
+        {selectedResource && (
+          <div className="mt-6">
+            <CancellationPolicySettings key={selectedResource} resourceId={selectedResource} />
+          </div>
+        )}
+
+        {selectedResource && (
+          <div className="mt-6">
+            <DepositPolicySettings key={selectedResource} resourceId={selectedResource} />
+          </div>
+        )}
+
+        {selectedResource && (
+          <div className="mt-6">
+            <PrepaymentThresholdSettings key={selectedResource} resourceId={selectedResource} />
+          </div>
+        )}
+
+        {selectedResource && (
+          <div className="mt-6">
+            <ScheduleExceptionsManager
+              resources={resources}
+              selectedResourceId={selectedResource}
+              selectedDate={selectedDate}
+              timeZone={timeZone}
+              onChanged={() => fetchSlots(selectedResource, selectedDate, timeZone)}
+            />
+          </div>
+        )}
+
+        {selectedResource && (
+          <div className="mt-6">
+            <DynamicPricingRules key={selectedResource} resourceId={selectedResource} onSaved={handlePricingSaved} />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -7,11 +7,20 @@ import type { Tables } from "@/integrations/supabase/types";
 import {
   fetchWeeklySchedule,
   fetchAllSlotsForBusiness,
+  fetchDepositAmount,
+  fetchPrepaymentRequired,
   fetchResources,
+  fetchScheduleExceptions,
+  findRecurringSlots,
+  isSlotHeldByOther,
+  isSlotPastLeadTime,
+  regenerateResourceSlots,
+  type RecurringOccurrence,
+  type ScheduleException,
   type SlotWithResource,
   type ResourceLite,
 } from "@/lib/bookingData";
-import { CheckCircle2, XCircle } from "lucide-react";
+import { BellRing, CheckCircle2, Clock, XCircle } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -19,8 +28,19 @@ import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { useNavigate } from "react-router-dom";
 import SubmitReceiptModal, { type PaymentMethodInfo } from "@/components/SubmitReceiptModal";
-import { submitBooking } from "@/lib/bookingActions";
+import { RecurringBookingOptions } from "@/components/RecurringBookingOptions";
+import { JoinWaitlistDialog, type WaitlistWindow } from "@/components/JoinWaitlistDialog";
+import { buildOccurrenceDates, type RecurrenceRule } from "@/lib/recurrence";
+import { holdSlots, releaseSlotHolds, submitBooking } from "@/lib/bookingActions";
 import { Navbar } from "@/components/Navbar";
+import {
+  DEFAULT_TIMEZONE,
+  addDaysToDateString,
+  formatInTimeZone,
+  getZonedDayRange,
+  resolveTimeZone,
+  toZonedDateString,
+} from "@/lib/timezone";
 
 // Minimal currency formatter – adjust currency if needed
 const currency = new Intl.NumberFormat("en-US", {
@@ -53,12 +73,16 @@ function toDisplayHeader(d: Date) {
   return format(d, "d LLL yyyy").toUpperCase();
 }
 
-function formatTimeRange(startISO: string, endISO: string) {
+// "7pm" on the hour, "7:30pm" otherwise, so 90-minute slots and buffers read correctly
+function formatSlotTime(iso: string, timeZone: string) {
+  const minutes = formatInTimeZone(iso, timeZone, "mm");
+  return formatInTimeZone(iso, timeZone, minutes === "00" ? "ha" : "h:mma").toLowerCase();
+}
+
+function formatTimeRange(startISO: string, endISO: string, timeZone: string) {
   try {
-    const s = new Date(startISO);
-    const e = new Date(endISO);
-    const sStr = format(s, "ha").toLowerCase();
-    const eStr = format(e, "ha").toLowerCase();
+    const sStr = formatSlotTime(startISO, timeZone);
+    const eStr = formatSlotTime(endISO, timeZone);
     return `${sStr.replace("m", "m")} - ${eStr.replace("m", "m")}`; // keep am/pm lowercase like screenshot
   } catch {
     return `${startISO} - ${endISO}`;
@@ -88,12 +112,14 @@ export default function ServiceAvailability(props: ServiceAvailabilityProps) {
   );
   const [loadingResources, setLoadingResources] = useState(false);
   const [businessId, setBusinessId] = useState<string | null>(null);
+  const [timeZone, setTimeZone] = useState<string>(DEFAULT_TIMEZONE);
   const [slots, setSlots] = useState<SlotWithResource[]>([]);
   const [loadingSlots, setLoadingSlots] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const [selectedSlotIds, setSelectedSlotIds] = useState<Set<string>>(new Set());
   const [disabledDays, setDisabledDays] = useState<number[] | null>(null); // 0=Sun..6=Sat for DayPicker
+  const [dateExceptions, setDateExceptions] = useState<Map<string, ScheduleException>>(new Map()); // YYYY-MM-DD -> override
   const [paymentMethods, setPaymentMethods] = useState<PaymentMethodInfo[]>([]);
   const [loadingPaymentMethods, setLoadingPaymentMethods] = useState(false);
   const [paymentMethodsError, setPaymentMethodsError] = useState<string | null>(null);
@@ -101,36 +127,51 @@ export default function ServiceAvailability(props: ServiceAvailabilityProps) {
   const [serviceRules, setServiceRules] = useState<string | null>(null);
   const [loadingRules, setLoadingRules] = useState(false);
   const [isSubmittingBooking, setIsSubmittingBooking] = useState(false);
+  const [heldSlotIds, setHeldSlotIds] = useState<string[]>([]);
+  const [holdExpiresAt, setHoldExpiresAt] = useState<string | null>(null);
+  const [depositAmount, setDepositAmount] = useState<number | null>(null);
+  const [prepaymentRequired, setPrepaymentRequired] = useState(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  const [seriesOccurrences, setSeriesOccurrences] = useState<RecurringOccurrence[] | null>(null);
+  const [checkingSeries, setCheckingSeries] = useState(false);
+  const [waitlistWindow, setWaitlistWindow] = useState<WaitlistWindow | null>(null);
+  const [showWaitlistDialog, setShowWaitlistDialog] = useState(false);
 
   const navigate = useNavigate();
   const { toast } = useToast();
   const { user } = useAuth();
 
-  const total = useMemo(() => {
-    const selected = new Set(selectedSlotIds);
-    return slots
-      .filter((s) => selected.has(s.id))
-      .reduce((sum, s) => sum + (s.slot_price || 0), 0);
-  }, [selectedSlotIds, slots]);
+  const selectedSlots = useMemo(
+    () =>
+      slots
+        .filter((slot) => selectedSlotIds.has(slot.id))
+        .sort((a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime()),
+    [selectedSlotIds, slots]
+  );
+
+  // A season booking checks out the slots of every available date; otherwise just the picks
+  const checkoutSlots = useMemo(
+    () => (recurrence && seriesOccurrences ? seriesOccurrences.flatMap((o) => o.slots) : selectedSlots),
+    [recurrence, seriesOccurrences, selectedSlots]
+  );
 
-  const selectedSlot = useMemo(() => {
-    if (selectedSlotIds.size !== 1) return null;
-    const slotId = Array.from(selectedSlotIds)[0];
-    return slots.find((slot) => slot.id === slotId) || null;
-  }, [selectedSlotIds, slots]);
+  const checkoutTotal = useMemo(
+    () => checkoutSlots.reduce((sum, s) => sum + (s.slot_price || 0), 0),
+    [checkoutSlots]
+  );
+
+  // The series availability report is stale once the picks or the repeat pattern change
+  useEffect(() => {
+    setSeriesOccurrences(null);
+  }, [selectedSlotIds, recurrence, selectedDate]);
 
   const slotMatrix = useMemo<SlotMatrixRow[]>(() => {
     const grouped = new Map<string, SlotMatrixRow>();
-    const now = new Date();
-    const isToday = toISODateOnly(selectedDate) === toISODateOnly(now);
 
     for (const slot of slots) {
-      // Skip slots that have already started (for today only)
-      if (isToday) {
-        const slotStart = new Date(slot.start_time);
-        if (slotStart < now) {
-          continue;
-        }
+      // Skip slots that have started or fall inside the resource's booking lead time
+      if (isSlotPastLeadTime(slot)) {
+        continue;
       }
 
       const key = `${slot.start_time}|${slot.end_time}`;
@@ -153,7 +194,7 @@ export default function ServiceAvailability(props: ServiceAvailabilityProps) {
     return Array.from(grouped.values()).sort((a, b) =>
       new Date(a.start_time).getTime() - new Date(b.start_time).getTime()
     );
-  }, [slots, selectedDate]);
+  }, [slots]);
 
   // Step 1: fetch initial resource to learn business_id, then all sibling resources
   useEffect(() => {
@@ -164,12 +205,13 @@ export default function ServiceAvailability(props: ServiceAvailabilityProps) {
       try {
         const { data: initialRes, error: rerr } = await supabase
           .from("business_resources")
-          .select("id,name,business_id")
+          .select("id,name,business_id, businesses:business_id (timezone)")
           .eq("id", initialResourceId)
           .maybeSingle();
         if (rerr) throw rerr;
         if (!initialRes) throw new Error("Resource not found");
 
+        setTimeZone(resolveTimeZone(initialRes.businesses?.timezone));
         setBusinessId((initialRes as Resource).business_id);
 
         const siblings = await fetchResources((initialRes as Resource).business_id);
@@ -196,7 +238,7 @@ export default function ServiceAvailability(props: ServiceAvailabilityProps) {
       setSelectedSlotIds(new Set()); // reset selections when date/resource changes
       try {
         const dateStr = toISODateOnly(selectedDate);
-        const data = await fetchAllSlotsForBusiness(businessId, dateStr);
+        const data = await fetchAllSlotsForBusiness(businessId, dateStr, timeZone);
         setSlots(data || []);
       } catch (e) {
         const message = e instanceof Error ? e.message : "Failed to load slots";
@@ -206,7 +248,7 @@ export default function ServiceAvailability(props: ServiceAvailabilityProps) {
       }
     }
     loadSlots();
-  }, [businessId, selectedDate, loadingResources]);
+  }, [businessId, selectedDate, loadingResources, timeZone]);
 
   // Step 2.5: Ensure slots exist for today + 30 days (regenerate if needed)
   useEffect(() => {
@@ -215,10 +257,9 @@ export default function ServiceAvailability(props: ServiceAvailabilityProps) {
       
       try {
         // Check if we have slots for the last day of the 30-day range for THIS business
-        const today = new Date();
-        const endDate = new Date();
-        endDate.setDate(endDate.getDate() + 30);
-        const endDateStr = toISODateOnly(endDate);
+        const todayStr = toZonedDateString(new Date(), timeZone);
+        const endDateStr = addDaysToDateString(todayStr, 30);
+        const endDateRange = getZonedDayRange(endDateStr, timeZone);
         
         // Get all resource IDs for this business
         const resourceIds = resources.map(r => r.id);
@@ -227,8 +268,8 @@ export default function ServiceAvailability(props: ServiceAvailabilityProps) {
           .from("slots")
           .select("id, resource_id!inner(business_id)")
           .in("resource_id", resourceIds)
-          .gte("start_time", `${endDateStr}T00:00:00.000Z`)
-          .lt("start_time", `${endDateStr}T23:59:59.999Z`)
+          .gte("start_time", endDateRange.start.toISOString())
+          .lt("start_time", endDateRange.end.toISOString())
           .limit(1);
 
         if (checkError) {
@@ -239,7 +280,6 @@ export default function ServiceAvailability(props: ServiceAvailabilityProps) {
         // If no slots exist for the end date for this business, regenerate for all resources
         if (!endDateSlots || endDateSlots.length === 0) {
           console.log(`No slots found for ${endDateStr} for business ${businessId}, regenerating for 30-day range...`);
-          const todayStr = toISODateOnly(today);
 
           for (const resource of resources) {
             await supabase.functions.invoke("generate-slots", {
@@ -247,7 +287,6 @@ export default function ServiceAvailability(props: ServiceAvailabilityProps) {
                 resourceId: resource.id,
                 startDate: todayStr,
                 endDate: endDateStr,
-                slotDurationMinutes: 60,
               },
             });
           }
@@ -255,7 +294,7 @@ export default function ServiceAvailability(props: ServiceAvailabilityProps) {
           // Reload slots after regeneration
           if (selectedDate) {
             const dateStr = toISODateOnly(selectedDate);
-            const data = await fetchAllSlotsForBusiness(businessId, dateStr);
+            const data = await fetchAllSlotsForBusiness(businessId, dateStr, timeZone);
             setSlots(data || []);
           }
         }
@@ -267,7 +306,7 @@ export default function ServiceAvailability(props: ServiceAvailabilityProps) {
     if (resources.length > 0) {
       ensureSlotsExist();
     }
-  }, [businessId, resources, loadingResources, selectedDate]);
+  }, [businessId, resources, loadingResources, selectedDate, timeZone]);
 
   // Step 3: load weekly schedule to disable closed days on the calendar
   useEffect(() => {
@@ -290,6 +329,34 @@ export default function ServiceAvailability(props: ServiceAvailabilityProps) {
     loadWeekly();
   }, [selectedResourceId]);
 
+  // Step 3.1: load date exceptions (holidays, special hours) inside the bookable window
+  useEffect(() => {
+    async function loadExceptions() {
+      if (!selectedResourceId) return;
+      try {
+        const today = toZonedDateString(new Date(), timeZone);
+        const exceptions = await fetchScheduleExceptions(
+          [selectedResourceId],
+          today,
+          addDaysToDateString(today, 30)
+        );
+        setDateExceptions(new Map(exceptions.map((e) => [e.applies_to_date!, e])));
+      } catch (e) {
+        console.error("Failed to load schedule exceptions", e);
+        setDateExceptions(new Map());
+      }
+    }
+    loadExceptions();
+  }, [selectedResourceId, timeZone]);
+
+  // A date exception wins over the weekly rule, so a holiday on an open weekday is greyed out
+  // and special hours on a normally closed weekday stay selectable
+  function isClosedDay(day: Date) {
+    const exception = dateExceptions.get(toISODateOnly(day));
+    if (exception) return !exception.is_open;
+    return disabledDays ? disabledDays.includes(day.getDay()) : false;
+  }
+
   // Step 3.5: Fetch service rules when resource is selected
   useEffect(() => {
     async function loadServiceRules() {
@@ -330,17 +397,33 @@ export default function ServiceAvailability(props: ServiceAvailabilityProps) {
   }, [selectedResourceId]);
 
   function toggleSelect(slot: SlotWithResource) {
-    if (slot.is_booked) return; // can't select booked slot
+    if (slot.is_booked || isSlotHeldByOther(slot, user?.id)) return; // can't select booked or held slot
     setSelectedSlotIds((prev) => {
       const next = new Set(prev);
       if (next.has(slot.id)) {
         next.delete(slot.id);
-        return next;
+      } else {
+        next.add(slot.id);
       }
-      return new Set([slot.id]);
+      return next;
     });
   }
 
+  // Booked or held slots (or the whole day) can be waitlisted; the renter must be signed in
+  function openWaitlist(requested: WaitlistWindow | null) {
+    if (!user) {
+      toast({
+        title: "Sign in required",
+        description: "Please sign in to join the waitlist.",
+        variant: "destructive",
+      });
+      navigate("/auth/signin");
+      return;
+    }
+    setWaitlistWindow(requested);
+    setShowWaitlistDialog(true);
+  }
+
   useEffect(() => {
     if (!businessId) {
       setPaymentMethods([]);
@@ -385,11 +468,58 @@ export default function ServiceAvailability(props: ServiceAvailabilityProps) {
     }
   }, [paymentMethodsError, toast]);
 
+  const handleCheckSeries = async () => {
+    if (!recurrence || !businessId || selectedSlots.length === 0) return;
+
+    setCheckingSeries(true);
+    try {
+      const dates = buildOccurrenceDates(toISODateOnly(selectedDate), recurrence);
+
+      // Slots are generated 30 days ahead; extend them for the later dates of the series
+      const generatedUntil = addDaysToDateString(toZonedDateString(new Date(), timeZone), 30);
+      const lastDate = dates[dates.length - 1];
+      if (lastDate > generatedUntil) {
+        const resourceIds = Array.from(new Set(selectedSlots.map((slot) => slot.resource_id)));
+        for (const resourceId of resourceIds) {
+          await regenerateResourceSlots(resourceId, addDaysToDateString(generatedUntil, 1), lastDate);
+        }
+      }
+
+      setSeriesOccurrences(await findRecurringSlots(businessId, selectedSlots, dates, timeZone, user?.id));
+    } catch (e) {
+      console.error("Failed to check recurring availability", e);
+      toast({
+        title: "Availability check failed",
+        description: "We could not check every date of the series. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setCheckingSeries(false);
+    }
+  };
+
   const handleBookNow = async () => {
-    if (!selectedSlot) {
+    if (selectedSlots.length === 0) {
       toast({
         title: "Select a slot",
-        description: "Please choose a time slot to continue your booking.",
+        description: "Please choose at least one time slot to continue your booking.",
+      });
+      return;
+    }
+
+    if (recurrence && !seriesOccurrences) {
+      toast({
+        title: "Check the repeat dates",
+        description: "Check availability for every date of the series before booking.",
+      });
+      return;
+    }
+
+    if (checkoutSlots.length === 0) {
+      toast({
+        title: "No dates available",
+        description: "None of the repeat dates are free at these times. Please choose another time.",
+        variant: "destructive",
       });
       return;
     }
@@ -420,13 +550,13 @@ export default function ServiceAvailability(props: ServiceAvailabilityProps) {
       });
     }
 
-    // PART A: Verify slot availability before opening modal
+    // PART A: Verify availability of every selected slot before opening modal
+    const selectedIds = checkoutSlots.map((slot) => slot.id);
     try {
-      const { data: slotCheck, error: slotError } = await supabase
+      const { data: slotChecks, error: slotError } = await supabase
         .from("slots")
-        .select("id, is_booked, booking_id, slot_price")
-        .eq("id", selectedSlot.id)
-        .maybeSingle();
+        .select("id, is_booked, booking_id, slot_price, held_by, held_until")
+        .in("id", selectedIds);
 
       if (slotError) {
         toast({
@@ -437,35 +567,66 @@ export default function ServiceAvailability(props: ServiceAvailabilityProps) {
         return;
       }
 
-      if (!slotCheck) {
+      if (!slotChecks || slotChecks.length !== selectedIds.length) {
         toast({
           title: "Slot not found",
-          description: "The selected time slot no longer exists. Please refresh and select another.",
+          description: "A selected time slot no longer exists. Please refresh and select another.",
           variant: "destructive",
         });
         setSelectedSlotIds(new Set());
         return;
       }
 
-      if (slotCheck.is_booked || slotCheck.booking_id) {
+      const takenSlots = slotChecks.filter(
+        (slot) => slot.is_booked || slot.booking_id || isSlotHeldByOther(slot, user.id)
+      );
+      if (takenSlots.length > 0) {
         toast({
           title: "Slot unavailable",
-          description: "Someone just booked this slot. Please select another time.",
+          description: "Someone just booked one of your selected slots. Please select another time.",
           variant: "destructive",
         });
-        // Update local state to reflect the booking
+        // Update local state to reflect the booking or hold
+        const takenById = new Map(takenSlots.map((slot) => [slot.id, slot]));
         setSlots((prev) =>
-          prev.map((slot) =>
-            slot.id === selectedSlot.id
-              ? { ...slot, is_booked: true, booking_id: slotCheck.booking_id }
-              : slot
-          )
+          prev.map((slot) => (takenById.has(slot.id) ? { ...slot, ...takenById.get(slot.id) } : slot))
         );
         setSelectedSlotIds(new Set());
         return;
       }
 
-      // Slot is available, proceed to modal
+      // Hold the slots so no other renter can reach the receipt step for them
+      const holdResult = await holdSlots(selectedIds);
+      if (holdResult.success === false) {
+        toast({
+          title: "Slot unavailable",
+          description: holdResult.error,
+          variant: "destructive",
+        });
+        if (businessId) {
+          const data = await fetchAllSlotsForBusiness(businessId, toISODateOnly(selectedDate), timeZone);
+          setSlots(data || []);
+        }
+        setSelectedSlotIds(new Set());
+        return;
+      }
+
+      setHeldSlotIds(selectedIds);
+      setHoldExpiresAt(holdResult.heldUntil);
+
+      // Without the deposit the renter can still pay in full, so a failed lookup is not fatal
+      try {
+        const [deposit, fullPrepayment] = await Promise.all([
+          fetchDepositAmount(selectedIds),
+          fetchPrepaymentRequired(selectedIds),
+        ]);
+        setDepositAmount(deposit);
+        setPrepaymentRequired(fullPrepayment);
+      } catch (depositError) {
+        console.error("Failed to load deposit amount", depositError);
+        setDepositAmount(null);
+        setPrepaymentRequired(false);
+      }
       setShowReceiptModal(true);
     } catch (error) {
       console.error("Slot verification error:", error);
@@ -477,9 +638,17 @@ export default function ServiceAvailability(props: ServiceAvailabilityProps) {
     }
   };
 
-  const handleSubmitReceipt = async (file: File | null, paymentMethod: string | null) => {
-    if (!selectedSlot || !user) return;
-    if (selectedSlot.slot_price === null || selectedSlot.slot_price === undefined) {
+  const handleCloseReceiptModal = () => {
+    setShowReceiptModal(false);
+    // Give the slots back to other renters when checkout is abandoned
+    releaseSlotHolds(heldSlotIds);
+    setHeldSlotIds([]);
+    setHoldExpiresAt(null);
+  };
+
+  const handleSubmitReceipt = async (file: File | null, paymentMethod: string | null, amountPaid: number) => {
+    if (checkoutSlots.length === 0 || !user) return;
+    if (checkoutSlots.some((slot) => slot.slot_price === null || slot.slot_price === undefined)) {
       toast({
         title: "Slot pricing unavailable",
         description: "We could not verify the slot price. Please refresh and try again.",
@@ -491,11 +660,11 @@ export default function ServiceAvailability(props: ServiceAvailabilityProps) {
     setIsSubmittingBooking(true);
     try {
       // PART B: Final verification before atomic submission
-      const { data: finalSlotCheck, error: finalSlotError } = await supabase
+      const selectedIds = checkoutSlots.map((slot) => slot.id);
+      const { data: finalSlotChecks, error: finalSlotError } = await supabase
         .from("slots")
         .select("id, is_booked, booking_id, slot_price, start_time, end_time")
-        .eq("id", selectedSlot.id)
-        .maybeSingle();
+        .in("id", selectedIds);
 
       if (finalSlotError) {
         toast({
@@ -506,37 +675,39 @@ export default function ServiceAvailability(props: ServiceAvailabilityProps) {
         return;
       }
 
-      if (!finalSlotCheck) {
+      if (!finalSlotChecks || finalSlotChecks.length !== selectedIds.length) {
         toast({
           title: "Slot not found",
-          description: "The selected time slot no longer exists. Please refresh and select another.",
+          description: "A selected time slot no longer exists. Please refresh and select another.",
           variant: "destructive",
         });
-        setShowReceiptModal(false);
+        handleCloseReceiptModal();
         setSelectedSlotIds(new Set());
         return;
       }
 
-      if (finalSlotCheck.is_booked || finalSlotCheck.booking_id) {
+      const takenSlots = finalSlotChecks.filter((slot) => slot.is_booked || slot.booking_id);
+      if (takenSlots.length > 0) {
         toast({
           title: "Slot just booked",
-          description: "Someone booked this slot moments ago. Please select another time.",
+          description: "Someone booked one of your slots moments ago. Please select another time.",
           variant: "destructive",
         });
+        const takenIds = new Set(takenSlots.map((slot) => slot.id));
         setSlots((prev) =>
-          prev.map((slot) =>
-            slot.id === selectedSlot.id
-              ? { ...slot, is_booked: true, booking_id: finalSlotCheck.booking_id }
-              : slot
-          )
+          prev.map((slot) => (takenIds.has(slot.id) ? { ...slot, is_booked: true } : slot))
         );
-        setShowReceiptModal(false);
+        handleCloseReceiptModal();
         setSelectedSlotIds(new Set());
         return;
       }
 
       // Price match verification
-      if (Number(finalSlotCheck.slot_price) !== Number(selectedSlot.slot_price)) {
+      const finalPrices = new Map(finalSlotChecks.map((slot) => [slot.id, Number(slot.slot_price)]));
+      const changedSlots = checkoutSlots.filter(
+        (slot) => finalPrices.get(slot.id) !== Number(slot.slot_price)
+      );
+      if (changedSlots.length > 0) {
         toast({
           title: "Price changed",
           description: "The slot price has been updated. Please review and try again.",
@@ -544,24 +715,16 @@ export default function ServiceAvailability(props: ServiceAvailabilityProps) {
         });
         setSlots((prev) =>
           prev.map((slot) =>
-            slot.id === selectedSlot.id
-              ? { ...slot, slot_price: finalSlotCheck.slot_price }
-              : slot
+            finalPrices.has(slot.id) ? { ...slot, slot_price: finalPrices.get(slot.id)! } : slot
           )
         );
-        setShowReceiptModal(false);
+        handleCloseReceiptModal();
         setSelectedSlotIds(new Set());
         return;
       }
 
       // All verifications passed - proceed with atomic booking submission
-      const result = await submitBooking(
-        selectedSlot.id,
-        user.id,
-        Number(selectedSlot.slot_price),
-        file,
-        paymentMethod
-      );
+      const result = await submitBooking(selectedIds, user.id, amountPaid, file, paymentMethod, recurrence);
 
       if (result.success === false) {
         toast({
@@ -574,17 +737,22 @@ export default function ServiceAvailability(props: ServiceAvailabilityProps) {
 
       toast({
         title: "Booking submitted",
-        description: "We received your receipt. Sit tight while the renter confirms your booking.",
+        description:
+          amountPaid < checkoutTotal
+            ? `We received your deposit receipt. Please pay the remaining ${currency.format(
+                checkoutTotal - amountPaid
+              )} at the venue.`
+            : "We received your receipt. Sit tight while the renter confirms your booking.",
       });
 
       setShowReceiptModal(false);
+      setHeldSlotIds([]);
+      setHoldExpiresAt(null);
       setSelectedSlotIds(new Set());
+      setRecurrence(null);
+      const bookedIds = new Set(selectedIds);
       setSlots((prev) =>
-        prev.map((slot) =>
-          slot.id === selectedSlot.id
-            ? { ...slot, is_booked: true, booking_id: result.bookingId }
-            : slot
-        )
+        prev.map((slot) => (bookedIds.has(slot.id) ? { ...slot, is_booked: true } : slot))
       );
 
       navigate("/dashboard");
@@ -660,7 +828,7 @@ export default function ServiceAvailability(props: ServiceAvailabilityProps) {
                 disabled={[
                   { before: new Date() },
                   { after: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000) },
-                  ...(disabledDays ? [{ dayOfWeek: disabledDays }] : []),
+                  isClosedDay,
                 ]}
                 styles={{
                   caption: { textTransform: "capitalize" },
@@ -674,10 +842,16 @@ export default function ServiceAvailability(props: ServiceAvailabilityProps) {
 
         {/* Schedule Table Card */}
         <Card className="shadow-lg border-primary/10">
-          <CardHeader className="bg-muted/30">
+          <CardHeader className="bg-muted/30 flex flex-row items-center justify-between gap-2 space-y-0">
             <CardTitle className="text-sm md:text-base font-semibold tracking-wide text-foreground">
               AVAILABLE SCHEDULE ({toDisplayHeader(selectedDate)})
             </CardTitle>
+            {slotMatrix.length > 0 && (
+              <Button variant="outline" size="sm" onClick={() => openWaitlist(null)}>
+                <BellRing className="h-4 w-4 mr-1" />
+                Join Waitlist
+              </Button>
+            )}
           </CardHeader>
           <CardContent className="p-0">
             <div className="overflow-x-auto">
@@ -726,7 +900,7 @@ export default function ServiceAvailability(props: ServiceAvailabilityProps) {
                           className={idx % 2 ? "bg-background" : "bg-muted/20"}
                         >
                           <td className="px-4 py-4 font-medium">
-                            {formatTimeRange(row.start_time, row.end_time)}
+                            {formatTimeRange(row.start_time, row.end_time, timeZone)}
                           </td>
                           <td className="px-4 py-4 font-semibold text-primary">
                             {rowPrice !== null && rowPrice !== undefined
@@ -744,9 +918,12 @@ export default function ServiceAvailability(props: ServiceAvailabilityProps) {
                             }
 
                             const isSelected = selectedSlotIds.has(slot.id);
-                            const isBooked = slot.is_booked;
+                            const isHeld = !slot.is_booked && isSlotHeldByOther(slot, user?.id);
+                            const isBooked = slot.is_booked || isHeld;
 
-                            const icon = isBooked ? (
+                            const icon = isHeld ? (
+                              <Clock className="h-5 w-5 text-amber-500" />
+                            ) : isBooked ? (
                               <XCircle className="h-5 w-5 text-destructive" />
                             ) : (
                               <CheckCircle2
@@ -761,17 +938,29 @@ export default function ServiceAvailability(props: ServiceAvailabilityProps) {
                                 <div
                                   className={`flex items-center gap-2 rounded-lg p-2 transition-colors ${
                                     isBooked
-                                      ? "opacity-60 cursor-not-allowed"
+                                      ? "opacity-60 cursor-pointer hover:opacity-100"
                                       : "cursor-pointer hover:bg-primary/10"
                                   } ${
                                     isSelected ? "ring-2 ring-primary ring-inset bg-primary/10" : ""
                                   }`}
                                   onClick={() => {
-                                    if (!isBooked) toggleSelect(slot);
+                                    if (isBooked) {
+                                      openWaitlist({
+                                        resourceId: resource.id,
+                                        start: slot.start_time,
+                                        end: slot.end_time,
+                                      });
+                                    } else {
+                                      toggleSelect(slot);
+                                    }
                                   }}
+                                  title={isBooked ? "Join the waitlist for this slot" : undefined}
                                 >
                                   {icon}
-                                  <span className="sr-only">{resource.name}</span>
+                                  <span className="sr-only">
+                                    {resource.name}
+                                    {isHeld ? " (on hold)" : ""}
+                                  </span>
                                 </div>
                               </td>
                             );
@@ -792,18 +981,38 @@ export default function ServiceAvailability(props: ServiceAvailabilityProps) {
         </Card>
       </div>
 
+      <div className="max-w-6xl w-full mx-auto px-4 md:px-8 pb-6">
+        <RecurringBookingOptions
+          rule={recurrence}
+          onRuleChange={setRecurrence}
+          occurrences={seriesOccurrences}
+          checking={checkingSeries}
+          onCheck={handleCheckSeries}
+          canCheck={selectedSlots.length > 0 && !!businessId}
+        />
+      </div>
+
       {/* Sticky footer / checkout with shadow */}
       <div className="sticky bottom-0 left-0 right-0 bg-primary text-primary-foreground shadow-2xl border-t border-primary/20">
         <div className="max-w-6xl w-full mx-auto flex flex-col sm:flex-row items-center justify-between gap-4 px-4 md:px-8 py-4">
           <div className="text-center sm:text-left">
             <div className="text-xs tracking-wide opacity-90 uppercase">Total Charges</div>
-            <div className="text-2xl md:text-3xl font-bold">{currency.format(total)}</div>
+            <div className="text-2xl md:text-3xl font-bold">{currency.format(checkoutTotal)}</div>
+            {recurrence && seriesOccurrences ? (
+              <div className="text-xs opacity-90">
+                {checkoutSlots.length} slots across {seriesOccurrences.filter((o) => !o.conflict).length} dates
+              </div>
+            ) : (
+              selectedSlotIds.size > 1 && (
+                <div className="text-xs opacity-90">{selectedSlotIds.size} slots selected</div>
+              )
+            )}
           </div>
           <Button
             size="lg"
             variant="secondary"
             className="w-full sm:w-auto px-8 py-6 text-base font-semibold shadow-lg hover:shadow-xl transition-all"
-            disabled={selectedSlotIds.size !== 1}
+            disabled={selectedSlotIds.size === 0}
             onClick={handleBookNow}
           >
             BOOK NOW
@@ -811,11 +1020,26 @@ export default function ServiceAvailability(props: ServiceAvailabilityProps) {
         </div>
       </div>
 
+      {businessId && (
+        <JoinWaitlistDialog
+          open={showWaitlistDialog}
+          onOpenChange={setShowWaitlistDialog}
+          businessId={businessId}
+          resources={resources}
+          timeZone={timeZone}
+          times={slotMatrix}
+          initialWindow={waitlistWindow}
+        />
+      )}
+
       <SubmitReceiptModal
         open={showReceiptModal}
-        onClose={() => setShowReceiptModal(false)}
+        onClose={handleCloseReceiptModal}
+        holdExpiresAt={holdExpiresAt}
         paymentMethods={paymentMethods}
-        amount={total}
+        amount={checkoutTotal}
+        depositAmount={depositAmount}
+        prepaymentRequired={prepaymentRequired}
         isSubmitting={isSubmittingBooking}
         onSubmit={handleSubmitReceipt}
       />
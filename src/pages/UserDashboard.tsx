@@ -9,8 +9,18 @@ import { supabase } from "@/integrations/supabase/client";
 import BusinessForm from "@/components/BusinessForm";
 import UpgradeModal from "@/components/UpgradeModal";
 import RenterConfirmationScreen from "@/components/RenterConfirmationScreen";
+import { CancelBookingDialog } from "@/components/CancelBookingDialog";
+import { OwnerAnalytics } from "@/components/OwnerAnalytics";
+import { RenterReliabilityBadge } from "@/components/RenterReliabilityBadge";
+import { RescheduleBookingDialog } from "@/components/RescheduleBookingDialog";
+import { WaitlistOffers } from "@/components/WaitlistOffers";
 import { addDays, addHours, format } from "date-fns";
 import { formatDateWithOrdinal } from "@/lib/dateUtils";
+import { resolveTimeZone, toZonedWallClock } from "@/lib/timezone";
+import { canChangeBooking, getBookingStatusClassName, getBookingStatusLabel } from "@/lib/cancellationPolicy";
+import { markBookingRefunded, settleBookingBalance } from "@/lib/bookingActions";
+import { fetchRenterReliability, type RenterReliability } from "@/lib/bookingData";
+import { describeRecurrence, parseRecurrence } from "@/lib/recurrence";
 import { toast } from "@/hooks/use-toast";
 import { 
   User, 
@@ -25,7 +35,8 @@ import {
   Edit,
   ArrowUp,
   Calendar,
-  Eye
+  Eye,
+  BarChart3
 } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import {
@@ -60,6 +71,7 @@ const sidebarItems = [
   { title: "Get Website + POS", icon: Globe, action: "website-pos" },
   { title: "My Listings", icon: Building2, action: "listings" },
   { title: "Manage Bookings", icon: Calendar, action: "manage-bookings" },
+  { title: "Analytics", icon: BarChart3, action: "analytics" },
   { title: "Profile Info", icon: User, action: "profile" },
   { title: "Email Settings", icon: Mail, action: "email" },
 ];
@@ -84,6 +96,7 @@ export default function UserDashboard() {
   const [pendingBookings, setPendingBookings] = React.useState<any[]>([]);
   const [loadingPendingBookings, setLoadingPendingBookings] = React.useState(false);
   const [ownerPendingCount, setOwnerPendingCount] = React.useState(0);
+  const [renterReliability, setRenterReliability] = React.useState<Map<string, RenterReliability>>(new Map());
   const [selectedBookingId, setSelectedBookingId] = React.useState<string | null>(null);
   const [confirmationDialogOpen, setConfirmationDialogOpen] = React.useState(false);
 
@@ -192,15 +205,23 @@ export default function UserDashboard() {
           status,
           payment_amount,
           payment_method,
+          refund_amount,
+          balance_due,
+          cancellation_reason,
+          rejection_reason,
+          recurrence,
           created_at,
           resource_id,
           user_id,
           slot_id,
-          slots (
+          slots!bookings_slot_id_fkey (
             start_time,
             end_time,
             slot_price
           ),
+          booking_slots (
+            slot_id
+          ),
           business_resources (
             name,
             business_id,
@@ -208,7 +229,8 @@ export default function UserDashboard() {
             businesses (
               id,
               name,
-              owner_id
+              owner_id,
+              timezone
             ),
             services (
               popular_products
@@ -233,15 +255,23 @@ export default function UserDashboard() {
           status,
           payment_amount,
           payment_method,
+          refund_amount,
+          balance_due,
+          cancellation_reason,
+          rejection_reason,
+          recurrence,
           created_at,
           resource_id,
           user_id,
           slot_id,
-          slots (
+          slots!bookings_slot_id_fkey (
             start_time,
             end_time,
             slot_price
           ),
+          booking_slots (
+            slot_id
+          ),
           business_resources!inner (
             name,
             business_id,
@@ -249,7 +279,8 @@ export default function UserDashboard() {
             businesses!inner (
               id,
               name,
-              owner_id
+              owner_id,
+              timezone
             ),
             services (
               popular_products
@@ -294,6 +325,16 @@ export default function UserDashboard() {
       // Calculate owner pending count
       const ownerCount = (ownerBookings || []).length;
       setOwnerPendingCount(ownerCount);
+
+      // Reliability of the renters behind the owner's pending bookings; walk-ins are under the owner's own id
+      const pendingRenterIds = (ownerBookings || [])
+        .filter((booking) => booking.status === 'Pending' && booking.user_id !== user.id)
+        .map((booking) => booking.user_id);
+      try {
+        setRenterReliability(await fetchRenterReliability(pendingRenterIds));
+      } catch (reliabilityError) {
+        console.error('Error fetching renter reliability:', reliabilityError);
+      }
     } catch (error) {
       console.error('Error:', error);
     } finally {
@@ -301,6 +342,26 @@ export default function UserDashboard() {
     }
   };
 
+  const handleMarkRefunded = async (bookingId: string) => {
+    const result = await markBookingRefunded(bookingId);
+    if (result.success === false) {
+      toast({ title: "Error", description: result.error, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Refund recorded", description: "The booking is now marked as refunded." });
+    fetchPendingBookings();
+  };
+
+  const handleSettleBalance = async (bookingId: string) => {
+    const result = await settleBookingBalance(bookingId);
+    if (result.success === false) {
+      toast({ title: "Error", description: result.error, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Balance settled", description: "The outstanding balance has been recorded as settled." });
+    fetchPendingBookings();
+  };
+
   React.useEffect(() => {
     if (user?.id) {
       fetchDashboardCounts();
@@ -634,6 +695,14 @@ export default function UserDashboard() {
           </div>
         );
 
+      case "analytics":
+        return (
+          <div className="space-y-6 animate-fade-in">
+            <h2 className="text-3xl font-bold bg-gradient-to-r from-dashboard-gradient-start to-dashboard-gradient-end bg-clip-text text-transparent">Analytics</h2>
+            {user?.id && <OwnerAnalytics ownerId={user.id} />}
+          </div>
+        );
+
       case "add-listing":
         return (
           <div className="space-y-6 animate-fade-in">
@@ -725,6 +794,8 @@ export default function UserDashboard() {
               </div>
             </div>
 
+            {user?.id && <WaitlistOffers userId={user.id} />}
+
             {/* My Reservations Section */}
             <div className="animate-slide-up">
               <h3 className="text-xl font-semibold mb-6 flex items-center gap-2">
@@ -760,8 +831,10 @@ export default function UserDashboard() {
                               ? `${Math.ceil((confirmationWindowEnd.getTime() - now.getTime()) / (1000 * 60))} min`
                               : 'Expired';
                             
-                            const slotStartTime = booking.slots?.start_time ? new Date(booking.slots.start_time) : null;
-                            const slotEndTime = booking.slots?.end_time ? new Date(booking.slots.end_time) : null;
+                            // Show slot times in the business's local time
+                            const slotTimeZone = resolveTimeZone(booking.business_resources?.businesses?.timezone);
+                            const slotStartTime = booking.slots?.start_time ? toZonedWallClock(new Date(booking.slots.start_time), slotTimeZone) : null;
+                            const slotEndTime = booking.slots?.end_time ? toZonedWallClock(new Date(booking.slots.end_time), slotTimeZone) : null;
                             
                             // Combine service name and business name
                             const businessName = booking.business_resources?.businesses?.name;
@@ -799,6 +872,12 @@ export default function UserDashboard() {
                                   {slotStartTime && slotEndTime ? (
                                     <div className="text-sm">
                                       {format(slotStartTime, "h:mm a")} - {format(slotEndTime, "h:mm a")} [{fieldName}]
+                                      {booking.booking_slots?.length > 1 && ` +${booking.booking_slots.length - 1} more`}
+                                      {parseRecurrence(booking.recurrence) && (
+                                        <div className="text-xs text-muted-foreground">
+                                          {describeRecurrence(parseRecurrence(booking.recurrence)!)}
+                                        </div>
+                                      )}
                                     </div>
                                   ) : (
                                     <span className="text-muted-foreground">-</span>
@@ -810,11 +889,35 @@ export default function UserDashboard() {
                                     currency: "MMK",
                                     maximumFractionDigits: 0,
                                   }).format(Number(booking.payment_amount || 0))}
+                                  {Number(booking.balance_due) !== 0 && (
+                                    <div className="text-xs text-muted-foreground">
+                                      {Number(booking.balance_due) > 0 ? "Balance due" : "Refund due"}:{" "}
+                                      {new Intl.NumberFormat("en-US", {
+                                        style: "currency",
+                                        currency: "MMK",
+                                        maximumFractionDigits: 0,
+                                      }).format(Math.abs(Number(booking.balance_due)))}
+                                    </div>
+                                  )}
                                 </TableCell>
                                 <TableCell>
-                                  <span className="px-2 py-1 bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200 rounded text-xs font-medium">
-                                    {booking.status}
+                                  <span className={`px-2 py-1 rounded text-xs font-medium ${getBookingStatusClassName(booking.status)}`}>
+                                    {getBookingStatusLabel(booking.status)}
                                   </span>
+                                  {booking.refund_amount > 0 && (
+                                    <div className="mt-1 text-xs text-muted-foreground">
+                                      Refund: {new Intl.NumberFormat("en-US", {
+                                        style: "currency",
+                                        currency: "MMK",
+                                        maximumFractionDigits: 0,
+                                      }).format(Number(booking.refund_amount))}
+                                    </div>
+                                  )}
+                                  {booking.status === "Rejected" && booking.rejection_reason && (
+                                    <div className="mt-1 text-xs text-muted-foreground max-w-[200px]">
+                                      Reason: {booking.rejection_reason}
+                                    </div>
+                                  )}
                                 </TableCell>
                                 <TableCell className="text-sm text-muted-foreground">
                                   {format(createdAt, "dd MMM yyyy, h:mm a")}
@@ -824,6 +927,31 @@ export default function UserDashboard() {
                                 </TableCell>
                                 <TableCell>
                                   <div className="flex flex-col gap-2">
+                                    {canChangeBooking(booking.status, booking.slots?.start_time ?? null) && (
+                                      <CancelBookingDialog
+                                        bookingId={booking.id}
+                                        resourceId={booking.resource_id}
+                                        amount={Number(booking.payment_amount || 0)}
+                                        paymentMethod={booking.payment_method}
+                                        firstSlotStart={booking.slots?.start_time ?? null}
+                                        onCancelled={fetchPendingBookings}
+                                      />
+                                    )}
+                                    {canChangeBooking(booking.status, booking.slots?.start_time ?? null) && (
+                                      <RescheduleBookingDialog
+                                        bookingId={booking.id}
+                                        onRescheduled={fetchPendingBookings}
+                                      />
+                                    )}
+                                    {booking.status === "Confirmed" && (
+                                      <Button
+                                        size="sm"
+                                        variant="outline"
+                                        onClick={() => navigate(`/bookings/${booking.id}/pending`)}
+                                      >
+                                        Show Ticket
+                                      </Button>
+                                    )}
                                     {booking.service_contact_phone && (
                                       <Button
                                         size="sm"
@@ -853,8 +981,10 @@ export default function UserDashboard() {
                         ? `${Math.ceil((confirmationWindowEnd.getTime() - now.getTime()) / (1000 * 60))} min`
                         : 'Expired';
                       
-                      const slotStartTime = booking.slots?.start_time ? new Date(booking.slots.start_time) : null;
-                      const slotEndTime = booking.slots?.end_time ? new Date(booking.slots.end_time) : null;
+                      // Show slot times in the business's local time
+                      const slotTimeZone = resolveTimeZone(booking.business_resources?.businesses?.timezone);
+                      const slotStartTime = booking.slots?.start_time ? toZonedWallClock(new Date(booking.slots.start_time), slotTimeZone) : null;
+                      const slotEndTime = booking.slots?.end_time ? toZonedWallClock(new Date(booking.slots.end_time), slotTimeZone) : null;
                       
                       // Combine service name and business name
                       const businessName = booking.business_resources?.businesses?.name;
@@ -884,9 +1014,25 @@ export default function UserDashboard() {
                                   {displayName}
                                 </div>
                               </div>
-                              <span className="px-2 py-1 bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200 rounded text-xs font-medium">
-                                {booking.status}
-                              </span>
+                              <div className="text-right">
+                                <span className={`px-2 py-1 rounded text-xs font-medium ${getBookingStatusClassName(booking.status)}`}>
+                                  {getBookingStatusLabel(booking.status)}
+                                </span>
+                                {booking.refund_amount > 0 && (
+                                  <div className="mt-1 text-xs text-muted-foreground">
+                                    Refund: {new Intl.NumberFormat("en-US", {
+                                      style: "currency",
+                                      currency: "MMK",
+                                      maximumFractionDigits: 0,
+                                    }).format(Number(booking.refund_amount))}
+                                  </div>
+                                )}
+                                {booking.status === "Rejected" && booking.rejection_reason && (
+                                  <div className="mt-1 text-xs text-muted-foreground max-w-[200px]">
+                                    Reason: {booking.rejection_reason}
+                                  </div>
+                                )}
+                              </div>
                             </div>
 
                             <div>
@@ -905,6 +1051,12 @@ export default function UserDashboard() {
                               {slotStartTime && slotEndTime ? (
                                 <div className="text-sm">
                                   {format(slotStartTime, "h:mm a")} - {format(slotEndTime, "h:mm a")} [{fieldName}]
+                                  {booking.booking_slots?.length > 1 && ` +${booking.booking_slots.length - 1} more`}
+                                  {parseRecurrence(booking.recurrence) && (
+                                    <div className="text-xs text-muted-foreground">
+                                      {describeRecurrence(parseRecurrence(booking.recurrence)!)}
+                                    </div>
+                                  )}
                                 </div>
                               ) : (
                                 <span className="text-muted-foreground">-</span>
@@ -920,6 +1072,16 @@ export default function UserDashboard() {
                                   maximumFractionDigits: 0,
                                 }).format(Number(booking.payment_amount || 0))}
                               </div>
+                              {Number(booking.balance_due) !== 0 && (
+                                <div className="text-xs text-muted-foreground">
+                                  {Number(booking.balance_due) > 0 ? "Balance due" : "Refund due"}:{" "}
+                                  {new Intl.NumberFormat("en-US", {
+                                    style: "currency",
+                                    currency: "MMK",
+                                    maximumFractionDigits: 0,
+                                  }).format(Math.abs(Number(booking.balance_due)))}
+                                </div>
+                              )}
                             </div>
 
                             <div className="flex justify-between">
@@ -938,6 +1100,34 @@ export default function UserDashboard() {
                             </div>
 
                             <div className="flex flex-col gap-2 pt-2">
+                              {canChangeBooking(booking.status, booking.slots?.start_time ?? null) && (
+                                <CancelBookingDialog
+                                  bookingId={booking.id}
+                                  resourceId={booking.resource_id}
+                                  amount={Number(booking.payment_amount || 0)}
+                                  paymentMethod={booking.payment_method}
+                                  firstSlotStart={booking.slots?.start_time ?? null}
+                                  onCancelled={fetchPendingBookings}
+                                  className="w-full"
+                                />
+                              )}
+                              {canChangeBooking(booking.status, booking.slots?.start_time ?? null) && (
+                                <RescheduleBookingDialog
+                                  bookingId={booking.id}
+                                  onRescheduled={fetchPendingBookings}
+                                  className="w-full"
+                                />
+                              )}
+                              {booking.status === "Confirmed" && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => navigate(`/bookings/${booking.id}/pending`)}
+                                  className="w-full"
+                                >
+                                  Show Ticket
+                                </Button>
+                              )}
                               {booking.service_contact_phone && (
                                 <Button
                                   size="sm"
@@ -968,10 +1158,24 @@ export default function UserDashboard() {
 
             {/* My Services & Bookings Section */}
             <div className="animate-slide-up">
-              <h3 className="text-xl font-semibold mb-6 flex items-center gap-2">
-                <Calendar className="h-5 w-5 text-primary" />
-                Action Required: Pending Verification
-              </h3>
+              <div className="mb-6 flex items-center justify-between gap-2">
+                <h3 className="text-xl font-semibold flex items-center gap-2">
+                  <Calendar className="h-5 w-5 text-primary" />
+                  Action Required: Pending Verification
+                </h3>
+                <div className="flex items-center gap-2">
+                  {businessCount > 0 && (
+                    <Button variant="outline" size="sm" onClick={() => navigate("/check-in")}>
+                      Check-in
+                    </Button>
+                  )}
+                  {ownerPendingCount > 0 && (
+                    <Button variant="outline" size="sm" onClick={() => navigate("/booking-inbox")}>
+                      Open Inbox
+                    </Button>
+                  )}
+                </div>
+              </div>
               {loadingPendingBookings ? (
                 <LoadingSpinner />
               ) : pendingBookings.filter(booking => booking.business_resources?.businesses?.owner_id === user?.id).length > 0 ? (
@@ -1001,8 +1205,10 @@ export default function UserDashboard() {
                               ? `${Math.ceil((confirmationWindowEnd.getTime() - now.getTime()) / (1000 * 60))} min`
                               : 'Expired';
                             
-                            const slotStartTime = booking.slots?.start_time ? new Date(booking.slots.start_time) : null;
-                            const slotEndTime = booking.slots?.end_time ? new Date(booking.slots.end_time) : null;
+                            // Show slot times in the business's local time
+                            const slotTimeZone = resolveTimeZone(booking.business_resources?.businesses?.timezone);
+                            const slotStartTime = booking.slots?.start_time ? toZonedWallClock(new Date(booking.slots.start_time), slotTimeZone) : null;
+                            const slotEndTime = booking.slots?.end_time ? toZonedWallClock(new Date(booking.slots.end_time), slotTimeZone) : null;
                             
                             // Combine service name and business name
                             const businessName = booking.business_resources?.businesses?.name;
@@ -1040,6 +1246,12 @@ export default function UserDashboard() {
                                   {slotStartTime && slotEndTime ? (
                                     <div className="text-sm">
                                       {format(slotStartTime, "h:mm a")} - {format(slotEndTime, "h:mm a")} [{fieldName}]
+                                      {booking.booking_slots?.length > 1 && ` +${booking.booking_slots.length - 1} more`}
+                                      {parseRecurrence(booking.recurrence) && (
+                                        <div className="text-xs text-muted-foreground">
+                                          {describeRecurrence(parseRecurrence(booking.recurrence)!)}
+                                        </div>
+                                      )}
                                     </div>
                                   ) : (
                                     <span className="text-muted-foreground">-</span>
@@ -1051,11 +1263,40 @@ export default function UserDashboard() {
                                     currency: "MMK",
                                     maximumFractionDigits: 0,
                                   }).format(Number(booking.payment_amount || 0))}
+                                  {Number(booking.balance_due) !== 0 && (
+                                    <div className="text-xs text-muted-foreground">
+                                      {Number(booking.balance_due) > 0 ? "Balance due" : "Refund due"}:{" "}
+                                      {new Intl.NumberFormat("en-US", {
+                                        style: "currency",
+                                        currency: "MMK",
+                                        maximumFractionDigits: 0,
+                                      }).format(Math.abs(Number(booking.balance_due)))}
+                                    </div>
+                                  )}
                                 </TableCell>
                                 <TableCell>
-                                  <span className="px-2 py-1 bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200 rounded text-xs font-medium">
-                                    {booking.status}
+                                  <span className={`px-2 py-1 rounded text-xs font-medium ${getBookingStatusClassName(booking.status)}`}>
+                                    {getBookingStatusLabel(booking.status)}
                                   </span>
+                                  {booking.status === "Pending" && (
+                                    <div>
+                                      <RenterReliabilityBadge reliability={renterReliability.get(booking.user_id)} className="mt-1" />
+                                    </div>
+                                  )}
+                                  {booking.refund_amount > 0 && (
+                                    <div className="mt-1 text-xs text-muted-foreground">
+                                      Refund: {new Intl.NumberFormat("en-US", {
+                                        style: "currency",
+                                        currency: "MMK",
+                                        maximumFractionDigits: 0,
+                                      }).format(Number(booking.refund_amount))}
+                                    </div>
+                                  )}
+                                  {booking.status === "Rejected" && booking.rejection_reason && (
+                                    <div className="mt-1 text-xs text-muted-foreground max-w-[200px]">
+                                      Reason: {booking.rejection_reason}
+                                    </div>
+                                  )}
                                 </TableCell>
                                 <TableCell className="text-sm text-muted-foreground">
                                   {format(createdAt, "dd MMM yyyy, h:mm a")}
@@ -1076,6 +1317,31 @@ export default function UserDashboard() {
                                       <Eye className="h-4 w-4 mr-1" />
                                       Review
                                     </Button>
+                                    {booking.status === "RefundPending" && (
+                                      <Button
+                                        size="sm"
+                                        variant="secondary"
+                                        onClick={() => handleMarkRefunded(booking.id)}
+                                      >
+                                        Mark Refunded
+                                      </Button>
+                                    )}
+                                    {canChangeBooking(booking.status, booking.slots?.start_time ?? null) && (
+                                      <RescheduleBookingDialog
+                                        bookingId={booking.id}
+                                        asOwner
+                                        onRescheduled={fetchPendingBookings}
+                                      />
+                                    )}
+                                    {Number(booking.balance_due) !== 0 && (
+                                      <Button
+                                        size="sm"
+                                        variant="secondary"
+                                        onClick={() => handleSettleBalance(booking.id)}
+                                      >
+                                        Settle Balance
+                                      </Button>
+                                    )}
                                     {booking.service_contact_phone && (
                                       <Button
                                         size="sm"
@@ -1105,8 +1371,10 @@ export default function UserDashboard() {
                         ? `${Math.ceil((confirmationWindowEnd.getTime() - now.getTime()) / (1000 * 60))} min`
                         : 'Expired';
                       
-                      const slotStartTime = booking.slots?.start_time ? new Date(booking.slots.start_time) : null;
-                      const slotEndTime = booking.slots?.end_time ? new Date(booking.slots.end_time) : null;
+                      // Show slot times in the business's local time
+                      const slotTimeZone = resolveTimeZone(booking.business_resources?.businesses?.timezone);
+                      const slotStartTime = booking.slots?.start_time ? toZonedWallClock(new Date(booking.slots.start_time), slotTimeZone) : null;
+                      const slotEndTime = booking.slots?.end_time ? toZonedWallClock(new Date(booking.slots.end_time), slotTimeZone) : null;
                       
                       // Combine service name and business name
                       const businessName = booking.business_resources?.businesses?.name;
@@ -1136,9 +1404,30 @@ export default function UserDashboard() {
                                   {displayName}
                                 </div>
                               </div>
-                              <span className="px-2 py-1 bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200 rounded text-xs font-medium">
-                                {booking.status}
-                              </span>
+                              <div className="text-right">
+                                <span className={`px-2 py-1 rounded text-xs font-medium ${getBookingStatusClassName(booking.status)}`}>
+                                  {getBookingStatusLabel(booking.status)}
+                                </span>
+                                {booking.status === "Pending" && (
+                                  <div>
+                                    <RenterReliabilityBadge reliability={renterReliability.get(booking.user_id)} className="mt-1" />
+                                  </div>
+                                )}
+                                {booking.refund_amount > 0 && (
+                                  <div className="mt-1 text-xs text-muted-foreground">
+                                    Refund: {new Intl.NumberFormat("en-US", {
+                                      style: "currency",
+                                      currency: "MMK",
+                                      maximumFractionDigits: 0,
+                                    }).format(Number(booking.refund_amount))}
+                                  </div>
+                                )}
+                                {booking.status === "Rejected" && booking.rejection_reason && (
+                                  <div className="mt-1 text-xs text-muted-foreground max-w-[200px]">
+                                    Reason: {booking.rejection_reason}
+                                  </div>
+                                )}
+                              </div>
                             </div>
 
                             <div>
@@ -1157,6 +1446,12 @@ export default function UserDashboard() {
                               {slotStartTime && slotEndTime ? (
                                 <div className="text-sm">
                                   {format(slotStartTime, "h:mm a")} - {format(slotEndTime, "h:mm a")} [{fieldName}]
+                                  {booking.booking_slots?.length > 1 && ` +${booking.booking_slots.length - 1} more`}
+                                  {parseRecurrence(booking.recurrence) && (
+                                    <div className="text-xs text-muted-foreground">
+                                      {describeRecurrence(parseRecurrence(booking.recurrence)!)}
+                                    </div>
+                                  )}
                                 </div>
                               ) : (
                                 <span className="text-muted-foreground">-</span>
@@ -1172,6 +1467,16 @@ export default function UserDashboard() {
                                   maximumFractionDigits: 0,
                                 }).format(Number(booking.payment_amount || 0))}
                               </div>
+                              {Number(booking.balance_due) !== 0 && (
+                                <div className="text-xs text-muted-foreground">
+                                  {Number(booking.balance_due) > 0 ? "Balance due" : "Refund due"}:{" "}
+                                  {new Intl.NumberFormat("en-US", {
+                                    style: "currency",
+                                    currency: "MMK",
+                                    maximumFractionDigits: 0,
+                                  }).format(Math.abs(Number(booking.balance_due)))}
+                                </div>
+                              )}
                             </div>
 
                             <div className="flex justify-between">
@@ -1202,6 +1507,34 @@ export default function UserDashboard() {
                                 <Eye className="h-4 w-4 mr-1" />
                                 Review
                               </Button>
+                              {booking.status === "RefundPending" && (
+                                <Button
+                                  size="sm"
+                                  variant="secondary"
+                                  onClick={() => handleMarkRefunded(booking.id)}
+                                  className="w-full"
+                                >
+                                  Mark Refunded
+                                </Button>
+                              )}
+                              {canChangeBooking(booking.status, booking.slots?.start_time ?? null) && (
+                                <RescheduleBookingDialog
+                                  bookingId={booking.id}
+                                  asOwner
+                                  onRescheduled={fetchPendingBookings}
+                                  className="w-full"
+                                />
+                              )}
+                              {Number(booking.balance_due) !== 0 && (
+                                <Button
+                                  size="sm"
+                                  variant="secondary"
+                                  onClick={() => handleSettleBalance(booking.id)}
+                                  className="w-full"
+                                >
+                                  Settle Balance
+                                </Button>
+                              )}
                               {booking.service_contact_phone && (
                                 <Button
                                   size="sm"
@@ -9,7 +9,12 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Eye, EyeOff, Shield, Mail, Lock } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { useAdminAuth } from "@/hooks/useAdminAuth";
+import { fetchTwoFactorStatus } from "@/lib/adminActions";
+import { TwoFactorChallenge } from "@/components/admin/TwoFactorChallenge";
+import { TwoFactorEnrollment } from "@/components/admin/TwoFactorEnrollment";
+
+// After the password, every admin sign-in enrolls (first time) or passes a TOTP challenge
+type SignInStep = "credentials" | "enroll" | "challenge";
 
 export default function AdminAuth() {
   const [isLoading, setIsLoading] = useState(false);
@@ -19,17 +24,17 @@ export default function AdminAuth() {
   const [confirmPassword, setConfirmPassword] = useState("");
   const [resetEmail, setResetEmail] = useState("");
   const [activeTab, setActiveTab] = useState("login");
+  const [step, setStep] = useState<SignInStep>("credentials");
   
   const navigate = useNavigate();
   const location = useLocation();
   const { toast } = useToast();
-  const { provisionAdminUser } = useAdminAuth();
 
   useEffect(() => {
     // Check if user is already authenticated and redirect
     supabase.auth.getSession().then(({ data: { session } }) => {
       if (session) {
-        checkAdminAccess(session.user.id);
+        checkAdminAccess(session.user.id, session.user.email ?? "");
       }
     });
 
@@ -39,22 +44,48 @@ export default function AdminAuth() {
     }
   }, []);
 
-  const checkAdminAccess = async (userId: string) => {
+  const checkAdminAccess = async (userId: string, userEmail: string) => {
     try {
       const { data: adminUser } = await supabase
         .from('admin_users')
-        .select('*')
+        .select('user_id')
         .eq('user_id', userId)
         .single();
 
       if (adminUser) {
-        navigate('/admin/dashboard');
+        setEmail(userEmail);
+        await continueToSecondFactor();
       }
     } catch (error) {
       console.error('Error checking admin access:', error);
     }
   };
 
+  // A session that already passed the second factor (e.g. a reload) goes straight to the dashboard
+  const continueToSecondFactor = async () => {
+    const status = await fetchTwoFactorStatus();
+    if (status.verified) {
+      navigate('/admin/dashboard');
+    } else {
+      setStep(status.enabled ? 'challenge' : 'enroll');
+    }
+  };
+
+  const handleSecondFactorVerified = async () => {
+    await logLoginAttempt(email, true);
+    toast({
+      title: "Login successful",
+      description: "Welcome to the admin panel!",
+    });
+    navigate("/admin/dashboard");
+  };
+
+  const handleCancelSecondFactor = async () => {
+    await supabase.auth.signOut();
+    setPassword("");
+    setStep("credentials");
+  };
+
   const checkRateLimit = async (email: string): Promise<boolean> => {
     try {
       const { data, error } = await supabase.rpc('check_admin_rate_limit', { 
@@ -109,7 +140,7 @@ export default function AdminAuth() {
       // Check if user is admin
       const { data: adminUser, error: adminError } = await supabase
         .from('admin_users')
-        .select('*')
+        .select('user_id')
         .eq('user_id', data.user.id)
         .single();
 
@@ -119,14 +150,8 @@ export default function AdminAuth() {
         throw new Error("Access denied. Admin privileges required.");
       }
 
-
-      await logLoginAttempt(email, true);
-      toast({
-        title: "Login successful",
-        description: "Welcome to the admin panel!",
-      });
-
-      navigate("/admin/dashboard");
+      // The attempt is logged as successful once the second factor passes
+      await continueToSecondFactor();
     } catch (error: any) {
       toast({
         title: "Login failed",
@@ -172,16 +197,14 @@ export default function AdminAuth() {
 
         toast({
           title: "Check your email",
-          description: "We've sent you a confirmation link to complete your admin registration.",
+          description: "Confirm your email, then ask a super admin to grant you admin access.",
         });
-      } else if (data.user?.email_confirmed_at) {
-        // User is confirmed, provision admin access
-        await provisionAdminUser(data.user.id);
+      } else if (data.user) {
+        // Admin roles are granted by a super admin from the Users tab
         toast({
-          title: "Admin account created",
-          description: "Your admin account has been created successfully!",
+          title: "Account created",
+          description: "A super admin needs to grant you admin access before you can sign in.",
         });
-        navigate('/admin/dashboard');
       }
 
       setActiveTab('login');
@@ -222,6 +245,37 @@ export default function AdminAuth() {
     }
   };
 
+  if (step !== 'credentials') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="space-y-1">
+            <div className="flex items-center justify-center mb-4">
+              <Shield className="h-8 w-8 text-primary mr-2" />
+              <span className="text-2xl font-bold">Admin Portal</span>
+            </div>
+            <CardTitle className="text-center">
+              {step === 'enroll' ? 'Set Up Two-Factor Authentication' : 'Two-Factor Authentication'}
+            </CardTitle>
+            <CardDescription className="text-center">
+              {step === 'enroll'
+                ? 'Admin accounts need an authenticator app before they can sign in'
+                : 'Confirm it is you to finish signing in'
+              }
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {step === 'enroll' ? (
+              <TwoFactorEnrollment onComplete={handleSecondFactorVerified} onCancel={handleCancelSecondFactor} />
+            ) : (
+              <TwoFactorChallenge onVerified={handleSecondFactorVerified} onCancel={handleCancelSecondFactor} />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-background p-4">
       <Card className="w-full max-w-md">
@@ -2,16 +2,14 @@ import { useEffect, useState } from "react";
 import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { useAdminAuth } from "@/hooks/useAdminAuth";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Shield, CheckCircle, XCircle, Loader2 } from "lucide-react";
+import { Shield, CheckCircle, XCircle, Loader2, Clock } from "lucide-react";
 
 export default function AdminAuthCallback() {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { provisionAdminUser } = useAdminAuth();
-  const [status, setStatus] = useState<'loading' | 'success' | 'error'>('loading');
+  const [status, setStatus] = useState<'loading' | 'success' | 'pending' | 'error'>('loading');
   const [message, setMessage] = useState('');
 
   useEffect(() => {
@@ -31,9 +29,16 @@ export default function AdminAuthCallback() {
             .eq('user_id', data.session.user.id)
             .single();
 
+          // Admin access is granted by a super admin, never on confirmation
           if (!adminUser) {
-            // Provision admin user
-            await provisionAdminUser(data.session.user.id);
+            setStatus('pending');
+            setMessage('Your email is confirmed. A super admin needs to grant you admin access before you can sign in.');
+            await supabase.auth.signOut();
+
+            setTimeout(() => {
+              navigate('/@admin/login');
+            }, 4000);
+            return;
           }
 
           setStatus('success');
@@ -70,7 +75,7 @@ export default function AdminAuthCallback() {
     };
 
     handleAuthCallback();
-  }, [navigate, toast, provisionAdminUser]);
+  }, [navigate, toast]);
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-background p-4">
@@ -83,11 +88,13 @@ export default function AdminAuthCallback() {
           <CardTitle className="text-center">
             {status === 'loading' && 'Confirming Account...'}
             {status === 'success' && 'Account Confirmed!'}
+            {status === 'pending' && 'Awaiting Admin Access'}
             {status === 'error' && 'Confirmation Failed'}
           </CardTitle>
           <CardDescription className="text-center">
             {status === 'loading' && 'Please wait while we confirm your admin account.'}
             {status === 'success' && 'Your admin account has been successfully confirmed.'}
+            {status === 'pending' && 'Your account is waiting for a super admin.'}
             {status === 'error' && 'There was an issue confirming your account.'}
           </CardDescription>
         </CardHeader>
@@ -98,6 +105,9 @@ export default function AdminAuthCallback() {
           {status === 'success' && (
             <CheckCircle className="h-8 w-8 text-green-600" />
           )}
+          {status === 'pending' && (
+            <Clock className="h-8 w-8 text-yellow-600" />
+          )}
           {status === 'error' && (
             <XCircle className="h-8 w-8 text-red-600" />
           )}
@@ -112,7 +122,7 @@ export default function AdminAuthCallback() {
             </p>
           )}
           
-          {status === 'error' && (
+          {(status === 'pending' || status === 'error') && (
             <p className="text-center text-xs text-muted-foreground">
               Redirecting to login page...
             </p>
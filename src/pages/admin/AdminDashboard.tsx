@@ -8,10 +8,13 @@ import { Badge } from "@/components/ui/badge";
 
 import AdminMetrics from "@/components/admin/AdminMetrics";
 import ListingManagement from "@/components/admin/ListingManagement";
+import UserManagement from "@/components/admin/UserManagement";
+import { ModerationQueue } from "@/components/admin/ModerationQueue";
 import ToBeConfirmedListings from "@/components/admin/ToBeConfirmedListings";
 import { PlansManagement } from "@/components/admin/PlansManagement";
 import { CategoriesManagement } from "@/components/admin/CategoriesManagement";
 import { LocationsManagement } from "@/components/admin/LocationsManagement";
+import { TwoFactorSettings } from "@/components/admin/TwoFactorSettings";
 import { 
   Shield, 
   Users, 
@@ -21,13 +24,15 @@ import {
   BarChart3,
   FileText,
   Store,
-  Home
+  Home,
+  Flag
 } from "lucide-react";
 
 export default function AdminDashboard() {
-  const { adminProfile, loading, signOut, isAuthenticated } = useAdminAuth();
+  const { adminProfile, twoFactorStatus, refreshTwoFactorStatus, loading, signOut, isAuthenticated, hasPermission } =
+    useAdminAuth();
   const navigate = useNavigate();
-  const [activeTab, setActiveTab] = useState<'overview' | 'listings' | 'users' | 'settings'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'listings' | 'moderation' | 'users' | 'settings'>('overview');
 
   useEffect(() => {
     if (!loading && !isAuthenticated) {
@@ -76,6 +81,7 @@ export default function AdminDashboard() {
   const navItems = [
     { key: 'overview', label: 'Overview', icon: Home },
     { key: 'listings', label: 'Listings', icon: Store },
+    { key: 'moderation', label: 'Moderation', icon: Flag },
     { key: 'users', label: 'Users', icon: Users },
     { key: 'settings', label: 'Settings', icon: Settings },
   ];
@@ -147,28 +153,31 @@ export default function AdminDashboard() {
             {/* To Be Confirmed Listings */}
             <div>
               <h2 className="text-2xl font-bold mb-6">To Be Confirmed Listings</h2>
-              <ToBeConfirmedListings />
+              <ToBeConfirmedListings
+                canConfirmPayments={hasPermission('payments.confirm')}
+                canEditListings={hasPermission('listings.edit')}
+              />
             </div>
 
             <Separator />
 
             {/* Categories Management */}
             <div>
-              <CategoriesManagement />
+              <CategoriesManagement canEdit={hasPermission('catalog.manage')} />
             </div>
 
             <Separator />
 
             {/* Locations Management */}
             <div>
-              <LocationsManagement />
+              <LocationsManagement canEdit={hasPermission('catalog.manage')} />
             </div>
 
             <Separator />
 
             {/* Plans Management */}
             <div>
-              <PlansManagement />
+              <PlansManagement canEdit={hasPermission('plans.manage')} />
             </div>
 
           </div>
@@ -177,20 +186,21 @@ export default function AdminDashboard() {
         {activeTab === 'listings' && (
           <div>
             <h2 className="text-2xl font-bold mb-6">Listing Management</h2>
-            <ListingManagement />
+            <ListingManagement adminRole={adminProfile?.admin_role} />
+          </div>
+        )}
+
+        {activeTab === 'moderation' && (
+          <div>
+            <h2 className="text-2xl font-bold mb-6">Moderation</h2>
+            <ModerationQueue />
           </div>
         )}
 
         {activeTab === 'users' && (
           <div>
             <h2 className="text-2xl font-bold mb-6">User Management</h2>
-            <Card>
-              <CardContent className="p-8 text-center">
-                <Users className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
-                <h3 className="text-lg font-semibold mb-2">User Management</h3>
-                <p className="text-muted-foreground">User management features coming soon...</p>
-              </CardContent>
-            </Card>
+            <UserManagement adminRole={adminProfile?.admin_role} currentUserId={adminProfile?.user_id} />
           </div>
         )}
 
@@ -218,6 +228,7 @@ export default function AdminDashboard() {
                 </CardContent>
               </Card>
 
+              <TwoFactorSettings status={twoFactorStatus} onChange={refreshTwoFactorStatus} />
             </div>
           </div>
         )}
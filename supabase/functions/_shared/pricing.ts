@@ -0,0 +1,121 @@
+// Pricing rule matching shared by generate-slots and the owner's pricing preview, so the
+// preview grid shows exactly the prices slot generation will write.
+
+import { isTimeWithinWindow } from './timezone.ts';
+
+export interface PricingRuleInput {
+  id?: string;
+  rule_name: string;
+  day_of_week: Array<number | string> | null; // 1=Mon..7=Sun; empty/null = every day
+  start_time: string; // HH:MM[:SS], local business time
+  end_time: string; // exclusive; earlier than start_time means the window crosses midnight
+  price_override: number;
+  priority?: number | null; // higher wins
+  valid_from?: string | null; // YYYY-MM-DD, inclusive
+  valid_until?: string | null; // YYYY-MM-DD, inclusive
+  created_at?: string | null;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+function toMinutes(time: string): number {
+  const [h = 0, m = 0] = time.split(':').map(Number);
+  return h * 60 + m;
+}
+
+// A window as [start, end) minute intervals within one day; cross-midnight windows split in two
+function windowIntervals(start: string, end: string): Array<[number, number]> {
+  const s = toMinutes(start);
+  const e = toMinutes(end);
+  if (s < e) return [[s, e]];
+  if (s === e) return [[0, MINUTES_PER_DAY]];
+  return [[s, MINUTES_PER_DAY], [0, e]];
+}
+
+function windowLength(rule: PricingRuleInput): number {
+  return windowIntervals(rule.start_time, rule.end_time).reduce((sum, [s, e]) => sum + (e - s), 0);
+}
+
+// Rule days normalised to 1..7 (legacy rows may store 0 for Sunday or strings)
+export function normalizeRuleDays(days: PricingRuleInput['day_of_week']): number[] {
+  return (days || [])
+    .map((d) => parseInt(String(d), 10))
+    .filter((n) => !Number.isNaN(n))
+    .map((n) => (n === 0 ? 7 : n));
+}
+
+export function ruleAppliesTo(rule: PricingRuleInput, dateStr: string, dayOfWeek: number, time: string): boolean {
+  const days = normalizeRuleDays(rule.day_of_week);
+  if (days.length > 0 && !days.includes(dayOfWeek)) return false;
+  if (rule.valid_from && dateStr < rule.valid_from) return false;
+  if (rule.valid_until && dateStr > rule.valid_until) return false;
+  return isTimeWithinWindow(time, rule.start_time, rule.end_time);
+}
+
+/**
+ * Orders rules by precedence: higher priority first, then date-limited rules before open-ended
+ * ones, then the narrower time window, then the older rule. Keeps matching deterministic even
+ * for legacy rules that overlap at the same priority.
+ */
+export function compareRulePrecedence(a: PricingRuleInput, b: PricingRuleInput): number {
+  const priorityDiff = (b.priority ?? 0) - (a.priority ?? 0);
+  if (priorityDiff !== 0) return priorityDiff;
+  const aDated = a.valid_from || a.valid_until ? 1 : 0;
+  const bDated = b.valid_from || b.valid_until ? 1 : 0;
+  if (aDated !== bDated) return bDated - aDated;
+  const lengthDiff = windowLength(a) - windowLength(b);
+  if (lengthDiff !== 0) return lengthDiff;
+  return (a.created_at ?? '').localeCompare(b.created_at ?? '');
+}
+
+// The rule that sets the price for a slot starting at `time` on local date `dateStr`, if any
+export function pickPricingRule<T extends PricingRuleInput>(
+  rules: T[],
+  dateStr: string,
+  dayOfWeek: number,
+  time: string
+): T | null {
+  const matches = rules.filter((rule) => ruleAppliesTo(rule, dateStr, dayOfWeek, time));
+  if (matches.length === 0) return null;
+  return [...matches].sort(compareRulePrecedence)[0];
+}
+
+// Whether two rules can both match the same slot (shared day, date and time)
+export function rulesOverlap(a: PricingRuleInput, b: PricingRuleInput): boolean {
+  const aDays = normalizeRuleDays(a.day_of_week);
+  const bDays = normalizeRuleDays(b.day_of_week);
+  if (aDays.length > 0 && bDays.length > 0 && !aDays.some((d) => bDays.includes(d))) return false;
+
+  const aFrom = a.valid_from || '0000-01-01';
+  const aUntil = a.valid_until || '9999-12-31';
+  const bFrom = b.valid_from || '0000-01-01';
+  const bUntil = b.valid_until || '9999-12-31';
+  if (aFrom > bUntil || bFrom > aUntil) return false;
+
+  const aWindows = windowIntervals(a.start_time, a.end_time);
+  const bWindows = windowIntervals(b.start_time, b.end_time);
+  return aWindows.some(([as, ae]) => bWindows.some(([bs, be]) => as < be && bs < ae));
+}
+
+export interface RuleOverlap<T> {
+  first: T;
+  second: T;
+  // Same priority: neither rule clearly wins, so saving is refused
+  samePriority: boolean;
+}
+
+export function findRuleOverlaps<T extends PricingRuleInput>(rules: T[]): RuleOverlap<T>[] {
+  const overlaps: RuleOverlap<T>[] = [];
+  for (let i = 0; i < rules.length; i++) {
+    for (let j = i + 1; j < rules.length; j++) {
+      if (rulesOverlap(rules[i], rules[j])) {
+        overlaps.push({
+          first: rules[i],
+          second: rules[j],
+          samePriority: (rules[i].priority ?? 0) === (rules[j].priority ?? 0),
+        });
+      }
+    }
+  }
+  return overlaps;
+}
@@ -0,0 +1,70 @@
+// Field extraction for OCR text of Myanmar mobile money receipts (KBZPay, WavePay, AYA Pay).
+// The wallets print the same fields with slightly different labels, so each field is
+// looked up by its label first and by its shape as a fallback.
+
+export type ReceiptProvider = 'KBZPay' | 'WavePay' | 'AYA Pay';
+
+export interface ParsedReceipt {
+  provider: ReceiptProvider | null;
+  amount: number | null;
+  transactionId: string | null;
+  paidAt: string | null;
+  account: string | null;
+}
+
+const PROVIDER_PATTERNS: Array<[ReceiptProvider, RegExp]> = [
+  ['KBZPay', /kbz\s*pay|kbzpay/i],
+  ['WavePay', /wave\s*(pay|money)/i],
+  ['AYA Pay', /aya\s*pay/i],
+];
+
+const AMOUNT_LABEL = /(amount|total|ငွေပမာဏ)[^\d\n-]*-?\s*([\d,]+(?:\.\d{1,2})?)/i;
+const AMOUNT_WITH_CURRENCY = /-?\s*([\d,]+(?:\.\d{1,2})?)\s*(ks|mmk|kyats?)\b/i;
+const TRANSACTION_ID = /(transaction\s*(?:no|id|number)|trans(?:action)?\.?\s*id|txn\s*id|ref(?:erence)?\s*(?:no|id))\.?\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{5,})/i;
+const DATE_TIME =
+  /(\d{4}[/-]\d{1,2}[/-]\d{1,2}|\d{1,2}[/-]\d{1,2}[/-]\d{4}|\d{1,2}\s+[A-Z][a-z]{2}\s+\d{4})(?:[\sT,]+(\d{1,2}:\d{2}(?::\d{2})?(?: ?(?:AM|PM))?))?/i;
+const ACCOUNT_LABEL = /(transfer\s*to|receiver|to\s*account|account|to)\b[^\n\d*•]*([*•\d][\d*• -]{5,}\d)/i;
+
+function parseAmount(text: string): number | null {
+  const raw = text.match(AMOUNT_LABEL)?.[2] ?? text.match(AMOUNT_WITH_CURRENCY)?.[1];
+  if (!raw) return null;
+  const value = Number(raw.replace(/,/g, ''));
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+export function detectProvider(text: string): ReceiptProvider | null {
+  return PROVIDER_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ?? null;
+}
+
+export function parseReceiptText(text: string): ParsedReceipt {
+  const transaction = text.match(TRANSACTION_ID);
+  const dateTime = text.match(DATE_TIME);
+  const account = text.match(ACCOUNT_LABEL);
+
+  return {
+    provider: detectProvider(text),
+    amount: parseAmount(text),
+    transactionId: transaction ? transaction[2].toUpperCase() : null,
+    paidAt: dateTime ? [dateTime[1], dateTime[2]].filter(Boolean).join(' ') : null,
+    account: account ? account[2].replace(/[\s-]/g, '') : null,
+  };
+}
+
+/**
+ * Whether a receipt account (often masked, e.g. ******1234) belongs to one of the business's
+ * account numbers. Only the digits printed on the receipt are compared, and at least four
+ * must be visible; null means the receipt shows too little to tell.
+ */
+export function matchesAccount(receiptAccount: string | null, accountNumbers: string[]): boolean | null {
+  if (!receiptAccount) return null;
+  // Masked numbers only show their last digits; compare those against the end of each account
+  const masked = /[*•]/.test(receiptAccount);
+  const visibleDigits = (masked ? receiptAccount.split(/[*•]+/).pop() ?? '' : receiptAccount).replace(/\D/g, '');
+  if (visibleDigits.length < 4) return null;
+
+  return accountNumbers.some((accountNumber) => {
+    const digits = accountNumber.replace(/\D/g, '');
+    if (!digits) return false;
+    return masked ? digits.endsWith(visibleDigits) : digits === visibleDigits;
+  });
+}
@@ -0,0 +1,145 @@
+// Timezone helpers shared by the edge functions (Deno) and the web app.
+// Businesses store an IANA timezone (e.g. "Asia/Yangon", "Asia/Bangkok"); slots are
+// stored as UTC instants and every conversion between the two goes through here.
+// Only Intl is used so the module runs unchanged in both environments.
+
+export const DEFAULT_TIMEZONE = 'Asia/Yangon';
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+export function isValidTimeZone(timeZone: string | null | undefined): boolean {
+  if (!timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Falls back to the default when a row has no (or an unknown) timezone
+export function resolveTimeZone(...candidates: Array<string | null | undefined>): string {
+  return candidates.find((tz) => isValidTimeZone(tz)) ?? DEFAULT_TIMEZONE;
+}
+
+// Wall-clock parts of a UTC instant in the given timezone
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour === 24 ? 0 : parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+// Offset of the timezone from UTC at the given instant, in milliseconds (Yangon: +6.5h)
+export function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - (date.getTime() - date.getMilliseconds());
+}
+
+/**
+ * Converts a local date (YYYY-MM-DD) and wall-clock time (HH:MM or HH:MM:SS) in the
+ * given timezone to a UTC Date. Handles DST by re-checking the offset at the result.
+ */
+export function zonedDateTimeToUtc(dateStr: string, time: string, timeZone: string): Date {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  const [hour = 0, minute = 0, second = 0] = time.split(':').map(Number);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  const firstGuess = wallClockAsUtc - getTimeZoneOffsetMs(new Date(wallClockAsUtc), timeZone);
+  const offset = getTimeZoneOffsetMs(new Date(firstGuess), timeZone);
+  return new Date(wallClockAsUtc - offset);
+}
+
+// UTC bounds [start, end) of a local calendar day
+export function getZonedDayRange(dateStr: string, timeZone: string): { start: Date; end: Date } {
+  return {
+    start: zonedDateTimeToUtc(dateStr, '00:00:00', timeZone),
+    end: zonedDateTimeToUtc(addDaysToDateString(dateStr, 1), '00:00:00', timeZone),
+  };
+}
+
+export function addDaysToDateString(dateStr: string, days: number): string {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  const d = new Date(Date.UTC(year, month - 1, day + days));
+  return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+}
+
+// Monday=1..Sunday=7, matching business_schedules.day_of_week
+export function getIsoDayOfWeek(dateStr: string): number {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  const jsDay = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  return jsDay === 0 ? 7 : jsDay;
+}
+
+// Local calendar date (YYYY-MM-DD) of a UTC instant
+export function toZonedDateString(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+}
+
+// Local wall-clock time (HH:MM:SS) of a UTC instant, comparable with Postgres `time` values
+export function formatZonedTime(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  return `${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}`;
+}
+
+/**
+ * A Date whose local getters (getHours, getDate, ...) return the wall-clock values of the
+ * instant in the given timezone. Only for formatting; never store or compare it.
+ */
+export function toZonedWallClock(date: Date, timeZone: string): Date {
+  const p = getZonedParts(date, timeZone);
+  return new Date(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+}
+
+const normalizeTime = (time: string) => (time.length === 5 ? `${time}:00` : time);
+
+/**
+ * Whether a HH:MM:SS time falls in [start, end). Windows whose end is not after the
+ * start wrap past midnight, e.g. 18:00-02:00.
+ */
+export function isTimeWithinWindow(time: string, start: string, end: string): boolean {
+  const t = normalizeTime(time);
+  const s = normalizeTime(start);
+  const e = normalizeTime(end);
+  if (s < e) return t >= s && t < e;
+  return t >= s || t < e;
+}
@@ -51,12 +51,62 @@ Deno.serve(async (req) => {
     const deletedCount = deletedSlots?.length || 0;
     console.log(`Successfully deleted ${deletedCount} old unbooked slots`);
 
+    // Lapse waitlist offers and pass their slots, and slots whose checkout hold ran out,
+    // to the next renter in line before the remaining expired holds are cleared
+    const { data: waitlistResult, error: waitlistError } = await supabase.rpc('expire_waitlist_offers');
+
+    if (waitlistError) {
+      console.error('Error expiring waitlist offers:', waitlistError);
+      return new Response(
+        JSON.stringify({ 
+          success: false, 
+          error: waitlistError.message 
+        }),
+        { 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 500 
+        }
+      );
+    }
+
+    const expiredOfferCount = waitlistResult?.expired_count || 0;
+    const reofferedCount = waitlistResult?.reoffered_count || 0;
+    console.log(`Expired ${expiredOfferCount} waitlist offers and made ${reofferedCount} new offers`);
+
+    // Release checkout holds that have expired so the slots show as available again
+    const nowIso = new Date().toISOString();
+    const { data: releasedSlots, error: releaseError } = await supabase
+      .from('slots')
+      .update({ held_by: null, held_until: null })
+      .lt('held_until', nowIso)
+      .select('id');
+
+    if (releaseError) {
+      console.error('Error releasing expired slot holds:', releaseError);
+      return new Response(
+        JSON.stringify({ 
+          success: false, 
+          error: releaseError.message 
+        }),
+        { 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 500 
+        }
+      );
+    }
+
+    const releasedHoldCount = releasedSlots?.length || 0;
+    console.log(`Released ${releasedHoldCount} expired slot holds`);
+
     return new Response(
       JSON.stringify({ 
         success: true, 
         deletedCount,
+        releasedHoldCount,
+        expiredOfferCount,
+        reofferedCount,
         cutoffDate: cutoffIso,
-        message: `Deleted ${deletedCount} unbooked slots older than ${cutoffIso}`
+        message: `Deleted ${deletedCount} unbooked slots older than ${cutoffIso} and released ${releasedHoldCount} expired holds`
       }),
       { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -1,4 +1,13 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.1';
+import {
+  addDaysToDateString,
+  formatZonedTime,
+  getIsoDayOfWeek,
+  getZonedDayRange,
+  resolveTimeZone,
+  zonedDateTimeToUtc,
+} from '../_shared/timezone.ts';
+import { pickPricingRule } from '../_shared/pricing.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,7 +18,7 @@ interface GenerateSlotsRequest {
   resourceId: string;
   startDate: string; // YYYY-MM-DD
   endDate: string; // YYYY-MM-DD
-  slotDurationMinutes?: number; // Default 60
+  slotDurationMinutes?: number; // Used when the resource has no slot_duration_minutes; default from the service, then 60
 }
 
 Deno.serve(async (req) => {
@@ -24,14 +33,14 @@ Deno.serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    const { resourceId, startDate, endDate, slotDurationMinutes = 60 }: GenerateSlotsRequest = await req.json();
+    const { resourceId, startDate, endDate, slotDurationMinutes: requestedDuration }: GenerateSlotsRequest = await req.json();
 
     console.log(`Generating slots for resource ${resourceId} from ${startDate} to ${endDate}`);
 
-    // 1. Fetch resource details to get base_price
+    // 1. Fetch resource details to get base_price, slot settings and the business timezone
     const { data: resource, error: resourceError } = await supabase
       .from('business_resources')
-      .select('id, name, base_price, business_id')
+      .select('id, name, base_price, business_id, slot_duration_minutes, buffer_minutes, businesses:business_id (timezone), services:service_id (default_duration_min)')
       .eq('id', resourceId)
       .single();
 
@@ -43,13 +52,20 @@ Deno.serve(async (req) => {
       );
     }
 
-    console.log(`Found resource: ${resource.name}, base_price: ${resource.base_price}`);
+    const timeZone = resolveTimeZone(resource.businesses?.timezone);
 
-    // 2. Fetch weekly schedule rules for this resource
+    const slotDurationMinutes =
+      resource.slot_duration_minutes ?? requestedDuration ?? resource.services?.default_duration_min ?? 60;
+    const bufferMinutes = resource.buffer_minutes ?? 0;
+
+    console.log(`Found resource: ${resource.name}, base_price: ${resource.base_price}, timezone: ${timeZone}, duration: ${slotDurationMinutes}min, buffer: ${bufferMinutes}min`);
+
+    // 2. Fetch weekly schedule rules and date exceptions for this resource
     const { data: schedules, error: scheduleError } = await supabase
       .from('business_schedules')
-      .select('day_of_week, is_open, open_time, close_time')
-      .eq('resource_id', resourceId);
+      .select('day_of_week, is_open, open_time, close_time, applies_to_date, note')
+      .eq('resource_id', resourceId)
+      .or(`applies_to_date.is.null,and(applies_to_date.gte.${startDate},applies_to_date.lte.${endDate})`);
 
     if (scheduleError) {
       console.error('Schedule fetch error:', scheduleError);
@@ -64,7 +80,7 @@ Deno.serve(async (req) => {
     // 3. Fetch pricing rules for this resource
     const { data: pricingRules, error: pricingError } = await supabase
       .from('resource_pricing_rules')
-      .select('rule_name, day_of_week, start_time, end_time, price_override')
+      .select('rule_name, day_of_week, start_time, end_time, price_override, priority, valid_from, valid_until, created_at')
       .eq('resource_id', resourceId);
 
     if (pricingError) {
@@ -74,91 +90,64 @@ Deno.serve(async (req) => {
 
     console.log(`Found ${pricingRules?.length || 0} pricing rules`);
 
-    // Helper function to check if a time falls within a pricing rule
-    const getPriceForSlot = (slotStart: Date, dayOfWeek: number): number => {
+    // Helper function to pick the winning pricing rule for a slot
+    const getPriceForSlot = (slotStart: Date, dayOfWeek: number, dateStr: string): number => {
       if (!pricingRules || pricingRules.length === 0) {
         console.log(`No pricing rules found, using base price: ${resource.base_price}`);
         return resource.base_price || 0;
       }
 
-      // Convert UTC time to Myanmar time (UTC+6:30)
-      const myanmarOffset = 6.5 * 60; // 6.5 hours in minutes
-      const myanmarTime = new Date(slotStart.getTime() + myanmarOffset * 60 * 1000);
-      
-      const hours = myanmarTime.getUTCHours().toString().padStart(2, '0');
-      const minutes = myanmarTime.getUTCMinutes().toString().padStart(2, '0');
-      const seconds = myanmarTime.getUTCSeconds().toString().padStart(2, '0');
-      const slotTime = `${hours}:${minutes}:${seconds}`;
-
-      console.log(`Slot UTC time: ${slotStart.toISOString()}, Myanmar time: ${slotTime}, day: ${dayOfWeek}`);
-
-      for (const rule of pricingRules) {
-        console.log(`Checking rule "${rule.rule_name}": slotTime=${slotTime}, dayOfWeek=${dayOfWeek}, ruleDays=${JSON.stringify(rule.day_of_week)}, start=${rule.start_time}, end=${rule.end_time}`);
-        
-        const ruleDaysRaw = rule.day_of_week || [];
-        const normalizedRuleDays = ruleDaysRaw.map((d: any) => {
-          const n = parseInt(d as string, 10);
-          if (isNaN(n)) return d;
-          return (n === 0 ? 7 : n).toString();
-        });
-        if (normalizedRuleDays.length > 0 && !normalizedRuleDays.includes(dayOfWeek.toString())) {
-          console.log(`  -> Day ${dayOfWeek} not in ruleDays (${JSON.stringify(normalizedRuleDays)}), skipping`);
-          continue;
-        }
+      // Rules are written in the business's local time
+      const slotTime = formatZonedTime(slotStart, timeZone);
 
-        // Check if slot time falls within rule's time range
-        if (slotTime >= rule.start_time && slotTime < rule.end_time) {
-          console.log(`✓ APPLYING rule "${rule.rule_name}" - Price: ${rule.price_override} (was ${resource.base_price})`);
-          return rule.price_override;
-        } else {
-          console.log(`  -> Time ${slotTime} not in range [${rule.start_time}, ${rule.end_time})`);
-        }
+      console.log(`Slot UTC time: ${slotStart.toISOString()}, local time (${timeZone}): ${slotTime}, date: ${dateStr}, day: ${dayOfWeek}`);
+
+      // Highest priority wins when several rules match
+      const rule = pickPricingRule(pricingRules, dateStr, dayOfWeek, slotTime);
+      if (rule) {
+        console.log(`✓ APPLYING rule "${rule.rule_name}" (priority ${rule.priority}) - Price: ${rule.price_override} (was ${resource.base_price})`);
+        return rule.price_override;
       }
 
       console.log(`No matching rule found, using base price: ${resource.base_price}`);
       return resource.base_price || 0;
     };
 
-    // 4. Create a map of day_of_week -> schedule
+    // 4. Create maps of day_of_week -> weekly rule and date -> exception
     const scheduleMap = new Map();
+    const exceptionMap = new Map();
     schedules?.forEach((s) => {
-      scheduleMap.set(s.day_of_week, s);
+      if (s.applies_to_date) {
+        exceptionMap.set(s.applies_to_date, s);
+      } else {
+        scheduleMap.set(s.day_of_week, s);
+      }
     });
 
-    // 4. Generate slots for each day in the date range
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    const slotsToInsert = [];
+    // 4. Generate slots for each local calendar day in the date range
+    const desiredSlots: Array<{ start_time: string; end_time: string; slot_price: number }> = [];
 
-    for (let date = new Date(start); date <= end; date.setDate(date.getDate() + 1)) {
+    for (let dateStr = startDate; dateStr <= endDate; dateStr = addDaysToDateString(dateStr, 1)) {
       // Day of week based on the calendar date (Monday=1..Sunday=7)
-      const jsDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())).getUTCDay();
-      const dayOfWeek = jsDay === 0 ? 7 : jsDay;
-      const schedule = scheduleMap.get(dayOfWeek);
+      const dayOfWeek = getIsoDayOfWeek(dateStr);
+      // A date exception (holiday, special hours, blackout) wins over the weekly rule
+      const exception = exceptionMap.get(dateStr);
+      const schedule = exception ?? scheduleMap.get(dayOfWeek);
 
-      console.log(`Processing ${date.toISOString().split('T')[0]}, day_of_week: ${dayOfWeek}`);
+      console.log(`Processing ${dateStr}, day_of_week: ${dayOfWeek}${exception ? ' (date exception)' : ''}`);
 
       // Skip if day is not open
       if (!schedule || !schedule.is_open) {
-        console.log(`Skipping - not open`);
+        console.log(`Skipping - not open${exception?.note ? ` (${exception.note})` : ''}`);
         continue;
       }
 
-      // Parse open and close times
-      const [openHour, openMin] = schedule.open_time.split(':').map(Number);
-      const [closeHour, closeMin] = schedule.close_time.split(':').map(Number);
-
-      // Generate slots for this day (interpret schedule times in Myanmar local time)
-      const myanmarOffsetMs = 6.5 * 60 * 60 * 1000; // UTC+6:30
-      const y = date.getUTCFullYear();
-      const m = date.getUTCMonth();
-      const d = date.getUTCDate();
-      // Build UTC instants that correspond to the local Myanmar schedule times
-      let currentTime = new Date(Date.UTC(y, m, d, openHour, openMin, 0) - myanmarOffsetMs);
-      let closeTime = new Date(Date.UTC(y, m, d, closeHour, closeMin, 0) - myanmarOffsetMs);
+      // Schedule times are wall-clock times in the business timezone
+      let currentTime = zonedDateTimeToUtc(dateStr, schedule.open_time, timeZone);
+      let closeTime = zonedDateTimeToUtc(dateStr, schedule.close_time, timeZone);
       // If close time is past midnight, push to next day
       if (closeTime <= currentTime) {
-        closeTime = new Date(Date.UTC(y, m, d + 1, closeHour, closeMin, 0) - myanmarOffsetMs);
+        closeTime = zonedDateTimeToUtc(addDaysToDateString(dateStr, 1), schedule.close_time, timeZone);
       }
 
       console.log(`Generating slots from ${currentTime.toISOString()} to ${closeTime.toISOString()}`);
@@ -172,68 +161,57 @@ Deno.serve(async (req) => {
           break;
         }
 
-        slotsToInsert.push({
-          resource_id: resourceId,
+        desiredSlots.push({
           start_time: currentTime.toISOString(),
           end_time: slotEnd.toISOString(),
-          slot_price: getPriceForSlot(currentTime, dayOfWeek),
-          is_booked: false,
-          slot_name: resource.name,
+          slot_price: getPriceForSlot(currentTime, dayOfWeek, dateStr),
         });
 
-        // Move to next slot
-        currentTime = slotEnd;
+        // Move to next slot, leaving the changeover buffer free
+        currentTime = new Date(slotEnd.getTime() + bufferMinutes * 60 * 1000);
       }
     }
 
-    console.log(`Generated ${slotsToInsert.length} slots`);
+    console.log(`Generated ${desiredSlots.length} slots`);
 
-    if (slotsToInsert.length === 0) {
-      return new Response(
-        JSON.stringify({ message: 'No slots generated - check if resource has open schedules' }),
-        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    // 5. Regenerate: delete existing slots in the date range for this resource, then insert new ones
-    const myanmarOffsetMs = 6.5 * 60 * 60 * 1000; // UTC+6:30
-    const startRangeUTC = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate(), 0, 0, 0) - myanmarOffsetMs);
-    const endRangeUTCExclusive = new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth(), end.getUTCDate() + 1, 0, 0, 0) - myanmarOffsetMs);
-
-    console.log(`Deleting existing slots for resource ${resourceId} between ${startRangeUTC.toISOString()} and ${endRangeUTCExclusive.toISOString()}`);
-    const { error: deleteError, count: deleteCount } = await supabase
-      .from('slots')
-      .delete({ count: 'exact' })
-      .eq('resource_id', resourceId)
-      .gte('start_time', startRangeUTC.toISOString())
-      .lt('start_time', endRangeUTCExclusive.toISOString());
+    // 5. Apply the new schedule as a diff so booked, pending and held slots survive
+    const startRangeUTC = getZonedDayRange(startDate, timeZone).start;
+    const endRangeUTCExclusive = getZonedDayRange(endDate, timeZone).end;
 
-    if (deleteError) {
-      console.error('Delete existing slots error:', deleteError);
-    } else {
-      console.log(`Deleted ${deleteCount || 0} existing slots`);
-    }
-
-    const { data: insertedSlots, error: insertError } = await supabase
-      .from('slots')
-      .insert(slotsToInsert)
-      .select();
+    console.log(`Regenerating slots for resource ${resourceId} between ${startRangeUTC.toISOString()} and ${endRangeUTCExclusive.toISOString()}`);
+    const { data: regeneration, error: regenerateError } = await supabase.rpc('regenerate_resource_slots', {
+      p_resource_id: resourceId,
+      p_range_start: startRangeUTC.toISOString(),
+      p_range_end: endRangeUTCExclusive.toISOString(),
+      p_slots: desiredSlots,
+      p_slot_name: resource.name,
+    });
 
-    if (insertError) {
-      console.error('Insert error:', insertError);
+    if (regenerateError || !regeneration?.success) {
+      console.error('Regenerate slots error:', regenerateError);
       return new Response(
-        JSON.stringify({ error: 'Failed to insert slots', details: insertError.message }),
+        JSON.stringify({ error: 'Failed to regenerate slots', details: regenerateError?.message }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    console.log(`Successfully inserted ${insertedSlots?.length || 0} slots`);
+    const conflicts = regeneration.conflicts ?? [];
+    console.log(
+      `Created ${regeneration.slots_created}, updated ${regeneration.slots_updated}, deleted ${regeneration.slots_deleted} slots; ${conflicts.length} conflicts`
+    );
 
     return new Response(
       JSON.stringify({
         success: true,
-        slotsCreated: insertedSlots?.length || 0,
-        message: `Generated ${insertedSlots?.length || 0} slots for ${resource.name}`,
+        slotsCreated: regeneration.slots_created,
+        slotsUpdated: regeneration.slots_updated,
+        slotsDeleted: regeneration.slots_deleted,
+        slotsUnchanged: regeneration.slots_unchanged,
+        // Booked, pending or held slots outside the new hours; the owner has to move or cancel these
+        conflicts,
+        message: desiredSlots.length === 0
+          ? 'No slots generated - check if resource has open schedules'
+          : `Generated ${regeneration.slots_created} slots for ${resource.name}`,
       }),
       { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
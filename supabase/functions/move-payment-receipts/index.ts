@@ -0,0 +1,109 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.1';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const LEGACY_BUCKET = 'business-assets';
+const LEGACY_URL_MARKER = `/storage/v1/object/public/${LEGACY_BUCKET}/`;
+const PRIVATE_BUCKET = 'payment-receipts';
+
+// One-off move of subscription receipts out of the public business-assets bucket into the
+// private payment-receipts bucket (see the private_receipts migration). Safe to run again:
+// businesses whose receipt_url is already a path are skipped.
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+  // Only callable with the service role key, e.g. from the dashboard or a deploy script
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'Not authorized' }),
+      { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+    const { data: businesses, error: fetchError } = await supabase
+      .from('businesses')
+      .select('id, owner_id, receipt_url')
+      .like('receipt_url', `%${LEGACY_URL_MARKER}%`);
+
+    if (fetchError) {
+      console.error('Error fetching businesses with public receipts:', fetchError);
+      return new Response(
+        JSON.stringify({ success: false, error: fetchError.message }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`Moving ${businesses?.length || 0} subscription receipts to ${PRIVATE_BUCKET}`);
+
+    let movedCount = 0;
+    const failures: Array<{ businessId: string; error: string }> = [];
+
+    for (const business of businesses || []) {
+      const legacyPath = decodeURIComponent(business.receipt_url.split(LEGACY_URL_MARKER)[1].split('?')[0]);
+      const fileName = legacyPath.split('/').pop() ?? `${business.id}-${Date.now()}`;
+      // Owners can only read their own folder of the private bucket
+      const newPath = `${business.owner_id}/${fileName}`;
+
+      const { data: file, error: downloadError } = await supabase.storage.from(LEGACY_BUCKET).download(legacyPath);
+      if (downloadError || !file) {
+        console.error(`Error downloading receipt for business ${business.id}:`, downloadError);
+        failures.push({ businessId: business.id, error: downloadError?.message ?? 'Receipt file not found' });
+        continue;
+      }
+
+      const { error: uploadError } = await supabase.storage
+        .from(PRIVATE_BUCKET)
+        .upload(newPath, file, { contentType: file.type, upsert: true });
+      if (uploadError) {
+        console.error(`Error uploading receipt for business ${business.id}:`, uploadError);
+        failures.push({ businessId: business.id, error: uploadError.message });
+        continue;
+      }
+
+      const { error: updateError } = await supabase
+        .from('businesses')
+        .update({ receipt_url: newPath })
+        .eq('id', business.id);
+      if (updateError) {
+        console.error(`Error updating receipt path for business ${business.id}:`, updateError);
+        failures.push({ businessId: business.id, error: updateError.message });
+        continue;
+      }
+
+      // The public copy goes last, so a failed run never leaves a business without its receipt
+      const { error: removeError } = await supabase.storage.from(LEGACY_BUCKET).remove([legacyPath]);
+      if (removeError) {
+        console.error(`Error removing public receipt for business ${business.id}:`, removeError);
+      }
+
+      movedCount += 1;
+    }
+
+    console.log(`Moved ${movedCount} receipts, ${failures.length} failed`);
+
+    return new Response(
+      JSON.stringify({ success: failures.length === 0, movedCount, failures }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Unexpected error while moving receipts:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
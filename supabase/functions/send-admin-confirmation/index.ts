@@ -1,5 +1,4 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.56.1';
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -35,29 +34,7 @@ const handler = async (req: Request): Promise<Response> => {
     console.log(`Admin confirmation email would be sent to: ${email}`);
     console.log(`Confirmation URL: ${confirmationUrl}`);
     
-    // Also provision the admin user immediately for development
-    // In production, this should only happen after email confirmation
-    try {
-      // Get the Supabase client
-      const supabaseAdmin = createClient(
-        Deno.env.get('SUPABASE_URL') ?? '',
-        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-      );
-      
-      // Find the user by email
-      const { data: users } = await supabaseAdmin.auth.admin.listUsers();
-      const user = users?.users?.find(u => u.email === email);
-      
-      if (user) {
-        // Provision admin user
-        await supabaseAdmin.rpc('provision_admin_user', { 
-          user_email: email 
-        });
-        console.log(`Admin user provisioned for: ${email}`);
-      }
-    } catch (error) {
-      console.error('Error provisioning admin user:', error);
-    }
+    // Admin roles are granted by a super admin (admin_set_admin_role), not on sign-up
 
     const emailSent = true;
 
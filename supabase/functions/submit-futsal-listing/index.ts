@@ -1,4 +1,5 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.74.0';
+import { addDaysToDateString, resolveTimeZone, toZonedDateString } from '../_shared/timezone.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -66,6 +67,7 @@ Deno.serve(async (req) => {
     const popularProducts = formData.get('popularProducts') as string;
     const maxCapacity = parseInt(formData.get('maxCapacity') as string);
     const fieldType = formData.get('fieldType') as string;
+    const timezone = resolveTimeZone(formData.get('timezone') as string | null);
     
     // Parse field details
     const fieldDetailsStr = formData.get('fieldDetails') as string;
@@ -211,6 +213,7 @@ Deno.serve(async (req) => {
         service_listing_price: serviceListingPrice,
         lite_pos: litePosValue,
         lite_pos_expired: litePosExpired?.toISOString().split('T')[0],
+        timezone,
         payment_status: 'to_be_confirmed',
         searchable_business: false,
       })
@@ -445,9 +448,9 @@ Deno.serve(async (req) => {
     if (allSchedulesToInsert.length > 0) {
       console.log('Generating time slots for all resources for the next 30 days...');
       
-      const startDate = new Date();
-      const endDate = new Date();
-      endDate.setDate(endDate.getDate() + 30);
+      // "Today" in the business's timezone, not the edge runtime's
+      const startDate = toZonedDateString(new Date(), timezone);
+      const endDate = addDaysToDateString(startDate, 30);
       
       for (const resource of createdResources) {
         console.log(`Generating slots for resource: ${resource.name} (${resource.id})`);
@@ -455,9 +458,8 @@ Deno.serve(async (req) => {
         const { data: slotsResult, error: slotsGenError } = await supabase.functions.invoke('generate-slots', {
           body: {
             resourceId: resource.id,
-            startDate: startDate.toISOString().split('T')[0],
-            endDate: endDate.toISOString().split('T')[0],
-            slotDurationMinutes: 60,
+            startDate,
+            endDate,
           }
         });
 
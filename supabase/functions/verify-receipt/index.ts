@@ -0,0 +1,250 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.1';
+import { createOCREngine, type OCREngine } from 'npm:tesseract-wasm@0.11.0';
+import { decode } from 'npm:imagescript@1.3.0';
+import { matchesAccount, parseReceiptText } from '../_shared/receiptParser.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface VerifyReceiptRequest {
+  bookingId: string;
+}
+
+// bookings.receipt_url holds the receipt's path in the receipts bucket (<user id>/<slot id>/<file>);
+// bookings without an upload keep a note there instead
+const RECEIPT_PATH_PATTERN = /^[0-9a-f-]{36}\/\S+$/i;
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function receiptPathFromBooking(receiptUrl: string | null): string | null {
+  return receiptUrl && RECEIPT_PATH_PATTERN.test(receiptUrl) ? receiptUrl : null;
+}
+
+// The OCR engine and its English model ship with the function (see static_files in
+// supabase/config.toml), so nothing is downloaded at run time and no worker threads are
+// started. They are not checked in: `npm run ocr:assets` copies them into ocr/ from the
+// pinned tesseract-wasm and @tesseract.js-data/eng packages before the function is deployed.
+// The engine is created once per instance and reused by later requests.
+let ocrEnginePromise: Promise<OCREngine> | null = null;
+
+function getOcrEngine(): Promise<OCREngine> {
+  if (!ocrEnginePromise) {
+    ocrEnginePromise = (async () => {
+      const [wasmBinary, model] = await Promise.all([
+        Deno.readFile(new URL('./ocr/tesseract-core.wasm', import.meta.url)),
+        Deno.readFile(new URL('./ocr/eng.traineddata', import.meta.url)),
+      ]);
+      const engine = await createOCREngine({ wasmBinary });
+      engine.loadModel(model);
+      return engine;
+    })().catch((error) => {
+      ocrEnginePromise = null;
+      throw error;
+    });
+  }
+  return ocrEnginePromise;
+}
+
+// Returns null for image formats the decoder cannot read (only PNG, JPEG, GIF and TIFF are supported)
+async function recognizeReceipt(file: Blob): Promise<{ text: string; confidence: number } | null> {
+  let image;
+  try {
+    image = await decode(new Uint8Array(await file.arrayBuffer()), true);
+  } catch (error) {
+    console.error('Receipt image decode error:', error);
+    return null;
+  }
+
+  const engine = await getOcrEngine();
+  try {
+    engine.loadImage({
+      data: new Uint8ClampedArray(image.bitmap),
+      width: image.width,
+      height: image.height,
+    } as ImageData);
+    const words = engine.getTextBoxes('word');
+    const text = engine.getText();
+    const confidence = words.length
+      ? words.reduce((sum, word) => sum + word.confidence, 0) / words.length
+      : 0;
+    return { text, confidence };
+  } finally {
+    engine.clearImage();
+  }
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // The renter who submitted the receipt or the owner reviewing it may run the check
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+    if (userError || !user) {
+      return jsonResponse({ success: false, error: 'Not authenticated' }, 401);
+    }
+
+    const { bookingId }: VerifyReceiptRequest = await req.json();
+
+    const { data: booking, error: bookingError } = await supabase
+      .from('bookings')
+      .select('id, user_id, payment_amount, receipt_url, business_resources:resource_id (business_id, businesses:business_id (owner_id))')
+      .eq('id', bookingId)
+      .maybeSingle();
+
+    if (bookingError || !booking) {
+      console.error('Booking fetch error:', bookingError);
+      return jsonResponse({ success: false, error: 'Booking not found' }, 404);
+    }
+
+    const businessId = booking.business_resources?.business_id;
+    const ownerId = booking.business_resources?.businesses?.owner_id;
+    if (user.id !== booking.user_id && user.id !== ownerId) {
+      return jsonResponse({ success: false, error: 'Not authorized' }, 403);
+    }
+
+    const receiptPath = receiptPathFromBooking(booking.receipt_url);
+    if (!receiptPath) {
+      return jsonResponse({ success: false, error: 'This booking has no uploaded receipt' }, 400);
+    }
+
+    const { data: receiptFile, error: downloadError } = await supabase.storage.from('receipts').download(receiptPath);
+    if (downloadError || !receiptFile) {
+      console.error('Receipt download error:', downloadError);
+      return jsonResponse({ success: false, error: 'Unable to read the receipt' }, 500);
+    }
+
+    console.log(`Verifying receipt for booking ${bookingId} (${receiptFile.type}, ${receiptFile.size} bytes)`);
+
+    // 1. OCR runs inside the function; receipts are never sent to an outside service.
+    //    PDFs and images the decoder cannot read are left for the owner to check.
+    let text = '';
+    let ocrConfidence = 0;
+    const flags: string[] = [];
+    if (receiptFile.type === 'application/pdf') {
+      flags.push('pdf_not_read');
+    } else {
+      const ocr = await recognizeReceipt(receiptFile);
+      if (ocr) {
+        text = ocr.text;
+        ocrConfidence = Math.max(0, Math.min(1, ocr.confidence));
+      } else {
+        flags.push('image_not_read');
+      }
+    }
+
+    const parsed = parseReceiptText(text);
+
+    // 2. Compare with the booking and the business's payout accounts
+    const { data: paymentMethods } = await supabase
+      .from('payment_methods')
+      .select('account_number')
+      .eq('business_id', businessId);
+    const accountNumbers = (paymentMethods || [])
+      .map((method) => method.account_number)
+      .filter((accountNumber): accountNumber is string => !!accountNumber);
+
+    const amountMatches = parsed.amount === null ? null : parsed.amount === Number(booking.payment_amount);
+    const accountMatches = matchesAccount(parsed.account, accountNumbers);
+
+    // 3. The same transaction ID on another booking means the receipt was re-used
+    let duplicateBookingIds: string[] = [];
+    if (parsed.transactionId) {
+      const { data: duplicates, error: duplicateError } = await supabase
+        .from('receipt_verifications')
+        .select('booking_id, duplicate_booking_ids, flags')
+        .eq('extracted_transaction_id', parsed.transactionId)
+        .neq('booking_id', bookingId);
+
+      if (duplicateError) {
+        console.error('Duplicate lookup error:', duplicateError);
+      }
+
+      duplicateBookingIds = (duplicates || []).map((row) => row.booking_id);
+
+      // Flag the earlier bookings too, so whichever one the owner opens shows the re-use
+      for (const row of duplicates || []) {
+        await supabase
+          .from('receipt_verifications')
+          .update({
+            status: 'review',
+            duplicate_booking_ids: Array.from(new Set([...(row.duplicate_booking_ids || []), bookingId])),
+            flags: Array.from(new Set([...(row.flags || []), 'duplicate_transaction'])),
+          })
+          .eq('booking_id', row.booking_id);
+      }
+    }
+
+    if (parsed.amount === null) flags.push('amount_not_found');
+    if (amountMatches === false) flags.push('amount_mismatch');
+    if (!parsed.transactionId) flags.push('transaction_id_not_found');
+    if (!parsed.paidAt) flags.push('date_not_found');
+    if (parsed.account === null) flags.push('account_not_found');
+    if (accountMatches === false) flags.push('account_mismatch');
+    if (duplicateBookingIds.length > 0) flags.push('duplicate_transaction');
+
+    // Every field the OCR could not find lowers the confidence in what it did find
+    const foundCount = [parsed.amount, parsed.transactionId, parsed.paidAt, parsed.account].filter(
+      (value) => value !== null
+    ).length;
+    const confidence = Math.round(ocrConfidence * (0.4 + 0.15 * foundCount) * 100) / 100;
+
+    const unreadable = parsed.amount === null && !parsed.transactionId;
+    const status = unreadable
+      ? 'unreadable'
+      : flags.length === 0 && accountMatches === true
+        ? 'verified'
+        : 'review';
+
+    const verification = {
+      booking_id: bookingId,
+      status,
+      provider: parsed.provider,
+      extracted_amount: parsed.amount,
+      extracted_transaction_id: parsed.transactionId,
+      extracted_paid_at: parsed.paidAt,
+      extracted_account: parsed.account,
+      amount_matches: amountMatches,
+      account_matches: accountMatches,
+      duplicate_booking_ids: duplicateBookingIds,
+      confidence,
+      flags,
+      raw_text: text.slice(0, 4000),
+      checked_at: new Date().toISOString(),
+    };
+
+    const { error: saveError } = await supabase
+      .from('receipt_verifications')
+      .upsert(verification, { onConflict: 'booking_id' });
+
+    if (saveError) {
+      console.error('Error saving receipt verification:', saveError);
+      return jsonResponse({ success: false, error: saveError.message }, 500);
+    }
+
+    console.log(`Receipt for booking ${bookingId}: ${status}, flags: ${flags.join(', ') || 'none'}`);
+
+    return jsonResponse({ success: true, verification });
+  } catch (error) {
+    console.error('Unexpected error during receipt verification:', error);
+    return jsonResponse(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error occurred' },
+      500
+    );
+  }
+});
@@ -0,0 +1,80 @@
+-- Multi-slot bookings: one booking (one receipt, one total) can cover several slots
+-- across the resources of a single business. `bookings.slot_id` is kept as the
+-- primary (earliest) slot for existing joins; `booking_slots` holds every slot.
+
+-- 1) Join table between bookings and slots
+CREATE TABLE IF NOT EXISTS public.booking_slots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+  slot_id UUID NOT NULL UNIQUE REFERENCES public.slots(id) ON DELETE RESTRICT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.booking_slots IS 'Slots covered by a booking. A slot can belong to at most one open booking at a time.';
+
+CREATE INDEX IF NOT EXISTS idx_booking_slots_booking_id ON public.booking_slots(booking_id);
+
+-- 2) Backfill existing single-slot bookings that are still open
+INSERT INTO public.booking_slots (booking_id, slot_id)
+SELECT b.id, b.slot_id
+FROM public.bookings b
+WHERE b.status IN ('Pending', 'Confirmed')
+ON CONFLICT (slot_id) DO NOTHING;
+
+-- 3) Slot uniqueness now lives in booking_slots so rejected bookings no longer
+--    lock their primary slot forever
+ALTER TABLE public.bookings DROP CONSTRAINT IF EXISTS bookings_slot_id_key;
+CREATE INDEX IF NOT EXISTS idx_bookings_slot_id ON public.bookings(slot_id);
+
+-- 4) RLS
+ALTER TABLE public.booking_slots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers and owners can view booking slots"
+  ON public.booking_slots
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.bookings bk
+      WHERE bk.id = booking_slots.booking_id
+      AND (
+        bk.user_id = auth.uid()
+        OR EXISTS (
+          SELECT 1 FROM public.business_resources br
+          JOIN public.businesses b ON br.business_id = b.id
+          WHERE br.id = bk.resource_id
+          AND b.owner_id = auth.uid()
+        )
+      )
+    )
+  );
+
+CREATE POLICY "Customers can attach slots to their pending bookings"
+  ON public.booking_slots
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.bookings bk
+      WHERE bk.id = booking_slots.booking_id
+      AND bk.user_id = auth.uid()
+      AND bk.status = 'Pending'
+    )
+  );
+
+CREATE POLICY "Business owners can release booking slots"
+  ON public.booking_slots
+  FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.bookings bk
+      JOIN public.business_resources br ON bk.resource_id = br.id
+      JOIN public.businesses b ON br.business_id = b.id
+      WHERE bk.id = booking_slots.booking_id
+      AND b.owner_id = auth.uid()
+    )
+  );
+
+-- Lets a customer clean up a pending booking whose slots could not be attached
+CREATE POLICY "Customers can delete their own pending bookings"
+  ON public.bookings
+  FOR DELETE
+  USING (auth.uid() = user_id AND status = 'Pending');
@@ -0,0 +1,230 @@
+-- Atomic booking transactions.
+-- submit_booking, confirm_booking and reject_booking lock the affected slot rows,
+-- validate booking_id / is_booked and write bookings + booking_slots + slots in a
+-- single transaction. Each returns json: { success: true, ... } or
+-- { success: false, error_code: '<CODE>' } so the client can map codes to messages.
+
+CREATE OR REPLACE FUNCTION public.submit_booking(
+  p_slot_ids uuid[],
+  p_amount numeric,
+  p_receipt_url text,
+  p_payment_method text DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+  requested_count integer;
+  locked_count integer;
+  business_count integer;
+  total_price numeric;
+  primary_slot record;
+  new_booking_id uuid;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  SELECT count(DISTINCT s) INTO requested_count FROM unnest(p_slot_ids) AS s;
+  IF requested_count = 0 THEN
+    RETURN json_build_object('success', false, 'error_code', 'NO_SLOTS');
+  END IF;
+
+  -- Lock every requested slot; ordering by id keeps concurrent submissions deadlock-free
+  PERFORM 1 FROM slots WHERE id = ANY(p_slot_ids) ORDER BY id FOR UPDATE;
+
+  SELECT count(*), count(DISTINCT br.business_id), coalesce(sum(s.slot_price), 0)
+  INTO locked_count, business_count, total_price
+  FROM slots s
+  JOIN business_resources br ON br.id = s.resource_id
+  WHERE s.id = ANY(p_slot_ids);
+
+  IF locked_count <> requested_count THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_NOT_FOUND');
+  END IF;
+
+  IF business_count <> 1 THEN
+    RETURN json_build_object('success', false, 'error_code', 'MIXED_BUSINESSES');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM slots s
+    WHERE s.id = ANY(p_slot_ids)
+    AND (s.is_booked OR s.booking_id IS NOT NULL)
+  ) OR EXISTS (
+    SELECT 1 FROM booking_slots bs WHERE bs.slot_id = ANY(p_slot_ids)
+  ) THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_UNAVAILABLE');
+  END IF;
+
+  IF total_price <> p_amount THEN
+    RETURN json_build_object('success', false, 'error_code', 'AMOUNT_MISMATCH', 'expected_amount', total_price);
+  END IF;
+
+  SELECT id, resource_id INTO primary_slot
+  FROM slots
+  WHERE id = ANY(p_slot_ids)
+  ORDER BY start_time
+  LIMIT 1;
+
+  INSERT INTO bookings (slot_id, resource_id, user_id, payment_amount, receipt_url, payment_method)
+  VALUES (
+    primary_slot.id,
+    primary_slot.resource_id,
+    current_user_id,
+    total_price,
+    coalesce(p_receipt_url, 'Cash on Arrival - No receipt required'),
+    p_payment_method
+  )
+  RETURNING id INTO new_booking_id;
+
+  INSERT INTO booking_slots (booking_id, slot_id)
+  SELECT new_booking_id, s FROM (SELECT DISTINCT unnest(p_slot_ids) AS s) AS requested;
+
+  RETURN json_build_object('success', true, 'booking_id', new_booking_id);
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.confirm_booking(p_booking_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+  target_booking record;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  SELECT bk.id, bk.status, bk.slot_id, b.owner_id
+  INTO target_booking
+  FROM bookings bk
+  JOIN business_resources br ON br.id = bk.resource_id
+  JOIN businesses b ON b.id = br.business_id
+  WHERE bk.id = p_booking_id
+  FOR UPDATE OF bk;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error_code', 'BOOKING_NOT_FOUND');
+  END IF;
+
+  IF target_booking.owner_id <> current_user_id THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  IF target_booking.status <> 'Pending' THEN
+    RETURN json_build_object('success', false, 'error_code', 'BOOKING_ALREADY_PROCESSED');
+  END IF;
+
+  PERFORM 1 FROM slots s
+  JOIN booking_slots bs ON bs.slot_id = s.id
+  WHERE bs.booking_id = p_booking_id
+  ORDER BY s.id
+  FOR UPDATE OF s;
+
+  IF NOT EXISTS (SELECT 1 FROM booking_slots WHERE booking_id = p_booking_id) THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_NOT_FOUND');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM slots s
+    JOIN booking_slots bs ON bs.slot_id = s.id
+    WHERE bs.booking_id = p_booking_id
+    AND (
+      (s.booking_id IS NOT NULL AND s.booking_id <> p_booking_id)
+      OR (s.is_booked AND s.booking_id IS NULL)
+    )
+  ) THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_CONFLICT');
+  END IF;
+
+  UPDATE slots s
+  SET is_booked = true, booking_id = p_booking_id
+  FROM booking_slots bs
+  WHERE bs.slot_id = s.id AND bs.booking_id = p_booking_id;
+
+  UPDATE bookings
+  SET status = 'Confirmed', confirmed_by_id = current_user_id
+  WHERE id = p_booking_id;
+
+  RETURN json_build_object('success', true, 'booking_id', p_booking_id, 'status', 'Confirmed');
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.reject_booking(p_booking_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+  target_booking record;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  SELECT bk.id, bk.status, b.owner_id
+  INTO target_booking
+  FROM bookings bk
+  JOIN business_resources br ON br.id = bk.resource_id
+  JOIN businesses b ON b.id = br.business_id
+  WHERE bk.id = p_booking_id
+  FOR UPDATE OF bk;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error_code', 'BOOKING_NOT_FOUND');
+  END IF;
+
+  IF target_booking.owner_id <> current_user_id THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  IF target_booking.status <> 'Pending' THEN
+    RETURN json_build_object('success', false, 'error_code', 'BOOKING_ALREADY_PROCESSED');
+  END IF;
+
+  PERFORM 1 FROM slots s
+  JOIN booking_slots bs ON bs.slot_id = s.id
+  WHERE bs.booking_id = p_booking_id
+  ORDER BY s.id
+  FOR UPDATE OF s;
+
+  -- Release only slots that this booking holds
+  UPDATE slots s
+  SET is_booked = false, booking_id = NULL
+  FROM booking_slots bs
+  WHERE bs.slot_id = s.id
+  AND bs.booking_id = p_booking_id
+  AND (s.booking_id IS NULL OR s.booking_id = p_booking_id);
+
+  DELETE FROM booking_slots WHERE booking_id = p_booking_id;
+
+  UPDATE bookings
+  SET status = 'Rejected', confirmed_by_id = current_user_id
+  WHERE id = p_booking_id;
+
+  RETURN json_build_object('success', true, 'booking_id', p_booking_id, 'status', 'Rejected');
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.submit_booking(uuid[], numeric, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.confirm_booking(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reject_booking(uuid) TO authenticated;
+
+-- Bookings and their slots are now written only through the functions above and the booking
+-- functions added after them; renters and owners keep read access only
+DROP POLICY IF EXISTS "Customers can insert their own bookings" ON public.bookings;
+DROP POLICY IF EXISTS "Users can create their own bookings" ON public.bookings;
+DROP POLICY IF EXISTS "Business owners can manage booking status" ON public.bookings;
+DROP POLICY IF EXISTS "Business owners can update bookings for their resources" ON public.bookings;
+DROP POLICY IF EXISTS "Customers can delete their own pending bookings" ON public.bookings;
+DROP POLICY IF EXISTS "Customers can attach slots to their pending bookings" ON public.booking_slots;
+DROP POLICY IF EXISTS "Business owners can release booking slots" ON public.booking_slots;
@@ -0,0 +1,265 @@
+-- Temporary slot holds during checkout.
+-- A renter holds the selected slots when the receipt modal opens; other renters see
+-- them as unavailable until the hold is submitted, released or expires.
+
+-- 1) Hold columns on slots
+ALTER TABLE public.slots
+  ADD COLUMN IF NOT EXISTS held_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS held_until TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.slots.held_by IS 'Renter currently holding this slot during checkout.';
+COMMENT ON COLUMN public.slots.held_until IS 'When the checkout hold expires. Expired holds are ignored and cleared by cleanup-old-slots.';
+
+CREATE INDEX IF NOT EXISTS idx_slots_held_until ON public.slots(held_until) WHERE held_until IS NOT NULL;
+
+-- 2) Per-service hold duration
+ALTER TABLE public.services
+  ADD COLUMN IF NOT EXISTS hold_minutes INTEGER NOT NULL DEFAULT 10;
+
+ALTER TABLE public.services
+  ADD CONSTRAINT services_hold_minutes_check CHECK (hold_minutes BETWEEN 1 AND 15);
+
+COMMENT ON COLUMN public.services.hold_minutes IS 'How long selected slots stay reserved for a renter while they upload the payment receipt.';
+
+-- 3) When each renter first held a slot, so renewals cannot keep it indefinitely.
+--    RLS with no policies: only hold_slots reads and writes it.
+CREATE TABLE IF NOT EXISTS public.slot_hold_history (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  slot_id UUID NOT NULL REFERENCES public.slots(id) ON DELETE CASCADE,
+  first_held_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, slot_id)
+);
+
+ALTER TABLE public.slot_hold_history ENABLE ROW LEVEL SECURITY;
+
+-- 4) hold_slots: place (or refresh) a hold for the current user
+CREATE OR REPLACE FUNCTION public.hold_slots(p_slot_ids uuid[])
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+  requested_count integer;
+  locked_count integer;
+  business_count integer;
+  hold_length integer;
+  hold_window_start timestamptz;
+  new_held_until timestamptz;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  SELECT count(DISTINCT s) INTO requested_count FROM unnest(p_slot_ids) AS s;
+  IF requested_count = 0 THEN
+    RETURN json_build_object('success', false, 'error_code', 'NO_SLOTS');
+  END IF;
+
+  -- One checkout covers at most 16 slots, so a single renter cannot hold a whole venue
+  IF requested_count > 16 THEN
+    RETURN json_build_object('success', false, 'error_code', 'TOO_MANY_SLOTS');
+  END IF;
+
+  PERFORM 1 FROM slots WHERE id = ANY(p_slot_ids) ORDER BY id FOR UPDATE;
+
+  SELECT count(*), count(DISTINCT br.business_id), least(coalesce(max(sv.hold_minutes), 10), 15)
+  INTO locked_count, business_count, hold_length
+  FROM slots s
+  JOIN business_resources br ON br.id = s.resource_id
+  LEFT JOIN services sv ON sv.id = br.service_id
+  WHERE s.id = ANY(p_slot_ids);
+
+  IF locked_count <> requested_count THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_NOT_FOUND');
+  END IF;
+
+  IF business_count <> 1 THEN
+    RETURN json_build_object('success', false, 'error_code', 'MIXED_BUSINESSES');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM slots s WHERE s.id = ANY(p_slot_ids) AND s.start_time <= now()) THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_IN_PAST');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM slots s
+    WHERE s.id = ANY(p_slot_ids)
+    AND (s.is_booked OR s.booking_id IS NOT NULL)
+  ) OR EXISTS (
+    SELECT 1 FROM booking_slots bs WHERE bs.slot_id = ANY(p_slot_ids)
+  ) THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_UNAVAILABLE');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM slots s
+    WHERE s.id = ANY(p_slot_ids)
+    AND s.held_by IS NOT NULL
+    AND s.held_by <> current_user_id
+    AND s.held_until > now()
+  ) THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_HELD');
+  END IF;
+
+  -- Renewing a hold cannot keep a slot for more than 30 minutes; the renter may hold it again
+  -- once two hours have passed since their first hold on it
+  DELETE FROM slot_hold_history
+  WHERE user_id = current_user_id
+  AND first_held_at < now() - INTERVAL '2 hours';
+
+  SELECT min(first_held_at) INTO hold_window_start
+  FROM slot_hold_history
+  WHERE user_id = current_user_id
+  AND slot_id = ANY(p_slot_ids);
+
+  IF hold_window_start <= now() - INTERVAL '30 minutes' THEN
+    RETURN json_build_object('success', false, 'error_code', 'HOLD_LIMIT_REACHED');
+  END IF;
+
+  INSERT INTO slot_hold_history (user_id, slot_id)
+  SELECT DISTINCT current_user_id, s FROM unnest(p_slot_ids) AS s
+  ON CONFLICT (user_id, slot_id) DO NOTHING;
+
+  -- A renter checks out one selection at a time
+  UPDATE slots
+  SET held_by = NULL, held_until = NULL
+  WHERE held_by = current_user_id
+  AND NOT (id = ANY(p_slot_ids));
+
+  new_held_until := least(
+    now() + make_interval(mins => hold_length),
+    coalesce(hold_window_start, now()) + INTERVAL '30 minutes'
+  );
+
+  UPDATE slots
+  SET held_by = current_user_id, held_until = new_held_until
+  WHERE id = ANY(p_slot_ids);
+
+  RETURN json_build_object('success', true, 'held_until', new_held_until);
+END;
+$function$;
+
+-- 5) release_slot_holds: drop the current user's holds (checkout cancelled)
+CREATE OR REPLACE FUNCTION public.release_slot_holds(p_slot_ids uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  released_count integer;
+BEGIN
+  UPDATE slots
+  SET held_by = NULL, held_until = NULL
+  WHERE id = ANY(p_slot_ids)
+  AND held_by = auth.uid();
+
+  GET DIAGNOSTICS released_count = ROW_COUNT;
+  RETURN released_count;
+END;
+$function$;
+
+-- 6) submit_booking now respects holds placed by other renters and consumes the caller's hold
+CREATE OR REPLACE FUNCTION public.submit_booking(
+  p_slot_ids uuid[],
+  p_amount numeric,
+  p_receipt_url text,
+  p_payment_method text DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+  requested_count integer;
+  locked_count integer;
+  business_count integer;
+  total_price numeric;
+  primary_slot record;
+  new_booking_id uuid;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  SELECT count(DISTINCT s) INTO requested_count FROM unnest(p_slot_ids) AS s;
+  IF requested_count = 0 THEN
+    RETURN json_build_object('success', false, 'error_code', 'NO_SLOTS');
+  END IF;
+
+  -- Lock every requested slot; ordering by id keeps concurrent submissions deadlock-free
+  PERFORM 1 FROM slots WHERE id = ANY(p_slot_ids) ORDER BY id FOR UPDATE;
+
+  SELECT count(*), count(DISTINCT br.business_id), coalesce(sum(s.slot_price), 0)
+  INTO locked_count, business_count, total_price
+  FROM slots s
+  JOIN business_resources br ON br.id = s.resource_id
+  WHERE s.id = ANY(p_slot_ids);
+
+  IF locked_count <> requested_count THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_NOT_FOUND');
+  END IF;
+
+  IF business_count <> 1 THEN
+    RETURN json_build_object('success', false, 'error_code', 'MIXED_BUSINESSES');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM slots s
+    WHERE s.id = ANY(p_slot_ids)
+    AND (s.is_booked OR s.booking_id IS NOT NULL)
+  ) OR EXISTS (
+    SELECT 1 FROM booking_slots bs WHERE bs.slot_id = ANY(p_slot_ids)
+  ) THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_UNAVAILABLE');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM slots s
+    WHERE s.id = ANY(p_slot_ids)
+    AND s.held_by IS NOT NULL
+    AND s.held_by <> current_user_id
+    AND s.held_until > now()
+  ) THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_HELD');
+  END IF;
+
+  IF total_price <> p_amount THEN
+    RETURN json_build_object('success', false, 'error_code', 'AMOUNT_MISMATCH', 'expected_amount', total_price);
+  END IF;
+
+  SELECT id, resource_id INTO primary_slot
+  FROM slots
+  WHERE id = ANY(p_slot_ids)
+  ORDER BY start_time
+  LIMIT 1;
+
+  INSERT INTO bookings (slot_id, resource_id, user_id, payment_amount, receipt_url, payment_method)
+  VALUES (
+    primary_slot.id,
+    primary_slot.resource_id,
+    current_user_id,
+    total_price,
+    coalesce(p_receipt_url, 'Cash on Arrival - No receipt required'),
+    p_payment_method
+  )
+  RETURNING id INTO new_booking_id;
+
+  INSERT INTO booking_slots (booking_id, slot_id)
+  SELECT new_booking_id, s FROM (SELECT DISTINCT unnest(p_slot_ids) AS s) AS requested;
+
+  -- The pending booking now reserves the slots
+  UPDATE slots
+  SET held_by = NULL, held_until = NULL
+  WHERE id = ANY(p_slot_ids);
+
+  RETURN json_build_object('success', true, 'booking_id', new_booking_id);
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.hold_slots(uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.release_slot_holds(uuid[]) TO authenticated;
@@ -0,0 +1,25 @@
+-- Per-business timezone.
+-- Schedules, pricing rules and the booking pages interpret wall-clock times in the
+-- business's IANA timezone instead of the hardcoded Myanmar offset (UTC+6:30).
+
+CREATE OR REPLACE FUNCTION public.is_valid_timezone(p_timezone text)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  PERFORM now() AT TIME ZONE p_timezone;
+  RETURN true;
+EXCEPTION WHEN invalid_parameter_value THEN
+  RETURN false;
+END;
+$function$;
+
+ALTER TABLE public.businesses
+  ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'Asia/Yangon';
+
+ALTER TABLE public.businesses
+  ADD CONSTRAINT businesses_timezone_check CHECK (public.is_valid_timezone(timezone));
+
+COMMENT ON COLUMN public.businesses.timezone IS 'IANA timezone used for schedules, pricing rules and slot display (e.g. Asia/Yangon, Asia/Bangkok).';
@@ -0,0 +1,38 @@
+-- Date-specific schedule exceptions.
+-- A business_schedules row with applies_to_date set overrides the weekly rule of the
+-- same resource for that one local date: closed (holidays such as Thingyan, maintenance
+-- blackouts) or open with special hours.
+
+ALTER TABLE public.business_schedules
+  ADD COLUMN IF NOT EXISTS note TEXT;
+
+COMMENT ON COLUMN public.business_schedules.note IS 'Reason shown for a date exception, e.g. "Thingyan holiday" or "Pitch maintenance".';
+
+-- Date rows saved before this migration may carry any day_of_week and may repeat a date;
+-- align the day and keep only the most recently edited row per resource and date so the
+-- constraints below can be added
+UPDATE public.business_schedules
+SET day_of_week = EXTRACT(ISODOW FROM applies_to_date)::int
+WHERE applies_to_date IS NOT NULL
+AND day_of_week IS DISTINCT FROM EXTRACT(ISODOW FROM applies_to_date)::int;
+
+DELETE FROM public.business_schedules bs
+USING (
+  SELECT id, row_number() OVER (
+    PARTITION BY resource_id, applies_to_date
+    ORDER BY updated_at DESC, created_at DESC, id
+  ) AS position
+  FROM public.business_schedules
+  WHERE applies_to_date IS NOT NULL
+) AS ranked
+WHERE bs.id = ranked.id
+AND ranked.position > 1;
+
+-- Keep day_of_week consistent with the date so weekly lookups never pick up an exception
+ALTER TABLE public.business_schedules
+  ADD CONSTRAINT business_schedules_exception_day_check
+  CHECK (applies_to_date IS NULL OR day_of_week = EXTRACT(ISODOW FROM applies_to_date)::int);
+
+-- At most one exception per resource and date (weekly rows have a NULL date and are unaffected)
+ALTER TABLE public.business_schedules
+  ADD CONSTRAINT business_schedules_resource_date_key UNIQUE (resource_id, applies_to_date);
@@ -0,0 +1,127 @@
+-- Non-destructive slot regeneration.
+-- generate-slots used to delete every slot of a resource in the date range and insert a
+-- fresh set, destroying booked and pending slots. regenerate_resource_slots applies the
+-- new schedule as a diff in one transaction:
+--   * free slots that match the new schedule are kept and get the new price
+--   * free slots outside the new schedule are deleted
+--   * booked, pending-booking and held slots are never touched; those outside the new
+--     schedule are returned as conflicts for the owner to resolve
+--   * new slots are inserted only where they do not overlap a remaining slot
+
+-- Closed bookings (e.g. Rejected) may still point at a free slot that regeneration
+-- deletes; keep the booking row instead of cascading the delete into it.
+ALTER TABLE public.bookings ALTER COLUMN slot_id DROP NOT NULL;
+ALTER TABLE public.bookings DROP CONSTRAINT IF EXISTS bookings_slot_id_fkey;
+ALTER TABLE public.bookings
+  ADD CONSTRAINT bookings_slot_id_fkey
+  FOREIGN KEY (slot_id) REFERENCES public.slots(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.regenerate_resource_slots(
+  p_resource_id uuid,
+  p_range_start timestamptz,
+  p_range_end timestamptz,
+  p_slots jsonb,
+  p_slot_name text DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  desired_count integer;
+  deleted_count integer;
+  updated_count integer;
+  inserted_count integer;
+  conflicts json;
+BEGIN
+  SELECT count(*) INTO desired_count FROM jsonb_array_elements(coalesce(p_slots, '[]'::jsonb));
+
+  -- Lock the range so bookings and holds cannot change while the diff is applied
+  PERFORM 1 FROM slots
+  WHERE resource_id = p_resource_id
+  AND start_time >= p_range_start
+  AND start_time < p_range_end
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Occupied slots that no longer fit the schedule
+  SELECT coalesce(json_agg(json_build_object(
+    'slot_id', s.id,
+    'start_time', s.start_time,
+    'end_time', s.end_time,
+    'booking_id', coalesce(bs.booking_id, s.booking_id),
+    'booking_status', bk.status,
+    'held_until', s.held_until
+  ) ORDER BY s.start_time), '[]'::json)
+  INTO conflicts
+  FROM slots s
+  LEFT JOIN booking_slots bs ON bs.slot_id = s.id
+  LEFT JOIN bookings bk ON bk.id = coalesce(bs.booking_id, s.booking_id)
+  WHERE s.resource_id = p_resource_id
+  AND s.start_time >= p_range_start
+  AND s.start_time < p_range_end
+  AND (
+    s.is_booked
+    OR s.booking_id IS NOT NULL
+    OR bs.slot_id IS NOT NULL
+    OR (s.held_by IS NOT NULL AND s.held_until > now())
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_slots) AS d(start_time timestamptz, end_time timestamptz, slot_price numeric)
+    WHERE d.start_time = s.start_time AND d.end_time = s.end_time
+  );
+
+  DELETE FROM slots s
+  WHERE s.resource_id = p_resource_id
+  AND s.start_time >= p_range_start
+  AND s.start_time < p_range_end
+  AND NOT s.is_booked
+  AND s.booking_id IS NULL
+  AND NOT EXISTS (SELECT 1 FROM booking_slots bs WHERE bs.slot_id = s.id)
+  AND NOT (s.held_by IS NOT NULL AND s.held_until > now())
+  AND NOT EXISTS (
+    SELECT 1 FROM jsonb_to_recordset(p_slots) AS d(start_time timestamptz, end_time timestamptz, slot_price numeric)
+    WHERE d.start_time = s.start_time AND d.end_time = s.end_time
+  );
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+
+  UPDATE slots s
+  SET slot_price = d.slot_price
+  FROM jsonb_to_recordset(p_slots) AS d(start_time timestamptz, end_time timestamptz, slot_price numeric)
+  WHERE s.resource_id = p_resource_id
+  AND s.start_time = d.start_time
+  AND s.end_time = d.end_time
+  AND NOT s.is_booked
+  AND s.booking_id IS NULL
+  AND NOT EXISTS (SELECT 1 FROM booking_slots bs WHERE bs.slot_id = s.id)
+  AND NOT (s.held_by IS NOT NULL AND s.held_until > now())
+  AND s.slot_price IS DISTINCT FROM d.slot_price;
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+  INSERT INTO slots (resource_id, start_time, end_time, slot_price, is_booked, slot_name)
+  SELECT p_resource_id, d.start_time, d.end_time, d.slot_price, false, p_slot_name
+  FROM jsonb_to_recordset(p_slots) AS d(start_time timestamptz, end_time timestamptz, slot_price numeric)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM slots s
+    WHERE s.resource_id = p_resource_id
+    AND s.start_time < d.end_time
+    AND s.end_time > d.start_time
+  );
+  GET DIAGNOSTICS inserted_count = ROW_COUNT;
+
+  RETURN json_build_object(
+    'success', true,
+    'slots_created', inserted_count,
+    'slots_updated', updated_count,
+    'slots_deleted', deleted_count,
+    -- Desired slots that already existed or overlap a kept booking
+    'slots_unchanged', desired_count - inserted_count,
+    'conflicts', conflicts
+  );
+END;
+$function$;
+
+-- Only the generate-slots edge function (service role) regenerates slots
+REVOKE EXECUTE ON FUNCTION public.regenerate_resource_slots(uuid, timestamptz, timestamptz, jsonb, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.regenerate_resource_slots(uuid, timestamptz, timestamptz, jsonb, text) TO service_role;
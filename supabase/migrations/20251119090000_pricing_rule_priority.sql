@@ -0,0 +1,90 @@
+-- Pricing rule priority and date ranges.
+-- When several rules match a slot the one with the highest priority wins (ties go to
+-- date-limited, then narrower, then older rules). Rules can be limited to a date range,
+-- e.g. a tournament week. Overlapping rules with the same priority are rejected because
+-- neither would clearly win.
+
+ALTER TABLE public.resource_pricing_rules
+  ADD COLUMN IF NOT EXISTS priority INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS valid_from DATE,
+  ADD COLUMN IF NOT EXISTS valid_until DATE;
+
+ALTER TABLE public.resource_pricing_rules
+  ADD CONSTRAINT resource_pricing_rules_valid_range_check
+  CHECK (valid_from IS NULL OR valid_until IS NULL OR valid_from <= valid_until);
+
+COMMENT ON COLUMN public.resource_pricing_rules.priority IS 'Higher priority wins when several rules match the same slot.';
+COMMENT ON COLUMN public.resource_pricing_rules.valid_from IS 'First local date the rule applies (inclusive). Null means no start limit.';
+COMMENT ON COLUMN public.resource_pricing_rules.valid_until IS 'Last local date the rule applies (inclusive). Null means no end limit.';
+
+-- Minute intervals covered by a time window within one day; cross-midnight windows split in two
+CREATE OR REPLACE FUNCTION public.pricing_window_ranges(p_start time, p_end time)
+RETURNS int4range[]
+LANGUAGE sql
+IMMUTABLE
+AS $function$
+  SELECT CASE
+    WHEN p_start < p_end THEN ARRAY[int4range(
+      (EXTRACT(EPOCH FROM p_start) / 60)::int, (EXTRACT(EPOCH FROM p_end) / 60)::int)]
+    WHEN p_start = p_end THEN ARRAY[int4range(0, 1440)]
+    ELSE ARRAY[
+      int4range((EXTRACT(EPOCH FROM p_start) / 60)::int, 1440),
+      int4range(0, (EXTRACT(EPOCH FROM p_end) / 60)::int)
+    ]
+  END;
+$function$;
+
+-- Rule days as 1..7, like normalizeRuleDays in the app: legacy rows may store 0 for Sunday
+CREATE OR REPLACE FUNCTION public.pricing_rule_days(p_days int[])
+RETURNS int[]
+LANGUAGE sql
+IMMUTABLE
+AS $function$
+  SELECT coalesce(array_agg(DISTINCT CASE WHEN d = 0 THEN 7 ELSE d END), '{}')
+  FROM unnest(p_days) AS d;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.check_pricing_rule_overlap()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  clashing_rule text;
+BEGIN
+  SELECT r.rule_name INTO clashing_rule
+  FROM resource_pricing_rules r
+  WHERE r.resource_id = NEW.resource_id
+  AND r.id <> NEW.id
+  AND r.priority = NEW.priority
+  -- shared days (null / empty means every day)
+  AND (
+    coalesce(cardinality(r.day_of_week), 0) = 0
+    OR coalesce(cardinality(NEW.day_of_week), 0) = 0
+    OR pricing_rule_days(r.day_of_week) && pricing_rule_days(NEW.day_of_week)
+  )
+  -- shared dates
+  AND coalesce(r.valid_from, '-infinity'::date) <= coalesce(NEW.valid_until, 'infinity'::date)
+  AND coalesce(NEW.valid_from, '-infinity'::date) <= coalesce(r.valid_until, 'infinity'::date)
+  -- shared minutes
+  AND EXISTS (
+    SELECT 1
+    FROM unnest(pricing_window_ranges(r.start_time, r.end_time)) AS a(w)
+    CROSS JOIN unnest(pricing_window_ranges(NEW.start_time, NEW.end_time)) AS b(w)
+    WHERE a.w && b.w
+  )
+  LIMIT 1;
+
+  IF clashing_rule IS NOT NULL THEN
+    RAISE EXCEPTION 'Pricing rule "%" overlaps rule "%" with the same priority', NEW.rule_name, clashing_rule
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER check_pricing_rule_overlap
+BEFORE INSERT OR UPDATE ON public.resource_pricing_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.check_pricing_rule_overlap();
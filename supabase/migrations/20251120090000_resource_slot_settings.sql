@@ -0,0 +1,244 @@
+-- Per-resource slot length, changeover buffer and minimum booking lead time.
+-- generate-slots uses slot_duration_minutes (falling back to services.default_duration_min,
+-- then 60) and leaves buffer_minutes free between consecutive slots. Slots that start
+-- sooner than min_lead_minutes from now can no longer be held or booked.
+
+ALTER TABLE public.business_resources
+  ADD COLUMN IF NOT EXISTS slot_duration_minutes INTEGER,
+  ADD COLUMN IF NOT EXISTS buffer_minutes INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS min_lead_minutes INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.business_resources
+  ADD CONSTRAINT business_resources_slot_duration_check CHECK (slot_duration_minutes IS NULL OR slot_duration_minutes BETWEEN 15 AND 720),
+  ADD CONSTRAINT business_resources_buffer_minutes_check CHECK (buffer_minutes BETWEEN 0 AND 240),
+  ADD CONSTRAINT business_resources_min_lead_minutes_check CHECK (min_lead_minutes BETWEEN 0 AND 43200);
+
+COMMENT ON COLUMN public.business_resources.slot_duration_minutes IS 'Length of each generated slot. Null falls back to services.default_duration_min, then 60.';
+COMMENT ON COLUMN public.business_resources.buffer_minutes IS 'Gap left between consecutive slots for cleaning or changeover.';
+COMMENT ON COLUMN public.business_resources.min_lead_minutes IS 'How long before its start a slot stops being bookable.';
+
+-- hold_slots and submit_booking now reject slots inside the lead time (SLOT_TOO_SOON)
+CREATE OR REPLACE FUNCTION public.hold_slots(p_slot_ids uuid[])
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+  requested_count integer;
+  locked_count integer;
+  business_count integer;
+  hold_length integer;
+  hold_window_start timestamptz;
+  new_held_until timestamptz;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  SELECT count(DISTINCT s) INTO requested_count FROM unnest(p_slot_ids) AS s;
+  IF requested_count = 0 THEN
+    RETURN json_build_object('success', false, 'error_code', 'NO_SLOTS');
+  END IF;
+
+  -- One checkout covers at most 16 slots, so a single renter cannot hold a whole venue
+  IF requested_count > 16 THEN
+    RETURN json_build_object('success', false, 'error_code', 'TOO_MANY_SLOTS');
+  END IF;
+
+  PERFORM 1 FROM slots WHERE id = ANY(p_slot_ids) ORDER BY id FOR UPDATE;
+
+  SELECT count(*), count(DISTINCT br.business_id), least(coalesce(max(sv.hold_minutes), 10), 15)
+  INTO locked_count, business_count, hold_length
+  FROM slots s
+  JOIN business_resources br ON br.id = s.resource_id
+  LEFT JOIN services sv ON sv.id = br.service_id
+  WHERE s.id = ANY(p_slot_ids);
+
+  IF locked_count <> requested_count THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_NOT_FOUND');
+  END IF;
+
+  IF business_count <> 1 THEN
+    RETURN json_build_object('success', false, 'error_code', 'MIXED_BUSINESSES');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM slots s WHERE s.id = ANY(p_slot_ids) AND s.start_time <= now()) THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_IN_PAST');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM slots s
+    WHERE s.id = ANY(p_slot_ids)
+    AND (s.is_booked OR s.booking_id IS NOT NULL)
+  ) OR EXISTS (
+    SELECT 1 FROM booking_slots bs WHERE bs.slot_id = ANY(p_slot_ids)
+  ) THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_UNAVAILABLE');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM slots s
+    JOIN business_resources br ON br.id = s.resource_id
+    WHERE s.id = ANY(p_slot_ids)
+    AND s.start_time < now() + make_interval(mins => br.min_lead_minutes)
+  ) THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_TOO_SOON');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM slots s
+    WHERE s.id = ANY(p_slot_ids)
+    AND s.held_by IS NOT NULL
+    AND s.held_by <> current_user_id
+    AND s.held_until > now()
+  ) THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_HELD');
+  END IF;
+
+  -- Renewing a hold cannot keep a slot for more than 30 minutes; the renter may hold it again
+  -- once two hours have passed since their first hold on it
+  DELETE FROM slot_hold_history
+  WHERE user_id = current_user_id
+  AND first_held_at < now() - INTERVAL '2 hours';
+
+  SELECT min(first_held_at) INTO hold_window_start
+  FROM slot_hold_history
+  WHERE user_id = current_user_id
+  AND slot_id = ANY(p_slot_ids);
+
+  IF hold_window_start <= now() - INTERVAL '30 minutes' THEN
+    RETURN json_build_object('success', false, 'error_code', 'HOLD_LIMIT_REACHED');
+  END IF;
+
+  INSERT INTO slot_hold_history (user_id, slot_id)
+  SELECT DISTINCT current_user_id, s FROM unnest(p_slot_ids) AS s
+  ON CONFLICT (user_id, slot_id) DO NOTHING;
+
+  -- A renter checks out one selection at a time
+  UPDATE slots
+  SET held_by = NULL, held_until = NULL
+  WHERE held_by = current_user_id
+  AND NOT (id = ANY(p_slot_ids));
+
+  new_held_until := least(
+    now() + make_interval(mins => hold_length),
+    coalesce(hold_window_start, now()) + INTERVAL '30 minutes'
+  );
+
+  UPDATE slots
+  SET held_by = current_user_id, held_until = new_held_until
+  WHERE id = ANY(p_slot_ids);
+
+  RETURN json_build_object('success', true, 'held_until', new_held_until);
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.submit_booking(
+  p_slot_ids uuid[],
+  p_amount numeric,
+  p_receipt_url text,
+  p_payment_method text DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+  requested_count integer;
+  locked_count integer;
+  business_count integer;
+  total_price numeric;
+  primary_slot record;
+  new_booking_id uuid;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  SELECT count(DISTINCT s) INTO requested_count FROM unnest(p_slot_ids) AS s;
+  IF requested_count = 0 THEN
+    RETURN json_build_object('success', false, 'error_code', 'NO_SLOTS');
+  END IF;
+
+  -- Lock every requested slot; ordering by id keeps concurrent submissions deadlock-free
+  PERFORM 1 FROM slots WHERE id = ANY(p_slot_ids) ORDER BY id FOR UPDATE;
+
+  SELECT count(*), count(DISTINCT br.business_id), coalesce(sum(s.slot_price), 0)
+  INTO locked_count, business_count, total_price
+  FROM slots s
+  JOIN business_resources br ON br.id = s.resource_id
+  WHERE s.id = ANY(p_slot_ids);
+
+  IF locked_count <> requested_count THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_NOT_FOUND');
+  END IF;
+
+  IF business_count <> 1 THEN
+    RETURN json_build_object('success', false, 'error_code', 'MIXED_BUSINESSES');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM slots s
+    WHERE s.id = ANY(p_slot_ids)
+    AND (s.is_booked OR s.booking_id IS NOT NULL)
+  ) OR EXISTS (
+    SELECT 1 FROM booking_slots bs WHERE bs.slot_id = ANY(p_slot_ids)
+  ) THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_UNAVAILABLE');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM slots s
+    JOIN business_resources br ON br.id = s.resource_id
+    WHERE s.id = ANY(p_slot_ids)
+    AND s.start_time < now() + make_interval(mins => br.min_lead_minutes)
+  ) THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_TOO_SOON');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM slots s
+    WHERE s.id = ANY(p_slot_ids)
+    AND s.held_by IS NOT NULL
+    AND s.held_by <> current_user_id
+    AND s.held_until > now()
+  ) THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_HELD');
+  END IF;
+
+  IF total_price <> p_amount THEN
+    RETURN json_build_object('success', false, 'error_code', 'AMOUNT_MISMATCH', 'expected_amount', total_price);
+  END IF;
+
+  SELECT id, resource_id INTO primary_slot
+  FROM slots
+  WHERE id = ANY(p_slot_ids)
+  ORDER BY start_time
+  LIMIT 1;
+
+  INSERT INTO bookings (slot_id, resource_id, user_id, payment_amount, receipt_url, payment_method)
+  VALUES (
+    primary_slot.id,
+    primary_slot.resource_id,
+    current_user_id,
+    total_price,
+    coalesce(p_receipt_url, 'Cash on Arrival - No receipt required'),
+    p_payment_method
+  )
+  RETURNING id INTO new_booking_id;
+
+  INSERT INTO booking_slots (booking_id, slot_id)
+  SELECT new_booking_id, s FROM (SELECT DISTINCT unnest(p_slot_ids) AS s) AS requested;
+
+  -- The pending booking now reserves the slots
+  UPDATE slots
+  SET held_by = NULL, held_until = NULL
+  WHERE id = ANY(p_slot_ids);
+
+  RETURN json_build_object('success', true, 'booking_id', new_booking_id);
+END;
+$function$;
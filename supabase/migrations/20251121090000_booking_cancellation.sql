@@ -0,0 +1,216 @@
+-- Renter-initiated cancellation with a per-service cancellation policy.
+-- A cancelled booking releases its slots straight away. If the policy leaves money to
+-- give back, the booking moves to 'RefundPending' until the owner marks the refund as
+-- paid ('Refunded'); otherwise it ends as 'Cancelled'.
+
+-- 1) Cancellation policy, set by the owner per service
+ALTER TABLE public.services
+  ADD COLUMN IF NOT EXISTS free_cancellation_hours INTEGER NOT NULL DEFAULT 24,
+  ADD COLUMN IF NOT EXISTS late_cancellation_refund_percent INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.services
+  ADD CONSTRAINT services_free_cancellation_hours_check CHECK (free_cancellation_hours BETWEEN 0 AND 720),
+  ADD CONSTRAINT services_late_cancellation_refund_percent_check CHECK (late_cancellation_refund_percent BETWEEN 0 AND 100);
+
+COMMENT ON COLUMN public.services.free_cancellation_hours IS 'Renters get a full refund when they cancel at least this many hours before the first slot starts.';
+COMMENT ON COLUMN public.services.late_cancellation_refund_percent IS 'Share of the payment refunded for cancellations inside the free cancellation window.';
+
+-- 2) Cancellation and refund details on the booking
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS cancelled_by_id UUID,
+  ADD COLUMN IF NOT EXISTS cancellation_reason TEXT,
+  ADD COLUMN IF NOT EXISTS refund_amount NUMERIC,
+  ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMPTZ;
+
+ALTER TABLE public.bookings DROP CONSTRAINT IF EXISTS bookings_status_check;
+ALTER TABLE public.bookings
+  ADD CONSTRAINT bookings_status_check
+  CHECK (status IN ('Pending', 'Confirmed', 'Rejected', 'Cancelled', 'RefundPending', 'Refunded'));
+
+COMMENT ON COLUMN public.bookings.refund_amount IS 'Amount the owner owes the renter after a cancellation, worked out from the service policy at cancellation time.';
+
+-- 3) Renter cancels their own Pending or Confirmed booking before it starts
+CREATE OR REPLACE FUNCTION public.cancel_booking(p_booking_id uuid, p_reason text DEFAULT NULL)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+  target_booking record;
+  first_start timestamptz;
+  computed_refund numeric := 0;
+  next_status text;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  SELECT bk.id, bk.status, bk.user_id, bk.slot_id, bk.payment_amount, bk.payment_method,
+         coalesce(sv.free_cancellation_hours, 24) AS free_hours,
+         coalesce(sv.late_cancellation_refund_percent, 0) AS late_percent
+  INTO target_booking
+  FROM bookings bk
+  JOIN business_resources br ON br.id = bk.resource_id
+  LEFT JOIN services sv ON sv.id = br.service_id
+  WHERE bk.id = p_booking_id
+  FOR UPDATE OF bk;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error_code', 'BOOKING_NOT_FOUND');
+  END IF;
+
+  IF target_booking.user_id IS DISTINCT FROM current_user_id THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  IF target_booking.status NOT IN ('Pending', 'Confirmed') THEN
+    RETURN json_build_object('success', false, 'error_code', 'BOOKING_NOT_CANCELLABLE');
+  END IF;
+
+  PERFORM 1 FROM slots s
+  JOIN booking_slots bs ON bs.slot_id = s.id
+  WHERE bs.booking_id = p_booking_id
+  ORDER BY s.id
+  FOR UPDATE OF s;
+
+  SELECT min(s.start_time) INTO first_start
+  FROM slots s
+  WHERE s.id IN (
+    SELECT bs.slot_id FROM booking_slots bs WHERE bs.booking_id = p_booking_id
+    UNION
+    SELECT target_booking.slot_id
+  );
+
+  IF first_start IS NOT NULL AND first_start <= now() THEN
+    RETURN json_build_object('success', false, 'error_code', 'BOOKING_ALREADY_STARTED');
+  END IF;
+
+  -- Nothing was paid up front for cash bookings, so there is nothing to give back
+  IF lower(coalesce(target_booking.payment_method, '')) <> 'cash on arrival' THEN
+    IF first_start IS NULL
+      OR first_start >= now() + make_interval(hours => target_booking.free_hours) THEN
+      computed_refund := target_booking.payment_amount;
+    ELSE
+      computed_refund := round(target_booking.payment_amount * target_booking.late_percent / 100.0);
+    END IF;
+  END IF;
+
+  next_status := CASE WHEN computed_refund > 0 THEN 'RefundPending' ELSE 'Cancelled' END;
+
+  -- Release only slots that this booking holds
+  UPDATE slots s
+  SET is_booked = false, booking_id = NULL
+  FROM booking_slots bs
+  WHERE bs.slot_id = s.id
+  AND bs.booking_id = p_booking_id
+  AND (s.booking_id IS NULL OR s.booking_id = p_booking_id);
+
+  DELETE FROM booking_slots WHERE booking_id = p_booking_id;
+
+  UPDATE bookings
+  SET status = next_status,
+      cancelled_at = now(),
+      cancelled_by_id = current_user_id,
+      cancellation_reason = nullif(trim(p_reason), ''),
+      refund_amount = computed_refund
+  WHERE id = p_booking_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'booking_id', p_booking_id,
+    'status', next_status,
+    'refund_amount', computed_refund
+  );
+END;
+$function$;
+
+-- 4) Owner records that the refund has been paid back to the renter
+CREATE OR REPLACE FUNCTION public.mark_booking_refunded(p_booking_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+  target_booking record;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  SELECT bk.id, bk.status, b.owner_id
+  INTO target_booking
+  FROM bookings bk
+  JOIN business_resources br ON br.id = bk.resource_id
+  JOIN businesses b ON b.id = br.business_id
+  WHERE bk.id = p_booking_id
+  FOR UPDATE OF bk;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error_code', 'BOOKING_NOT_FOUND');
+  END IF;
+
+  IF target_booking.owner_id <> current_user_id THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  IF target_booking.status <> 'RefundPending' THEN
+    RETURN json_build_object('success', false, 'error_code', 'BOOKING_ALREADY_PROCESSED');
+  END IF;
+
+  UPDATE bookings
+  SET status = 'Refunded', refunded_at = now()
+  WHERE id = p_booking_id;
+
+  RETURN json_build_object('success', true, 'booking_id', p_booking_id, 'status', 'Refunded');
+END;
+$function$;
+
+-- 5) Services are admin-managed, so owners change their policy through this function
+CREATE OR REPLACE FUNCTION public.set_cancellation_policy(
+  p_service_id integer,
+  p_free_cancellation_hours integer,
+  p_late_cancellation_refund_percent integer
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+BEGIN
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM business_resources br
+    JOIN businesses b ON b.id = br.business_id
+    WHERE br.service_id = p_service_id
+    AND b.owner_id = current_user_id
+  ) THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  IF p_free_cancellation_hours NOT BETWEEN 0 AND 720
+    OR p_late_cancellation_refund_percent NOT BETWEEN 0 AND 100 THEN
+    RETURN json_build_object('success', false, 'error_code', 'INVALID_POLICY');
+  END IF;
+
+  UPDATE services
+  SET free_cancellation_hours = p_free_cancellation_hours,
+      late_cancellation_refund_percent = p_late_cancellation_refund_percent
+  WHERE id = p_service_id;
+
+  RETURN json_build_object('success', true);
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.cancel_booking(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_booking_refunded(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_cancellation_policy(integer, integer, integer) TO authenticated;
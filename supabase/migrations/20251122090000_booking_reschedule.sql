@@ -0,0 +1,276 @@
+-- Booking rescheduling.
+-- reschedule_booking moves an open booking onto other free slots of the same business in
+-- one transaction. The original receipt and payment stay on the booking; the difference
+-- between the new slot total and the amount paid is kept in bookings.balance_due
+-- (positive: the renter pays the rest, negative: the owner refunds it) until the owner
+-- settles it. Every move is recorded in booking_reschedules.
+
+-- 1) Reschedule details on the booking
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS balance_due NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS rescheduled_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS rescheduled_by_id UUID;
+
+COMMENT ON COLUMN public.bookings.balance_due IS 'Slot total minus the amount paid after a reschedule. Positive: renter owes the owner; negative: owner owes the renter.';
+
+-- 2) History of moves
+CREATE TABLE IF NOT EXISTS public.booking_reschedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+  previous_slot_ids UUID[] NOT NULL,
+  new_slot_ids UUID[] NOT NULL,
+  previous_amount NUMERIC NOT NULL,
+  new_amount NUMERIC NOT NULL,
+  rescheduled_by_id UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.booking_reschedules IS 'One row per reschedule: the slots a booking moved from and to, the slot totals and who moved it.';
+
+CREATE INDEX IF NOT EXISTS idx_booking_reschedules_booking_id ON public.booking_reschedules(booking_id);
+
+ALTER TABLE public.booking_reschedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers and owners can view booking reschedules"
+  ON public.booking_reschedules
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.bookings bk
+      WHERE bk.id = booking_reschedules.booking_id
+      AND (
+        bk.user_id = auth.uid()
+        OR EXISTS (
+          SELECT 1 FROM public.business_resources br
+          JOIN public.businesses b ON br.business_id = b.id
+          WHERE br.id = bk.resource_id
+          AND b.owner_id = auth.uid()
+        )
+      )
+    )
+  );
+
+-- 3) reschedule_booking: renter or owner replaces the booking's slots
+CREATE OR REPLACE FUNCTION public.reschedule_booking(p_booking_id uuid, p_new_slot_ids uuid[])
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+  target_booking record;
+  is_owner boolean;
+  old_slot_ids uuid[];
+  requested_count integer;
+  found_count integer;
+  same_business_count integer;
+  first_start timestamptz;
+  old_total numeric;
+  new_total numeric;
+  primary_slot record;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  SELECT bk.id, bk.status, bk.user_id, bk.slot_id, bk.payment_amount, bk.balance_due,
+         br.business_id, b.owner_id
+  INTO target_booking
+  FROM bookings bk
+  JOIN business_resources br ON br.id = bk.resource_id
+  JOIN businesses b ON b.id = br.business_id
+  WHERE bk.id = p_booking_id
+  FOR UPDATE OF bk;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error_code', 'BOOKING_NOT_FOUND');
+  END IF;
+
+  is_owner := target_booking.owner_id = current_user_id;
+  IF NOT is_owner AND target_booking.user_id IS DISTINCT FROM current_user_id THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  IF target_booking.status NOT IN ('Pending', 'Confirmed') THEN
+    RETURN json_build_object('success', false, 'error_code', 'BOOKING_NOT_RESCHEDULABLE');
+  END IF;
+
+  SELECT count(DISTINCT s) INTO requested_count FROM unnest(p_new_slot_ids) AS s;
+  IF requested_count = 0 THEN
+    RETURN json_build_object('success', false, 'error_code', 'NO_SLOTS');
+  END IF;
+
+  SELECT coalesce(array_agg(bs.slot_id), ARRAY[]::uuid[]) INTO old_slot_ids
+  FROM booking_slots bs
+  WHERE bs.booking_id = p_booking_id;
+
+  -- Lock the current and requested slots together; ordering by id keeps this deadlock-free
+  PERFORM 1 FROM slots
+  WHERE id = ANY(old_slot_ids) OR id = ANY(p_new_slot_ids)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT min(s.start_time), coalesce(sum(s.slot_price), 0) INTO first_start, old_total
+  FROM slots s
+  WHERE s.id = ANY(old_slot_ids);
+
+  IF first_start IS NOT NULL AND first_start <= now() THEN
+    RETURN json_build_object('success', false, 'error_code', 'BOOKING_ALREADY_STARTED');
+  END IF;
+
+  SELECT count(*), count(*) FILTER (WHERE br.business_id = target_booking.business_id), coalesce(sum(s.slot_price), 0)
+  INTO found_count, same_business_count, new_total
+  FROM slots s
+  JOIN business_resources br ON br.id = s.resource_id
+  WHERE s.id = ANY(p_new_slot_ids);
+
+  IF found_count <> requested_count THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_NOT_FOUND');
+  END IF;
+
+  IF same_business_count <> found_count THEN
+    RETURN json_build_object('success', false, 'error_code', 'MIXED_BUSINESSES');
+  END IF;
+
+  -- Slots the booking already covers may be kept; anything else must be free
+  IF EXISTS (
+    SELECT 1 FROM slots s
+    WHERE s.id = ANY(p_new_slot_ids)
+    AND (
+      (s.booking_id IS NOT NULL AND s.booking_id <> p_booking_id)
+      OR (s.is_booked AND s.booking_id IS NULL AND NOT s.id = ANY(old_slot_ids))
+    )
+  ) OR EXISTS (
+    SELECT 1 FROM booking_slots bs
+    WHERE bs.slot_id = ANY(p_new_slot_ids)
+    AND bs.booking_id <> p_booking_id
+  ) THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_UNAVAILABLE');
+  END IF;
+
+  -- Owners may move a booking inside the lead time, but never into the past
+  IF EXISTS (
+    SELECT 1 FROM slots s
+    JOIN business_resources br ON br.id = s.resource_id
+    WHERE s.id = ANY(p_new_slot_ids)
+    AND NOT s.id = ANY(old_slot_ids)
+    AND s.start_time < now() + make_interval(mins => CASE WHEN is_owner THEN 0 ELSE br.min_lead_minutes END)
+  ) THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_TOO_SOON');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM slots s
+    WHERE s.id = ANY(p_new_slot_ids)
+    AND s.held_by IS NOT NULL
+    AND s.held_by IS DISTINCT FROM target_booking.user_id
+    AND s.held_until > now()
+  ) THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_HELD');
+  END IF;
+
+  -- Release the slots the booking leaves behind
+  UPDATE slots s
+  SET is_booked = false, booking_id = NULL
+  WHERE s.id = ANY(old_slot_ids)
+  AND NOT s.id = ANY(p_new_slot_ids)
+  AND (s.booking_id IS NULL OR s.booking_id = p_booking_id);
+
+  DELETE FROM booking_slots
+  WHERE booking_id = p_booking_id
+  AND NOT slot_id = ANY(p_new_slot_ids);
+
+  INSERT INTO booking_slots (booking_id, slot_id)
+  SELECT p_booking_id, s FROM (SELECT DISTINCT unnest(p_new_slot_ids) AS s) AS requested
+  WHERE NOT s = ANY(old_slot_ids);
+
+  UPDATE slots s
+  SET held_by = NULL,
+      held_until = NULL,
+      is_booked = CASE WHEN target_booking.status = 'Confirmed' THEN true ELSE s.is_booked END,
+      booking_id = CASE WHEN target_booking.status = 'Confirmed' THEN p_booking_id ELSE s.booking_id END
+  WHERE s.id = ANY(p_new_slot_ids);
+
+  SELECT id, resource_id INTO primary_slot
+  FROM slots
+  WHERE id = ANY(p_new_slot_ids)
+  ORDER BY start_time
+  LIMIT 1;
+
+  UPDATE bookings
+  SET slot_id = primary_slot.id,
+      resource_id = primary_slot.resource_id,
+      balance_due = new_total - payment_amount,
+      rescheduled_at = now(),
+      rescheduled_by_id = current_user_id
+  WHERE id = p_booking_id;
+
+  INSERT INTO booking_reschedules (
+    booking_id, previous_slot_ids, new_slot_ids, previous_amount, new_amount, rescheduled_by_id
+  )
+  VALUES (
+    p_booking_id,
+    old_slot_ids,
+    ARRAY(SELECT DISTINCT unnest(p_new_slot_ids)),
+    old_total,
+    new_total,
+    current_user_id
+  );
+
+  RETURN json_build_object(
+    'success', true,
+    'booking_id', p_booking_id,
+    'new_amount', new_total,
+    'balance_due', new_total - target_booking.payment_amount
+  );
+END;
+$function$;
+
+-- 4) Owner records that the reschedule difference has been paid or refunded
+CREATE OR REPLACE FUNCTION public.settle_booking_balance(p_booking_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+  target_booking record;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  SELECT bk.id, bk.balance_due, b.owner_id
+  INTO target_booking
+  FROM bookings bk
+  JOIN business_resources br ON br.id = bk.resource_id
+  JOIN businesses b ON b.id = br.business_id
+  WHERE bk.id = p_booking_id
+  FOR UPDATE OF bk;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error_code', 'BOOKING_NOT_FOUND');
+  END IF;
+
+  IF target_booking.owner_id <> current_user_id THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  IF target_booking.balance_due = 0 THEN
+    RETURN json_build_object('success', false, 'error_code', 'BOOKING_ALREADY_PROCESSED');
+  END IF;
+
+  -- The settled amount becomes part of what was paid, so later refunds use the new total
+  UPDATE bookings
+  SET payment_amount = payment_amount + balance_due,
+      balance_due = 0
+  WHERE id = p_booking_id;
+
+  RETURN json_build_object('success', true, 'booking_id', p_booking_id);
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.reschedule_booking(uuid, uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.settle_booking_balance(uuid) TO authenticated;
@@ -0,0 +1,47 @@
+-- Recurring (season) bookings.
+-- A series is a single booking covering the slots of every occurrence, so it shares one
+-- receipt and the owner confirms, rejects or cancels it in one action. The repeat pattern
+-- is kept on the booking for display.
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS recurrence JSONB;
+
+ALTER TABLE public.bookings
+  ADD CONSTRAINT bookings_recurrence_check
+  CHECK (recurrence IS NULL OR recurrence->>'frequency' IN ('weekly', 'biweekly'));
+
+COMMENT ON COLUMN public.bookings.recurrence IS 'Repeat pattern of a season booking: { frequency: weekly|biweekly, occurrences, until }. NULL for one-off bookings.';
+
+-- Same checks and writes as submit_booking, then tags the booking with its pattern
+CREATE OR REPLACE FUNCTION public.submit_recurring_booking(
+  p_slot_ids uuid[],
+  p_amount numeric,
+  p_receipt_url text,
+  p_payment_method text,
+  p_recurrence jsonb
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  result json;
+BEGIN
+  IF p_recurrence IS NULL OR p_recurrence->>'frequency' NOT IN ('weekly', 'biweekly') THEN
+    RETURN json_build_object('success', false, 'error_code', 'INVALID_RECURRENCE');
+  END IF;
+
+  result := submit_booking(p_slot_ids, p_amount, p_receipt_url, p_payment_method);
+
+  IF (result->>'success')::boolean THEN
+    UPDATE bookings
+    SET recurrence = p_recurrence
+    WHERE id = (result->>'booking_id')::uuid;
+  END IF;
+
+  RETURN result;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.submit_recurring_booking(uuid[], numeric, text, text, jsonb) TO authenticated;
@@ -0,0 +1,346 @@
+-- Slot waitlist.
+-- Renters can queue for a booked slot or for a time window of a business (optionally one
+-- resource). When a slot inside the window frees up (an owner marks it available, or a
+-- booking on it is rejected, cancelled or rescheduled away) the oldest waiting entry gets
+-- an offer: the slot is held for that renter for 30 minutes and the entry moves to
+-- 'offered'. Booking the slot accepts the offer; offers that lapse are expired by
+-- cleanup-old-slots and the slot passes to the next renter in line.
+
+-- 1) Waitlist entries
+CREATE TABLE IF NOT EXISTS public.slot_waitlist (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  business_id UUID NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+  resource_id UUID REFERENCES public.business_resources(id) ON DELETE CASCADE,
+  window_start TIMESTAMPTZ NOT NULL,
+  window_end TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'waiting',
+  offered_slot_id UUID REFERENCES public.slots(id) ON DELETE SET NULL,
+  offered_at TIMESTAMPTZ,
+  offer_expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT slot_waitlist_window_check CHECK (window_end > window_start),
+  CONSTRAINT slot_waitlist_status_check CHECK (status IN ('waiting', 'offered', 'accepted', 'expired', 'cancelled'))
+);
+
+COMMENT ON TABLE public.slot_waitlist IS 'Renters queued for a slot or time window. resource_id NULL means any resource of the business.';
+COMMENT ON COLUMN public.slot_waitlist.offered_slot_id IS 'Slot held for the renter while the entry is offered.';
+
+CREATE INDEX IF NOT EXISTS idx_slot_waitlist_waiting ON public.slot_waitlist(business_id, created_at) WHERE status = 'waiting';
+CREATE INDEX IF NOT EXISTS idx_slot_waitlist_user_id ON public.slot_waitlist(user_id);
+CREATE INDEX IF NOT EXISTS idx_slot_waitlist_offered_slot_id ON public.slot_waitlist(offered_slot_id) WHERE status = 'offered';
+
+ALTER TABLE public.slot_waitlist ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users and owners can view waitlist entries"
+  ON public.slot_waitlist
+  FOR SELECT
+  USING (
+    user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM public.businesses b
+      WHERE b.id = slot_waitlist.business_id
+      AND b.owner_id = auth.uid()
+    )
+  );
+
+-- Renters are told about offers through realtime updates on their own entries
+ALTER PUBLICATION supabase_realtime ADD TABLE public.slot_waitlist;
+
+-- 2) offer_released_slot: hand a free slot to the first matching waiting entry
+CREATE OR REPLACE FUNCTION public.offer_released_slot(p_slot_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  offer_minutes CONSTANT integer := 30;
+  target_slot record;
+  next_entry record;
+  expires_at timestamptz;
+BEGIN
+  SELECT s.id, s.resource_id, s.start_time, s.end_time, s.is_booked, s.booking_id,
+         s.held_by, s.held_until, br.business_id, br.min_lead_minutes
+  INTO target_slot
+  FROM slots s
+  JOIN business_resources br ON br.id = s.resource_id
+  WHERE s.id = p_slot_id
+  FOR UPDATE OF s;
+
+  IF NOT FOUND
+    OR target_slot.is_booked
+    OR target_slot.booking_id IS NOT NULL
+    OR (target_slot.held_by IS NOT NULL AND target_slot.held_until > now())
+    OR target_slot.start_time < now() + make_interval(mins => target_slot.min_lead_minutes)
+  THEN
+    RETURN NULL;
+  END IF;
+
+  -- Still claimed by a pending booking, or already offered to someone
+  IF EXISTS (SELECT 1 FROM booking_slots WHERE slot_id = p_slot_id)
+    OR EXISTS (SELECT 1 FROM slot_waitlist WHERE offered_slot_id = p_slot_id AND status = 'offered')
+  THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT w.id, w.user_id
+  INTO next_entry
+  FROM slot_waitlist w
+  WHERE w.status = 'waiting'
+  AND w.business_id = target_slot.business_id
+  AND (w.resource_id IS NULL OR w.resource_id = target_slot.resource_id)
+  AND w.window_start <= target_slot.start_time
+  AND w.window_end >= target_slot.end_time
+  ORDER BY w.created_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  expires_at := now() + make_interval(mins => offer_minutes);
+
+  UPDATE slot_waitlist
+  SET status = 'offered',
+      offered_slot_id = p_slot_id,
+      offered_at = now(),
+      offer_expires_at = expires_at
+  WHERE id = next_entry.id;
+
+  UPDATE slots
+  SET held_by = next_entry.user_id, held_until = expires_at
+  WHERE id = p_slot_id;
+
+  RETURN next_entry.id;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.offer_released_slot(uuid) FROM PUBLIC, anon, authenticated;
+
+-- 3) Offer slots as soon as they are released
+CREATE OR REPLACE FUNCTION public.offer_slot_after_release()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF TG_TABLE_NAME = 'booking_slots' THEN
+    PERFORM offer_released_slot(OLD.slot_id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM offer_released_slot(NEW.id);
+  RETURN NEW;
+END;
+$function$;
+
+-- Owner marks a booked slot available, or a confirmed booking lets go of it
+CREATE TRIGGER offer_slot_after_unbooked
+AFTER UPDATE OF is_booked ON public.slots
+FOR EACH ROW
+WHEN (OLD.is_booked AND NOT NEW.is_booked)
+EXECUTE FUNCTION public.offer_slot_after_release();
+
+-- A booking is rejected, cancelled or rescheduled off the slot
+CREATE TRIGGER offer_slot_after_booking_removed
+AFTER DELETE ON public.booking_slots
+FOR EACH ROW
+EXECUTE FUNCTION public.offer_slot_after_release();
+
+-- 4) Booking an offered slot accepts the offer
+CREATE OR REPLACE FUNCTION public.accept_waitlist_offer()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE slot_waitlist w
+  SET status = 'accepted'
+  FROM bookings bk
+  WHERE bk.id = NEW.booking_id
+  AND w.offered_slot_id = NEW.slot_id
+  AND w.user_id = bk.user_id
+  AND w.status = 'offered';
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER accept_waitlist_offer_on_booking
+AFTER INSERT ON public.booking_slots
+FOR EACH ROW
+EXECUTE FUNCTION public.accept_waitlist_offer();
+
+-- 5) join_waitlist: queue for a slot or time window
+CREATE OR REPLACE FUNCTION public.join_waitlist(
+  p_business_id uuid,
+  p_window_start timestamptz,
+  p_window_end timestamptz,
+  p_resource_id uuid DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+  new_entry_id uuid;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  IF p_window_start IS NULL OR p_window_end IS NULL
+    OR p_window_end <= p_window_start
+    OR p_window_end <= now()
+  THEN
+    RETURN json_build_object('success', false, 'error_code', 'INVALID_WAITLIST_WINDOW');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM businesses WHERE id = p_business_id)
+    OR (p_resource_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM business_resources WHERE id = p_resource_id AND business_id = p_business_id
+    ))
+  THEN
+    RETURN json_build_object('success', false, 'error_code', 'RESOURCE_NOT_FOUND');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM slot_waitlist
+    WHERE user_id = current_user_id
+    AND business_id = p_business_id
+    AND resource_id IS NOT DISTINCT FROM p_resource_id
+    AND window_start = p_window_start
+    AND window_end = p_window_end
+    AND status IN ('waiting', 'offered')
+  ) THEN
+    RETURN json_build_object('success', false, 'error_code', 'ALREADY_ON_WAITLIST');
+  END IF;
+
+  INSERT INTO slot_waitlist (user_id, business_id, resource_id, window_start, window_end)
+  VALUES (current_user_id, p_business_id, p_resource_id, p_window_start, p_window_end)
+  RETURNING id INTO new_entry_id;
+
+  RETURN json_build_object('success', true, 'entry_id', new_entry_id);
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.join_waitlist(uuid, timestamptz, timestamptz, uuid) TO authenticated;
+
+-- 6) leave_waitlist: drop out, passing an open offer on to the next renter
+CREATE OR REPLACE FUNCTION public.leave_waitlist(p_entry_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+  target_entry record;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  SELECT * INTO target_entry
+  FROM slot_waitlist
+  WHERE id = p_entry_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR target_entry.user_id <> current_user_id THEN
+    RETURN json_build_object('success', false, 'error_code', 'WAITLIST_ENTRY_NOT_FOUND');
+  END IF;
+
+  IF target_entry.status NOT IN ('waiting', 'offered') THEN
+    RETURN json_build_object('success', false, 'error_code', 'WAITLIST_ENTRY_CLOSED');
+  END IF;
+
+  UPDATE slot_waitlist
+  SET status = 'cancelled'
+  WHERE id = p_entry_id;
+
+  IF target_entry.status = 'offered' AND target_entry.offered_slot_id IS NOT NULL THEN
+    UPDATE slots
+    SET held_by = NULL, held_until = NULL
+    WHERE id = target_entry.offered_slot_id
+    AND held_by = current_user_id;
+
+    PERFORM offer_released_slot(target_entry.offered_slot_id);
+  END IF;
+
+  RETURN json_build_object('success', true);
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.leave_waitlist(uuid) TO authenticated;
+
+-- 7) expire_waitlist_offers: run by cleanup-old-slots
+-- Offers whose renter is not mid-checkout lapse and the slot moves down the line, as do
+-- slots whose checkout hold ran out. Waiting entries whose window has passed are closed.
+CREATE OR REPLACE FUNCTION public.expire_waitlist_offers()
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  lapsed record;
+  released record;
+  expired_count integer := 0;
+  reoffered_count integer := 0;
+BEGIN
+  FOR lapsed IN
+    SELECT w.id, w.user_id, w.offered_slot_id
+    FROM slot_waitlist w
+    LEFT JOIN slots s ON s.id = w.offered_slot_id
+    WHERE w.status = 'offered'
+    AND w.offer_expires_at < now()
+    AND NOT (s.held_by IS NOT DISTINCT FROM w.user_id AND s.held_until > now())
+    FOR UPDATE OF w SKIP LOCKED
+  LOOP
+    UPDATE slot_waitlist SET status = 'expired' WHERE id = lapsed.id;
+    expired_count := expired_count + 1;
+
+    IF lapsed.offered_slot_id IS NOT NULL THEN
+      UPDATE slots
+      SET held_by = NULL, held_until = NULL
+      WHERE id = lapsed.offered_slot_id
+      AND held_by = lapsed.user_id;
+
+      IF offer_released_slot(lapsed.offered_slot_id) IS NOT NULL THEN
+        reoffered_count := reoffered_count + 1;
+      END IF;
+    END IF;
+  END LOOP;
+
+  FOR released IN
+    SELECT s.id
+    FROM slots s
+    WHERE s.held_by IS NOT NULL
+    AND s.held_until < now()
+    AND s.start_time > now()
+    AND NOT s.is_booked
+  LOOP
+    UPDATE slots SET held_by = NULL, held_until = NULL WHERE id = released.id;
+
+    IF offer_released_slot(released.id) IS NOT NULL THEN
+      reoffered_count := reoffered_count + 1;
+    END IF;
+  END LOOP;
+
+  UPDATE slot_waitlist
+  SET status = 'expired'
+  WHERE status = 'waiting'
+  AND window_end <= now();
+
+  RETURN json_build_object('success', true, 'expired_count', expired_count, 'reoffered_count', reoffered_count);
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_waitlist_offers() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.expire_waitlist_offers() TO service_role;
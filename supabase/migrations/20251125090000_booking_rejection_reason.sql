@@ -0,0 +1,80 @@
+-- Rejection reasons.
+-- Owners must say why they reject a booking (wrong amount, unreadable receipt, ...). The
+-- reason is stored on the booking and shown to the renter. reject_booking now takes the
+-- reason; the one-argument version is dropped so a rejection cannot skip it.
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS rejection_reason TEXT,
+  ADD COLUMN IF NOT EXISTS rejected_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.bookings.rejection_reason IS 'Why the owner rejected the booking; shown to the renter.';
+
+DROP FUNCTION IF EXISTS public.reject_booking(uuid);
+
+CREATE OR REPLACE FUNCTION public.reject_booking(p_booking_id uuid, p_reason text)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+  target_booking record;
+  trimmed_reason text := nullif(btrim(p_reason), '');
+BEGIN
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  IF trimmed_reason IS NULL OR length(trimmed_reason) > 500 THEN
+    RETURN json_build_object('success', false, 'error_code', 'REJECTION_REASON_REQUIRED');
+  END IF;
+
+  SELECT bk.id, bk.status, b.owner_id
+  INTO target_booking
+  FROM bookings bk
+  JOIN business_resources br ON br.id = bk.resource_id
+  JOIN businesses b ON b.id = br.business_id
+  WHERE bk.id = p_booking_id
+  FOR UPDATE OF bk;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error_code', 'BOOKING_NOT_FOUND');
+  END IF;
+
+  IF target_booking.owner_id <> current_user_id THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  IF target_booking.status <> 'Pending' THEN
+    RETURN json_build_object('success', false, 'error_code', 'BOOKING_ALREADY_PROCESSED');
+  END IF;
+
+  PERFORM 1 FROM slots s
+  JOIN booking_slots bs ON bs.slot_id = s.id
+  WHERE bs.booking_id = p_booking_id
+  ORDER BY s.id
+  FOR UPDATE OF s;
+
+  -- Release only slots that this booking holds
+  UPDATE slots s
+  SET is_booked = false, booking_id = NULL
+  FROM booking_slots bs
+  WHERE bs.slot_id = s.id
+  AND bs.booking_id = p_booking_id
+  AND (s.booking_id IS NULL OR s.booking_id = p_booking_id);
+
+  DELETE FROM booking_slots WHERE booking_id = p_booking_id;
+
+  UPDATE bookings
+  SET status = 'Rejected',
+      confirmed_by_id = current_user_id,
+      rejection_reason = trimmed_reason,
+      rejected_at = now()
+  WHERE id = p_booking_id;
+
+  RETURN json_build_object('success', true, 'booking_id', p_booking_id, 'status', 'Rejected');
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.reject_booking(uuid, text) TO authenticated;
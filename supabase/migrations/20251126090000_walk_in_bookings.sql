@@ -0,0 +1,154 @@
+-- Walk-in and phone bookings.
+-- Owners record customers who book at the venue or by phone as real bookings instead of
+-- only flipping slots.is_booked. The customer may not have an account, so the booking has
+-- no renter (user_id is NULL), records the owner who entered it in created_by and carries
+-- the customer's name and phone. Renter-only paths such as cancel_booking and the renter's
+-- booking history therefore never see walk-ins.
+-- Walk-ins are confirmed straight away; whatever the customer has not paid yet is kept in
+-- bookings.balance_due.
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'online',
+  ADD COLUMN IF NOT EXISTS customer_name TEXT,
+  ADD COLUMN IF NOT EXISTS customer_phone TEXT,
+  ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES auth.users(id);
+
+ALTER TABLE public.bookings
+  ALTER COLUMN user_id DROP NOT NULL;
+
+ALTER TABLE public.bookings
+  ADD CONSTRAINT bookings_source_check CHECK (source IN ('online', 'walk_in')),
+  ADD CONSTRAINT bookings_renter_check CHECK ((source = 'walk_in') = (user_id IS NULL));
+
+COMMENT ON COLUMN public.bookings.source IS 'online: submitted by the renter; walk_in: recorded by the owner for a venue or phone customer.';
+COMMENT ON COLUMN public.bookings.customer_name IS 'Name of a walk-in customer, who may not have an account.';
+COMMENT ON COLUMN public.bookings.customer_phone IS 'Phone number of a walk-in customer.';
+COMMENT ON COLUMN public.bookings.created_by IS 'Owner who recorded a walk-in booking; NULL for online bookings, whose renter is user_id.';
+
+CREATE OR REPLACE FUNCTION public.create_walk_in_booking(
+  p_slot_ids uuid[],
+  p_customer_name text,
+  p_customer_phone text,
+  p_payment_method text,
+  p_amount numeric
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+  requested_count integer;
+  locked_count integer;
+  business_count integer;
+  owner_count integer;
+  total_price numeric;
+  primary_slot record;
+  new_booking_id uuid;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  IF nullif(btrim(p_customer_name), '') IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'CUSTOMER_NAME_REQUIRED');
+  END IF;
+
+  IF p_amount IS NULL OR p_amount < 0 THEN
+    RETURN json_build_object('success', false, 'error_code', 'INVALID_AMOUNT');
+  END IF;
+
+  SELECT count(DISTINCT s) INTO requested_count FROM unnest(p_slot_ids) AS s;
+  IF requested_count = 0 THEN
+    RETURN json_build_object('success', false, 'error_code', 'NO_SLOTS');
+  END IF;
+
+  PERFORM 1 FROM slots WHERE id = ANY(p_slot_ids) ORDER BY id FOR UPDATE;
+
+  SELECT count(*), count(DISTINCT br.business_id), count(*) FILTER (WHERE b.owner_id = current_user_id),
+         coalesce(sum(s.slot_price), 0)
+  INTO locked_count, business_count, owner_count, total_price
+  FROM slots s
+  JOIN business_resources br ON br.id = s.resource_id
+  JOIN businesses b ON b.id = br.business_id
+  WHERE s.id = ANY(p_slot_ids);
+
+  IF locked_count <> requested_count THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_NOT_FOUND');
+  END IF;
+
+  IF business_count <> 1 THEN
+    RETURN json_build_object('success', false, 'error_code', 'MIXED_BUSINESSES');
+  END IF;
+
+  IF owner_count <> locked_count THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM slots s
+    WHERE s.id = ANY(p_slot_ids)
+    AND (s.is_booked OR s.booking_id IS NOT NULL)
+  ) OR EXISTS (
+    SELECT 1 FROM booking_slots bs WHERE bs.slot_id = ANY(p_slot_ids)
+  ) THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_UNAVAILABLE');
+  END IF;
+
+  -- The lead time only applies to online bookings, but a slot that is over cannot be sold
+  IF EXISTS (SELECT 1 FROM slots s WHERE s.id = ANY(p_slot_ids) AND s.end_time <= now()) THEN
+    RETURN json_build_object('success', false, 'error_code', 'BOOKING_ALREADY_STARTED');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM slots s
+    WHERE s.id = ANY(p_slot_ids)
+    AND s.held_by IS NOT NULL
+    AND s.held_by <> current_user_id
+    AND s.held_until > now()
+  ) THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_HELD');
+  END IF;
+
+  SELECT id, resource_id INTO primary_slot
+  FROM slots
+  WHERE id = ANY(p_slot_ids)
+  ORDER BY start_time
+  LIMIT 1;
+
+  INSERT INTO bookings (
+    slot_id, resource_id, created_by, payment_amount, balance_due, receipt_url, payment_method,
+    status, confirmed_by_id, source, customer_name, customer_phone
+  )
+  VALUES (
+    primary_slot.id,
+    primary_slot.resource_id,
+    current_user_id,
+    p_amount,
+    total_price - p_amount,
+    'Walk-in - Paid at the venue',
+    nullif(btrim(p_payment_method), ''),
+    'Confirmed',
+    current_user_id,
+    'walk_in',
+    btrim(p_customer_name),
+    nullif(btrim(p_customer_phone), '')
+  )
+  RETURNING id INTO new_booking_id;
+
+  INSERT INTO booking_slots (booking_id, slot_id)
+  SELECT new_booking_id, s FROM (SELECT DISTINCT unnest(p_slot_ids) AS s) AS requested;
+
+  UPDATE slots
+  SET is_booked = true,
+      booking_id = new_booking_id,
+      held_by = NULL,
+      held_until = NULL
+  WHERE id = ANY(p_slot_ids);
+
+  RETURN json_build_object('success', true, 'booking_id', new_booking_id, 'status', 'Confirmed');
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.create_walk_in_booking(uuid[], text, text, text, numeric) TO authenticated;
@@ -0,0 +1,207 @@
+-- Deposits (partial prepayment).
+-- Each service sets how much of the slot price must be paid up front: the full price
+-- (default), a percentage, or a fixed amount per slot. submit_booking accepts any amount
+-- between that deposit and the slot total; whatever is left is kept in
+-- bookings.balance_due until the owner settles it when the customer arrives.
+
+-- 1) Deposit policy, set by the owner per service
+ALTER TABLE public.services
+  ADD COLUMN IF NOT EXISTS deposit_type TEXT NOT NULL DEFAULT 'full',
+  ADD COLUMN IF NOT EXISTS deposit_value NUMERIC NOT NULL DEFAULT 0;
+
+ALTER TABLE public.services
+  ADD CONSTRAINT services_deposit_type_check CHECK (deposit_type IN ('full', 'percent', 'fixed')),
+  ADD CONSTRAINT services_deposit_value_check CHECK (
+    deposit_value >= 0 AND (deposit_type <> 'percent' OR deposit_value BETWEEN 1 AND 100)
+  );
+
+COMMENT ON COLUMN public.services.deposit_type IS 'How much must be paid when booking: full (slot price), percent (deposit_value % of the price) or fixed (deposit_value per slot, capped at the price).';
+COMMENT ON COLUMN public.services.deposit_value IS 'Deposit percentage or fixed amount per slot; unused for full payment.';
+
+COMMENT ON COLUMN public.bookings.balance_due IS 'Slot total minus the amount paid, from a deposit or a reschedule. Positive: renter owes the owner; negative: owner owes the renter.';
+
+-- 2) Smallest amount that can be paid up front for a set of slots
+CREATE OR REPLACE FUNCTION public.booking_deposit_amount(p_slot_ids uuid[])
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT coalesce(sum(
+    CASE sv.deposit_type
+      WHEN 'percent' THEN ceil(s.slot_price * sv.deposit_value / 100)
+      WHEN 'fixed' THEN least(sv.deposit_value, s.slot_price)
+      ELSE s.slot_price
+    END
+  ), 0)
+  FROM slots s
+  JOIN business_resources br ON br.id = s.resource_id
+  JOIN services sv ON sv.id = br.service_id
+  WHERE s.id = ANY(p_slot_ids);
+$function$;
+
+-- 3) Same checks as before, but the amount may be anything from the deposit to the total
+CREATE OR REPLACE FUNCTION public.submit_booking(
+  p_slot_ids uuid[],
+  p_amount numeric,
+  p_receipt_url text,
+  p_payment_method text DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+  requested_count integer;
+  locked_count integer;
+  business_count integer;
+  total_price numeric;
+  deposit_amount numeric;
+  primary_slot record;
+  new_booking_id uuid;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  SELECT count(DISTINCT s) INTO requested_count FROM unnest(p_slot_ids) AS s;
+  IF requested_count = 0 THEN
+    RETURN json_build_object('success', false, 'error_code', 'NO_SLOTS');
+  END IF;
+
+  -- Lock every requested slot; ordering by id keeps concurrent submissions deadlock-free
+  PERFORM 1 FROM slots WHERE id = ANY(p_slot_ids) ORDER BY id FOR UPDATE;
+
+  SELECT count(*), count(DISTINCT br.business_id), coalesce(sum(s.slot_price), 0)
+  INTO locked_count, business_count, total_price
+  FROM slots s
+  JOIN business_resources br ON br.id = s.resource_id
+  WHERE s.id = ANY(p_slot_ids);
+
+  IF locked_count <> requested_count THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_NOT_FOUND');
+  END IF;
+
+  IF business_count <> 1 THEN
+    RETURN json_build_object('success', false, 'error_code', 'MIXED_BUSINESSES');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM slots s
+    WHERE s.id = ANY(p_slot_ids)
+    AND (s.is_booked OR s.booking_id IS NOT NULL)
+  ) OR EXISTS (
+    SELECT 1 FROM booking_slots bs WHERE bs.slot_id = ANY(p_slot_ids)
+  ) THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_UNAVAILABLE');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM slots s
+    JOIN business_resources br ON br.id = s.resource_id
+    WHERE s.id = ANY(p_slot_ids)
+    AND s.start_time < now() + make_interval(mins => br.min_lead_minutes)
+  ) THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_TOO_SOON');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM slots s
+    WHERE s.id = ANY(p_slot_ids)
+    AND s.held_by IS NOT NULL
+    AND s.held_by <> current_user_id
+    AND s.held_until > now()
+  ) THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_HELD');
+  END IF;
+
+  -- Cash on arrival has no receipt: the renter confirms the full price, but nothing is paid until they arrive
+  deposit_amount := CASE WHEN p_receipt_url IS NULL THEN total_price ELSE booking_deposit_amount(p_slot_ids) END;
+
+  IF p_amount IS NULL OR p_amount < deposit_amount OR p_amount > total_price THEN
+    RETURN json_build_object(
+      'success', false,
+      'error_code', 'AMOUNT_MISMATCH',
+      'expected_amount', total_price,
+      'deposit_amount', deposit_amount
+    );
+  END IF;
+
+  SELECT id, resource_id INTO primary_slot
+  FROM slots
+  WHERE id = ANY(p_slot_ids)
+  ORDER BY start_time
+  LIMIT 1;
+
+  INSERT INTO bookings (slot_id, resource_id, user_id, payment_amount, balance_due, receipt_url, payment_method)
+  VALUES (
+    primary_slot.id,
+    primary_slot.resource_id,
+    current_user_id,
+    CASE WHEN p_receipt_url IS NULL THEN 0 ELSE p_amount END,
+    CASE WHEN p_receipt_url IS NULL THEN total_price ELSE total_price - p_amount END,
+    coalesce(p_receipt_url, 'Cash on Arrival - No receipt required'),
+    p_payment_method
+  )
+  RETURNING id INTO new_booking_id;
+
+  INSERT INTO booking_slots (booking_id, slot_id)
+  SELECT new_booking_id, s FROM (SELECT DISTINCT unnest(p_slot_ids) AS s) AS requested;
+
+  -- The pending booking now reserves the slots
+  UPDATE slots
+  SET held_by = NULL, held_until = NULL
+  WHERE id = ANY(p_slot_ids);
+
+  RETURN json_build_object('success', true, 'booking_id', new_booking_id);
+END;
+$function$;
+
+-- 4) Services are admin-managed, so owners change their deposit through this function
+CREATE OR REPLACE FUNCTION public.set_deposit_policy(
+  p_service_id integer,
+  p_deposit_type text,
+  p_deposit_value numeric
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+BEGIN
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM business_resources br
+    JOIN businesses b ON b.id = br.business_id
+    WHERE br.service_id = p_service_id
+    AND b.owner_id = current_user_id
+  ) THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  IF p_deposit_type NOT IN ('full', 'percent', 'fixed')
+    OR p_deposit_value IS NULL
+    OR p_deposit_value < 0
+    OR (p_deposit_type = 'percent' AND p_deposit_value NOT BETWEEN 1 AND 100) THEN
+    RETURN json_build_object('success', false, 'error_code', 'INVALID_DEPOSIT_POLICY');
+  END IF;
+
+  UPDATE services
+  SET deposit_type = p_deposit_type,
+      deposit_value = CASE WHEN p_deposit_type = 'full' THEN 0 ELSE p_deposit_value END
+  WHERE id = p_service_id;
+
+  RETURN json_build_object('success', true);
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.booking_deposit_amount(uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_deposit_policy(integer, text, numeric) TO authenticated;
@@ -0,0 +1,51 @@
+-- Receipt verification.
+-- The verify-receipt edge function reads uploaded mobile money receipts (KBZPay, WavePay,
+-- AYA Pay) with a local OCR engine and stores what it found here: amount, transaction ID,
+-- date and account. It compares them with the booking's payment_amount and the business's
+-- payment_methods, and flags transaction IDs already used on another booking. Owners see
+-- the result next to the receipt; it only assists the manual check and never confirms or
+-- rejects a booking by itself.
+
+CREATE TABLE IF NOT EXISTS public.receipt_verifications (
+  booking_id UUID PRIMARY KEY REFERENCES public.bookings(id) ON DELETE CASCADE,
+  status TEXT NOT NULL,
+  provider TEXT,
+  extracted_amount NUMERIC,
+  extracted_transaction_id TEXT,
+  extracted_paid_at TEXT,
+  extracted_account TEXT,
+  amount_matches BOOLEAN,
+  account_matches BOOLEAN,
+  duplicate_booking_ids UUID[] NOT NULL DEFAULT '{}',
+  confidence NUMERIC NOT NULL DEFAULT 0,
+  flags TEXT[] NOT NULL DEFAULT '{}',
+  raw_text TEXT,
+  checked_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT receipt_verifications_status_check CHECK (status IN ('verified', 'review', 'unreadable')),
+  CONSTRAINT receipt_verifications_confidence_check CHECK (confidence BETWEEN 0 AND 1)
+);
+
+COMMENT ON TABLE public.receipt_verifications IS 'OCR result for a booking receipt. status: verified (everything matched), review (a mismatch or duplicate was flagged), unreadable (OCR found nothing usable).';
+COMMENT ON COLUMN public.receipt_verifications.extracted_paid_at IS 'Transaction date and time as printed on the receipt.';
+COMMENT ON COLUMN public.receipt_verifications.duplicate_booking_ids IS 'Other bookings whose receipt shows the same transaction ID.';
+COMMENT ON COLUMN public.receipt_verifications.confidence IS 'OCR confidence from 0 to 1, lowered for every field that could not be read.';
+
+CREATE INDEX IF NOT EXISTS idx_receipt_verifications_transaction_id
+  ON public.receipt_verifications(extracted_transaction_id)
+  WHERE extracted_transaction_id IS NOT NULL;
+
+ALTER TABLE public.receipt_verifications ENABLE ROW LEVEL SECURITY;
+
+-- Only the owner reviewing the booking sees the result; rows are written by the edge function
+CREATE POLICY "Owners can view receipt verifications"
+  ON public.receipt_verifications
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.bookings bk
+      JOIN public.business_resources br ON br.id = bk.resource_id
+      JOIN public.businesses b ON b.id = br.business_id
+      WHERE bk.id = receipt_verifications.booking_id
+      AND b.owner_id = auth.uid()
+    )
+  );
@@ -0,0 +1,176 @@
+-- Private payment receipts.
+-- Receipts show customers' bank and phone details, so they are no longer linked by public
+-- URL. bookings.receipt_url and businesses.receipt_url now hold the object path inside a
+-- private bucket, and the app asks storage for a short-lived signed URL when someone opens
+-- the receipt. Storage only signs URLs for users allowed to read the object:
+--   * booking receipts ('receipts'): the renter who uploaded it, the owner of the booked
+--     business and admins
+--   * subscription receipts ('payment-receipts'): the business owner who uploaded it and admins
+-- Subscription receipts used to live under receipts/ in the public 'business-assets'
+-- bucket. Those files are moved by the move-payment-receipts edge function, which also
+-- rewrites businesses.receipt_url; run it once after this migration.
+
+-- 1) Booking receipts: private bucket, rows keep the object path instead of a URL
+UPDATE storage.buckets SET public = false WHERE id = 'receipts';
+
+UPDATE public.bookings
+SET receipt_url = split_part(
+  regexp_replace(receipt_url, '^.*/storage/v1/object/(public|sign|authenticated)/receipts/', ''),
+  '?',
+  1
+)
+WHERE receipt_url ~ '/storage/v1/object/(public|sign|authenticated)/receipts/';
+
+COMMENT ON COLUMN public.bookings.receipt_url IS 'Path of the receipt in the private receipts bucket, or a note when no receipt was uploaded (cash on arrival, walk-in).';
+
+-- Owners matched receipts by URL substring; match the stored path exactly instead, and
+-- only inside the booking renter's own folder so a path copied onto a booking cannot
+-- expose someone else's receipt
+DROP POLICY IF EXISTS "Business owners can view receipts for their bookings" ON storage.objects;
+
+CREATE POLICY "Business owners can view receipts for their bookings"
+  ON storage.objects
+  FOR SELECT
+  USING (
+    bucket_id = 'receipts'
+    AND EXISTS (
+      SELECT 1 FROM public.bookings bk
+      JOIN public.business_resources br ON bk.resource_id = br.id
+      JOIN public.businesses b ON br.business_id = b.id
+      WHERE b.owner_id = auth.uid()
+      AND bk.receipt_url = storage.objects.name
+      AND bk.user_id::text = (storage.foldername(storage.objects.name))[1]
+    )
+  );
+
+CREATE POLICY "Admins can view booking receipts"
+  ON storage.objects
+  FOR SELECT
+  USING (
+    bucket_id = 'receipts'
+    AND public.get_current_admin_role() IS NOT NULL
+  );
+
+-- 2) Subscription receipts: own private bucket, one folder per uploading owner
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('payment-receipts', 'payment-receipts', false)
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+CREATE POLICY "Owners can upload their payment receipts"
+  ON storage.objects
+  FOR INSERT
+  WITH CHECK (
+    bucket_id = 'payment-receipts'
+    AND auth.uid()::text = (storage.foldername(storage.objects.name))[1]
+  );
+
+CREATE POLICY "Owners and admins can view payment receipts"
+  ON storage.objects
+  FOR SELECT
+  USING (
+    bucket_id = 'payment-receipts'
+    AND (
+      auth.uid()::text = (storage.foldername(storage.objects.name))[1]
+      OR public.get_current_admin_role() IS NOT NULL
+    )
+  );
+
+COMMENT ON COLUMN public.businesses.receipt_url IS 'Path of the latest subscription payment receipt in the private payment-receipts bucket.';
+
+-- 3) Confirming a payment removes the receipt by its path in the new bucket
+--    (legacy public URLs are still recognised until they have been moved)
+CREATE OR REPLACE FUNCTION public.admin_confirm_business_payment(business_id uuid, pos_website_option integer)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  admin_check boolean := false;
+  current_date timestamptz := now();
+  new_listing_expired_date date;
+  new_odoo_expired_date timestamptz;
+  existing_receipt_url text;
+  existing_created_at timestamptz;
+  existing_listing_expired_date date;
+  existing_odoo_expired_date timestamptz;
+  update_data json;
+  receipt_file_path text;
+BEGIN
+  -- Check if the current user is an admin
+  SELECT EXISTS (
+    SELECT 1 FROM admin_users
+    WHERE user_id = auth.uid()
+  ) INTO admin_check;
+
+  IF NOT admin_check THEN
+    RAISE EXCEPTION 'Unauthorized: Only admins can confirm payments';
+  END IF;
+
+  -- Get existing business data
+  SELECT receipt_url, created_at, listing_expired_date, odoo_expired_date
+  INTO existing_receipt_url, existing_created_at, existing_listing_expired_date, existing_odoo_expired_date
+  FROM businesses
+  WHERE id = business_id;
+
+  -- Calculate new listing expired date based on created_at + 365 days
+  new_listing_expired_date := (existing_created_at + INTERVAL '365 days')::date;
+
+  -- Only update listing_expired_date if existing date is in the past
+  IF existing_listing_expired_date IS NOT NULL AND existing_listing_expired_date >= current_date::date THEN
+    new_listing_expired_date := existing_listing_expired_date;
+  END IF;
+
+  -- Prepare odoo expired date with new condition
+  IF pos_website_option = 1 THEN
+    -- Only update odoo_expired_date if current date is >= existing odoo_expired_date (expired or NULL)
+    IF existing_odoo_expired_date IS NULL OR current_date >= existing_odoo_expired_date THEN
+      new_odoo_expired_date := current_date + INTERVAL '30 days';
+    ELSE
+      -- Keep existing odoo_expired_date if it's still valid (in the future)
+      new_odoo_expired_date := existing_odoo_expired_date;
+    END IF;
+  ELSE
+    new_odoo_expired_date := NULL;
+  END IF;
+
+  -- Delete receipt file from storage if it exists
+  IF existing_receipt_url IS NOT NULL THEN
+    IF existing_receipt_url ~ '/storage/v1/object/public/business-assets/' THEN
+      -- Not yet moved out of the public bucket
+      receipt_file_path := regexp_replace(existing_receipt_url, '.*\/storage\/v1\/object\/public\/business-assets\/', '');
+
+      DELETE FROM storage.objects
+      WHERE bucket_id = 'business-assets'
+      AND name = receipt_file_path;
+    ELSE
+      DELETE FROM storage.objects
+      WHERE bucket_id = 'payment-receipts'
+      AND name = existing_receipt_url;
+    END IF;
+  END IF;
+
+  -- Update the business record
+  UPDATE businesses
+  SET
+    payment_status = 'confirmed',
+    receipt_url = NULL,
+    last_payment_date = current_date,
+    listing_expired_date = new_listing_expired_date,
+    odoo_expired_date = new_odoo_expired_date
+  WHERE id = business_id;
+
+  -- Return success response
+  SELECT json_build_object(
+    'success', true,
+    'business_id', business_id,
+    'payment_status', 'confirmed',
+    'last_payment_date', current_date,
+    'listing_expired_date', new_listing_expired_date,
+    'odoo_expired_date', new_odoo_expired_date,
+    'receipt_deleted', existing_receipt_url IS NOT NULL
+  ) INTO update_data;
+
+  RETURN update_data;
+END;
+$function$;
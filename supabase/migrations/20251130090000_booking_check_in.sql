@@ -0,0 +1,262 @@
+-- QR booking tickets and check-in.
+-- A confirmed booking gets a ticket the renter can show at the venue without a connection:
+-- YYT1.<booking id>.<signature>, where the signature is an HMAC of the booking id with a
+-- server-side key. The app caches the ticket on the renter's device after fetching it once.
+-- Owners scan or paste the ticket on the check-in page; the signature is checked against the
+-- key, the booking against bookings/slots, and a second scan is reported as a duplicate.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- 1) Signing key. RLS with no policies: only the SECURITY DEFINER functions below read it.
+CREATE TABLE IF NOT EXISTS public.ticket_signing_keys (
+  id SMALLINT PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  secret TEXT NOT NULL DEFAULT encode(extensions.gen_random_bytes(32), 'hex'),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ticket_signing_keys ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.ticket_signing_keys (id) VALUES (1) ON CONFLICT (id) DO NOTHING;
+
+-- 2) Attendance on bookings
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS attendance TEXT,
+  ADD COLUMN IF NOT EXISTS checked_in_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS checked_in_by_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.bookings
+  ADD CONSTRAINT bookings_attendance_check CHECK (attendance IS NULL OR attendance IN ('checked_in', 'no_show'));
+
+COMMENT ON COLUMN public.bookings.attendance IS 'Set by the owner on the day: checked_in when the ticket is scanned or the customer is checked in by hand, no_show when they did not come.';
+COMMENT ON COLUMN public.bookings.checked_in_at IS 'When the booking was checked in or marked as a no-show.';
+COMMENT ON COLUMN public.bookings.checked_in_by_id IS 'Owner who checked the booking in or marked it as a no-show.';
+
+-- 3) Ticket signature
+CREATE OR REPLACE FUNCTION public.booking_ticket_signature(p_booking_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public', 'extensions'
+AS $function$
+  -- 24 hex characters keep the QR code small enough to scan from a phone screen
+  SELECT left(encode(hmac(p_booking_id::text, k.secret, 'sha256'), 'hex'), 24)
+  FROM ticket_signing_keys k
+  WHERE k.id = 1;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.booking_ticket_signature(uuid) FROM PUBLIC, anon, authenticated;
+
+-- 4) Ticket for the renter (or the owner, e.g. to re-send it)
+CREATE OR REPLACE FUNCTION public.get_booking_ticket(p_booking_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+  target_booking record;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  SELECT bk.id, bk.status, bk.user_id, b.owner_id
+  INTO target_booking
+  FROM bookings bk
+  JOIN business_resources br ON br.id = bk.resource_id
+  JOIN businesses b ON b.id = br.business_id
+  WHERE bk.id = p_booking_id;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error_code', 'BOOKING_NOT_FOUND');
+  END IF;
+
+  IF target_booking.user_id IS DISTINCT FROM current_user_id AND target_booking.owner_id <> current_user_id THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  IF target_booking.status <> 'Confirmed' THEN
+    RETURN json_build_object('success', false, 'error_code', 'BOOKING_NOT_CONFIRMED');
+  END IF;
+
+  -- Without slots there is no time to check in against
+  IF NOT EXISTS (SELECT 1 FROM booking_slots bs WHERE bs.booking_id = p_booking_id) THEN
+    RETURN json_build_object('success', false, 'error_code', 'BOOKING_HAS_NO_SLOTS');
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'booking_id', p_booking_id,
+    'ticket', 'YYT1.' || p_booking_id::text || '.' || public.booking_ticket_signature(p_booking_id)
+  );
+END;
+$function$;
+
+-- 5) Check-in. A scanned ticket passes its signature; a manual check-in from the
+--    owner's booking list passes none. Check-in opens 30 minutes before the first slot
+--    starts and closes when the last one ends.
+CREATE OR REPLACE FUNCTION public.check_in_booking(p_booking_id uuid, p_ticket_signature text DEFAULT NULL)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+  target_booking record;
+  first_start timestamptz;
+  last_end timestamptz;
+  slot_summary text;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  IF p_ticket_signature IS NOT NULL
+     AND p_ticket_signature IS DISTINCT FROM public.booking_ticket_signature(p_booking_id) THEN
+    RETURN json_build_object('success', false, 'error_code', 'INVALID_TICKET');
+  END IF;
+
+  SELECT bk.id, bk.status, bk.attendance, bk.checked_in_at, bk.user_id, bk.source,
+         bk.customer_name, bk.customer_phone, bk.balance_due, b.owner_id, b.timezone,
+         br.name AS resource_name
+  INTO target_booking
+  FROM bookings bk
+  JOIN business_resources br ON br.id = bk.resource_id
+  JOIN businesses b ON b.id = br.business_id
+  WHERE bk.id = p_booking_id
+  FOR UPDATE OF bk;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error_code', 'BOOKING_NOT_FOUND');
+  END IF;
+
+  IF target_booking.owner_id <> current_user_id THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  IF target_booking.status <> 'Confirmed' THEN
+    RETURN json_build_object('success', false, 'error_code', 'BOOKING_NOT_CONFIRMED');
+  END IF;
+
+  -- A second scan reports when the first one happened instead of checking in again
+  IF target_booking.attendance = 'checked_in' THEN
+    RETURN json_build_object(
+      'success', false,
+      'error_code', 'ALREADY_CHECKED_IN',
+      'checked_in_at', target_booking.checked_in_at
+    );
+  END IF;
+
+  -- Times are shown as the venue's wall clock, like the rest of the owner's pages
+  SELECT min(s.start_time), max(s.end_time),
+         string_agg(
+           to_char(s.start_time AT TIME ZONE target_booking.timezone, 'FMHH12:MI AM')
+             || ' - ' || to_char(s.end_time AT TIME ZONE target_booking.timezone, 'FMHH12:MI AM'),
+           ', ' ORDER BY s.start_time
+         )
+  INTO first_start, last_end, slot_summary
+  FROM booking_slots bs
+  JOIN slots s ON s.id = bs.slot_id
+  WHERE bs.booking_id = p_booking_id;
+
+  IF first_start IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'BOOKING_HAS_NO_SLOTS');
+  END IF;
+
+  IF first_start - interval '30 minutes' > now() THEN
+    RETURN json_build_object('success', false, 'error_code', 'CHECK_IN_TOO_EARLY', 'start_time', first_start);
+  END IF;
+
+  IF last_end <= now() THEN
+    RETURN json_build_object('success', false, 'error_code', 'BOOKING_ALREADY_ENDED');
+  END IF;
+
+  -- A customer first marked as a no-show can still turn up late
+  UPDATE bookings
+  SET attendance = 'checked_in',
+      checked_in_at = now(),
+      checked_in_by_id = current_user_id
+  WHERE id = p_booking_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'booking_id', p_booking_id,
+    'customer_name', coalesce(
+      target_booking.customer_name,
+      (SELECT p.display_name FROM profiles p WHERE p.user_id = target_booking.user_id)
+    ),
+    'customer_phone', target_booking.customer_phone,
+    'resource_name', target_booking.resource_name,
+    'start_time', first_start,
+    'end_time', last_end,
+    'slots', slot_summary,
+    'balance_due', target_booking.balance_due
+  );
+END;
+$function$;
+
+-- 6) No-show, once the booking has started without the customer checking in
+CREATE OR REPLACE FUNCTION public.mark_booking_no_show(p_booking_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+  target_booking record;
+  first_start timestamptz;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  SELECT bk.id, bk.status, bk.attendance, b.owner_id
+  INTO target_booking
+  FROM bookings bk
+  JOIN business_resources br ON br.id = bk.resource_id
+  JOIN businesses b ON b.id = br.business_id
+  WHERE bk.id = p_booking_id
+  FOR UPDATE OF bk;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error_code', 'BOOKING_NOT_FOUND');
+  END IF;
+
+  IF target_booking.owner_id <> current_user_id THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  IF target_booking.status <> 'Confirmed' THEN
+    RETURN json_build_object('success', false, 'error_code', 'BOOKING_NOT_CONFIRMED');
+  END IF;
+
+  IF target_booking.attendance IS NOT NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'BOOKING_ALREADY_PROCESSED');
+  END IF;
+
+  SELECT min(s.start_time) INTO first_start
+  FROM booking_slots bs
+  JOIN slots s ON s.id = bs.slot_id
+  WHERE bs.booking_id = p_booking_id;
+
+  IF first_start IS NULL OR first_start > now() THEN
+    RETURN json_build_object('success', false, 'error_code', 'BOOKING_NOT_STARTED');
+  END IF;
+
+  UPDATE bookings
+  SET attendance = 'no_show',
+      checked_in_at = now(),
+      checked_in_by_id = current_user_id
+  WHERE id = p_booking_id;
+
+  RETURN json_build_object('success', true, 'booking_id', p_booking_id);
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_booking_ticket(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.check_in_booking(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_booking_no_show(uuid) TO authenticated;
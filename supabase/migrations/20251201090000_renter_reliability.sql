@@ -0,0 +1,413 @@
+-- Renter reliability.
+-- Owners see how often a renter turned up for past bookings: check-ins count for them,
+-- no-shows and late cancellations (inside the service's free cancellation window) against
+-- them. The score is the share of those outcomes that were check-ins. Each service can
+-- require full prepayment from renters whose score is below a threshold; for them the
+-- deposit is the full price and cash on arrival is refused.
+
+-- 1) Late cancellations are recorded when they happen, because cancel_booking releases
+--    the booking's slots
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS late_cancellation BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.bookings.late_cancellation IS 'The renter cancelled inside the free cancellation window of the service.';
+
+-- Past cancellations still point at their first slot through bookings.slot_id
+UPDATE public.bookings bk
+SET late_cancellation = true
+FROM public.slots s, public.business_resources br, public.services sv
+WHERE s.id = bk.slot_id
+AND br.id = bk.resource_id
+AND sv.id = br.service_id
+AND bk.status IN ('Cancelled', 'RefundPending', 'Refunded')
+AND bk.cancelled_by_id = bk.user_id
+AND bk.cancelled_at > s.start_time - make_interval(hours => sv.free_cancellation_hours);
+
+-- 2) Prepayment threshold, set by the owner per service. 0 turns it off.
+ALTER TABLE public.services
+  ADD COLUMN IF NOT EXISTS prepayment_min_score INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.services
+  ADD CONSTRAINT services_prepayment_min_score_check CHECK (prepayment_min_score BETWEEN 0 AND 100);
+
+COMMENT ON COLUMN public.services.prepayment_min_score IS 'Renters with a reliability score below this must pay the full price up front; 0 means no threshold.';
+
+-- 3) Reliability of one renter. Walk-ins have no renter account, so only online bookings
+--    count. Bookings are only written by the booking functions, and an outcome counts only
+--    when one of them recorded it: check_in_booking and mark_booking_no_show set
+--    checked_in_by_id, cancel_booking sets cancelled_by_id. Renters without any outcome
+--    yet have no score.
+CREATE OR REPLACE FUNCTION public.renter_reliability(p_user_id uuid)
+RETURNS TABLE (attended_count integer, no_show_count integer, late_cancel_count integer, score integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT
+    counts.attended,
+    counts.no_shows,
+    counts.late_cancels,
+    CASE
+      WHEN counts.attended + counts.no_shows + counts.late_cancels = 0 THEN NULL
+      ELSE round(100.0 * counts.attended / (counts.attended + counts.no_shows + counts.late_cancels))::integer
+    END
+  FROM (
+    SELECT
+      count(*) FILTER (WHERE bk.attendance = 'checked_in' AND bk.checked_in_by_id IS NOT NULL)::integer AS attended,
+      count(*) FILTER (WHERE bk.attendance = 'no_show' AND bk.checked_in_by_id IS NOT NULL)::integer AS no_shows,
+      count(*) FILTER (WHERE bk.late_cancellation AND bk.cancelled_by_id = p_user_id)::integer AS late_cancels
+    FROM bookings bk
+    WHERE bk.user_id = p_user_id
+    AND bk.source = 'online'
+  ) AS counts;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.renter_reliability(uuid) FROM PUBLIC, anon, authenticated;
+
+-- 4) Reliability for owners: only renters who booked one of the caller's businesses,
+--    plus the caller themselves
+CREATE OR REPLACE FUNCTION public.get_renter_reliability(p_user_ids uuid[])
+RETURNS TABLE (
+  user_id uuid,
+  attended_count integer,
+  no_show_count integer,
+  late_cancel_count integer,
+  score integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT u.id, r.attended_count, r.no_show_count, r.late_cancel_count, r.score
+  FROM (SELECT DISTINCT unnest(p_user_ids) AS id) AS u
+  CROSS JOIN LATERAL public.renter_reliability(u.id) AS r
+  WHERE auth.uid() IS NOT NULL
+  AND (
+    u.id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM bookings bk
+      JOIN business_resources br ON br.id = bk.resource_id
+      JOIN businesses b ON b.id = br.business_id
+      WHERE bk.user_id = u.id
+      AND b.owner_id = auth.uid()
+    )
+  );
+$function$;
+
+-- 5) Whether the current renter must prepay in full for any of these slots
+CREATE OR REPLACE FUNCTION public.booking_prepayment_required(p_slot_ids uuid[])
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT EXISTS (
+    SELECT 1
+    FROM slots s
+    JOIN business_resources br ON br.id = s.resource_id
+    JOIN services sv ON sv.id = br.service_id
+    CROSS JOIN public.renter_reliability(auth.uid()) AS r
+    WHERE s.id = ANY(p_slot_ids)
+    AND sv.prepayment_min_score > 0
+    AND r.score < sv.prepayment_min_score
+  );
+$function$;
+
+-- 6) The deposit becomes the full price when prepayment is required
+CREATE OR REPLACE FUNCTION public.booking_deposit_amount(p_slot_ids uuid[])
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT CASE
+    WHEN public.booking_prepayment_required(p_slot_ids) THEN coalesce(sum(s.slot_price), 0)
+    ELSE coalesce(sum(
+      CASE sv.deposit_type
+        WHEN 'percent' THEN ceil(s.slot_price * sv.deposit_value / 100)
+        WHEN 'fixed' THEN least(sv.deposit_value, s.slot_price)
+        ELSE s.slot_price
+      END
+    ), 0)
+  END
+  FROM slots s
+  JOIN business_resources br ON br.id = s.resource_id
+  JOIN services sv ON sv.id = br.service_id
+  WHERE s.id = ANY(p_slot_ids);
+$function$;
+
+-- 7) Cash on arrival is refused when prepayment is required
+CREATE OR REPLACE FUNCTION public.submit_booking(
+  p_slot_ids uuid[],
+  p_amount numeric,
+  p_receipt_url text,
+  p_payment_method text DEFAULT NULL
+)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+  requested_count integer;
+  locked_count integer;
+  business_count integer;
+  total_price numeric;
+  deposit_amount numeric;
+  primary_slot record;
+  new_booking_id uuid;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  -- The receipt must be the caller's own upload (<user id>/<slot id>/<file>); the owner of
+  -- the booked business is allowed to open whatever path is saved here
+  IF p_receipt_url IS NOT NULL AND (
+    (storage.foldername(p_receipt_url))[1] IS DISTINCT FROM current_user_id::text
+    OR NOT EXISTS (SELECT 1 FROM storage.objects o WHERE o.bucket_id = 'receipts' AND o.name = p_receipt_url)
+  ) THEN
+    RETURN json_build_object('success', false, 'error_code', 'INVALID_RECEIPT');
+  END IF;
+
+  SELECT count(DISTINCT s) INTO requested_count FROM unnest(p_slot_ids) AS s;
+  IF requested_count = 0 THEN
+    RETURN json_build_object('success', false, 'error_code', 'NO_SLOTS');
+  END IF;
+
+  -- Lock every requested slot; ordering by id keeps concurrent submissions deadlock-free
+  PERFORM 1 FROM slots WHERE id = ANY(p_slot_ids) ORDER BY id FOR UPDATE;
+
+  SELECT count(*), count(DISTINCT br.business_id), coalesce(sum(s.slot_price), 0)
+  INTO locked_count, business_count, total_price
+  FROM slots s
+  JOIN business_resources br ON br.id = s.resource_id
+  WHERE s.id = ANY(p_slot_ids);
+
+  IF locked_count <> requested_count THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_NOT_FOUND');
+  END IF;
+
+  IF business_count <> 1 THEN
+    RETURN json_build_object('success', false, 'error_code', 'MIXED_BUSINESSES');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM slots s
+    WHERE s.id = ANY(p_slot_ids)
+    AND (s.is_booked OR s.booking_id IS NOT NULL)
+  ) OR EXISTS (
+    SELECT 1 FROM booking_slots bs WHERE bs.slot_id = ANY(p_slot_ids)
+  ) THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_UNAVAILABLE');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM slots s
+    JOIN business_resources br ON br.id = s.resource_id
+    WHERE s.id = ANY(p_slot_ids)
+    AND s.start_time < now() + make_interval(mins => br.min_lead_minutes)
+  ) THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_TOO_SOON');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM slots s
+    WHERE s.id = ANY(p_slot_ids)
+    AND s.held_by IS NOT NULL
+    AND s.held_by <> current_user_id
+    AND s.held_until > now()
+  ) THEN
+    RETURN json_build_object('success', false, 'error_code', 'SLOT_HELD');
+  END IF;
+
+  -- Renters below the service's reliability threshold must pay everything up front
+  IF p_receipt_url IS NULL AND booking_prepayment_required(p_slot_ids) THEN
+    RETURN json_build_object('success', false, 'error_code', 'PREPAYMENT_REQUIRED');
+  END IF;
+
+  -- Cash on arrival has no receipt: the renter confirms the full price, but nothing is paid until they arrive
+  deposit_amount := CASE WHEN p_receipt_url IS NULL THEN total_price ELSE booking_deposit_amount(p_slot_ids) END;
+
+  IF p_amount IS NULL OR p_amount < deposit_amount OR p_amount > total_price THEN
+    RETURN json_build_object(
+      'success', false,
+      'error_code', 'AMOUNT_MISMATCH',
+      'expected_amount', total_price,
+      'deposit_amount', deposit_amount
+    );
+  END IF;
+
+  SELECT id, resource_id INTO primary_slot
+  FROM slots
+  WHERE id = ANY(p_slot_ids)
+  ORDER BY start_time
+  LIMIT 1;
+
+  INSERT INTO bookings (slot_id, resource_id, user_id, payment_amount, balance_due, receipt_url, payment_method)
+  VALUES (
+    primary_slot.id,
+    primary_slot.resource_id,
+    current_user_id,
+    CASE WHEN p_receipt_url IS NULL THEN 0 ELSE p_amount END,
+    CASE WHEN p_receipt_url IS NULL THEN total_price ELSE total_price - p_amount END,
+    coalesce(p_receipt_url, 'Cash on Arrival - No receipt required'),
+    p_payment_method
+  )
+  RETURNING id INTO new_booking_id;
+
+  INSERT INTO booking_slots (booking_id, slot_id)
+  SELECT new_booking_id, s FROM (SELECT DISTINCT unnest(p_slot_ids) AS s) AS requested;
+
+  -- The pending booking now reserves the slots
+  UPDATE slots
+  SET held_by = NULL, held_until = NULL
+  WHERE id = ANY(p_slot_ids);
+
+  RETURN json_build_object('success', true, 'booking_id', new_booking_id);
+END;
+$function$;
+
+-- 8) Cancellations record whether they were late
+CREATE OR REPLACE FUNCTION public.cancel_booking(p_booking_id uuid, p_reason text DEFAULT NULL)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+  target_booking record;
+  first_start timestamptz;
+  computed_refund numeric := 0;
+  next_status text;
+  is_late boolean;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  SELECT bk.id, bk.status, bk.user_id, bk.slot_id, bk.payment_amount, bk.payment_method,
+         coalesce(sv.free_cancellation_hours, 24) AS free_hours,
+         coalesce(sv.late_cancellation_refund_percent, 0) AS late_percent
+  INTO target_booking
+  FROM bookings bk
+  JOIN business_resources br ON br.id = bk.resource_id
+  LEFT JOIN services sv ON sv.id = br.service_id
+  WHERE bk.id = p_booking_id
+  FOR UPDATE OF bk;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error_code', 'BOOKING_NOT_FOUND');
+  END IF;
+
+  IF target_booking.user_id IS DISTINCT FROM current_user_id THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  IF target_booking.status NOT IN ('Pending', 'Confirmed') THEN
+    RETURN json_build_object('success', false, 'error_code', 'BOOKING_NOT_CANCELLABLE');
+  END IF;
+
+  PERFORM 1 FROM slots s
+  JOIN booking_slots bs ON bs.slot_id = s.id
+  WHERE bs.booking_id = p_booking_id
+  ORDER BY s.id
+  FOR UPDATE OF s;
+
+  SELECT min(s.start_time) INTO first_start
+  FROM slots s
+  WHERE s.id IN (
+    SELECT bs.slot_id FROM booking_slots bs WHERE bs.booking_id = p_booking_id
+    UNION
+    SELECT target_booking.slot_id
+  );
+
+  IF first_start IS NOT NULL AND first_start <= now() THEN
+    RETURN json_build_object('success', false, 'error_code', 'BOOKING_ALREADY_STARTED');
+  END IF;
+
+  is_late := first_start IS NOT NULL AND first_start < now() + make_interval(hours => target_booking.free_hours);
+
+  -- Nothing was paid up front for cash bookings, so there is nothing to give back
+  IF lower(coalesce(target_booking.payment_method, '')) <> 'cash on arrival' THEN
+    IF NOT is_late THEN
+      computed_refund := target_booking.payment_amount;
+    ELSE
+      computed_refund := round(target_booking.payment_amount * target_booking.late_percent / 100.0);
+    END IF;
+  END IF;
+
+  next_status := CASE WHEN computed_refund > 0 THEN 'RefundPending' ELSE 'Cancelled' END;
+
+  -- Release only slots that this booking holds
+  UPDATE slots s
+  SET is_booked = false, booking_id = NULL
+  FROM booking_slots bs
+  WHERE bs.slot_id = s.id
+  AND bs.booking_id = p_booking_id
+  AND (s.booking_id IS NULL OR s.booking_id = p_booking_id);
+
+  DELETE FROM booking_slots WHERE booking_id = p_booking_id;
+
+  UPDATE bookings
+  SET status = next_status,
+      cancelled_at = now(),
+      cancelled_by_id = current_user_id,
+      cancellation_reason = nullif(trim(p_reason), ''),
+      refund_amount = computed_refund,
+      late_cancellation = is_late
+  WHERE id = p_booking_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'booking_id', p_booking_id,
+    'status', next_status,
+    'refund_amount', computed_refund
+  );
+END;
+$function$;
+
+-- 9) Services are admin-managed, so owners change the threshold through this function
+CREATE OR REPLACE FUNCTION public.set_prepayment_threshold(p_service_id integer, p_min_score integer)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+BEGIN
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM business_resources br
+    JOIN businesses b ON b.id = br.business_id
+    WHERE br.service_id = p_service_id
+    AND b.owner_id = current_user_id
+  ) THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  IF p_min_score IS NULL OR p_min_score NOT BETWEEN 0 AND 100 THEN
+    RETURN json_build_object('success', false, 'error_code', 'INVALID_PREPAYMENT_THRESHOLD');
+  END IF;
+
+  UPDATE services
+  SET prepayment_min_score = p_min_score
+  WHERE id = p_service_id;
+
+  RETURN json_build_object('success', true);
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_renter_reliability(uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.booking_prepayment_required(uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_prepayment_threshold(integer, integer) TO authenticated;
@@ -0,0 +1,120 @@
+-- Owner revenue and occupancy analytics.
+-- One call returns the raw material for the analytics view in the owner's dashboard:
+-- slots grouped by resource and local start (occupancy, heatmap, pricing tiers) and
+-- bookings grouped by resource, month, payment method and source (revenue, trends).
+-- Dates and times are in each business's own timezone. Pricing rules are matched in the
+-- app with the same code slot generation uses, so they are not part of this function.
+-- The result is a single json value so large ranges are not cut off by the API row limit.
+
+-- 1) Start of each booking's first slot, kept on the booking. Slot regeneration and
+--    cleanup delete free slots, which sets bookings.slot_id to NULL, and cancelled or
+--    rejected bookings no longer have booking_slots rows, so neither can date old bookings.
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS starts_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.bookings.starts_at IS 'Start of the first booked slot, copied from slot_id and kept when that slot is deleted.';
+
+CREATE OR REPLACE FUNCTION public.set_booking_starts_at()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.slot_id IS NOT NULL THEN
+    NEW.starts_at := coalesce((SELECT s.start_time FROM slots s WHERE s.id = NEW.slot_id), NEW.starts_at);
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS set_booking_starts_at ON public.bookings;
+CREATE TRIGGER set_booking_starts_at
+  BEFORE INSERT OR UPDATE OF slot_id ON public.bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_booking_starts_at();
+
+UPDATE public.bookings bk
+SET starts_at = s.start_time
+FROM public.slots s
+WHERE s.id = bk.slot_id
+AND bk.starts_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_starts_at ON public.bookings(starts_at);
+
+-- 2) Analytics
+CREATE OR REPLACE FUNCTION public.get_owner_analytics(p_from date, p_to date)
+RETURNS json
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+  slot_rows json;
+  booking_rows json;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  IF p_from IS NULL OR p_to IS NULL OR p_to < p_from OR p_to - p_from > 400 THEN
+    RETURN json_build_object('success', false, 'error_code', 'INVALID_DATE_RANGE');
+  END IF;
+
+  -- Slots by resource and local start time
+  SELECT coalesce(json_agg(grouped ORDER BY grouped.date, grouped.time), '[]'::json)
+  INTO slot_rows
+  FROM (
+    SELECT
+      s.resource_id,
+      to_char(s.start_time AT TIME ZONE b.timezone, 'YYYY-MM-DD') AS date,
+      to_char(s.start_time AT TIME ZONE b.timezone, 'HH24:MI') AS time,
+      count(*) AS total_count,
+      count(*) FILTER (WHERE s.is_booked) AS booked_count,
+      coalesce(sum(s.slot_price), 0) AS total_value,
+      coalesce(sum(s.slot_price) FILTER (WHERE s.is_booked), 0) AS booked_value
+    FROM slots s
+    JOIN business_resources br ON br.id = s.resource_id
+    JOIN businesses b ON b.id = br.business_id
+    WHERE b.owner_id = current_user_id
+    AND (s.start_time AT TIME ZONE b.timezone)::date BETWEEN p_from AND p_to
+    GROUP BY s.resource_id, 2, 3
+  ) AS grouped;
+
+  -- Bookings by the month of their first slot. Revenue is the booked value of confirmed
+  --    bookings (walk-ins included) and whatever was kept from cancellations; unpaid cash
+  --    bookings that were cancelled earned nothing.
+  SELECT coalesce(json_agg(grouped ORDER BY grouped.month), '[]'::json)
+  INTO booking_rows
+  FROM (
+    SELECT
+      bk.resource_id,
+      to_char(bk.starts_at AT TIME ZONE b.timezone, 'YYYY-MM') AS month,
+      coalesce(nullif(btrim(bk.payment_method), ''), 'Unknown') AS payment_method,
+      bk.source,
+      count(*) FILTER (WHERE bk.status = 'Confirmed') AS confirmed_count,
+      count(*) FILTER (WHERE bk.status IN ('Cancelled', 'RefundPending', 'Refunded')) AS cancelled_count,
+      count(*) FILTER (WHERE bk.attendance = 'no_show') AS no_show_count,
+      coalesce(sum(
+        CASE
+          WHEN bk.status = 'Confirmed' THEN bk.payment_amount + bk.balance_due
+          WHEN bk.status IN ('Cancelled', 'RefundPending', 'Refunded')
+            AND lower(coalesce(bk.payment_method, '')) <> 'cash on arrival'
+            THEN greatest(bk.payment_amount - coalesce(bk.refund_amount, 0), 0)
+          ELSE 0
+        END
+      ), 0) AS revenue
+    FROM bookings bk
+    JOIN business_resources br ON br.id = bk.resource_id
+    JOIN businesses b ON b.id = br.business_id
+    WHERE b.owner_id = current_user_id
+    AND (bk.starts_at AT TIME ZONE b.timezone)::date BETWEEN p_from AND p_to
+    GROUP BY bk.resource_id, 2, 3, bk.source
+  ) AS grouped;
+
+  RETURN json_build_object('success', true, 'slots', slot_rows, 'bookings', booking_rows);
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_owner_analytics(date, date) TO authenticated;
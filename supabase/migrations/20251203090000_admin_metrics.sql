@@ -0,0 +1,271 @@
+-- Live admin metrics.
+-- The admin Overview showed fixed sample numbers. get_admin_metrics computes the KPIs for a
+-- date range and for the period of the same length just before it, so every KPI can show a
+-- real period-over-period change. Days are counted in Myanmar time (Asia/Yangon).
+-- Subscription payments were not recorded anywhere: confirming a payment only moved the
+-- listing and POS expiry dates. Confirmations now add a row to subscription_payments with
+-- the plan prices charged, and that ledger is what revenue is summed from.
+
+-- 1) Subscription payment ledger, written by admin_confirm_business_payment
+CREATE TABLE IF NOT EXISTS public.subscription_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id UUID REFERENCES public.businesses(id) ON DELETE SET NULL,
+  listing_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  pos_website_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  amount NUMERIC(12, 2) GENERATED ALWAYS AS (listing_amount + pos_website_amount) STORED,
+  confirmed_by_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  paid_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.subscription_payments IS 'One row per confirmed subscription payment, in MMK. Amounts are the plan prices at the time the payment was confirmed.';
+COMMENT ON COLUMN public.subscription_payments.business_id IS 'Kept as NULL when the business is deleted so past revenue stays in the totals.';
+COMMENT ON COLUMN public.subscription_payments.paid_at IS 'When the owner submitted the payment (businesses.last_payment_date), or the confirmation time if that is missing.';
+
+CREATE INDEX IF NOT EXISTS idx_subscription_payments_paid_at ON public.subscription_payments(paid_at);
+
+ALTER TABLE public.subscription_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view subscription payments"
+  ON public.subscription_payments
+  FOR SELECT
+  USING (public.get_current_admin_role() IS NOT NULL);
+
+-- 2) Plan prices. Plans are matched by name the same way the listing form picks them
+--    ('listing' for the listing plan; 'odoo', 'pos' or 'website' for the POS + website plan).
+CREATE OR REPLACE FUNCTION public.subscription_plan_price(p_kind text)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT coalesce(nullif(regexp_replace(p.pricing, '[^0-9.]', '', 'g'), '')::numeric, 0)
+  FROM plans p
+  WHERE CASE p_kind
+    WHEN 'listing' THEN lower(p.name) LIKE '%listing%'
+    WHEN 'pos_website' THEN lower(p.name) ~ '(odoo|pos|website)'
+    ELSE false
+  END
+  ORDER BY p.created_at
+  LIMIT 1;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.subscription_plan_price(text) FROM PUBLIC, anon, authenticated;
+
+-- 3) Confirming a payment records it in the ledger. The listing fee is charged when the
+--    listing was new or had expired, the POS + website fee when that option was paid for.
+CREATE OR REPLACE FUNCTION public.admin_confirm_business_payment(business_id uuid, pos_website_option integer)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  admin_check boolean := false;
+  current_date timestamptz := now();
+  new_listing_expired_date date;
+  new_odoo_expired_date timestamptz;
+  existing_receipt_url text;
+  existing_created_at timestamptz;
+  existing_listing_expired_date date;
+  existing_odoo_expired_date timestamptz;
+  existing_last_payment_date timestamptz;
+  listing_charge numeric := 0;
+  pos_website_charge numeric := 0;
+  update_data json;
+  receipt_file_path text;
+BEGIN
+  -- Check if the current user is an admin
+  SELECT EXISTS (
+    SELECT 1 FROM admin_users
+    WHERE user_id = auth.uid()
+  ) INTO admin_check;
+
+  IF NOT admin_check THEN
+    RAISE EXCEPTION 'Unauthorized: Only admins can confirm payments';
+  END IF;
+
+  -- Get existing business data
+  SELECT receipt_url, created_at, listing_expired_date, odoo_expired_date, last_payment_date
+  INTO existing_receipt_url, existing_created_at, existing_listing_expired_date, existing_odoo_expired_date, existing_last_payment_date
+  FROM businesses
+  WHERE id = business_id;
+
+  -- Calculate new listing expired date based on created_at + 365 days
+  new_listing_expired_date := (existing_created_at + INTERVAL '365 days')::date;
+
+  -- Only update listing_expired_date if existing date is in the past
+  IF existing_listing_expired_date IS NOT NULL AND existing_listing_expired_date >= current_date::date THEN
+    new_listing_expired_date := existing_listing_expired_date;
+  ELSE
+    listing_charge := subscription_plan_price('listing');
+  END IF;
+
+  -- Prepare odoo expired date with new condition
+  IF pos_website_option = 1 THEN
+    pos_website_charge := subscription_plan_price('pos_website');
+
+    -- Only update odoo_expired_date if current date is >= existing odoo_expired_date (expired or NULL)
+    IF existing_odoo_expired_date IS NULL OR current_date >= existing_odoo_expired_date THEN
+      new_odoo_expired_date := current_date + INTERVAL '30 days';
+    ELSE
+      -- Keep existing odoo_expired_date if it's still valid (in the future)
+      new_odoo_expired_date := existing_odoo_expired_date;
+    END IF;
+  ELSE
+    new_odoo_expired_date := NULL;
+  END IF;
+
+  -- Delete receipt file from storage if it exists
+  IF existing_receipt_url IS NOT NULL THEN
+    IF existing_receipt_url ~ '/storage/v1/object/public/business-assets/' THEN
+      -- Not yet moved out of the public bucket
+      receipt_file_path := regexp_replace(existing_receipt_url, '.*\/storage\/v1\/object\/public\/business-assets\/', '');
+
+      DELETE FROM storage.objects
+      WHERE bucket_id = 'business-assets'
+      AND name = receipt_file_path;
+    ELSE
+      DELETE FROM storage.objects
+      WHERE bucket_id = 'payment-receipts'
+      AND name = existing_receipt_url;
+    END IF;
+  END IF;
+
+  -- Update the business record
+  UPDATE businesses
+  SET
+    payment_status = 'confirmed',
+    receipt_url = NULL,
+    last_payment_date = current_date,
+    listing_expired_date = new_listing_expired_date,
+    odoo_expired_date = new_odoo_expired_date
+  WHERE id = business_id;
+
+  -- Record the payment
+  INSERT INTO subscription_payments (business_id, listing_amount, pos_website_amount, confirmed_by_id, paid_at)
+  VALUES (
+    admin_confirm_business_payment.business_id,
+    listing_charge,
+    pos_website_charge,
+    auth.uid(),
+    coalesce(existing_last_payment_date, current_date)
+  );
+
+  -- Return success response
+  SELECT json_build_object(
+    'success', true,
+    'business_id', business_id,
+    'payment_status', 'confirmed',
+    'last_payment_date', current_date,
+    'listing_expired_date', new_listing_expired_date,
+    'odoo_expired_date', new_odoo_expired_date,
+    'amount', listing_charge + pos_website_charge,
+    'receipt_deleted', existing_receipt_url IS NOT NULL
+  ) INTO update_data;
+
+  RETURN update_data;
+END;
+$function$;
+
+-- 4) Backfill: the latest confirmed payment of every business, at today's plan prices
+INSERT INTO public.subscription_payments (business_id, listing_amount, pos_website_amount, paid_at)
+SELECT
+  b.id,
+  public.subscription_plan_price('listing'),
+  CASE WHEN b."POS+Website" = 1 THEN public.subscription_plan_price('pos_website') ELSE 0 END,
+  b.last_payment_date
+FROM public.businesses b
+WHERE b.payment_status = 'confirmed'
+AND b.last_payment_date IS NOT NULL
+AND NOT EXISTS (SELECT 1 FROM public.subscription_payments sp WHERE sp.business_id = b.id);
+
+-- 5) KPIs for one range. Listing counts are a snapshot at the end of the range.
+CREATE OR REPLACE FUNCTION public.admin_metrics_for_range(p_from date, p_to date)
+RETURNS json
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT json_build_object(
+    'active_listings', (
+      SELECT count(*) FROM businesses b
+      WHERE (b.created_at AT TIME ZONE 'Asia/Yangon')::date <= p_to
+      AND b.payment_status = 'confirmed'
+      AND b.listing_expired_date >= p_to
+    ),
+    'expired_listings', (
+      SELECT count(*) FROM businesses b
+      WHERE (b.created_at AT TIME ZONE 'Asia/Yangon')::date <= p_to
+      AND b.listing_expired_date < p_to
+    ),
+    'total_users', (
+      SELECT count(*) FROM profiles p
+      WHERE (p.created_at AT TIME ZONE 'Asia/Yangon')::date <= p_to
+    ),
+    'sign_ups', (
+      SELECT count(*) FROM profiles p
+      WHERE (p.created_at AT TIME ZONE 'Asia/Yangon')::date BETWEEN p_from AND p_to
+    ),
+    'bookings_confirmed', (
+      SELECT count(*) FROM bookings bk
+      WHERE bk.status = 'Confirmed'
+      AND bk.source = 'online'
+      AND (bk.created_at AT TIME ZONE 'Asia/Yangon')::date BETWEEN p_from AND p_to
+    ),
+    'subscription_revenue', (
+      SELECT coalesce(sum(sp.amount), 0) FROM subscription_payments sp
+      WHERE (sp.paid_at AT TIME ZONE 'Asia/Yangon')::date BETWEEN p_from AND p_to
+    ),
+    'subscription_payments', (
+      SELECT count(*) FROM subscription_payments sp
+      WHERE (sp.paid_at AT TIME ZONE 'Asia/Yangon')::date BETWEEN p_from AND p_to
+    ),
+    'job_posts', (
+      SELECT count(*) FROM job_postings jp
+      WHERE (jp.created_at AT TIME ZONE 'Asia/Yangon')::date BETWEEN p_from AND p_to
+    )
+  );
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.admin_metrics_for_range(date, date) FROM PUBLIC, anon, authenticated;
+
+-- 6) Admin metrics for a range and the equally long range before it
+CREATE OR REPLACE FUNCTION public.get_admin_metrics(p_from date, p_to date)
+RETURNS json
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+  range_days integer;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  IF get_current_admin_role() IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  IF p_from IS NULL OR p_to IS NULL OR p_to < p_from OR p_to - p_from > 731 THEN
+    RETURN json_build_object('success', false, 'error_code', 'INVALID_DATE_RANGE');
+  END IF;
+
+  range_days := p_to - p_from + 1;
+
+  RETURN json_build_object(
+    'success', true,
+    'previous_from', p_from - range_days,
+    'previous_to', p_from - 1,
+    'current', admin_metrics_for_range(p_from, p_to),
+    'previous', admin_metrics_for_range(p_from - range_days, p_from - 1)
+  );
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_admin_metrics(date, date) TO authenticated;
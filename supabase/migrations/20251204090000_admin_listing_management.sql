@@ -0,0 +1,450 @@
+-- Admin listing management.
+-- Admins page through every business with server-side search and filters, and can feature,
+-- hide, edit, extend and delete listings. Deleting is a soft delete: the row stays for
+-- bookings, payments and the audit trail but is no longer visible to the public.
+-- Every change an admin makes is written to admin_audit_log with the values before and after.
+
+-- 1) Soft delete
+ALTER TABLE public.businesses
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS deleted_by_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.businesses.deleted_at IS 'Set when an admin deletes the listing. Deleted listings are only visible to their owner and admins.';
+
+-- Earlier migrations created several open SELECT policies; any one left would let deleted rows through
+DROP POLICY IF EXISTS "Everyone can view businesses" ON public.businesses;
+DROP POLICY IF EXISTS "Businesses are viewable by everyone" ON public.businesses;
+DROP POLICY IF EXISTS "Anyone can view published businesses" ON public.businesses;
+
+CREATE POLICY "Everyone can view businesses that are not deleted"
+  ON public.businesses
+  FOR SELECT
+  USING (
+    deleted_at IS NULL
+    OR auth.uid() = owner_id
+    OR public.get_current_admin_role() IS NOT NULL
+  );
+
+-- 2) Audit log
+CREATE TABLE IF NOT EXISTS public.admin_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  admin_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  action TEXT NOT NULL,
+  target_type TEXT NOT NULL,
+  target_id UUID,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.admin_audit_log IS 'One row per admin action. details holds the changed values under before/after and any reason given.';
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_target ON public.admin_audit_log(target_type, target_id, created_at DESC);
+
+ALTER TABLE public.admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the SECURITY DEFINER functions below
+CREATE POLICY "Admins can view the audit log"
+  ON public.admin_audit_log
+  FOR SELECT
+  USING (public.get_current_admin_role() IS NOT NULL);
+
+CREATE OR REPLACE FUNCTION public.log_admin_action(p_action text, p_target_type text, p_target_id uuid, p_details jsonb)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  INSERT INTO admin_audit_log (admin_id, action, target_type, target_id, details)
+  VALUES (auth.uid(), p_action, p_target_type, p_target_id, coalesce(p_details, '{}'::jsonb));
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.log_admin_action(text, text, uuid, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- 3) Listing console: one page of businesses and the total matching the filters.
+--    p_expiry: 'active', 'expiring' (within 30 days), 'expired' or 'none' (never paid).
+CREATE OR REPLACE FUNCTION public.admin_list_businesses(
+  p_search text DEFAULT NULL,
+  p_category text DEFAULT NULL,
+  p_payment_status text DEFAULT NULL,
+  p_expiry text DEFAULT NULL,
+  p_searchable boolean DEFAULT NULL,
+  p_include_deleted boolean DEFAULT false,
+  p_page integer DEFAULT 0,
+  p_page_size integer DEFAULT 20
+)
+RETURNS json
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public', 'auth'
+AS $function$
+DECLARE
+  today date := (now() AT TIME ZONE 'Asia/Yangon')::date;
+  page_size integer := least(greatest(coalesce(p_page_size, 20), 1), 100);
+  search_pattern text := '%' || nullif(btrim(p_search), '') || '%';
+  total_count integer;
+  listing_rows json;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  IF get_current_admin_role() IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  WITH matching AS (
+    SELECT b.*, au.email::text AS owner_email
+    FROM businesses b
+    LEFT JOIN auth.users au ON au.id = b.owner_id
+    WHERE (p_include_deleted OR b.deleted_at IS NULL)
+    AND (
+      search_pattern IS NULL
+      OR b.name ILIKE search_pattern
+      OR b.phone ILIKE search_pattern
+      OR b.email ILIKE search_pattern
+      OR au.email ILIKE search_pattern
+      OR b.id::text = btrim(p_search)
+    )
+    AND (
+      p_category IS NULL
+      OR p_category = ANY (regexp_split_to_array(coalesce(b.category, ''), '\s*,\s*'))
+    )
+    AND (p_payment_status IS NULL OR b.payment_status = p_payment_status)
+    AND (
+      p_expiry IS NULL
+      OR (p_expiry = 'active' AND b.listing_expired_date >= today)
+      OR (p_expiry = 'expiring' AND b.listing_expired_date BETWEEN today AND today + 30)
+      OR (p_expiry = 'expired' AND b.listing_expired_date < today)
+      OR (p_expiry = 'none' AND b.listing_expired_date IS NULL)
+    )
+    AND (p_searchable IS NULL OR b.searchable_business = p_searchable)
+  )
+  SELECT
+    (SELECT count(*) FROM matching),
+    (
+      SELECT coalesce(json_agg(page_rows), '[]'::json)
+      FROM (
+        SELECT
+          m.id,
+          m.name,
+          m.category,
+          m.description,
+          m.owner_id,
+          m.owner_email,
+          m.phone,
+          m.email,
+          m.address,
+          m.towns,
+          m.province_district,
+          m.website,
+          m.facebook_page,
+          m.image_url,
+          m.payment_status,
+          m.listing_expired_date,
+          m.featured_business,
+          m.searchable_business,
+          m.created_at,
+          m.deleted_at
+        FROM matching m
+        ORDER BY m.created_at DESC
+        LIMIT page_size
+        OFFSET greatest(coalesce(p_page, 0), 0) * page_size
+      ) AS page_rows
+    )
+  INTO total_count, listing_rows;
+
+  RETURN json_build_object('success', true, 'total', total_count, 'listings', listing_rows);
+END;
+$function$;
+
+-- 4) Listing actions. Each returns BUSINESS_NOT_FOUND for unknown or deleted listings.
+CREATE OR REPLACE FUNCTION public.admin_set_business_featured(p_business_id uuid, p_featured boolean)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  previous_featured integer;
+BEGIN
+  IF get_current_admin_role() IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  SELECT featured_business INTO previous_featured
+  FROM businesses
+  WHERE id = p_business_id AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error_code', 'BUSINESS_NOT_FOUND');
+  END IF;
+
+  UPDATE businesses
+  SET featured_business = CASE WHEN p_featured THEN 1 ELSE 0 END
+  WHERE id = p_business_id;
+
+  PERFORM log_admin_action(
+    CASE WHEN p_featured THEN 'business.feature' ELSE 'business.unfeature' END,
+    'business',
+    p_business_id,
+    jsonb_build_object(
+      'before', jsonb_build_object('featured_business', previous_featured),
+      'after', jsonb_build_object('featured_business', CASE WHEN p_featured THEN 1 ELSE 0 END)
+    )
+  );
+
+  RETURN json_build_object('success', true, 'business_id', p_business_id);
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.admin_set_business_searchable(p_business_id uuid, p_searchable boolean)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  previous_searchable boolean;
+BEGIN
+  IF get_current_admin_role() IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  SELECT searchable_business INTO previous_searchable
+  FROM businesses
+  WHERE id = p_business_id AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error_code', 'BUSINESS_NOT_FOUND');
+  END IF;
+
+  UPDATE businesses
+  SET searchable_business = p_searchable
+  WHERE id = p_business_id;
+
+  PERFORM log_admin_action(
+    CASE WHEN p_searchable THEN 'business.unhide' ELSE 'business.hide' END,
+    'business',
+    p_business_id,
+    jsonb_build_object(
+      'before', jsonb_build_object('searchable_business', previous_searchable),
+      'after', jsonb_build_object('searchable_business', p_searchable)
+    )
+  );
+
+  RETURN json_build_object('success', true, 'business_id', p_business_id);
+END;
+$function$;
+
+-- Only the keys present in p_details are changed; the name cannot be blank
+CREATE OR REPLACE FUNCTION public.admin_update_business(p_business_id uuid, p_details jsonb)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  editable_keys text[] := ARRAY[
+    'name', 'category', 'description', 'phone', 'email', 'address',
+    'towns', 'province_district', 'website', 'facebook_page'
+  ];
+  previous_row jsonb;
+  changes jsonb;
+BEGIN
+  IF get_current_admin_role() IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  SELECT to_jsonb(b) INTO previous_row
+  FROM businesses b
+  WHERE b.id = p_business_id AND b.deleted_at IS NULL
+  FOR UPDATE;
+
+  IF previous_row IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'BUSINESS_NOT_FOUND');
+  END IF;
+
+  SELECT coalesce(jsonb_object_agg(key, value), '{}'::jsonb) INTO changes
+  FROM jsonb_each(coalesce(p_details, '{}'::jsonb))
+  WHERE key = ANY (editable_keys)
+  AND value IS DISTINCT FROM previous_row -> key;
+
+  IF changes ? 'name' AND coalesce(btrim(changes ->> 'name'), '') = '' THEN
+    RETURN json_build_object('success', false, 'error_code', 'INVALID_BUSINESS_DETAILS');
+  END IF;
+
+  IF changes = '{}'::jsonb THEN
+    RETURN json_build_object('success', true, 'business_id', p_business_id);
+  END IF;
+
+  UPDATE businesses
+  SET
+    name = CASE WHEN changes ? 'name' THEN btrim(changes ->> 'name') ELSE name END,
+    category = CASE WHEN changes ? 'category' THEN nullif(btrim(changes ->> 'category'), '') ELSE category END,
+    description = CASE WHEN changes ? 'description' THEN nullif(btrim(changes ->> 'description'), '') ELSE description END,
+    phone = CASE WHEN changes ? 'phone' THEN nullif(btrim(changes ->> 'phone'), '') ELSE phone END,
+    email = CASE WHEN changes ? 'email' THEN nullif(btrim(changes ->> 'email'), '') ELSE email END,
+    address = CASE WHEN changes ? 'address' THEN nullif(btrim(changes ->> 'address'), '') ELSE address END,
+    towns = CASE WHEN changes ? 'towns' THEN nullif(btrim(changes ->> 'towns'), '') ELSE towns END,
+    province_district = CASE WHEN changes ? 'province_district' THEN nullif(btrim(changes ->> 'province_district'), '') ELSE province_district END,
+    website = CASE WHEN changes ? 'website' THEN nullif(btrim(changes ->> 'website'), '') ELSE website END,
+    facebook_page = CASE WHEN changes ? 'facebook_page' THEN nullif(btrim(changes ->> 'facebook_page'), '') ELSE facebook_page END
+  WHERE id = p_business_id;
+
+  PERFORM log_admin_action(
+    'business.update',
+    'business',
+    p_business_id,
+    jsonb_build_object(
+      'before', (SELECT jsonb_object_agg(key, previous_row -> key) FROM jsonb_object_keys(changes) AS key),
+      'after', changes
+    )
+  );
+
+  RETURN json_build_object('success', true, 'business_id', p_business_id);
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.admin_extend_listing(p_business_id uuid, p_expires_on date)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  previous_expiry date;
+BEGIN
+  IF get_current_admin_role() IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  SELECT listing_expired_date INTO previous_expiry
+  FROM businesses
+  WHERE id = p_business_id AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error_code', 'BUSINESS_NOT_FOUND');
+  END IF;
+
+  IF p_expires_on IS NULL
+    OR p_expires_on < (now() AT TIME ZONE 'Asia/Yangon')::date
+    OR p_expires_on <= previous_expiry THEN
+    RETURN json_build_object('success', false, 'error_code', 'INVALID_EXPIRY_DATE');
+  END IF;
+
+  UPDATE businesses
+  SET listing_expired_date = p_expires_on
+  WHERE id = p_business_id;
+
+  PERFORM log_admin_action(
+    'business.extend',
+    'business',
+    p_business_id,
+    jsonb_build_object(
+      'before', jsonb_build_object('listing_expired_date', previous_expiry),
+      'after', jsonb_build_object('listing_expired_date', p_expires_on)
+    )
+  );
+
+  RETURN json_build_object('success', true, 'business_id', p_business_id, 'listing_expired_date', p_expires_on);
+END;
+$function$;
+
+-- Also hides and unfeatures the listing so it drops out of search and the home page
+CREATE OR REPLACE FUNCTION public.admin_delete_business(p_business_id uuid, p_reason text DEFAULT NULL)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  target businesses%ROWTYPE;
+BEGIN
+  IF get_current_admin_role() IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  SELECT * INTO target
+  FROM businesses
+  WHERE id = p_business_id AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error_code', 'BUSINESS_NOT_FOUND');
+  END IF;
+
+  UPDATE businesses
+  SET
+    deleted_at = now(),
+    deleted_by_id = auth.uid(),
+    searchable_business = false,
+    featured_business = 0
+  WHERE id = p_business_id;
+
+  PERFORM log_admin_action(
+    'business.delete',
+    'business',
+    p_business_id,
+    jsonb_build_object(
+      'name', target.name,
+      'reason', nullif(btrim(p_reason), ''),
+      'before', jsonb_build_object(
+        'searchable_business', target.searchable_business,
+        'featured_business', target.featured_business
+      )
+    )
+  );
+
+  RETURN json_build_object('success', true, 'business_id', p_business_id);
+END;
+$function$;
+
+-- 5) Deleted listings no longer wait for payment confirmation
+CREATE OR REPLACE FUNCTION public.get_pending_businesses_with_emails()
+RETURNS TABLE(
+  id uuid,
+  name text,
+  owner_id uuid,
+  user_email text,
+  receipt_url text,
+  payment_status text,
+  created_at timestamptz,
+  listing_expired_date date,
+  last_payment_date timestamptz,
+  odoo_expired_date timestamptz,
+  "POS+Website" integer
+)
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path TO 'public', 'auth'
+AS $function$
+  SELECT 
+    b.id::uuid,
+    b.name::text,
+    b.owner_id::uuid,
+    au.email::text AS user_email,
+    b.receipt_url::text,
+    b.payment_status::text,
+    b.created_at::timestamptz,
+    b.listing_expired_date::date,
+    b.last_payment_date::timestamptz,
+    b.odoo_expired_date::timestamptz,
+    b."POS+Website"::integer
+  FROM public.businesses b
+  LEFT JOIN auth.users au ON b.owner_id = au.id
+  WHERE b.payment_status = 'to_be_confirmed'
+  AND b.receipt_url IS NOT NULL
+  AND b.deleted_at IS NULL
+  ORDER BY b.created_at DESC
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.admin_list_businesses(text, text, text, text, boolean, boolean, integer, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_set_business_featured(uuid, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_set_business_searchable(uuid, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_update_business(uuid, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_extend_listing(uuid, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_delete_business(uuid, text) TO authenticated;
@@ -0,0 +1,445 @@
+-- Admin user management.
+-- Admins search accounts by email or name and open a profile with the person's businesses,
+-- bookings, job posts, reviews and recent sign-in attempts. Depending on their admin role they
+-- can suspend accounts, change profiles.role and grant or revoke admin roles:
+--   * moderator: view only
+--   * admin: also suspend/unsuspend regular users and change their profile role
+--   * super_admin: everything, including other admins and admin roles
+-- A suspended account is banned in auth (no sign-in, no token refresh) and its sessions are
+-- ended. Every change goes through log_admin_action.
+
+-- 1) Suspension
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS suspended_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS suspended_by_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS suspension_reason TEXT;
+
+COMMENT ON COLUMN public.profiles.suspended_at IS 'Set while an admin has suspended the account; auth.users.banned_until is set at the same time.';
+
+-- 2) Admin roles rank super_admin > admin > moderator
+CREATE OR REPLACE FUNCTION public.admin_role_rank(p_role text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $function$
+  SELECT CASE p_role
+    WHEN 'super_admin' THEN 3
+    WHEN 'admin' THEN 2
+    WHEN 'moderator' THEN 1
+    ELSE 0
+  END;
+$function$;
+
+-- admin_users and profiles rows can be written by their own user, so the admin role and the
+-- suspension columns are guarded: only the admin RPCs below (which set app.admin_action) may
+-- change them. Self-provisioned admin rows start as plain 'admin'. Statements without a signed-in
+-- user (SQL editor, service role) are not restricted, so the first super admin can still be set up.
+CREATE OR REPLACE FUNCTION public.guard_admin_role_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF auth.uid() IS NULL OR coalesce(current_setting('app.admin_action', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND coalesce(NEW.admin_role, 'admin') <> 'admin' THEN
+    RAISE EXCEPTION 'admin_role can only be granted by a super admin';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.admin_role IS DISTINCT FROM OLD.admin_role THEN
+    RAISE EXCEPTION 'admin_role can only be changed by a super admin';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS guard_admin_role_change ON public.admin_users;
+CREATE TRIGGER guard_admin_role_change
+  BEFORE INSERT OR UPDATE ON public.admin_users
+  FOR EACH ROW EXECUTE FUNCTION public.guard_admin_role_change();
+
+CREATE OR REPLACE FUNCTION public.guard_profile_suspension()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND coalesce(current_setting('app.admin_action', true), '') <> 'on'
+    AND (
+      NEW.suspended_at IS DISTINCT FROM OLD.suspended_at
+      OR NEW.suspended_by_id IS DISTINCT FROM OLD.suspended_by_id
+      OR NEW.suspension_reason IS DISTINCT FROM OLD.suspension_reason
+    ) THEN
+    RAISE EXCEPTION 'Account suspension can only be changed by an admin';
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS guard_profile_suspension ON public.profiles;
+CREATE TRIGGER guard_profile_suspension
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.guard_profile_suspension();
+
+REVOKE EXECUTE ON FUNCTION public.admin_role_rank(text) FROM PUBLIC, anon, authenticated;
+
+-- 3) Search. Users without a profile row are included; p_suspended filters on suspension.
+CREATE OR REPLACE FUNCTION public.admin_search_users(
+  p_search text DEFAULT NULL,
+  p_suspended boolean DEFAULT NULL,
+  p_page integer DEFAULT 0,
+  p_page_size integer DEFAULT 20
+)
+RETURNS json
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public', 'auth'
+AS $function$
+DECLARE
+  page_size integer := least(greatest(coalesce(p_page_size, 20), 1), 100);
+  search_pattern text := '%' || nullif(btrim(p_search), '') || '%';
+  total_count integer;
+  user_rows json;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  IF get_current_admin_role() IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  WITH matching AS (
+    SELECT
+      au.id AS user_id,
+      au.email::text AS email,
+      p.display_name,
+      coalesce(p.role, 'user') AS role,
+      adm.admin_role,
+      au.created_at,
+      au.last_sign_in_at,
+      p.suspended_at
+    FROM auth.users au
+    LEFT JOIN profiles p ON p.user_id = au.id
+    LEFT JOIN admin_users adm ON adm.user_id = au.id
+    WHERE (
+      search_pattern IS NULL
+      OR au.email ILIKE search_pattern
+      OR p.display_name ILIKE search_pattern
+      OR au.raw_user_meta_data ->> 'full_name' ILIKE search_pattern
+      OR au.id::text = btrim(p_search)
+    )
+    AND (p_suspended IS NULL OR (p.suspended_at IS NOT NULL) = p_suspended)
+  )
+  SELECT
+    (SELECT count(*) FROM matching),
+    (
+      SELECT coalesce(json_agg(page_rows), '[]'::json)
+      FROM (
+        SELECT
+          m.*,
+          (SELECT count(*) FROM businesses b WHERE b.owner_id = m.user_id AND b.deleted_at IS NULL) AS business_count,
+          (SELECT count(*) FROM bookings bk WHERE bk.user_id = m.user_id AND bk.source = 'online') AS booking_count
+        FROM matching m
+        ORDER BY m.created_at DESC
+        LIMIT page_size
+        OFFSET greatest(coalesce(p_page, 0), 0) * page_size
+      ) AS page_rows
+    )
+  INTO total_count, user_rows;
+
+  RETURN json_build_object('success', true, 'total', total_count, 'users', user_rows);
+END;
+$function$;
+
+-- 4) One account with its activity (latest 20 of each)
+CREATE OR REPLACE FUNCTION public.admin_get_user(p_user_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public', 'auth'
+AS $function$
+DECLARE
+  account json;
+  account_email text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  IF get_current_admin_role() IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  SELECT
+    json_build_object(
+      'user_id', au.id,
+      'email', au.email,
+      'display_name', p.display_name,
+      'avatar_url', p.avatar_url,
+      'role', coalesce(p.role, 'user'),
+      'admin_role', adm.admin_role,
+      'created_at', au.created_at,
+      'last_sign_in_at', au.last_sign_in_at,
+      'email_confirmed_at', au.email_confirmed_at,
+      'suspended_at', p.suspended_at,
+      'suspension_reason', p.suspension_reason
+    ),
+    au.email
+  INTO account, account_email
+  FROM auth.users au
+  LEFT JOIN profiles p ON p.user_id = au.id
+  LEFT JOIN admin_users adm ON adm.user_id = au.id
+  WHERE au.id = p_user_id;
+
+  IF account IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'USER_NOT_FOUND');
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'user', account,
+    'businesses', (
+      SELECT coalesce(json_agg(rows ORDER BY rows.created_at DESC), '[]'::json)
+      FROM (
+        SELECT b.id, b.name, b.category, b.payment_status, b.listing_expired_date, b.created_at, b.deleted_at
+        FROM businesses b
+        WHERE b.owner_id = p_user_id
+        ORDER BY b.created_at DESC
+        LIMIT 20
+      ) AS rows
+    ),
+    'bookings', (
+      SELECT coalesce(json_agg(rows ORDER BY rows.created_at DESC), '[]'::json)
+      FROM (
+        SELECT bk.id, bk.status, bk.payment_amount, bk.created_at, br.name AS resource_name, b.name AS business_name
+        FROM bookings bk
+        JOIN business_resources br ON br.id = bk.resource_id
+        JOIN businesses b ON b.id = br.business_id
+        WHERE bk.user_id = p_user_id
+        AND bk.source = 'online'
+        ORDER BY bk.created_at DESC
+        LIMIT 20
+      ) AS rows
+    ),
+    'job_posts', (
+      SELECT coalesce(json_agg(rows ORDER BY rows.created_at DESC), '[]'::json)
+      FROM (
+        SELECT jp.id, jp.job_title, jp.business_name, jp.application_deadline, jp.created_at
+        FROM job_postings jp
+        WHERE jp.user_id = p_user_id
+        ORDER BY jp.created_at DESC
+        LIMIT 20
+      ) AS rows
+    ),
+    'reviews', (
+      SELECT coalesce(json_agg(rows ORDER BY rows.created_at DESC), '[]'::json)
+      FROM (
+        SELECT r.id, r.rating, r.comment, r.created_at, b.name AS business_name
+        FROM business_reviews r
+        JOIN businesses b ON b.id = r.business_id
+        WHERE r.user_id = p_user_id
+        ORDER BY r.created_at DESC
+        LIMIT 20
+      ) AS rows
+    ),
+    'login_attempts', (
+      SELECT coalesce(json_agg(rows ORDER BY rows.created_at DESC), '[]'::json)
+      FROM (
+        SELECT la.success, la.ip_address, la.user_agent, la.created_at
+        FROM login_attempts la
+        WHERE lower(la.email) = lower(account_email)
+        ORDER BY la.created_at DESC
+        LIMIT 20
+      ) AS rows
+    )
+  );
+END;
+$function$;
+
+-- 5) Suspend or unsuspend. Admins may suspend regular users; only super admins may suspend
+--    other admins. Nobody can suspend their own account.
+CREATE OR REPLACE FUNCTION public.admin_set_user_suspended(p_user_id uuid, p_suspended boolean, p_reason text DEFAULT NULL)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'auth'
+AS $function$
+DECLARE
+  caller_role text := get_current_admin_role();
+  target_admin_role text;
+BEGIN
+  IF admin_role_rank(caller_role) < admin_role_rank('admin') THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  IF p_user_id = auth.uid() THEN
+    RETURN json_build_object('success', false, 'error_code', 'CANNOT_CHANGE_OWN_ACCOUNT');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = p_user_id) THEN
+    RETURN json_build_object('success', false, 'error_code', 'USER_NOT_FOUND');
+  END IF;
+
+  SELECT admin_role INTO target_admin_role FROM admin_users WHERE user_id = p_user_id;
+  IF target_admin_role IS NOT NULL AND caller_role <> 'super_admin' THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  IF p_suspended AND coalesce(btrim(p_reason), '') = '' THEN
+    RETURN json_build_object('success', false, 'error_code', 'SUSPENSION_REASON_REQUIRED');
+  END IF;
+
+  PERFORM set_config('app.admin_action', 'on', true);
+
+  INSERT INTO profiles (user_id)
+  VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  UPDATE profiles
+  SET
+    suspended_at = CASE WHEN p_suspended THEN now() ELSE NULL END,
+    suspended_by_id = CASE WHEN p_suspended THEN auth.uid() ELSE NULL END,
+    suspension_reason = CASE WHEN p_suspended THEN btrim(p_reason) ELSE NULL END
+  WHERE user_id = p_user_id;
+
+  UPDATE auth.users
+  SET banned_until = CASE WHEN p_suspended THEN 'infinity'::timestamptz ELSE NULL END
+  WHERE id = p_user_id;
+
+  IF p_suspended THEN
+    DELETE FROM auth.sessions WHERE user_id = p_user_id;
+  END IF;
+
+  PERFORM set_config('app.admin_action', '', true);
+
+  PERFORM log_admin_action(
+    CASE WHEN p_suspended THEN 'user.suspend' ELSE 'user.unsuspend' END,
+    'user',
+    p_user_id,
+    jsonb_build_object('reason', nullif(btrim(p_reason), ''))
+  );
+
+  RETURN json_build_object('success', true, 'user_id', p_user_id);
+END;
+$function$;
+
+-- 6) Profile role (user or business_owner). Admin access is granted with admin_set_admin_role.
+CREATE OR REPLACE FUNCTION public.admin_set_user_role(p_user_id uuid, p_role text)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'auth'
+AS $function$
+DECLARE
+  caller_role text := get_current_admin_role();
+  previous_role text;
+BEGIN
+  IF admin_role_rank(caller_role) < admin_role_rank('admin') THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  IF p_role IS NULL OR p_role NOT IN ('user', 'business_owner') THEN
+    RETURN json_build_object('success', false, 'error_code', 'INVALID_ROLE');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = p_user_id) THEN
+    RETURN json_build_object('success', false, 'error_code', 'USER_NOT_FOUND');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM admin_users WHERE user_id = p_user_id) THEN
+    RETURN json_build_object('success', false, 'error_code', 'USER_IS_ADMIN');
+  END IF;
+
+  SELECT role INTO previous_role FROM profiles WHERE user_id = p_user_id;
+
+  INSERT INTO profiles (user_id, role)
+  VALUES (p_user_id, p_role)
+  ON CONFLICT (user_id) DO UPDATE SET role = EXCLUDED.role;
+
+  PERFORM log_admin_action(
+    'user.role',
+    'user',
+    p_user_id,
+    jsonb_build_object(
+      'before', jsonb_build_object('role', previous_role),
+      'after', jsonb_build_object('role', p_role)
+    )
+  );
+
+  RETURN json_build_object('success', true, 'user_id', p_user_id);
+END;
+$function$;
+
+-- 7) Grant, change or revoke (p_admin_role NULL) an admin role. Super admins only, and not
+--    on their own account so there is always another super admin to undo it.
+CREATE OR REPLACE FUNCTION public.admin_set_admin_role(p_user_id uuid, p_admin_role text DEFAULT NULL)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'auth'
+AS $function$
+DECLARE
+  previous_admin_role text;
+BEGIN
+  IF get_current_admin_role() IS DISTINCT FROM 'super_admin' THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  IF p_user_id = auth.uid() THEN
+    RETURN json_build_object('success', false, 'error_code', 'CANNOT_CHANGE_OWN_ACCOUNT');
+  END IF;
+
+  IF p_admin_role IS NOT NULL AND admin_role_rank(p_admin_role) = 0 THEN
+    RETURN json_build_object('success', false, 'error_code', 'INVALID_ROLE');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = p_user_id) THEN
+    RETURN json_build_object('success', false, 'error_code', 'USER_NOT_FOUND');
+  END IF;
+
+  SELECT admin_role INTO previous_admin_role FROM admin_users WHERE user_id = p_user_id;
+
+  PERFORM set_config('app.admin_action', 'on', true);
+
+  IF p_admin_role IS NULL THEN
+    DELETE FROM admin_users WHERE user_id = p_user_id;
+    UPDATE profiles SET role = 'user' WHERE user_id = p_user_id AND role = 'admin';
+  ELSE
+    INSERT INTO admin_users (user_id, admin_role)
+    VALUES (p_user_id, p_admin_role)
+    ON CONFLICT (user_id) DO UPDATE SET admin_role = EXCLUDED.admin_role, updated_at = now();
+
+    INSERT INTO profiles (user_id, role)
+    VALUES (p_user_id, 'admin')
+    ON CONFLICT (user_id) DO UPDATE SET role = 'admin';
+  END IF;
+
+  PERFORM set_config('app.admin_action', '', true);
+
+  PERFORM log_admin_action(
+    CASE WHEN p_admin_role IS NULL THEN 'user.revoke_admin' ELSE 'user.grant_admin' END,
+    'user',
+    p_user_id,
+    jsonb_build_object(
+      'before', jsonb_build_object('admin_role', previous_admin_role),
+      'after', jsonb_build_object('admin_role', p_admin_role)
+    )
+  );
+
+  RETURN json_build_object('success', true, 'user_id', p_user_id);
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.admin_search_users(text, boolean, integer, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_get_user(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_set_user_suspended(uuid, boolean, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_set_user_role(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_set_admin_role(uuid, text) TO authenticated;
@@ -0,0 +1,778 @@
+-- Admin permission matrix.
+-- What each admin role may do is decided in one place, admin_has_permission, which the RLS
+-- policies and admin RPCs below check (src/lib/adminPermissions.ts mirrors it for the UI):
+--   permission          super_admin  admin  moderator
+--   content.moderate        yes       yes      yes      job reports, job posts and reviews
+--   listings.moderate       yes       yes      yes      hide/unhide listings
+--   listings.edit           yes       yes      -        feature, edit, extend, delete listings
+--   payments.confirm        yes       yes      -        admin_confirm_business_payment
+--   plans.manage            yes       yes      -        plans
+--   catalog.manage          yes       yes      -        categories, locations, services
+--   users.view              yes       yes      yes      profiles of every user
+--   users.manage            yes       yes      -        suspend users, change profiles.role, login attempts
+--   admins.manage           yes       -        -        grant/revoke admin roles, suspend admins
+-- Viewing the dashboard, listings and users stays open to every admin role.
+-- Admin accounts are no longer self-provisioned: signing up through the admin portal only creates
+-- the auth user, and a super admin grants the role with admin_set_admin_role.
+
+-- 1) Permission matrix
+CREATE OR REPLACE FUNCTION public.admin_has_permission(p_permission text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT CASE get_current_admin_role()::text
+    WHEN 'super_admin' THEN true
+    WHEN 'admin' THEN p_permission <> 'admins.manage'
+    WHEN 'moderator' THEN p_permission IN ('content.moderate', 'listings.moderate', 'users.view')
+    ELSE false
+  END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.admin_has_permission(text) TO authenticated;
+
+-- 2) Only super admins provision admins
+DROP TRIGGER IF EXISTS on_auth_user_created_admins ON auth.users;
+DROP TRIGGER IF EXISTS on_auth_admin_user_created ON auth.users;
+DROP FUNCTION IF EXISTS public.handle_new_admin_user();
+DROP FUNCTION IF EXISTS public.provision_admin_user(text);
+DROP FUNCTION IF EXISTS public.provision_admin_user(text, text);
+
+DROP POLICY IF EXISTS "Admins can insert their own profile" ON public.admin_users;
+
+-- Signed-in users can no longer create admin rows at all; role changes still need the flag
+CREATE OR REPLACE FUNCTION public.guard_admin_role_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF auth.uid() IS NULL OR coalesce(current_setting('app.admin_action', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    RAISE EXCEPTION 'Admin accounts can only be granted by a super admin';
+  END IF;
+
+  IF NEW.admin_role IS DISTINCT FROM OLD.admin_role THEN
+    RAISE EXCEPTION 'admin_role can only be changed by a super admin';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+-- 3) Table policies
+DROP POLICY IF EXISTS "Only admins can create plans" ON public.plans;
+DROP POLICY IF EXISTS "Only admins can update plans" ON public.plans;
+DROP POLICY IF EXISTS "Only admins can delete plans" ON public.plans;
+
+CREATE POLICY "Plan managers can create plans"
+  ON public.plans
+  FOR INSERT
+  WITH CHECK (public.admin_has_permission('plans.manage'));
+
+CREATE POLICY "Plan managers can update plans"
+  ON public.plans
+  FOR UPDATE
+  USING (public.admin_has_permission('plans.manage'));
+
+CREATE POLICY "Plan managers can delete plans"
+  ON public.plans
+  FOR DELETE
+  USING (public.admin_has_permission('plans.manage'));
+
+DROP POLICY IF EXISTS "Only admins can create categories" ON public.business_categories;
+DROP POLICY IF EXISTS "Only admins can update categories" ON public.business_categories;
+DROP POLICY IF EXISTS "Only admins can delete categories" ON public.business_categories;
+
+CREATE POLICY "Catalog managers can create categories"
+  ON public.business_categories
+  FOR INSERT
+  WITH CHECK (public.admin_has_permission('catalog.manage'));
+
+CREATE POLICY "Catalog managers can update categories"
+  ON public.business_categories
+  FOR UPDATE
+  USING (public.admin_has_permission('catalog.manage'));
+
+CREATE POLICY "Catalog managers can delete categories"
+  ON public.business_categories
+  FOR DELETE
+  USING (public.admin_has_permission('catalog.manage'));
+
+DROP POLICY IF EXISTS "Only admins can create locations" ON public.locations;
+DROP POLICY IF EXISTS "Only admins can update locations" ON public.locations;
+DROP POLICY IF EXISTS "Only admins can delete locations" ON public.locations;
+
+CREATE POLICY "Catalog managers can create locations"
+  ON public.locations
+  FOR INSERT
+  WITH CHECK (public.admin_has_permission('catalog.manage'));
+
+CREATE POLICY "Catalog managers can update locations"
+  ON public.locations
+  FOR UPDATE
+  USING (public.admin_has_permission('catalog.manage'));
+
+CREATE POLICY "Catalog managers can delete locations"
+  ON public.locations
+  FOR DELETE
+  USING (public.admin_has_permission('catalog.manage'));
+
+DROP POLICY IF EXISTS "Only admins can create services" ON public.services;
+DROP POLICY IF EXISTS "Only admins can update services" ON public.services;
+DROP POLICY IF EXISTS "Only admins can delete services" ON public.services;
+
+CREATE POLICY "Catalog managers can create services"
+  ON public.services
+  FOR INSERT
+  WITH CHECK (public.admin_has_permission('catalog.manage'));
+
+CREATE POLICY "Catalog managers can update services"
+  ON public.services
+  FOR UPDATE
+  USING (public.admin_has_permission('catalog.manage'));
+
+CREATE POLICY "Catalog managers can delete services"
+  ON public.services
+  FOR DELETE
+  USING (public.admin_has_permission('catalog.manage'));
+
+-- Reports are dismissed through admin_dismiss_job_report so the action is audited
+DROP POLICY IF EXISTS "Only admins can view job reports" ON public.job_reports;
+DROP POLICY IF EXISTS "Only admins can delete job reports" ON public.job_reports;
+
+CREATE POLICY "Moderators can view job reports"
+  ON public.job_reports
+  FOR SELECT
+  TO authenticated
+  USING (public.admin_has_permission('content.moderate'));
+
+DROP POLICY IF EXISTS "Admins can update any job postings" ON public.job_postings;
+
+CREATE POLICY "Moderators can update any job postings"
+  ON public.job_postings
+  FOR UPDATE
+  TO authenticated
+  USING (public.admin_has_permission('content.moderate'))
+  WITH CHECK (public.admin_has_permission('content.moderate'));
+
+-- Removal goes through admin_remove_job_posting so it is audited; this keeps the table policy in line
+DROP POLICY IF EXISTS "Admins can delete any job postings" ON public.job_postings;
+
+CREATE POLICY "Moderators can delete any job postings"
+  ON public.job_postings
+  FOR DELETE
+  TO authenticated
+  USING (public.admin_has_permission('content.moderate'));
+
+-- The remaining policies that only checked for an admin_users row
+DROP POLICY IF EXISTS "Only admins can view login attempts" ON public.login_attempts;
+
+CREATE POLICY "User managers can view login attempts"
+  ON public.login_attempts
+  FOR SELECT
+  TO authenticated
+  USING (public.admin_has_permission('users.manage'));
+
+DROP POLICY IF EXISTS "Admins can view all profiles" ON public.profiles;
+
+CREATE POLICY "Admins can view all profiles"
+  ON public.profiles
+  FOR SELECT
+  TO authenticated
+  USING (public.admin_has_permission('users.view'));
+
+-- 4) Moderation actions
+CREATE OR REPLACE FUNCTION public.admin_dismiss_job_report(p_report_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  report record;
+BEGIN
+  IF NOT admin_has_permission('content.moderate') THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  DELETE FROM job_reports
+  WHERE id = p_report_id
+  RETURNING job_post_id, reason INTO report;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error_code', 'REPORT_NOT_FOUND');
+  END IF;
+
+  PERFORM log_admin_action(
+    'job_report.dismiss',
+    'job_posting',
+    report.job_post_id,
+    jsonb_build_object('report', report.reason)
+  );
+
+  RETURN json_build_object('success', true, 'report_id', p_report_id);
+END;
+$function$;
+
+-- Removing a job post also removes its reports (ON DELETE CASCADE)
+CREATE OR REPLACE FUNCTION public.admin_remove_job_posting(p_job_post_id uuid, p_reason text DEFAULT NULL)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  posting record;
+BEGIN
+  IF NOT admin_has_permission('content.moderate') THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  DELETE FROM job_postings
+  WHERE id = p_job_post_id
+  RETURNING job_title, business_name, user_id INTO posting;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error_code', 'JOB_POSTING_NOT_FOUND');
+  END IF;
+
+  PERFORM log_admin_action(
+    'job_posting.remove',
+    'job_posting',
+    p_job_post_id,
+    jsonb_build_object(
+      'job_title', posting.job_title,
+      'business_name', posting.business_name,
+      'user_id', posting.user_id,
+      'reason', nullif(btrim(p_reason), '')
+    )
+  );
+
+  RETURN json_build_object('success', true, 'job_post_id', p_job_post_id);
+END;
+$function$;
+
+-- Logged against the business so the removal shows in the listing's history
+CREATE OR REPLACE FUNCTION public.admin_delete_review(p_review_id uuid, p_reason text DEFAULT NULL)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  review record;
+BEGIN
+  IF NOT admin_has_permission('content.moderate') THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  DELETE FROM business_reviews
+  WHERE id = p_review_id
+  RETURNING business_id, user_id, rating, comment INTO review;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error_code', 'REVIEW_NOT_FOUND');
+  END IF;
+
+  PERFORM log_admin_action(
+    'review.delete',
+    'business',
+    review.business_id,
+    jsonb_build_object(
+      'user_id', review.user_id,
+      'rating', review.rating,
+      'comment', review.comment,
+      'reason', nullif(btrim(p_reason), '')
+    )
+  );
+
+  RETURN json_build_object('success', true, 'review_id', p_review_id);
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.admin_dismiss_job_report(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_remove_job_posting(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_delete_review(uuid, text) TO authenticated;
+
+-- 5) Existing admin RPCs check their permission instead of any admin role
+CREATE OR REPLACE FUNCTION public.admin_confirm_business_payment(business_id uuid, pos_website_option integer)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_date timestamptz := now();
+  new_listing_expired_date date;
+  new_odoo_expired_date timestamptz;
+  existing_receipt_url text;
+  existing_created_at timestamptz;
+  existing_listing_expired_date date;
+  existing_odoo_expired_date timestamptz;
+  existing_last_payment_date timestamptz;
+  listing_charge numeric := 0;
+  pos_website_charge numeric := 0;
+  update_data json;
+  receipt_file_path text;
+BEGIN
+  IF NOT admin_has_permission('payments.confirm') THEN
+    RAISE EXCEPTION 'Unauthorized: Your admin role cannot confirm payments';
+  END IF;
+
+  -- Get existing business data
+  SELECT receipt_url, created_at, listing_expired_date, odoo_expired_date, last_payment_date
+  INTO existing_receipt_url, existing_created_at, existing_listing_expired_date, existing_odoo_expired_date, existing_last_payment_date
+  FROM businesses
+  WHERE id = business_id;
+
+  -- Calculate new listing expired date based on created_at + 365 days
+  new_listing_expired_date := (existing_created_at + INTERVAL '365 days')::date;
+
+  -- Only update listing_expired_date if existing date is in the past
+  IF existing_listing_expired_date IS NOT NULL AND existing_listing_expired_date >= current_date::date THEN
+    new_listing_expired_date := existing_listing_expired_date;
+  ELSE
+    listing_charge := subscription_plan_price('listing');
+  END IF;
+
+  -- Prepare odoo expired date with new condition
+  IF pos_website_option = 1 THEN
+    pos_website_charge := subscription_plan_price('pos_website');
+
+    -- Only update odoo_expired_date if current date is >= existing odoo_expired_date (expired or NULL)
+    IF existing_odoo_expired_date IS NULL OR current_date >= existing_odoo_expired_date THEN
+      new_odoo_expired_date := current_date + INTERVAL '30 days';
+    ELSE
+      -- Keep existing odoo_expired_date if it's still valid (in the future)
+      new_odoo_expired_date := existing_odoo_expired_date;
+    END IF;
+  ELSE
+    new_odoo_expired_date := NULL;
+  END IF;
+
+  -- Delete receipt file from storage if it exists
+  IF existing_receipt_url IS NOT NULL THEN
+    IF existing_receipt_url ~ '/storage/v1/object/public/business-assets/' THEN
+      -- Not yet moved out of the public bucket
+      receipt_file_path := regexp_replace(existing_receipt_url, '.*\/storage\/v1\/object\/public\/business-assets\/', '');
+
+      DELETE FROM storage.objects
+      WHERE bucket_id = 'business-assets'
+      AND name = receipt_file_path;
+    ELSE
+      DELETE FROM storage.objects
+      WHERE bucket_id = 'payment-receipts'
+      AND name = existing_receipt_url;
+    END IF;
+  END IF;
+
+  -- Update the business record
+  UPDATE businesses
+  SET
+    payment_status = 'confirmed',
+    receipt_url = NULL,
+    last_payment_date = current_date,
+    listing_expired_date = new_listing_expired_date,
+    odoo_expired_date = new_odoo_expired_date
+  WHERE id = business_id;
+
+  -- Record the payment
+  INSERT INTO subscription_payments (business_id, listing_amount, pos_website_amount, confirmed_by_id, paid_at)
+  VALUES (
+    admin_confirm_business_payment.business_id,
+    listing_charge,
+    pos_website_charge,
+    auth.uid(),
+    coalesce(existing_last_payment_date, current_date)
+  );
+
+  -- Return success response
+  SELECT json_build_object(
+    'success', true,
+    'business_id', business_id,
+    'payment_status', 'confirmed',
+    'last_payment_date', current_date,
+    'listing_expired_date', new_listing_expired_date,
+    'odoo_expired_date', new_odoo_expired_date,
+    'amount', listing_charge + pos_website_charge,
+    'receipt_deleted', existing_receipt_url IS NOT NULL
+  ) INTO update_data;
+
+  RETURN update_data;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.admin_set_business_featured(p_business_id uuid, p_featured boolean)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  previous_featured integer;
+BEGIN
+  IF NOT admin_has_permission('listings.edit') THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  SELECT featured_business INTO previous_featured
+  FROM businesses
+  WHERE id = p_business_id AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error_code', 'BUSINESS_NOT_FOUND');
+  END IF;
+
+  UPDATE businesses
+  SET featured_business = CASE WHEN p_featured THEN 1 ELSE 0 END
+  WHERE id = p_business_id;
+
+  PERFORM log_admin_action(
+    CASE WHEN p_featured THEN 'business.feature' ELSE 'business.unfeature' END,
+    'business',
+    p_business_id,
+    jsonb_build_object(
+      'before', jsonb_build_object('featured_business', previous_featured),
+      'after', jsonb_build_object('featured_business', CASE WHEN p_featured THEN 1 ELSE 0 END)
+    )
+  );
+
+  RETURN json_build_object('success', true, 'business_id', p_business_id);
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.admin_update_business(p_business_id uuid, p_details jsonb)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  editable_keys text[] := ARRAY[
+    'name', 'category', 'description', 'phone', 'email', 'address',
+    'towns', 'province_district', 'website', 'facebook_page'
+  ];
+  previous_row jsonb;
+  changes jsonb;
+BEGIN
+  IF NOT admin_has_permission('listings.edit') THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  SELECT to_jsonb(b) INTO previous_row
+  FROM businesses b
+  WHERE b.id = p_business_id AND b.deleted_at IS NULL
+  FOR UPDATE;
+
+  IF previous_row IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'BUSINESS_NOT_FOUND');
+  END IF;
+
+  SELECT coalesce(jsonb_object_agg(key, value), '{}'::jsonb) INTO changes
+  FROM jsonb_each(coalesce(p_details, '{}'::jsonb))
+  WHERE key = ANY (editable_keys)
+  AND value IS DISTINCT FROM previous_row -> key;
+
+  IF changes ? 'name' AND coalesce(btrim(changes ->> 'name'), '') = '' THEN
+    RETURN json_build_object('success', false, 'error_code', 'INVALID_BUSINESS_DETAILS');
+  END IF;
+
+  IF changes = '{}'::jsonb THEN
+    RETURN json_build_object('success', true, 'business_id', p_business_id);
+  END IF;
+
+  UPDATE businesses
+  SET
+    name = CASE WHEN changes ? 'name' THEN btrim(changes ->> 'name') ELSE name END,
+    category = CASE WHEN changes ? 'category' THEN nullif(btrim(changes ->> 'category'), '') ELSE category END,
+    description = CASE WHEN changes ? 'description' THEN nullif(btrim(changes ->> 'description'), '') ELSE description END,
+    phone = CASE WHEN changes ? 'phone' THEN nullif(btrim(changes ->> 'phone'), '') ELSE phone END,
+    email = CASE WHEN changes ? 'email' THEN nullif(btrim(changes ->> 'email'), '') ELSE email END,
+    address = CASE WHEN changes ? 'address' THEN nullif(btrim(changes ->> 'address'), '') ELSE address END,
+    towns = CASE WHEN changes ? 'towns' THEN nullif(btrim(changes ->> 'towns'), '') ELSE towns END,
+    province_district = CASE WHEN changes ? 'province_district' THEN nullif(btrim(changes ->> 'province_district'), '') ELSE province_district END,
+    website = CASE WHEN changes ? 'website' THEN nullif(btrim(changes ->> 'website'), '') ELSE website END,
+    facebook_page = CASE WHEN changes ? 'facebook_page' THEN nullif(btrim(changes ->> 'facebook_page'), '') ELSE facebook_page END
+  WHERE id = p_business_id;
+
+  PERFORM log_admin_action(
+    'business.update',
+    'business',
+    p_business_id,
+    jsonb_build_object(
+      'before', (SELECT jsonb_object_agg(key, previous_row -> key) FROM jsonb_object_keys(changes) AS key),
+      'after', changes
+    )
+  );
+
+  RETURN json_build_object('success', true, 'business_id', p_business_id);
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.admin_extend_listing(p_business_id uuid, p_expires_on date)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  previous_expiry date;
+BEGIN
+  IF NOT admin_has_permission('listings.edit') THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  SELECT listing_expired_date INTO previous_expiry
+  FROM businesses
+  WHERE id = p_business_id AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error_code', 'BUSINESS_NOT_FOUND');
+  END IF;
+
+  IF p_expires_on IS NULL
+    OR p_expires_on < (now() AT TIME ZONE 'Asia/Yangon')::date
+    OR p_expires_on <= previous_expiry THEN
+    RETURN json_build_object('success', false, 'error_code', 'INVALID_EXPIRY_DATE');
+  END IF;
+
+  UPDATE businesses
+  SET listing_expired_date = p_expires_on
+  WHERE id = p_business_id;
+
+  PERFORM log_admin_action(
+    'business.extend',
+    'business',
+    p_business_id,
+    jsonb_build_object(
+      'before', jsonb_build_object('listing_expired_date', previous_expiry),
+      'after', jsonb_build_object('listing_expired_date', p_expires_on)
+    )
+  );
+
+  RETURN json_build_object('success', true, 'business_id', p_business_id, 'listing_expired_date', p_expires_on);
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.admin_delete_business(p_business_id uuid, p_reason text DEFAULT NULL)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  target businesses%ROWTYPE;
+BEGIN
+  IF NOT admin_has_permission('listings.edit') THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  SELECT * INTO target
+  FROM businesses
+  WHERE id = p_business_id AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error_code', 'BUSINESS_NOT_FOUND');
+  END IF;
+
+  UPDATE businesses
+  SET
+    deleted_at = now(),
+    deleted_by_id = auth.uid(),
+    searchable_business = false,
+    featured_business = 0
+  WHERE id = p_business_id;
+
+  PERFORM log_admin_action(
+    'business.delete',
+    'business',
+    p_business_id,
+    jsonb_build_object(
+      'name', target.name,
+      'reason', nullif(btrim(p_reason), ''),
+      'before', jsonb_build_object(
+        'searchable_business', target.searchable_business,
+        'featured_business', target.featured_business
+      )
+    )
+  );
+
+  RETURN json_build_object('success', true, 'business_id', p_business_id);
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.admin_set_user_suspended(p_user_id uuid, p_suspended boolean, p_reason text DEFAULT NULL)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'auth'
+AS $function$
+DECLARE
+  target_admin_role text;
+BEGIN
+  IF NOT admin_has_permission('users.manage') THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  IF p_user_id = auth.uid() THEN
+    RETURN json_build_object('success', false, 'error_code', 'CANNOT_CHANGE_OWN_ACCOUNT');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = p_user_id) THEN
+    RETURN json_build_object('success', false, 'error_code', 'USER_NOT_FOUND');
+  END IF;
+
+  SELECT admin_role INTO target_admin_role FROM admin_users WHERE user_id = p_user_id;
+  IF target_admin_role IS NOT NULL AND NOT admin_has_permission('admins.manage') THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  IF p_suspended AND coalesce(btrim(p_reason), '') = '' THEN
+    RETURN json_build_object('success', false, 'error_code', 'SUSPENSION_REASON_REQUIRED');
+  END IF;
+
+  PERFORM set_config('app.admin_action', 'on', true);
+
+  INSERT INTO profiles (user_id)
+  VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  UPDATE profiles
+  SET
+    suspended_at = CASE WHEN p_suspended THEN now() ELSE NULL END,
+    suspended_by_id = CASE WHEN p_suspended THEN auth.uid() ELSE NULL END,
+    suspension_reason = CASE WHEN p_suspended THEN btrim(p_reason) ELSE NULL END
+  WHERE user_id = p_user_id;
+
+  UPDATE auth.users
+  SET banned_until = CASE WHEN p_suspended THEN 'infinity'::timestamptz ELSE NULL END
+  WHERE id = p_user_id;
+
+  IF p_suspended THEN
+    DELETE FROM auth.sessions WHERE user_id = p_user_id;
+  END IF;
+
+  PERFORM set_config('app.admin_action', '', true);
+
+  PERFORM log_admin_action(
+    CASE WHEN p_suspended THEN 'user.suspend' ELSE 'user.unsuspend' END,
+    'user',
+    p_user_id,
+    jsonb_build_object('reason', nullif(btrim(p_reason), ''))
+  );
+
+  RETURN json_build_object('success', true, 'user_id', p_user_id);
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.admin_set_user_role(p_user_id uuid, p_role text)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'auth'
+AS $function$
+DECLARE
+  previous_role text;
+BEGIN
+  IF NOT admin_has_permission('users.manage') THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  IF p_role IS NULL OR p_role NOT IN ('user', 'business_owner') THEN
+    RETURN json_build_object('success', false, 'error_code', 'INVALID_ROLE');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = p_user_id) THEN
+    RETURN json_build_object('success', false, 'error_code', 'USER_NOT_FOUND');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM admin_users WHERE user_id = p_user_id) THEN
+    RETURN json_build_object('success', false, 'error_code', 'USER_IS_ADMIN');
+  END IF;
+
+  SELECT role INTO previous_role FROM profiles WHERE user_id = p_user_id;
+
+  INSERT INTO profiles (user_id, role)
+  VALUES (p_user_id, p_role)
+  ON CONFLICT (user_id) DO UPDATE SET role = EXCLUDED.role;
+
+  PERFORM log_admin_action(
+    'user.role',
+    'user',
+    p_user_id,
+    jsonb_build_object(
+      'before', jsonb_build_object('role', previous_role),
+      'after', jsonb_build_object('role', p_role)
+    )
+  );
+
+  RETURN json_build_object('success', true, 'user_id', p_user_id);
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.admin_set_admin_role(p_user_id uuid, p_admin_role text DEFAULT NULL)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'auth'
+AS $function$
+DECLARE
+  previous_admin_role text;
+BEGIN
+  IF NOT admin_has_permission('admins.manage') THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  IF p_user_id = auth.uid() THEN
+    RETURN json_build_object('success', false, 'error_code', 'CANNOT_CHANGE_OWN_ACCOUNT');
+  END IF;
+
+  IF p_admin_role IS NOT NULL AND admin_role_rank(p_admin_role) = 0 THEN
+    RETURN json_build_object('success', false, 'error_code', 'INVALID_ROLE');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = p_user_id) THEN
+    RETURN json_build_object('success', false, 'error_code', 'USER_NOT_FOUND');
+  END IF;
+
+  SELECT admin_role INTO previous_admin_role FROM admin_users WHERE user_id = p_user_id;
+
+  PERFORM set_config('app.admin_action', 'on', true);
+
+  IF p_admin_role IS NULL THEN
+    DELETE FROM admin_users WHERE user_id = p_user_id;
+    UPDATE profiles SET role = 'user' WHERE user_id = p_user_id AND role = 'admin';
+  ELSE
+    INSERT INTO admin_users (user_id, admin_role)
+    VALUES (p_user_id, p_admin_role)
+    ON CONFLICT (user_id) DO UPDATE SET admin_role = EXCLUDED.admin_role, updated_at = now();
+
+    INSERT INTO profiles (user_id, role)
+    VALUES (p_user_id, 'admin')
+    ON CONFLICT (user_id) DO UPDATE SET role = 'admin';
+  END IF;
+
+  PERFORM set_config('app.admin_action', '', true);
+
+  PERFORM log_admin_action(
+    CASE WHEN p_admin_role IS NULL THEN 'user.revoke_admin' ELSE 'user.grant_admin' END,
+    'user',
+    p_user_id,
+    jsonb_build_object(
+      'before', jsonb_build_object('admin_role', previous_admin_role),
+      'after', jsonb_build_object('admin_role', p_admin_role)
+    )
+  );
+
+  RETURN json_build_object('success', true, 'user_id', p_user_id);
+END;
+$function$;
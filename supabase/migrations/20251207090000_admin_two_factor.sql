@@ -0,0 +1,694 @@
+-- TOTP two-factor authentication for admins.
+-- Every admin enrolls an authenticator app (RFC 6238: SHA-1, 6 digits, 30 second steps) and ten
+-- single-use backup codes, and every admin sign-in has to pass a TOTP or backup code challenge.
+-- The challenge is recorded against the Supabase auth session (the session_id claim of the JWT),
+-- and get_current_admin_role only returns a role for a verified session, so admin_has_permission,
+-- the admin RLS policies and the admin RPCs all refuse a session that has only passed the password.
+-- A policy that checked admin_users directly would skip that gate, so the migration refuses to run
+-- while one is left (the last ones, on profiles, login_attempts and job_postings, moved onto
+-- admin_has_permission with the permission matrix).
+-- Secrets and backup code hashes live in tables with RLS and no policies: only the SECURITY DEFINER
+-- functions below read them, so they never reach the browser after enrollment.
+-- A super admin can reset another admin's 2FA; that admin enrolls again on their next sign-in.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- 1) Secrets, backup codes and verified sessions
+CREATE TABLE IF NOT EXISTS public.admin_two_factor (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  secret TEXT,
+  pending_secret TEXT,
+  enabled_at TIMESTAMPTZ,
+  last_used_counter BIGINT,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.admin_two_factor.secret IS 'Base32 TOTP secret of the confirmed authenticator.';
+COMMENT ON COLUMN public.admin_two_factor.pending_secret IS 'Secret shown during enrollment, moved to secret once a code from it is confirmed.';
+COMMENT ON COLUMN public.admin_two_factor.last_used_counter IS 'Time step of the last accepted code, so a code cannot be replayed.';
+COMMENT ON COLUMN public.admin_two_factor.locked_until IS 'Set after 5 wrong codes in a row; challenges are refused until then.';
+
+ALTER TABLE public.admin_two_factor ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS public.admin_two_factor_backup_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_two_factor_backup_codes_user ON public.admin_two_factor_backup_codes(user_id);
+
+ALTER TABLE public.admin_two_factor_backup_codes ENABLE ROW LEVEL SECURITY;
+
+-- Rows go away with the auth session, so signing out (or an admin suspension) ends the verification
+CREATE TABLE IF NOT EXISTS public.admin_two_factor_sessions (
+  session_id UUID PRIMARY KEY REFERENCES auth.sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  method TEXT NOT NULL CHECK (method IN ('enrollment', 'totp', 'backup_code')),
+  verified_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_two_factor_sessions_user ON public.admin_two_factor_sessions(user_id);
+
+ALTER TABLE public.admin_two_factor_sessions ENABLE ROW LEVEL SECURITY;
+
+-- The old column was readable by the admin through their own-row policy and was never used
+ALTER TABLE public.admin_users DROP COLUMN IF EXISTS two_factor_secret;
+
+UPDATE public.admin_users SET two_factor_enabled = false WHERE two_factor_enabled IS DISTINCT FROM false;
+
+ALTER TABLE public.admin_users ALTER COLUMN two_factor_enabled SET DEFAULT false;
+
+-- The placeholder accepted every token
+DROP FUNCTION IF EXISTS public.verify_totp_token(text, text);
+
+-- 2) two_factor_enabled is only changed by the functions below
+CREATE OR REPLACE FUNCTION public.guard_admin_role_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF auth.uid() IS NULL OR coalesce(current_setting('app.admin_action', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    RAISE EXCEPTION 'Admin accounts can only be granted by a super admin';
+  END IF;
+
+  IF NEW.admin_role IS DISTINCT FROM OLD.admin_role THEN
+    RAISE EXCEPTION 'admin_role can only be changed by a super admin';
+  END IF;
+
+  IF NEW.two_factor_enabled IS DISTINCT FROM OLD.two_factor_enabled THEN
+    RAISE EXCEPTION 'two_factor_enabled can only be changed through two-factor enrollment';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+-- 3) TOTP helpers
+CREATE OR REPLACE FUNCTION public.totp_base32_encode(p_bytes bytea)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  alphabet constant text := 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+  buffer integer := 0;
+  bits integer := 0;
+  result text := '';
+BEGIN
+  FOR i IN 0 .. length(p_bytes) - 1 LOOP
+    buffer := (buffer << 8) | get_byte(p_bytes, i);
+    bits := bits + 8;
+    WHILE bits >= 5 LOOP
+      bits := bits - 5;
+      result := result || substr(alphabet, ((buffer >> bits) & 31) + 1, 1);
+    END LOOP;
+    buffer := buffer & ((1 << bits) - 1);
+  END LOOP;
+
+  IF bits > 0 THEN
+    result := result || substr(alphabet, ((buffer << (5 - bits)) & 31) + 1, 1);
+  END IF;
+
+  RETURN result;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.totp_base32_decode(p_text text)
+RETURNS bytea
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  alphabet constant text := 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+  cleaned text := upper(regexp_replace(p_text, '[\s=]', '', 'g'));
+  buffer integer := 0;
+  bits integer := 0;
+  value integer;
+  result bytea := ''::bytea;
+BEGIN
+  FOR i IN 1 .. length(cleaned) LOOP
+    value := position(substr(cleaned, i, 1) IN alphabet) - 1;
+    IF value < 0 THEN
+      RAISE EXCEPTION 'Invalid base32 character in TOTP secret';
+    END IF;
+
+    buffer := (buffer << 5) | value;
+    bits := bits + 5;
+    IF bits >= 8 THEN
+      bits := bits - 8;
+      result := result || set_byte('\x00'::bytea, 0, (buffer >> bits) & 255);
+      buffer := buffer & ((1 << bits) - 1);
+    END IF;
+  END LOOP;
+
+  RETURN result;
+END;
+$function$;
+
+-- RFC 4226 code for one time step
+CREATE OR REPLACE FUNCTION public.totp_code(p_secret text, p_counter bigint)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path TO 'public', 'extensions'
+AS $function$
+DECLARE
+  mac bytea := hmac(int8send(p_counter), totp_base32_decode(p_secret), 'sha1');
+  code_offset integer := get_byte(mac, 19) & 15;
+  truncated integer;
+BEGIN
+  truncated := ((get_byte(mac, code_offset) & 127) << 24)
+    | (get_byte(mac, code_offset + 1) << 16)
+    | (get_byte(mac, code_offset + 2) << 8)
+    | get_byte(mac, code_offset + 3);
+
+  RETURN lpad((truncated % 1000000)::text, 6, '0');
+END;
+$function$;
+
+-- Time step the token belongs to (one step either side allows for clock drift), or NULL when it
+-- does not match or was already used at or after that step.
+CREATE OR REPLACE FUNCTION public.totp_match(p_secret text, p_token text, p_last_counter bigint)
+RETURNS bigint
+LANGUAGE plpgsql
+STABLE
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  token text := regexp_replace(coalesce(p_token, ''), '\s', '', 'g');
+  current_counter bigint := floor(extract(epoch FROM now()) / 30)::bigint;
+BEGIN
+  IF p_secret IS NULL OR token !~ '^[0-9]{6}$' THEN
+    RETURN NULL;
+  END IF;
+
+  FOR step IN -1 .. 1 LOOP
+    IF (p_last_counter IS NULL OR current_counter + step > p_last_counter)
+       AND totp_code(p_secret, current_counter + step) = token THEN
+      RETURN current_counter + step;
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.admin_backup_code_hash(p_code text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public', 'extensions'
+AS $function$
+  SELECT encode(digest(lower(regexp_replace(coalesce(p_code, ''), '[^0-9a-zA-Z]', '', 'g')), 'sha256'), 'hex');
+$function$;
+
+-- Replaces the caller's backup codes and returns the new ones in plain text (xxxxx-xxxxx)
+CREATE OR REPLACE FUNCTION public.admin_issue_backup_codes(p_user_id uuid)
+RETURNS text[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'extensions'
+AS $function$
+DECLARE
+  raw_code text;
+  codes text[] := ARRAY[]::text[];
+BEGIN
+  DELETE FROM admin_two_factor_backup_codes WHERE user_id = p_user_id;
+
+  FOR i IN 1 .. 10 LOOP
+    raw_code := encode(gen_random_bytes(5), 'hex');
+    codes := codes || (substr(raw_code, 1, 5) || '-' || substr(raw_code, 6, 5));
+    INSERT INTO admin_two_factor_backup_codes (user_id, code_hash)
+    VALUES (p_user_id, admin_backup_code_hash(raw_code));
+  END LOOP;
+
+  RETURN codes;
+END;
+$function$;
+
+-- Counts a wrong code and locks challenges for 15 minutes after the fifth in a row
+CREATE OR REPLACE FUNCTION public.admin_two_factor_failed(p_user_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  UPDATE admin_two_factor
+  SET failed_attempts = CASE WHEN failed_attempts + 1 >= 5 THEN 0 ELSE failed_attempts + 1 END,
+      locked_until = CASE WHEN failed_attempts + 1 >= 5 THEN now() + INTERVAL '15 minutes' ELSE locked_until END,
+      updated_at = now()
+  WHERE user_id = p_user_id;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.admin_two_factor_verified(p_user_id uuid, p_method text)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  INSERT INTO admin_two_factor_sessions (session_id, user_id, method)
+  VALUES ((auth.jwt() ->> 'session_id')::uuid, p_user_id, p_method)
+  ON CONFLICT (session_id) DO UPDATE SET method = EXCLUDED.method, verified_at = now();
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.totp_base32_encode(bytea) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.totp_base32_decode(text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.totp_code(text, bigint) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.totp_match(text, text, bigint) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.admin_backup_code_hash(text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.admin_issue_backup_codes(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.admin_two_factor_failed(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.admin_two_factor_verified(uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- 4) An admin role only counts once this session has passed the second factor
+CREATE OR REPLACE FUNCTION public.get_current_admin_role()
+RETURNS admin_role AS $$
+  SELECT au.admin_role
+  FROM public.admin_users au
+  JOIN public.admin_two_factor_sessions s
+    ON s.user_id = au.user_id
+   AND s.session_id = nullif(auth.jwt() ->> 'session_id', '')::uuid
+  WHERE au.user_id = auth.uid()
+    AND au.two_factor_enabled;
+$$ LANGUAGE SQL SECURITY DEFINER STABLE SET search_path = public;
+
+-- The legacy admin_login_attempts table (replaced by login_attempts) still had a direct check
+DO $$
+BEGIN
+  IF to_regclass('public.admin_login_attempts') IS NOT NULL THEN
+    DROP POLICY IF EXISTS "Super admins can view login attempts" ON public.admin_login_attempts;
+    CREATE POLICY "Super admins can view login attempts"
+      ON public.admin_login_attempts
+      FOR SELECT
+      USING (public.get_current_admin_role() = 'super_admin');
+  END IF;
+END;
+$$;
+
+-- Every other admin check has to go through get_current_admin_role. Own-row policies compare
+-- user_id with auth.uid() and do not mention admin_users; the legacy admin_sessions policy only
+-- maps the caller to their own admin_users row.
+DO $$
+DECLARE
+  ungated_policies text;
+BEGIN
+  SELECT string_agg(format('"%s" on %s.%s', policyname, schemaname, tablename), ', ')
+  INTO ungated_policies
+  FROM pg_policies
+  WHERE coalesce(qual, '') || ' ' || coalesce(with_check, '') ~ 'admin_users'
+    AND NOT (schemaname = 'public' AND tablename = 'admin_sessions');
+
+  IF ungated_policies IS NOT NULL THEN
+    RAISE EXCEPTION 'Policies still check admin_users directly and would skip two-factor authentication: %', ungated_policies;
+  END IF;
+END;
+$$;
+
+-- 5) Where the signed-in admin stands: enrolled, verified in this session, codes left
+CREATE OR REPLACE FUNCTION public.admin_two_factor_status()
+RETURNS json
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+  is_enabled boolean;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  SELECT coalesce(two_factor_enabled, false) INTO is_enabled FROM admin_users WHERE user_id = current_user_id;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'enabled', is_enabled,
+    'verified', is_enabled AND EXISTS (
+      SELECT 1 FROM admin_two_factor_sessions
+      WHERE user_id = current_user_id
+        AND session_id = nullif(auth.jwt() ->> 'session_id', '')::uuid
+    ),
+    'backup_codes_remaining', (
+      SELECT count(*) FROM admin_two_factor_backup_codes
+      WHERE user_id = current_user_id AND used_at IS NULL
+    )
+  );
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.admin_two_factor_status() TO authenticated;
+
+-- 6) Enrollment: a new secret for the authenticator app, kept pending until a code is confirmed
+CREATE OR REPLACE FUNCTION public.admin_begin_two_factor_enrollment()
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'auth', 'extensions'
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+  is_enabled boolean;
+  account_email text;
+  new_secret text := totp_base32_encode(gen_random_bytes(20));
+BEGIN
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  SELECT coalesce(two_factor_enabled, false) INTO is_enabled FROM admin_users WHERE user_id = current_user_id;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  IF is_enabled THEN
+    RETURN json_build_object('success', false, 'error_code', 'TWO_FACTOR_ALREADY_ENABLED');
+  END IF;
+
+  SELECT email INTO account_email FROM auth.users WHERE id = current_user_id;
+
+  INSERT INTO admin_two_factor (user_id, pending_secret)
+  VALUES (current_user_id, new_secret)
+  ON CONFLICT (user_id) DO UPDATE
+    SET pending_secret = EXCLUDED.pending_secret, updated_at = now();
+
+  RETURN json_build_object(
+    'success', true,
+    'secret', new_secret,
+    'otpauth_url', 'otpauth://totp/YaYou%20Admin:' || replace(coalesce(account_email, current_user_id::text), '@', '%40')
+      || '?secret=' || new_secret || '&issuer=YaYou%20Admin&algorithm=SHA1&digits=6&period=30'
+  );
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.admin_begin_two_factor_enrollment() TO authenticated;
+
+-- The first code from the app turns 2FA on, verifies this session and returns the backup codes once
+CREATE OR REPLACE FUNCTION public.admin_confirm_two_factor_enrollment(p_token text)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+  enrollment record;
+  matched_counter bigint;
+  backup_codes text[];
+BEGIN
+  IF current_user_id IS NULL OR nullif(auth.jwt() ->> 'session_id', '') IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM admin_users WHERE user_id = current_user_id) THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM admin_users WHERE user_id = current_user_id AND two_factor_enabled) THEN
+    RETURN json_build_object('success', false, 'error_code', 'TWO_FACTOR_ALREADY_ENABLED');
+  END IF;
+
+  SELECT pending_secret, locked_until INTO enrollment
+  FROM admin_two_factor
+  WHERE user_id = current_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR enrollment.pending_secret IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'TWO_FACTOR_NOT_ENROLLED');
+  END IF;
+
+  IF enrollment.locked_until > now() THEN
+    RETURN json_build_object('success', false, 'error_code', 'TOO_MANY_ATTEMPTS');
+  END IF;
+
+  matched_counter := totp_match(enrollment.pending_secret, p_token, NULL);
+
+  IF matched_counter IS NULL THEN
+    PERFORM admin_two_factor_failed(current_user_id);
+    RETURN json_build_object('success', false, 'error_code', 'INVALID_TOTP_CODE');
+  END IF;
+
+  UPDATE admin_two_factor
+  SET secret = pending_secret,
+      pending_secret = NULL,
+      enabled_at = now(),
+      last_used_counter = matched_counter,
+      failed_attempts = 0,
+      locked_until = NULL,
+      updated_at = now()
+  WHERE user_id = current_user_id;
+
+  PERFORM set_config('app.admin_action', 'on', true);
+  UPDATE admin_users SET two_factor_enabled = true, updated_at = now() WHERE user_id = current_user_id;
+  PERFORM set_config('app.admin_action', '', true);
+
+  backup_codes := admin_issue_backup_codes(current_user_id);
+  PERFORM admin_two_factor_verified(current_user_id, 'enrollment');
+
+  RETURN json_build_object('success', true, 'backup_codes', backup_codes);
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.admin_confirm_two_factor_enrollment(text) TO authenticated;
+
+-- 7) Sign-in challenge with a code from the app
+CREATE OR REPLACE FUNCTION public.admin_verify_two_factor(p_token text)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+  factor record;
+  matched_counter bigint;
+BEGIN
+  IF current_user_id IS NULL OR nullif(auth.jwt() ->> 'session_id', '') IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM admin_users WHERE user_id = current_user_id) THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  SELECT tf.secret, tf.last_used_counter, tf.locked_until INTO factor
+  FROM admin_two_factor tf
+  JOIN admin_users au ON au.user_id = tf.user_id AND au.two_factor_enabled
+  WHERE tf.user_id = current_user_id
+  FOR UPDATE OF tf;
+
+  IF NOT FOUND OR factor.secret IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'TWO_FACTOR_NOT_ENROLLED');
+  END IF;
+
+  IF factor.locked_until > now() THEN
+    RETURN json_build_object('success', false, 'error_code', 'TOO_MANY_ATTEMPTS');
+  END IF;
+
+  matched_counter := totp_match(factor.secret, p_token, factor.last_used_counter);
+
+  IF matched_counter IS NULL THEN
+    PERFORM admin_two_factor_failed(current_user_id);
+    RETURN json_build_object('success', false, 'error_code', 'INVALID_TOTP_CODE');
+  END IF;
+
+  UPDATE admin_two_factor
+  SET last_used_counter = matched_counter, failed_attempts = 0, locked_until = NULL, updated_at = now()
+  WHERE user_id = current_user_id;
+
+  PERFORM admin_two_factor_verified(current_user_id, 'totp');
+
+  RETURN json_build_object('success', true);
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.admin_verify_two_factor(text) TO authenticated;
+
+-- 8) Recovery: a backup code passes the challenge once
+CREATE OR REPLACE FUNCTION public.admin_verify_backup_code(p_code text)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+  factor record;
+  used_code_id uuid;
+BEGIN
+  IF current_user_id IS NULL OR nullif(auth.jwt() ->> 'session_id', '') IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM admin_users WHERE user_id = current_user_id) THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  SELECT tf.locked_until INTO factor
+  FROM admin_two_factor tf
+  JOIN admin_users au ON au.user_id = tf.user_id AND au.two_factor_enabled
+  WHERE tf.user_id = current_user_id
+  FOR UPDATE OF tf;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error_code', 'TWO_FACTOR_NOT_ENROLLED');
+  END IF;
+
+  IF factor.locked_until > now() THEN
+    RETURN json_build_object('success', false, 'error_code', 'TOO_MANY_ATTEMPTS');
+  END IF;
+
+  UPDATE admin_two_factor_backup_codes
+  SET used_at = now()
+  WHERE id = (
+    SELECT id FROM admin_two_factor_backup_codes
+    WHERE user_id = current_user_id
+      AND used_at IS NULL
+      AND code_hash = admin_backup_code_hash(p_code)
+    LIMIT 1
+  )
+  RETURNING id INTO used_code_id;
+
+  IF used_code_id IS NULL THEN
+    PERFORM admin_two_factor_failed(current_user_id);
+    RETURN json_build_object('success', false, 'error_code', 'INVALID_BACKUP_CODE');
+  END IF;
+
+  UPDATE admin_two_factor
+  SET failed_attempts = 0, locked_until = NULL, updated_at = now()
+  WHERE user_id = current_user_id;
+
+  PERFORM admin_two_factor_verified(current_user_id, 'backup_code');
+
+  RETURN json_build_object(
+    'success', true,
+    'backup_codes_remaining', (
+      SELECT count(*) FROM admin_two_factor_backup_codes
+      WHERE user_id = current_user_id AND used_at IS NULL
+    )
+  );
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.admin_verify_backup_code(text) TO authenticated;
+
+-- New backup codes need a verified session and a current code from the app
+CREATE OR REPLACE FUNCTION public.admin_regenerate_backup_codes(p_token text)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+  factor record;
+  matched_counter bigint;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  IF get_current_admin_role() IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  SELECT secret, last_used_counter, locked_until INTO factor
+  FROM admin_two_factor
+  WHERE user_id = current_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR factor.secret IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'TWO_FACTOR_NOT_ENROLLED');
+  END IF;
+
+  IF factor.locked_until > now() THEN
+    RETURN json_build_object('success', false, 'error_code', 'TOO_MANY_ATTEMPTS');
+  END IF;
+
+  matched_counter := totp_match(factor.secret, p_token, factor.last_used_counter);
+
+  IF matched_counter IS NULL THEN
+    PERFORM admin_two_factor_failed(current_user_id);
+    RETURN json_build_object('success', false, 'error_code', 'INVALID_TOTP_CODE');
+  END IF;
+
+  UPDATE admin_two_factor
+  SET last_used_counter = matched_counter, failed_attempts = 0, locked_until = NULL, updated_at = now()
+  WHERE user_id = current_user_id;
+
+  RETURN json_build_object('success', true, 'backup_codes', admin_issue_backup_codes(current_user_id));
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.admin_regenerate_backup_codes(text) TO authenticated;
+
+-- 9) Super admins reset another admin's 2FA (lost device and no backup codes left)
+CREATE OR REPLACE FUNCTION public.admin_reset_two_factor(p_user_id uuid, p_reason text DEFAULT NULL)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  was_enabled boolean;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED');
+  END IF;
+
+  IF NOT admin_has_permission('admins.manage') THEN
+    RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED');
+  END IF;
+
+  IF p_user_id = auth.uid() THEN
+    RETURN json_build_object('success', false, 'error_code', 'CANNOT_CHANGE_OWN_ACCOUNT');
+  END IF;
+
+  SELECT coalesce(two_factor_enabled, false) INTO was_enabled FROM admin_users WHERE user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error_code', 'USER_NOT_FOUND');
+  END IF;
+
+  PERFORM set_config('app.admin_action', 'on', true);
+  UPDATE admin_users SET two_factor_enabled = false, updated_at = now() WHERE user_id = p_user_id;
+  PERFORM set_config('app.admin_action', '', true);
+
+  DELETE FROM admin_two_factor WHERE user_id = p_user_id;
+  DELETE FROM admin_two_factor_backup_codes WHERE user_id = p_user_id;
+  DELETE FROM admin_two_factor_sessions WHERE user_id = p_user_id;
+
+  PERFORM log_admin_action(
+    'user.reset_2fa',
+    'user',
+    p_user_id,
+    jsonb_build_object(
+      'before', jsonb_build_object('two_factor_enabled', was_enabled),
+      'after', jsonb_build_object('two_factor_enabled', false),
+      'reason', nullif(btrim(p_reason), '')
+    )
+  );
+
+  RETURN json_build_object('success', true, 'user_id', p_user_id);
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.admin_reset_two_factor(uuid, text) TO authenticated;